@@ -1,17 +1,22 @@
-import 'dotenv/config';
-import { app, BrowserWindow, Tray, Menu, nativeImage } from 'electron';
+import { app, BrowserWindow, Tray, Menu, nativeImage, dialog } from 'electron';
 import fs from 'fs';
 import path from 'node:path';
 import started from 'electron-squirrel-startup';
 import { setupAllIpcHandlers } from './main/ipc';
 import { floatingWindow } from './main/windows';
-import { pushToTalkService } from './main/services';
+import { pushToTalkService, audioDeviceService, settingsService, onCorruptStoreFile } from './main/services';
+import type { CorruptStoreFile } from './main/services';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (started) {
   app.quit();
 }
 
+// Load saved settings into process.env before any service reads them.
+// On first launch they are imported from the environment and a .env file;
+// afterwards the .env file is no longer read.
+settingsService.initialize();
+
 // Setup IPC handlers before app is ready
 setupAllIpcHandlers();
 
@@ -20,6 +25,64 @@ let mainWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
 let isQuitting = false;
 
+/**
+ * Build the tray context menu.
+ * Rebuilt whenever the microphone list or selection changes.
+ */
+function buildTrayMenu(): Menu {
+  const { devices, selectedDeviceId } = audioDeviceService.getState();
+
+  return Menu.buildFromTemplate([
+    {
+      label: 'Open Window',
+      click: () => {
+        if (mainWindow) {
+          mainWindow.show();
+          mainWindow.focus();
+        }
+      }
+    },
+    {
+      label: 'Undo Last Dictation',
+      click: () => {
+        pushToTalkService.undoLastDictation().catch((error) => {
+          console.error('Failed to undo dictation:', error);
+        });
+      }
+    },
+    {
+      label: 'Microphone',
+      submenu: [
+        {
+          label: 'System Default',
+          type: 'radio',
+          checked: !devices.some(device => device.deviceId === selectedDeviceId),
+          click: () => audioDeviceService.selectInputDevice('')
+        },
+        ...devices.map((device, index) => ({
+          label: device.label || `Microphone ${index + 1}`,
+          type: 'radio' as const,
+          checked: device.deviceId === selectedDeviceId,
+          click: () => audioDeviceService.selectInputDevice(device.deviceId)
+        }))
+      ]
+    },
+    { type: 'separator' },
+    {
+      label: 'Quit',
+      click: () => {
+        console.log('Quit menu item clicked. Setting isQuitting = true');
+        // Set quitting flag to allow window to close
+        isQuitting = true;
+        // Clean up resources before quitting
+        cleanup();
+        console.log('Calling app.quit()');
+        app.quit();
+      }
+    }
+  ]);
+}
+
 /**
  * Setup system tray with icon and context menu
  */
@@ -139,32 +202,13 @@ function setupTray(): void {
 
   tray = new Tray(trayIcon);
 
-  const contextMenu = Menu.buildFromTemplate([
-    {
-      label: 'Open Window',
-      click: () => {
-        if (mainWindow) {
-          mainWindow.show();
-          mainWindow.focus();
-        }
-      }
-    },
-    {
-      label: 'Quit',
-      click: () => {
-        console.log('Quit menu item clicked. Setting isQuitting = true');
-        // Set quitting flag to allow window to close
-        isQuitting = true;
-        // Clean up resources before quitting
-        cleanup();
-        console.log('Calling app.quit()');
-        app.quit();
-      }
-    }
-  ]);
-
   tray.setToolTip('Voice Typing Assistant');
-  tray.setContextMenu(contextMenu);
+  tray.setContextMenu(buildTrayMenu());
+
+  // Keep the microphone submenu in sync with devices reported by the renderer
+  audioDeviceService.on('changed', () => {
+    tray?.setContextMenu(buildTrayMenu());
+  });
 
   // On Windows, click on tray icon should show/hide window
   // On macOS, click on tray icon shows the context menu
@@ -187,6 +231,28 @@ function setupTray(): void {
 }
 }
 
+/**
+ * Tell the user that a settings file was unreadable and has been reset.
+ */
+function showCorruptStoreWarning(file: CorruptStoreFile): void {
+  const detail = file.backupPath
+    ? `原文件已备份为：\n${file.backupPath}`
+    : '原文件无法备份，下次保存时将被覆盖。';
+  const options: Electron.MessageBoxOptions = {
+    type: 'warning',
+    title: '配置文件已损坏',
+    message: `${file.fileName} 无法读取，已恢复为默认值。`,
+    detail: `${detail}\n\n错误：${file.error}`,
+  };
+
+  const result = mainWindow
+    ? dialog.showMessageBox(mainWindow, options)
+    : dialog.showMessageBox(options);
+  result.catch((error) => {
+    console.error('Failed to show corrupt store warning:', error);
+  });
+}
+
 const createWindow = async () => {
   console.error('=== createWindow called ===');
   // Create the browser window.
@@ -287,6 +353,9 @@ const createWindow = async () => {
   // Show main window now that it's loaded
   mainWindow.show();
 
+  // Report store files that were unreadable, including ones found before now
+  onCorruptStoreFile(showCorruptStoreWarning);
+
   // Enable DevTools for debugging (disabled as requested)
   // if (process.env.NODE_ENV === 'development') {
   //   mainWindow.webContents.openDevTools();
@@ -323,6 +392,9 @@ const createWindow = async () => {
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
 app.on('ready', () => {
+  // Secrets can only be decrypted once the app is ready
+  settingsService.unlockSecrets();
+
   createWindow().catch((error) => {
     console.error('Failed to create window:', error);
     app.quit();
@@ -0,0 +1,39 @@
+/**
+ * App rule IPC handlers.
+ * Connects the Settings app rules tab to the app rule service.
+ */
+
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import { appRuleService } from '../services/app-rule';
+import type { AppRule, AppRuleSaveResult } from '../../shared/types/app-rule';
+
+const logger = log.scope('app-rule-handler');
+
+/**
+ * Setup application rule IPC handlers.
+ */
+export function setupAppRuleHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.APP_RULES.LIST, async (): Promise<AppRule[]> => {
+    return appRuleService.list();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.APP_RULES.SAVE,
+    async (_event, rules: AppRule[]): Promise<AppRuleSaveResult> => {
+      logger.info('Saving app rules', { count: rules.length });
+      try {
+        return { success: true, rules: appRuleService.save(rules) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('App rules rejected', { error: message });
+        return { success: false, error: message };
+      }
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.APP_RULES.RECENT_APPS, async (): Promise<string[]> => {
+    return appRuleService.recentApps();
+  });
+}
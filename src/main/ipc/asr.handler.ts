@@ -7,8 +7,16 @@ import { ipcMain, BrowserWindow } from 'electron';
 import log from 'electron-log';
 import { IPC_CHANNELS } from '../../shared/constants/channels';
 import { asrService } from '../services/asr/asr.service';
-import { startASR, stopASR } from '../services/asr/procedures';
-import type { ASRConfig } from '../../shared/types/asr';
+import { startASR, stopASR, testASRConnection } from '../services/asr/procedures';
+import { toASRErrorInfo } from '../services/asr/lib/errors';
+import { recordingArchiveService } from '../services/recording-archive';
+import { pushToTalkService } from '../services/push-to-talk';
+import { settingsService } from '../services/settings';
+import type {
+  ASRConfig,
+  ASRConnectionTestRequest,
+  ASRConnectionTestResult,
+} from '../../shared/types/asr';
 
 const logger = log.scope('asr-handler');
 
@@ -50,6 +58,21 @@ export function setupASRHandlers(): void {
     return stopASR();
   });
 
+  // Handle connection test with the credentials shown in settings
+  ipcMain.handle(
+    IPC_CHANNELS.ASR.TEST_CONNECTION,
+    async (_event, request: ASRConnectionTestRequest): Promise<ASRConnectionTestResult> => {
+      logger.info('Received ASR connection test request');
+      try {
+        const accessToken = settingsService.resolveSecret('VOLCENGINE_ACCESS_TOKEN', request.accessToken);
+        return testASRConnection({ ...request, accessToken });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { success: false, error: `Access Token：${message}`, hints: [] };
+      }
+    }
+  );
+
   // Handle incoming audio data from renderer
   let audioChunkCount = 0;
   ipcMain.on(IPC_CHANNELS.ASR.SEND_AUDIO, (_event, chunk: ArrayBuffer) => {
@@ -60,9 +83,28 @@ export function setupASRHandlers(): void {
         size: chunk.byteLength,
       });
     }
+
+    // While an archived recording is replayed, it is the only audio source
+    if (recordingArchiveService.isReplaying) {
+      return;
+    }
+
+    recordingArchiveService.appendAudio(chunk);
     asrService.processAudioChunk(chunk);
   });
 
+  // Handle silence-based auto-stop from the renderer's voice activity gate
+  ipcMain.on(IPC_CHANNELS.ASR.AUTO_STOP, () => {
+    pushToTalkService.stopOnSilence().catch((error) => {
+      logger.error('Auto-stop failed', { error });
+    });
+  });
+
+  // The renderer has sent its last audio chunk; the session may finish
+  ipcMain.on(IPC_CHANNELS.ASR.RECORDING_STOPPED, () => {
+    pushToTalkService.handleRecordingStopped();
+  });
+
   // Forward service events to renderer
   setupServiceEventForwarding();
 }
@@ -86,7 +128,7 @@ function setupServiceEventForwarding(): void {
 
   // Forward errors to all windows
   asrService.on('error', (error) => {
-    broadcastToAllWindows(IPC_CHANNELS.ASR.ERROR, error.message);
+    broadcastToAllWindows(IPC_CHANNELS.ASR.ERROR, toASRErrorInfo(error));
   });
 
   logger.info('ASR service event forwarding configured');
@@ -0,0 +1,35 @@
+/**
+ * Audio IPC handlers.
+ * Syncs the microphone list and preference between the renderer and tray.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import { audioDeviceService } from '../services/audio-device';
+import type { AudioInputDevice, AudioInputDeviceState } from '../../shared/types/audio';
+
+/**
+ * Setup audio IPC handlers.
+ */
+export function setupAudioHandlers(): void {
+  ipcMain.on(IPC_CHANNELS.AUDIO.REPORT_DEVICES, (_event, devices: AudioInputDevice[]) => {
+    audioDeviceService.updateDevices(devices);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.AUDIO.GET_DEVICES, async (): Promise<AudioInputDeviceState> => {
+    return audioDeviceService.getState();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.AUDIO.SET_INPUT_DEVICE, async (_event, deviceId: string): Promise<void> => {
+    audioDeviceService.selectInputDevice(deviceId);
+  });
+
+  // Selections made from the tray must reach the recorder and the Settings page
+  audioDeviceService.on('changed', (state) => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      if (!window.isDestroyed()) {
+        window.webContents.send(IPC_CHANNELS.AUDIO.DEVICES_CHANGED, state);
+      }
+    }
+  });
+}
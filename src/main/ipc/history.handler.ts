@@ -0,0 +1,50 @@
+/**
+ * History IPC handlers.
+ * Lists, copies, re-inserts and deletes past dictation sessions.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import { historyService, copyHistoryEntry, reinsertHistoryEntry } from '../services/history';
+import type { HistoryActionResult, HistoryEntry } from '../../shared/types/history';
+
+const logger = log.scope('history-handler');
+
+/**
+ * Setup history IPC handlers.
+ */
+export function setupHistoryHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.HISTORY.LIST, async (_event, query?: string): Promise<HistoryEntry[]> => {
+    return historyService.list(query);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.HISTORY.DELETE, async (_event, id: string): Promise<void> => {
+    logger.info('Deleting history entry', { id });
+    historyService.delete(id);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.HISTORY.CLEAR, async (): Promise<void> => {
+    historyService.clear();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.HISTORY.COPY, async (_event, id: string): Promise<HistoryActionResult> => {
+    return copyHistoryEntry(id);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.HISTORY.REINSERT,
+    async (event, id: string): Promise<HistoryActionResult> => {
+      return reinsertHistoryEntry(id, BrowserWindow.fromWebContents(event.sender));
+    }
+  );
+
+  // Keep open History views in sync with new sessions
+  historyService.on('updated', () => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      if (!window.isDestroyed()) {
+        window.webContents.send(IPC_CHANNELS.HISTORY.UPDATED);
+      }
+    }
+  });
+}
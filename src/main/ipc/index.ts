@@ -6,7 +6,16 @@
 import { setupASRHandlers } from './asr.handler';
 import { setupFloatingWindowHandlers } from './floating-window.handler';
 import { setupSettingsHandlers } from './settings.handler';
+import { setupAudioHandlers } from './audio.handler';
+import { setupKeyboardHandlers } from './keyboard.handler';
 import { setupLLMHandlers } from './llm.handler';
+import { setupProfileHandlers } from './profile.handler';
+import { setupPromptTemplateHandlers } from './prompt-template.handler';
+import { setupAppRuleHandlers } from './app-rule.handler';
+import { setupVoiceCommandHandlers } from './voice-command.handler';
+import { setupVocabularyHandlers } from './vocabulary.handler';
+import { setupRecordingArchiveHandlers } from './recording-archive.handler';
+import { setupHistoryHandlers } from './history.handler';
 
 /**
  * Setup all IPC handlers.
@@ -16,5 +25,14 @@ export function setupAllIpcHandlers(): void {
   setupASRHandlers();
   setupFloatingWindowHandlers();
   setupSettingsHandlers();
+  setupAudioHandlers();
+  setupKeyboardHandlers();
   setupLLMHandlers();
+  setupProfileHandlers();
+  setupPromptTemplateHandlers();
+  setupAppRuleHandlers();
+  setupVoiceCommandHandlers();
+  setupVocabularyHandlers();
+  setupRecordingArchiveHandlers();
+  setupHistoryHandlers();
 }
@@ -0,0 +1,50 @@
+/**
+ * Keyboard IPC handlers.
+ * Captures and applies the push-to-talk trigger and undo hotkeys from the Settings page.
+ */
+
+import { ipcMain } from 'electron';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import {
+  keyboardService,
+  captureHotkey,
+  updateHotkey,
+  updateUndoHotkey,
+  describeHotkey,
+  formatHotkey,
+} from '../services/keyboard';
+import type { HotkeyInfo, HotkeyResult } from '../../shared/types/keyboard';
+
+/**
+ * Setup keyboard IPC handlers.
+ */
+export function setupKeyboardHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.KEYBOARD.GET_HOTKEY, async (): Promise<HotkeyInfo> => {
+    const { hotkey } = keyboardService;
+    return { value: formatHotkey(hotkey), label: describeHotkey(hotkey) };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.KEYBOARD.CAPTURE_HOTKEY, async (): Promise<HotkeyResult> => {
+    return captureHotkey();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.KEYBOARD.CANCEL_CAPTURE, async (): Promise<void> => {
+    keyboardService.cancelCapture();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.KEYBOARD.SET_HOTKEY, async (_event, value: string): Promise<HotkeyResult> => {
+    return updateHotkey(value);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.KEYBOARD.GET_UNDO_HOTKEY, async (): Promise<HotkeyInfo | null> => {
+    const { undoHotkey } = keyboardService;
+    return undoHotkey && { value: formatHotkey(undoHotkey), label: describeHotkey(undoHotkey) };
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.KEYBOARD.SET_UNDO_HOTKEY,
+    async (_event, value: string | null): Promise<HotkeyResult> => {
+      return updateUndoHotkey(value);
+    }
+  );
+}
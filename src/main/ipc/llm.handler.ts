@@ -5,8 +5,15 @@
 
 import { ipcMain } from 'electron';
 import { IPC_CHANNELS } from '../../shared/constants/channels';
-import { getLLMService } from '../services/llm';
-import { LLMConfig, LLMRequestOptions } from '../services/llm/types';
+import { getLLMService, parseHeaderList } from '../services/llm';
+import { settingsService } from '../services/settings';
+import { SECRET_MASK } from '../../shared/types/settings';
+import {
+  LLMConfig,
+  LLMModelListResult,
+  LLMModelQuery,
+  LLMRequestOptions,
+} from '../services/llm/types';
 
 /**
  * Setup LLM IPC handlers.
@@ -32,6 +39,7 @@ export function setupLLMHandlers(): void {
           success: true,
           message: 'LLM连接测试成功',
           details: {
+            provider: llmService.getConfig().provider,
             model: llmService.getConfig().model,
             baseURL: llmService.getConfig().baseURL,
           },
@@ -42,7 +50,7 @@ export function setupLLMHandlers(): void {
           message: 'LLM连接测试失败',
           details: {
             enabled: llmService.getConfig().enabled,
-            configured: llmService.getConfig().apiKey.length > 0,
+            configured: llmService.getStatus().configured,
             model: llmService.getConfig().model,
           },
         };
@@ -57,10 +65,11 @@ export function setupLLMHandlers(): void {
     }
   });
 
-  // Get LLM configuration
+  // Get LLM configuration; the API key is masked
   ipcMain.handle(IPC_CHANNELS.LLM.GET_CONFIG, async (): Promise<LLMConfig> => {
     console.log('Getting LLM configuration...');
-    return llmService.getConfig();
+    const config = llmService.getConfig();
+    return { ...config, apiKey: config.apiKey && SECRET_MASK };
   });
 
   // Update LLM configuration
@@ -122,6 +131,39 @@ export function setupLLMHandlers(): void {
     }
   );
 
+  // Discover models offered by the server
+  ipcMain.handle(
+    IPC_CHANNELS.LLM.LIST_MODELS,
+    async (_event, query?: LLMModelQuery): Promise<LLMModelListResult> => {
+      console.log('Listing LLM models...', {
+        provider: query?.provider,
+        baseURL: query?.baseURL,
+      });
+
+      try {
+        const models = await llmService.listModels(
+          query && {
+            provider: query.provider,
+            baseURL: query.baseURL,
+            // The page sends the mask for an unchanged saved key
+            apiKey: settingsService.resolveSecret(
+              query.provider === 'openai' ? 'OPENAI_LLM_API_KEY' : 'VOLCENGINE_LLM_API_KEY',
+              query.apiKey
+            ),
+            headers: parseHeaderList(query.headers),
+          }
+        );
+        return { success: true, models };
+      } catch (error: any) {
+        console.error('Failed to list LLM models:', error);
+        return {
+          success: false,
+          error: `获取模型列表失败: ${error.message}`,
+        };
+      }
+    }
+  );
+
   // Reload LLM configuration from environment variables
   ipcMain.handle(IPC_CHANNELS.LLM.RELOAD_CONFIG, async (): Promise<void> => {
     console.log('Reloading LLM configuration from environment...');
@@ -0,0 +1,35 @@
+/**
+ * Profile IPC handlers.
+ * Connects the Settings profiles tab to the profile service.
+ */
+
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import { profileService } from '../services/profile';
+import type { DictationProfile, ProfileSaveResult } from '../../shared/types/profile';
+
+const logger = log.scope('profile-handler');
+
+/**
+ * Setup dictation profile IPC handlers.
+ */
+export function setupProfileHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.PROFILES.LIST, async (): Promise<DictationProfile[]> => {
+    return profileService.list();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.PROFILES.SAVE,
+    async (_event, profiles: DictationProfile[]): Promise<ProfileSaveResult> => {
+      logger.info('Saving profiles', { count: profiles.length });
+      try {
+        return { success: true, profiles: profileService.save(profiles) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('Profiles rejected', { error: message });
+        return { success: false, error: message };
+      }
+    }
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Prompt template IPC handlers.
+ * Connects the template editor in the LLM settings tab to the prompt template service.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import {
+  promptTemplateService,
+  importPromptTemplates,
+  exportPromptTemplates,
+} from '../services/prompt-template';
+import type {
+  PromptTemplate,
+  PromptTemplatePreview,
+  PromptTemplateSaveResult,
+} from '../../shared/types/prompt-template';
+
+const logger = log.scope('prompt-template-handler');
+
+/**
+ * Stand-ins for the values only known during a dictation.
+ */
+const PREVIEW_APP_NAME = 'Slack';
+const PREVIEW_LANGUAGE = 'zh-CN';
+
+/**
+ * Setup prompt template IPC handlers.
+ */
+export function setupPromptTemplateHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.PROMPT_TEMPLATES.LIST, async (): Promise<PromptTemplate[]> => {
+    return promptTemplateService.list();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.PROMPT_TEMPLATES.SAVE,
+    async (_event, templates: PromptTemplate[]): Promise<PromptTemplateSaveResult> => {
+      logger.info('Saving prompt templates', { count: templates.length });
+      try {
+        return { success: true, templates: promptTemplateService.save(templates) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('Prompt templates rejected', { error: message });
+        return { success: false, error: message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.PROMPT_TEMPLATES.PREVIEW,
+    async (_event, template: PromptTemplatePreview, text: string): Promise<PromptTemplatePreview> => {
+      return promptTemplateService.render(template, {
+        text,
+        appName: PREVIEW_APP_NAME,
+        language: PREVIEW_LANGUAGE,
+      });
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.PROMPT_TEMPLATES.IMPORT_JSON, async (event) => {
+    return importPromptTemplates(BrowserWindow.fromWebContents(event.sender));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PROMPT_TEMPLATES.EXPORT_JSON, async (event) => {
+    return exportPromptTemplates(BrowserWindow.fromWebContents(event.sender));
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Recording archive IPC handlers.
+ * Lists, deletes and re-runs archived dictation sessions.
+ */
+
+import { ipcMain, shell } from 'electron';
+import fs from 'fs';
+import log from 'electron-log';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import { recordingArchiveService, rerunRecording } from '../services/recording-archive';
+import type { RecordingMetadata } from '../../shared/types/recording-archive';
+
+const logger = log.scope('recording-archive-handler');
+
+/**
+ * Setup recording archive IPC handlers.
+ */
+export function setupRecordingArchiveHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.RECORDING_ARCHIVE.LIST, async (): Promise<RecordingMetadata[]> => {
+    return recordingArchiveService.listRecordings();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.RECORDING_ARCHIVE.DELETE, async (_event, id: string): Promise<void> => {
+    logger.info('Deleting recording', { id });
+    recordingArchiveService.deleteRecording(id);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.RECORDING_ARCHIVE.RERUN, async (_event, id: string) => {
+    return rerunRecording(id);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.RECORDING_ARCHIVE.OPEN_FOLDER, async (): Promise<void> => {
+    const directory = recordingArchiveService.directory;
+    fs.mkdirSync(directory, { recursive: true });
+    const error = await shell.openPath(directory);
+    if (error) {
+      logger.error('Failed to open recordings folder', { error });
+    }
+  });
+}
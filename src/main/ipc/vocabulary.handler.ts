@@ -0,0 +1,44 @@
+/**
+ * Vocabulary IPC handlers.
+ * Connects the Settings vocabulary tab to the vocabulary service.
+ */
+
+import { ipcMain, BrowserWindow } from 'electron';
+import log from 'electron-log';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import {
+  vocabularyService,
+  importVocabularyCsv,
+  exportVocabularyCsv,
+} from '../services/vocabulary';
+import type { VocabularyEntry, VocabularyImportMode } from '../../shared/types/vocabulary';
+
+const logger = log.scope('vocabulary-handler');
+
+/**
+ * Setup vocabulary IPC handlers.
+ */
+export function setupVocabularyHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.VOCABULARY.GET_ENTRIES, async (): Promise<VocabularyEntry[]> => {
+    return vocabularyService.getEntries();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.VOCABULARY.SAVE_ENTRIES,
+    async (_event, entries: VocabularyEntry[]): Promise<VocabularyEntry[]> => {
+      logger.info('Saving vocabulary', { count: entries.length });
+      return vocabularyService.saveEntries(entries);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.VOCABULARY.IMPORT_CSV,
+    async (event, mode: VocabularyImportMode = 'merge') => {
+      return importVocabularyCsv(mode, BrowserWindow.fromWebContents(event.sender));
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.VOCABULARY.EXPORT_CSV, async (event) => {
+    return exportVocabularyCsv(BrowserWindow.fromWebContents(event.sender));
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Voice command IPC handlers.
+ * Connects the Settings voice commands tab to the voice command service.
+ */
+
+import { ipcMain } from 'electron';
+import log from 'electron-log';
+import { IPC_CHANNELS } from '../../shared/constants/channels';
+import { voiceCommandService } from '../services/voice-command';
+import type { VoiceCommand, VoiceCommandSaveResult } from '../../shared/types/voice-command';
+
+const logger = log.scope('voice-command-handler');
+
+/**
+ * Setup voice command IPC handlers.
+ */
+export function setupVoiceCommandHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.VOICE_COMMANDS.LIST, async (): Promise<VoiceCommand[]> => {
+    return voiceCommandService.list();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.VOICE_COMMANDS.SAVE,
+    async (_event, commands: VoiceCommand[]): Promise<VoiceCommandSaveResult> => {
+      logger.info('Saving voice commands', { count: commands.length });
+      try {
+        return { success: true, commands: voiceCommandService.save(commands) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('Voice commands rejected', { error: message });
+        return { success: false, error: message };
+      }
+    }
+  );
+}
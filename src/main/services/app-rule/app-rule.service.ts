@@ -0,0 +1,192 @@
+/**
+ * App Rule Service.
+ * Maintains per-application dictation rules.
+ *
+ * A rule lists applications by name or bundle ID and overrides whether
+ * the LLM runs, its prompt, the insert method and the post-processing of the final text
+ * while dictating into them, e.g. no trailing period in chat apps.
+ */
+
+import { randomUUID } from 'crypto';
+import log from 'electron-log';
+import { JsonFileStore } from '../storage';
+import { historyService } from '../history';
+import { matchAppRule } from './lib';
+import { APP_RULE_CONSTANTS, appRuleFileSchema, appRuleSchema } from './types';
+import type { AppRuleFile } from './types';
+import type { AppRule } from '../../../shared/types/app-rule';
+import type { DictationProfile } from '../../../shared/types/profile';
+import type { ForegroundApp } from '../../../shared/types/foreground-app';
+
+const logger = log.scope('app-rule-service');
+
+/**
+ * Example rules created on first launch, disabled until the user turns
+ * them on.
+ */
+function createDefaultFile(): AppRuleFile {
+  return {
+    version: APP_RULE_CONSTANTS.VERSION,
+    rules: [
+      {
+        id: 'chat',
+        name: '聊天应用',
+        enabled: false,
+        apps: ['Slack', 'com.tinyspeck.slackmacgap', 'WeChat', 'com.tencent.xinWeChat', 'Discord'],
+        llmEnabled: null,
+        promptTemplateId: '',
+        llmPrompt: '',
+        insertMethod: null,
+        stripTrailingPeriod: true,
+        casing: 'none',
+      },
+      {
+        id: 'terminal',
+        name: '终端',
+        enabled: false,
+        apps: ['Terminal', 'com.apple.Terminal', 'iTerm2', 'com.googlecode.iterm2', 'WindowsTerminal'],
+        llmEnabled: null,
+        promptTemplateId: '',
+        llmPrompt: '',
+        insertMethod: 'type',
+        stripTrailingPeriod: true,
+        casing: 'kebab',
+      },
+      {
+        id: 'email',
+        name: '邮件',
+        enabled: false,
+        apps: ['Microsoft Outlook', 'com.microsoft.Outlook', 'OUTLOOK', 'Mail', 'com.apple.mail'],
+        llmEnabled: null,
+        promptTemplateId: '',
+        llmPrompt: '请将以下口语内容改写为正式、礼貌的邮件用语，保持原意，只输出改写后的文本：',
+        insertMethod: null,
+        stripTrailingPeriod: false,
+        casing: 'none',
+      },
+    ],
+  };
+}
+
+/**
+ * App Rule Service for application-aware dictation.
+ *
+ * @example
+ * ```typescript
+ * const rule = appRuleService.match(await foregroundAppService.getForegroundApp());
+ * const pipeline = appRuleService.apply(profile, rule);
+ * ```
+ */
+export class AppRuleService {
+  private readonly store = new JsonFileStore<AppRuleFile>(
+    APP_RULE_CONSTANTS.FILE_NAME,
+    appRuleFileSchema,
+    createDefaultFile
+  );
+
+  /**
+   * List the rules in priority order.
+   */
+  list(): AppRule[] {
+    return this.store.read().rules;
+  }
+
+  /**
+   * Replace the rule list.
+   *
+   * @param rules - Rules to persist, in priority order; missing IDs are assigned
+   * @returns The saved rules
+   * @throws Error if a rule is invalid
+   */
+  save(rules: AppRule[]): AppRule[] {
+    const normalized = rules.map((rule) => this.normalize(rule));
+    const saved = this.store.write({
+      version: APP_RULE_CONSTANTS.VERSION,
+      rules: normalized,
+    });
+
+    logger.info('App rules saved', { count: saved.rules.length });
+    return saved.rules;
+  }
+
+  /**
+   * Find the rule for an application.
+   *
+   * @param app - Target application, or null if it is unknown
+   * @returns The first enabled matching rule, or null
+   */
+  match(app: ForegroundApp | null): AppRule | null {
+    const rule = matchAppRule(app, this.list());
+    if (rule) {
+      logger.info('App rule matched', { rule: rule.name, app: app?.name });
+    }
+    return rule;
+  }
+
+  /**
+   * Apply a rule's overrides to a dictation profile.
+   * A rule that sets a prompt turns the LLM on unless it turns it off itself.
+   *
+   * @param profile - Pipeline of the trigger that started the session
+   * @param rule - Matching rule, or null
+   * @returns The pipeline to run
+   */
+  apply(profile: DictationProfile, rule: AppRule | null): DictationProfile {
+    if (!rule) {
+      return profile;
+    }
+
+    const overridesPrompt = rule.promptTemplateId !== '' || rule.llmPrompt !== '';
+    return {
+      ...profile,
+      llmEnabled: rule.llmEnabled ?? (overridesPrompt || profile.llmEnabled),
+      promptTemplateId: overridesPrompt ? rule.promptTemplateId : profile.promptTemplateId,
+      llmPrompt: overridesPrompt ? rule.llmPrompt : profile.llmPrompt,
+      insertMethod: rule.insertMethod ?? profile.insertMethod,
+    };
+  }
+
+  /**
+   * Names and bundle IDs of applications recently dictated into, newest
+   * first, as suggestions for the rules editor.
+   */
+  recentApps(): string[] {
+    const apps = new Set<string>();
+    for (const entry of historyService.list()) {
+      if (entry.targetApp) {
+        apps.add(entry.targetApp.name);
+        if (entry.targetApp.bundleId) {
+          apps.add(entry.targetApp.bundleId);
+        }
+      }
+      if (apps.size >= APP_RULE_CONSTANTS.MAX_RECENT_APPS) {
+        break;
+      }
+    }
+    return [...apps].slice(0, APP_RULE_CONSTANTS.MAX_RECENT_APPS);
+  }
+
+  /**
+   * Trim the fields and validate them, naming the rule in the error.
+   */
+  private normalize(rule: AppRule): AppRule {
+    const apps = [...new Set(rule.apps.map((app) => app.trim()))].filter((app) => app.length > 0);
+    const result = appRuleSchema.safeParse({
+      ...rule,
+      id: rule.id || randomUUID(),
+      name: rule.name.trim(),
+      apps,
+      llmPrompt: rule.llmPrompt.trim(),
+    });
+
+    if (!result.success) {
+      throw new Error(`「${rule.name.trim() || '未命名'}」：${result.error.issues[0].message}`);
+    }
+    return result.data;
+  }
+}
+
+/**
+ * Singleton instance of the app rule service.
+ */
+export const appRuleService = new AppRuleService();
@@ -0,0 +1,14 @@
+/**
+ * App rule module exports.
+ * Re-exports the app rule service and library utilities.
+ */
+
+// Service
+export { AppRuleService, appRuleService } from './app-rule.service';
+
+// Types
+export type { AppRuleFile } from './types';
+export { APP_RULE_CONSTANTS } from './types';
+
+// Library utilities
+export { matchAppRule, applyCasing, hasPostProcessing, applyPostProcessing } from './lib';
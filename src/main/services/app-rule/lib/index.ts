@@ -0,0 +1,6 @@
+/**
+ * Application rule library exports.
+ */
+
+export { matchAppRule } from './match';
+export { applyCasing, hasPostProcessing, applyPostProcessing } from './post-process';
@@ -0,0 +1,28 @@
+/**
+ * Application rule matching.
+ */
+
+import type { AppRule } from '../../../../shared/types/app-rule';
+import type { ForegroundApp } from '../../../../shared/types/foreground-app';
+
+/**
+ * Find the first enabled rule that lists the application.
+ * An entry matches the app name or the bundle ID, ignoring case.
+ *
+ * @param app - Target application, or null if it is unknown
+ * @param rules - Rules in priority order
+ * @returns The matching rule, or null
+ */
+export function matchAppRule(app: ForegroundApp | null, rules: AppRule[]): AppRule | null {
+  if (!app) {
+    return null;
+  }
+
+  const identities = [app.name, app.bundleId]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => value.toLowerCase());
+
+  return rules.find((rule) =>
+    rule.enabled && rule.apps.some((entry) => identities.includes(entry.toLowerCase()))
+  ) ?? null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Post-processing of the final dictation text.
+ */
+
+import type { AppRule, TextCasing } from '../../../../shared/types/app-rule';
+
+/** A single trailing period, but not an ellipsis */
+const TRAILING_PERIOD = /(?<![.。])[.。]\s*$/;
+
+/**
+ * Words of the text for identifier casing: letters and digits, split on
+ * whitespace, punctuation and symbols.
+ */
+function splitWords(text: string): string[] {
+  return text.split(/[\s\p{P}\p{S}]+/u).filter((word) => word.length > 0);
+}
+
+/**
+ * Apply a casing style to text.
+ */
+export function applyCasing(text: string, casing: TextCasing): string {
+  switch (casing) {
+    case 'lower':
+      return text.toLowerCase();
+    case 'camel':
+      return splitWords(text)
+        .map((word, index) => {
+          const lower = word.toLowerCase();
+          return index === 0 ? lower : lower.charAt(0).toUpperCase() + lower.slice(1);
+        })
+        .join('');
+    case 'snake':
+      return splitWords(text).map((word) => word.toLowerCase()).join('_');
+    case 'kebab':
+      return splitWords(text).map((word) => word.toLowerCase()).join('-');
+    default:
+      return text;
+  }
+}
+
+/**
+ * Whether a rule changes the final text.
+ * Such text cannot be inserted piecemeal while the LLM streams it.
+ */
+export function hasPostProcessing(rule: AppRule | null): boolean {
+  return rule !== null && (rule.stripTrailingPeriod || rule.casing !== 'none');
+}
+
+/**
+ * Apply a rule's post-processing to the final text.
+ */
+export function applyPostProcessing(text: string, rule: AppRule | null): string {
+  if (!rule) {
+    return text;
+  }
+
+  let result = rule.stripTrailingPeriod ? text.replace(TRAILING_PERIOD, '') : text;
+  result = applyCasing(result, rule.casing);
+  return result;
+}
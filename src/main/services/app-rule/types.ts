@@ -0,0 +1,59 @@
+/**
+ * Application rule types and Zod schemas.
+ * Defines the persisted rule file.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const APP_RULE_CONSTANTS = {
+  /** File name under the userData directory */
+  FILE_NAME: 'app-rules.json',
+
+  /** Current file format version */
+  VERSION: 1,
+
+  /** Longest rule name accepted */
+  MAX_NAME_LENGTH: 30,
+
+  /** Number of recent target apps offered in the rules editor */
+  MAX_RECENT_APPS: 20,
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * A single application rule.
+ */
+export const appRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z
+    .string()
+    .trim()
+    .min(1, '规则名称不能为空')
+    .max(APP_RULE_CONSTANTS.MAX_NAME_LENGTH, `规则名称不能超过 ${APP_RULE_CONSTANTS.MAX_NAME_LENGTH} 个字符`),
+  enabled: z.boolean(),
+  apps: z.array(z.string().trim().min(1)).min(1, '至少需要一个应用名称或 Bundle ID'),
+  /** Added after the first release; older files have no value */
+  llmEnabled: z.boolean().nullable().default(null),
+  promptTemplateId: z.string(),
+  llmPrompt: z.string(),
+  insertMethod: z.enum(['auto', 'type', 'paste', 'clipboard']).nullable(),
+  stripTrailingPeriod: z.boolean(),
+  casing: z.enum(['none', 'lower', 'camel', 'snake', 'kebab']),
+});
+
+/**
+ * Persisted rule file. Rules are checked in order; the first match wins.
+ */
+export const appRuleFileSchema = z.object({
+  version: z.literal(APP_RULE_CONSTANTS.VERSION),
+  rules: z.array(appRuleSchema),
+});
+
+export type AppRuleFile = z.infer<typeof appRuleFileSchema>;
@@ -1,15 +1,19 @@
 /**
  * ASR Service.
- * Manages the end-to-end ASR flow including WebSocket connection,
+ * Manages the end-to-end ASR flow including the provider connection,
  * audio processing, and floating window display.
  */
 
 import { EventEmitter } from 'events';
 import log from 'electron-log';
-import { VolcengineClient } from './lib/volcengine-client';
+import { createASRProvider } from './lib/provider-factory';
 import { loadASRConfig, ConfigurationError } from './lib/config';
+import { toASRErrorInfo } from './lib/errors';
+import type { ASREnvConfig } from './lib/config';
 import { floatingWindow } from '../../windows';
-import type { ASRConfig, ASRResult, ASRStatus } from '../../../shared/types/asr';
+import { vocabularyService } from '../vocabulary';
+import type { ASRProvider } from './types';
+import type { ASRConfig, ASRProviderType, ASRResult, ASRStatus } from '../../../shared/types/asr';
 
 const logger = log.scope('asr-service');
 
@@ -57,7 +61,8 @@ export interface ASRService {
  * ```
  */
 export class ASRService extends EventEmitter {
-  private client: VolcengineClient | null = null;
+  private client: ASRProvider | null = null;
+  private providerType: ASRProviderType | null = null;
   private status: ASRStatus = 'idle';
   private finalResult: ASRResult | null = null;
   private lastResult: ASRResult | null = null;
@@ -69,6 +74,13 @@ export class ASRService extends EventEmitter {
     return this.status;
   }
 
+  /**
+   * Provider of the current (or last) session, null before the first session.
+   */
+  get provider(): ASRProviderType | null {
+    return this.providerType;
+  }
+
   /**
    * Start ASR session.
    *
@@ -101,14 +113,31 @@ export class ASRService extends EventEmitter {
     }
 
     // Merge with optional runtime config
-    const clientConfig = {
+    const clientConfig: ASREnvConfig = {
+      ...envConfig,
+      provider: config?.provider ?? envConfig.provider,
       appId: config?.appId ?? envConfig.appId,
       accessToken: config?.accessToken ?? envConfig.accessToken,
       resourceId: config?.resourceId ?? envConfig.resourceId,
+      requestOptions: {
+        ...envConfig.requestOptions,
+        language: config?.language || envConfig.requestOptions.language,
+        // Boost custom vocabulary terms alongside the configured hotwords
+        hotwords: [
+          ...new Set([...envConfig.requestOptions.hotwords, ...vocabularyService.getHotwords()]),
+        ],
+      },
+      whisper: {
+        ...envConfig.whisper,
+        // Whisper takes an ISO-639-1 code, e.g. "en" for "en-US"
+        language: config?.language?.split('-')[0] || envConfig.whisper.language,
+      },
     };
 
-    // Create Volcengine client
-    this.client = new VolcengineClient(clientConfig);
+    // Create the configured provider
+    logger.info('Creating ASR provider', { provider: clientConfig.provider });
+    this.client = createASRProvider(clientConfig);
+    this.providerType = clientConfig.provider;
 
     // Setup event forwarding
     this.setupClientListeners();
@@ -116,7 +145,7 @@ export class ASRService extends EventEmitter {
     // Show floating window and update status
     this.updateStatus('connecting');
 
-    // Connect to Volcengine service
+    // Connect to the ASR provider
     try {
       await this.client.connect();
       logger.info('ASR session started successfully');
@@ -125,7 +154,7 @@ export class ASRService extends EventEmitter {
       logger.error('Failed to connect to ASR service', { error: err.message });
       this.updateStatus('error');
       this.emit('error', err);
-      floatingWindow.sendError(`Connection failed: ${err.message}`);
+      floatingWindow.sendError(toASRErrorInfo(err, `Connection failed: ${err.message}`));
       this.cleanup();
       throw err;
     }
@@ -202,7 +231,7 @@ export class ASRService extends EventEmitter {
   }
 
   /**
-   * Setup event listeners on the Volcengine client.
+   * Setup event listeners on the ASR provider.
    */
   private setupClientListeners(): void {
     if (!this.client) return;
@@ -223,10 +252,10 @@ export class ASRService extends EventEmitter {
     });
 
     this.client.on('error', (error) => {
-      logger.error('Volcengine client error', { message: error.message });
+      logger.error('ASR provider error', { message: error.message });
       this.updateStatus('error');
       this.emit('error', error);
-      floatingWindow.sendError(error.message);
+      floatingWindow.sendError(toASRErrorInfo(error));
     });
   }
 
@@ -241,22 +270,36 @@ export class ASRService extends EventEmitter {
         return;
       }
 
-      const TIMEOUT_MS = 10000; // 10 seconds timeout
+      // 10 seconds by default; non-streaming providers may ask for longer
+      const TIMEOUT_MS = this.client?.finalResultTimeoutMs ?? 10000;
       let resolved = false;
 
       const resultHandler = (result: ASRResult): void => {
         if (result.isFinal && !resolved) {
           resolved = true;
           this.client?.off('result', resultHandler);
+          this.client?.off('error', errorHandler);
           clearTimeout(timeoutId);
           resolve(result);
         }
       };
 
+      // Stop waiting as soon as the provider reports a failure
+      const errorHandler = (): void => {
+        if (!resolved) {
+          resolved = true;
+          this.client?.off('result', resultHandler);
+          this.client?.off('error', errorHandler);
+          clearTimeout(timeoutId);
+          resolve(this.finalResult ?? this.lastResult);
+        }
+      };
+
       const timeoutId = setTimeout(() => {
         if (!resolved) {
           resolved = true;
           this.client?.off('result', resultHandler);
+          this.client?.off('error', errorHandler);
           logger.warn('Timeout waiting for final result, returning last result');
           // Return last result or final result, whichever is available
           resolve(this.finalResult ?? this.lastResult);
@@ -264,6 +307,7 @@ export class ASRService extends EventEmitter {
       }, TIMEOUT_MS);
 
       this.client?.on('result', resultHandler);
+      this.client?.on('error', errorHandler);
 
       // Also listen for done status as backup
       const statusHandler = (status: ASRStatus): void => {
@@ -273,6 +317,7 @@ export class ASRService extends EventEmitter {
             if (!resolved) {
               resolved = true;
               this.client?.off('result', resultHandler);
+              this.client?.off('error', errorHandler);
               this.client?.off('status', statusHandler);
               clearTimeout(timeoutId);
               resolve(this.finalResult ?? this.lastResult);
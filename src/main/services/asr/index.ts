@@ -8,23 +8,53 @@ export { ASRService, asrService } from './asr.service';
 export type { ASRServiceEvents } from './asr.service';
 
 // Procedures
-export { startASR, stopASR, getASRStatus } from './procedures';
+export { startASR, stopASR, getASRStatus, testASRConnection } from './procedures';
 export type { StartASRResponse, StopASRResponse } from './procedures';
 
 // Types
 export type {
+  ASRProvider,
+  ASRProviderEvents,
+  MockASRClientConfig,
+  WhisperClientConfig,
   VolcengineClientConfig,
+  VolcengineRequestOptions,
   ConnectionState,
   VolcengineMessage,
   VolcengineHeader,
+  ASRErrorDetails,
+} from './types';
+export {
+  ASRError,
+  VOLCENGINE_CONSTANTS,
+  WHISPER_CONSTANTS,
+  MOCK_ASR_CONSTANTS,
+  volcengineRequestOptionsSchema,
 } from './types';
-export { VOLCENGINE_CONSTANTS } from './types';
 
 // Library utilities
 export {
   VolcengineClient,
+  WhisperClient,
+  MockASRClient,
+  createASRProvider,
+  categorizeVolcengineCode,
+  categorizeHttpStatus,
+  toASRErrorInfo,
+  getVolcengineHints,
+  createTestClip,
+  encodeWav,
+  decodeWav,
+  PCM_16K_MONO,
   loadASRConfig,
   isASRConfigured,
+  loadVolcengineRequestOptions,
   ConfigurationError,
 } from './lib';
-export type { VolcengineClientEvents, ASREnvConfig } from './lib';
+export type {
+  VolcengineClientEvents,
+  WhisperClientEvents,
+  MockASRClientEvents,
+  ASREnvConfig,
+  WavFormat,
+} from './lib';
@@ -1,17 +1,31 @@
 /**
  * ASR configuration loader.
- * Loads Volcengine ASR credentials from environment variables.
+ * Loads the ASR provider selection and its settings from environment variables.
  */
 
-import { VOLCENGINE_CONSTANTS } from '../types';
+import { VOLCENGINE_CONSTANTS, WHISPER_CONSTANTS, volcengineRequestOptionsSchema } from '../types';
+import type { VolcengineRequestOptions, WhisperClientConfig } from '../types';
+import type { ASRProviderType } from '../../../../shared/types/asr';
+
+/**
+ * Known ASR provider identifiers.
+ */
+const ASR_PROVIDERS: readonly ASRProviderType[] = ['volcengine', 'whisper', 'mock'];
 
 /**
  * ASR environment configuration.
  */
 export interface ASREnvConfig {
+  provider: ASRProviderType;
   appId: string;
   accessToken: string;
   resourceId: string;
+  /** BigModel recognition options */
+  requestOptions: VolcengineRequestOptions;
+  /** Whisper-compatible server settings */
+  whisper: WhisperClientConfig;
+  /** Transcripts replayed by the mock provider */
+  mockTranscripts: string[];
 }
 
 /**
@@ -25,23 +39,146 @@ export class ConfigurationError extends Error {
 }
 
 /**
- * Load ASR configuration from environment variables.
+ * Parse the ASR_PROVIDER environment variable.
  *
- * Required environment variables:
- * - VOLCENGINE_APP_ID: Application ID from Volcengine console
- * - VOLCENGINE_ACCESS_TOKEN: Access token for authentication
+ * @throws ConfigurationError if the value is not a known provider
+ */
+function parseProvider(value: string | undefined): ASRProviderType {
+  if (!value) {
+    return 'volcengine';
+  }
+
+  const provider = value.trim().toLowerCase() as ASRProviderType;
+  if (!ASR_PROVIDERS.includes(provider)) {
+    throw new ConfigurationError(
+      `Unknown ASR_PROVIDER "${value}". Expected one of: ${ASR_PROVIDERS.join(', ')}`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Parse mock transcripts separated by "|".
+ */
+function parseMockTranscripts(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split('|')
+    .map((text) => text.trim())
+    .filter((text) => text.length > 0);
+}
+
+/**
+ * Parse a "true"/"false" flag, falling back to the default when unset.
+ */
+function parseFlag(value: string | undefined): boolean | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.trim().toLowerCase() === 'true';
+}
+
+/**
+ * Parse a hotword list separated by commas (ASCII or full-width) or newlines.
+ */
+function parseHotwords(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(/[,，\n]/)
+    .map((word) => word.trim())
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Load and validate Volcengine BigModel request options.
+ *
+ * @throws ConfigurationError if a value fails validation
+ */
+export function loadVolcengineRequestOptions(): VolcengineRequestOptions {
+  const result = volcengineRequestOptionsSchema.safeParse({
+    language: process.env.VOLCENGINE_ASR_LANGUAGE?.trim() || undefined,
+    enablePunc: parseFlag(process.env.VOLCENGINE_ASR_ENABLE_PUNC),
+    enableItn: parseFlag(process.env.VOLCENGINE_ASR_ENABLE_ITN),
+    enableDdc: parseFlag(process.env.VOLCENGINE_ASR_ENABLE_DDC),
+    hotwords: parseHotwords(process.env.VOLCENGINE_ASR_HOTWORDS),
+    boostingTableId: process.env.VOLCENGINE_ASR_BOOSTING_TABLE_ID?.trim() || undefined,
+    boostingTableName: process.env.VOLCENGINE_ASR_BOOSTING_TABLE_NAME?.trim() || undefined,
+  });
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ');
+    throw new ConfigurationError(`Invalid Volcengine ASR request options: ${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load Whisper-compatible server settings.
+ */
+function loadWhisperConfig(): WhisperClientConfig {
+  const timeoutMs = parseInt(process.env.WHISPER_TIMEOUT_MS ?? '', 10);
+
+  return {
+    baseURL: process.env.WHISPER_BASE_URL || WHISPER_CONSTANTS.DEFAULT_BASE_URL,
+    model: process.env.WHISPER_MODEL || WHISPER_CONSTANTS.DEFAULT_MODEL,
+    apiKey: process.env.WHISPER_API_KEY ?? '',
+    language: process.env.WHISPER_LANGUAGE ?? '',
+    timeoutMs: Number.isNaN(timeoutMs) || timeoutMs <= 0
+      ? WHISPER_CONSTANTS.DEFAULT_TIMEOUT_MS
+      : timeoutMs,
+  };
+}
+
+/**
+ * Load ASR configuration from environment variables.
  *
  * Optional environment variables:
+ * - ASR_PROVIDER: "volcengine" (default), "whisper" or "mock"
+ * - WHISPER_BASE_URL: Whisper-compatible server (default: "http://127.0.0.1:8080")
+ * - WHISPER_MODEL, WHISPER_API_KEY, WHISPER_LANGUAGE, WHISPER_TIMEOUT_MS
+ * - ASR_MOCK_TRANSCRIPTS: Transcripts replayed by the mock provider, separated by "|"
  * - VOLCENGINE_RESOURCE_ID: Resource ID (default: "volc.bigasr.sauc.duration")
+ * - VOLCENGINE_ASR_LANGUAGE: Recognition language, e.g. "zh-CN" (default: model decides)
+ * - VOLCENGINE_ASR_ENABLE_PUNC, VOLCENGINE_ASR_ENABLE_ITN, VOLCENGINE_ASR_ENABLE_DDC:
+ *   "true"/"false" (default: "true")
+ * - VOLCENGINE_ASR_HOTWORDS: Hotwords separated by commas
+ * - VOLCENGINE_ASR_BOOSTING_TABLE_ID, VOLCENGINE_ASR_BOOSTING_TABLE_NAME: Console boosting table
+ *
+ * Required when ASR_PROVIDER is "volcengine":
+ * - VOLCENGINE_APP_ID: Application ID from Volcengine console
+ * - VOLCENGINE_ACCESS_TOKEN: Access token for authentication
  *
  * @returns ASR configuration object
- * @throws ConfigurationError if required variables are missing
+ * @throws ConfigurationError if the provider is unknown or required variables are missing
  */
 export function loadASRConfig(): ASREnvConfig {
+  const provider = parseProvider(process.env.ASR_PROVIDER);
   const appId = process.env.VOLCENGINE_APP_ID;
   const accessToken = process.env.VOLCENGINE_ACCESS_TOKEN;
   const resourceId =
     process.env.VOLCENGINE_RESOURCE_ID ?? VOLCENGINE_CONSTANTS.DEFAULT_RESOURCE_ID;
+  const requestOptions = loadVolcengineRequestOptions();
+  const whisper = loadWhisperConfig();
+  const mockTranscripts = parseMockTranscripts(process.env.ASR_MOCK_TRANSCRIPTS);
+
+  if (provider !== 'volcengine') {
+    return {
+      provider,
+      appId: appId ?? '',
+      accessToken: accessToken ?? '',
+      resourceId,
+      requestOptions,
+      whisper,
+      mockTranscripts,
+    };
+  }
 
   const missingVars: string[] = [];
 
@@ -60,17 +197,26 @@ export function loadASRConfig(): ASREnvConfig {
   }
 
   return {
+    provider,
     appId: appId as string,
     accessToken: accessToken as string,
     resourceId,
+    requestOptions,
+    whisper,
+    mockTranscripts,
   };
 }
 
 /**
  * Check if ASR configuration is available without throwing.
  *
- * @returns true if all required environment variables are set
+ * @returns true if the selected provider has everything it needs
  */
 export function isASRConfigured(): boolean {
-  return Boolean(process.env.VOLCENGINE_APP_ID && process.env.VOLCENGINE_ACCESS_TOKEN);
+  try {
+    loadASRConfig();
+    return true;
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,98 @@
+/**
+ * Volcengine ASR diagnostics.
+ * Turns connection failures and server error codes into hints the user
+ * can act on.
+ */
+
+import { ASRError, VOLCENGINE_CONSTANTS } from '../types';
+import { ASRErrorCategory } from '../../../../shared/types/asr';
+
+/**
+ * Hints for a handshake the server rejected with an HTTP status.
+ */
+function describeStatusCode(statusCode: number): string[] {
+  if (statusCode === 401) {
+    return ['App ID 或 Access Token 不正确，请在火山引擎控制台的语音技术应用页面重新复制'];
+  }
+  if (statusCode === 403) {
+    return [
+      '当前应用没有 Resource ID 对应服务的权限：请确认已开通流式语音识别大模型，且 Resource ID 与开通的版本一致',
+      '试用额度用尽或欠费时也会被拒绝，请检查控制台的用量和账户余额',
+    ];
+  }
+  if (statusCode === 429) {
+    return ['请求过于频繁或超过并发上限，请稍后重试，或在控制台提高并发配额'];
+  }
+  if (statusCode >= 500) {
+    return ['火山引擎服务暂时不可用，请稍后重试'];
+  }
+  return [`握手被拒绝（HTTP ${statusCode}），请检查 App ID、Access Token 和 Resource ID`];
+}
+
+/**
+ * Hints for an error code from a server error frame.
+ */
+function describeErrorCode(code: number): string[] {
+  const codes = VOLCENGINE_CONSTANTS.ERROR_CODES;
+  switch (code) {
+    case codes.INVALID_PARAMS:
+      return ['请求参数无效：请检查识别语言、热词和热词表ID/名称是否填写正确'];
+    case codes.EMPTY_AUDIO:
+      return ['服务端没有收到音频，请检查网络是否稳定'];
+    case codes.AUDIO_TIMEOUT:
+      return ['服务端等待音频超时，网络延迟过高或代理不稳定'];
+    case codes.INVALID_AUDIO_FORMAT:
+      return ['服务端无法解析音频格式，请将问题连同日志反馈给开发者'];
+    case codes.SERVER_BUSY:
+      return ['服务器繁忙，请稍后重试'];
+  }
+  if (code >= codes.SERVER_ERROR_MIN) {
+    return ['火山引擎服务内部错误，请稍后重试'];
+  }
+  return [`未知错误码 ${code}，请在火山引擎文档中查询`];
+}
+
+/**
+ * Hints for a network failure, mentioning the proxy in use if any.
+ */
+function describeNetworkError(): string[] {
+  const proxyUrl =
+    process.env.HTTPS_PROXY ||
+    process.env.https_proxy ||
+    process.env.HTTP_PROXY ||
+    process.env.http_proxy ||
+    process.env.ALL_PROXY ||
+    process.env.all_proxy;
+  const host = new URL(VOLCENGINE_CONSTANTS.ENDPOINT).host;
+
+  return [
+    `无法连接到 ${host}，请检查网络连接`,
+    proxyUrl
+      ? `当前使用代理 ${proxyUrl}，请确认代理可用`
+      : '如需通过代理访问，请设置 HTTPS_PROXY 环境变量后重启应用',
+  ];
+}
+
+/**
+ * Suggest what to check after a Volcengine ASR session failed.
+ *
+ * @param error - Error from connecting or from the session
+ * @returns Hints in the order they should be checked
+ */
+export function getVolcengineHints(error: Error): string[] {
+  if (!(error instanceof ASRError)) {
+    return ['请查看日志了解详细信息'];
+  }
+
+  const { code, statusCode } = error.details;
+  if (statusCode !== undefined) {
+    return describeStatusCode(statusCode);
+  }
+  if (code !== undefined) {
+    return describeErrorCode(code);
+  }
+  if (error.category === ASRErrorCategory.NETWORK || error.category === ASRErrorCategory.TIMEOUT) {
+    return describeNetworkError();
+  }
+  return ['请查看日志了解详细信息'];
+}
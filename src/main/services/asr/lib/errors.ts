@@ -0,0 +1,55 @@
+/**
+ * ASR error classification.
+ * Maps server error codes and HTTP statuses to ASRErrorCategory values.
+ */
+
+import { ASRError, VOLCENGINE_CONSTANTS } from '../types';
+import { ASRErrorCategory } from '../../../../shared/types/asr';
+import type { ASRErrorInfo } from '../../../../shared/types/asr';
+
+/**
+ * Categorize an error code from a Volcengine error frame.
+ */
+export function categorizeVolcengineCode(code: number): ASRErrorCategory {
+  const codes = VOLCENGINE_CONSTANTS.ERROR_CODES;
+  switch (code) {
+    case codes.EMPTY_AUDIO:
+      return ASRErrorCategory.NO_SPEECH;
+    case codes.AUDIO_TIMEOUT:
+      return ASRErrorCategory.TIMEOUT;
+    case codes.SERVER_BUSY:
+      return ASRErrorCategory.QUOTA;
+    default:
+      return ASRErrorCategory.PROTOCOL;
+  }
+}
+
+/**
+ * Categorize the HTTP status of a rejected request or handshake.
+ */
+export function categorizeHttpStatus(statusCode: number): ASRErrorCategory {
+  if (statusCode === 401 || statusCode === 403) {
+    return ASRErrorCategory.AUTH;
+  }
+  if (statusCode === 402 || statusCode === 429) {
+    return ASRErrorCategory.QUOTA;
+  }
+  if (statusCode === 408 || statusCode === 504) {
+    return ASRErrorCategory.TIMEOUT;
+  }
+  if (statusCode >= 500) {
+    return ASRErrorCategory.NETWORK;
+  }
+  return ASRErrorCategory.PROTOCOL;
+}
+
+/**
+ * Serializable form of any session error for the renderer.
+ * Errors that are not ASRErrors carry no category.
+ *
+ * @param error - Error from the provider or the service
+ * @param message - Message to show instead of the error's own
+ */
+export function toASRErrorInfo(error: Error, message = error.message): ASRErrorInfo {
+  return error instanceof ASRError ? error.toInfo(message) : { message };
+}
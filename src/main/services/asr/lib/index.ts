@@ -6,9 +6,27 @@
 export { VolcengineClient } from './volcengine-client';
 export type { VolcengineClientEvents } from './volcengine-client';
 
+export { WhisperClient } from './whisper-client';
+export type { WhisperClientEvents } from './whisper-client';
+
+export { MockASRClient } from './mock-client';
+export type { MockASRClientEvents } from './mock-client';
+
+export { createASRProvider } from './provider-factory';
+
+export { categorizeVolcengineCode, categorizeHttpStatus, toASRErrorInfo } from './errors';
+
+export { getVolcengineHints } from './diagnostics';
+
+export { createTestClip } from './test-clip';
+
+export { encodeWav, decodeWav, PCM_16K_MONO } from './wav';
+export type { WavFormat } from './wav';
+
 export {
   loadASRConfig,
   isASRConfigured,
+  loadVolcengineRequestOptions,
   ConfigurationError,
 } from './config';
 export type { ASREnvConfig } from './config';
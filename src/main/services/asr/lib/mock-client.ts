@@ -0,0 +1,146 @@
+/**
+ * Mock ASR client.
+ * Stand-in provider that replays scripted transcripts so the push-to-talk
+ * pipeline can be exercised offline, without Volcengine credentials.
+ */
+
+import { EventEmitter } from 'events';
+import log from 'electron-log';
+import type { ASRResult, ASRStatus } from '../../../../shared/types/asr';
+import type { ASRProvider, ASRProviderEvents, MockASRClientConfig } from '../types';
+import { MOCK_ASR_CONSTANTS } from '../types';
+
+const logger = log.scope('mock-asr-client');
+
+// ============ Event Types ============
+
+export type MockASRClientEvents = ASRProviderEvents;
+
+export interface MockASRClient {
+  on<K extends keyof MockASRClientEvents>(
+    event: K,
+    listener: MockASRClientEvents[K]
+  ): this;
+  off<K extends keyof MockASRClientEvents>(
+    event: K,
+    listener: MockASRClientEvents[K]
+  ): this;
+  emit<K extends keyof MockASRClientEvents>(
+    event: K,
+    ...args: Parameters<MockASRClientEvents[K]>
+  ): boolean;
+}
+
+// ============ Mock Client Class ============
+
+/**
+ * Replays one scripted transcript per session.
+ *
+ * Interim results reveal the transcript progressively in proportion to the
+ * amount of audio received, and the full transcript is emitted as the final
+ * result once `finishAudio()` is called.
+ */
+export class MockASRClient extends EventEmitter implements ASRProvider {
+  /** Session counter shared across instances to rotate transcripts */
+  private static sessionCount = 0;
+
+  private readonly transcript: string;
+  private connected = false;
+  private bytesReceived = 0;
+  private revealedChars = 0;
+  private timers: NodeJS.Timeout[] = [];
+
+  constructor(config: MockASRClientConfig) {
+    super();
+    const transcripts = config.transcripts.length > 0
+      ? config.transcripts
+      : [...MOCK_ASR_CONSTANTS.DEFAULT_TRANSCRIPTS];
+    this.transcript = transcripts[MockASRClient.sessionCount % transcripts.length];
+    MockASRClient.sessionCount++;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) {
+      logger.warn('Already connected');
+      return;
+    }
+
+    this.emitStatus('connecting');
+    logger.info('Starting mock ASR session', { transcriptLength: this.transcript.length });
+
+    await new Promise<void>((resolve) => {
+      this.schedule(resolve, MOCK_ASR_CONSTANTS.CONNECT_DELAY_MS);
+    });
+
+    this.connected = true;
+    this.emitStatus('listening');
+  }
+
+  sendAudio(chunk: ArrayBuffer): void {
+    if (!this.connected) {
+      logger.warn('Cannot send audio: not connected');
+      return;
+    }
+
+    this.bytesReceived += chunk.byteLength;
+
+    const elapsedSeconds = this.bytesReceived / MOCK_ASR_CONSTANTS.BYTES_PER_SECOND;
+    const chars = Array.from(this.transcript);
+    const target = Math.min(
+      chars.length,
+      Math.floor(elapsedSeconds * MOCK_ASR_CONSTANTS.CHARS_PER_SECOND)
+    );
+
+    if (target > this.revealedChars) {
+      this.revealedChars = target;
+      this.emitResult(chars.slice(0, target).join(''), false);
+    }
+  }
+
+  finishAudio(): void {
+    if (!this.connected) {
+      logger.warn('Cannot finish audio: not connected');
+      return;
+    }
+
+    logger.info('Mock ASR finishing', { bytesReceived: this.bytesReceived });
+    this.emitStatus('processing');
+
+    this.schedule(() => {
+      this.emitResult(this.transcript, true);
+      this.emitStatus('done');
+    }, MOCK_ASR_CONSTANTS.FINAL_DELAY_MS);
+  }
+
+  disconnect(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+    this.connected = false;
+    this.emitStatus('idle');
+  }
+
+  // ============ Private Methods ============
+
+  private schedule(callback: () => void, delayMs: number): void {
+    this.timers.push(setTimeout(callback, delayMs));
+  }
+
+  private emitStatus(status: ASRStatus): void {
+    this.emit('status', status);
+  }
+
+  private emitResult(text: string, isFinal: boolean): void {
+    const result: ASRResult = {
+      type: isFinal ? 'final' : 'interim',
+      text,
+      isFinal,
+    };
+    this.emit('result', result);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * ASR provider factory.
+ * Creates the ASR backend selected in settings.
+ */
+
+import { VolcengineClient } from './volcengine-client';
+import { WhisperClient } from './whisper-client';
+import { MockASRClient } from './mock-client';
+import type { ASREnvConfig } from './config';
+import type { ASRProvider } from '../types';
+
+/**
+ * Create the ASR provider for the given configuration.
+ *
+ * @param config - Resolved ASR configuration (environment merged with runtime overrides)
+ * @returns A new, unconnected provider instance
+ */
+export function createASRProvider(config: ASREnvConfig): ASRProvider {
+  switch (config.provider) {
+    case 'whisper':
+      return new WhisperClient(config.whisper);
+    case 'mock':
+      return new MockASRClient({ transcripts: config.mockTranscripts });
+    case 'volcengine':
+      return new VolcengineClient({
+        appId: config.appId,
+        accessToken: config.accessToken,
+        resourceId: config.resourceId,
+        requestOptions: config.requestOptions,
+      });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Connection test clip.
+ * Generates the audio streamed by the ASR connection test.
+ */
+
+import { PCM_16K_MONO } from './wav';
+
+/** Frequency of the test tone */
+const TONE_HZ = 440;
+
+/** Tone amplitude, about -20 dBFS: audible to the server, no speech in it */
+const TONE_AMPLITUDE = 0.1 * 0x7fff;
+
+/**
+ * Create the test clip: silence, a short tone, then silence again, so the
+ * server has real audio to process but nothing to transcribe.
+ *
+ * @param durationMs - Clip length
+ * @returns PCM 16-bit, 16kHz, mono samples
+ */
+export function createTestClip(durationMs: number): Int16Array {
+  const sampleRate = PCM_16K_MONO.sampleRate;
+  const samples = new Int16Array(Math.round((durationMs * sampleRate) / 1000));
+  const toneStart = Math.floor(samples.length / 3);
+  const toneEnd = Math.floor((samples.length * 2) / 3);
+
+  for (let i = toneStart; i < toneEnd; i++) {
+    samples[i] = Math.round(TONE_AMPLITUDE * Math.sin((2 * Math.PI * TONE_HZ * i) / sampleRate));
+  }
+  return samples;
+}
@@ -9,9 +9,17 @@ import WebSocket from 'ws';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import * as zlib from 'zlib';
 import log from 'electron-log';
-import type { ASRResult, ASRStatus } from '../../../../shared/types/asr';
-import type { VolcengineClientConfig, ConnectionState } from '../types';
-import { VOLCENGINE_CONSTANTS } from '../types';
+import { ASRErrorCategory } from '../../../../shared/types/asr';
+import type { ASRResult, ASRSegment, ASRStatus } from '../../../../shared/types/asr';
+import type {
+  ASRProvider,
+  ASRProviderEvents,
+  VolcengineClientConfig,
+  VolcengineUtterance,
+  ConnectionState,
+} from '../types';
+import { ASRError, VOLCENGINE_CONSTANTS, volcengineResultPayloadSchema } from '../types';
+import { categorizeHttpStatus, categorizeVolcengineCode } from './errors';
 
 const logger = log.scope('volcengine-client');
 
@@ -142,7 +150,49 @@ interface ParsedResponse {
   sequence: number;
   text?: string;
   isFinal?: boolean;
+  segments?: ASRSegment[];
   error?: string;
+  /** Error code from a server error frame */
+  code?: number;
+}
+
+/** Bytes of PCM 16-bit 16kHz mono audio per millisecond */
+const BYTES_PER_MS = 32;
+
+// Convert V3 utterances to the shared segment shape
+function toSegments(utterances: VolcengineUtterance[]): ASRSegment[] {
+  return utterances.map((u) => {
+    const words = (u.words ?? []).map((w) => ({
+      text: w.text,
+      startTime: w.start_time,
+      endTime: w.end_time,
+      // 0 means "not reported" in V3 responses
+      ...(w.confidence ? { confidence: w.confidence } : {}),
+    }));
+    return {
+      text: u.text,
+      startTime: u.start_time ?? u.begin_time ?? 0,
+      endTime: u.end_time ?? 0,
+      ...(u.confidence ? { confidence: u.confidence } : {}),
+      definite: u.definite ?? false,
+      words,
+    };
+  });
+}
+
+// Shift segment times by a session offset (after a reconnect restarts the clock)
+function offsetSegments(segments: ASRSegment[], offsetMs: number): ASRSegment[] {
+  if (offsetMs === 0) return segments;
+  return segments.map((segment) => ({
+    ...segment,
+    startTime: segment.startTime + offsetMs,
+    endTime: segment.endTime + offsetMs,
+    words: segment.words.map((word) => ({
+      ...word,
+      startTime: word.startTime + offsetMs,
+      endTime: word.endTime + offsetMs,
+    })),
+  }));
 }
 
 function parseResponse(data: Buffer): ParsedResponse | null {
@@ -167,6 +217,7 @@ function parseResponse(data: Buffer): ParsedResponse | null {
       type: 'error',
       sequence: 0,
       error: message,
+      code,
     };
   }
 
@@ -191,19 +242,23 @@ function parseResponse(data: Buffer): ParsedResponse | null {
     logger.debug('Server response', { sequence, payload: payloadStr });
 
     try {
-      const payload = JSON.parse(payloadStr);
+      const parsed = volcengineResultPayloadSchema.safeParse(JSON.parse(payloadStr));
+      if (!parsed.success) {
+        logger.error('Unexpected result payload format', { error: parsed.error.message });
+        return null;
+      }
+
       // Check if this is the final result (negative sequence or NEG_SEQUENCE flag)
       const isFinal =
         sequence < 0 || messageFlags === PROTOCOL.FLAG_NEG_SEQUENCE;
 
       // Extract text from result
-      let text = '';
-      if (payload.result) {
-        text = payload.result.text || '';
-        // If no direct text, try to concatenate utterances
-        if (!text && payload.result.utterances) {
-          text = payload.result.utterances.map((u: { text: string }) => u.text).join('');
-        }
+      const result = parsed.data.result;
+      const utterances = result?.utterances ?? [];
+      let text = result?.text || '';
+      // If no direct text, try to concatenate utterances
+      if (!text && utterances.length > 0) {
+        text = utterances.map((u) => u.text).join('');
       }
 
       return {
@@ -211,6 +266,7 @@ function parseResponse(data: Buffer): ParsedResponse | null {
         sequence,
         text,
         isFinal,
+        ...(utterances.length > 0 ? { segments: toSegments(utterances) } : {}),
       };
     } catch (e) {
       logger.error('Failed to parse JSON payload', { error: e });
@@ -224,11 +280,7 @@ function parseResponse(data: Buffer): ParsedResponse | null {
 
 // ============ Event Types ============
 
-export interface VolcengineClientEvents {
-  result: (result: ASRResult) => void;
-  status: (status: ASRStatus) => void;
-  error: (error: Error) => void;
-}
+export type VolcengineClientEvents = ASRProviderEvents;
 
 export interface VolcengineClient {
   on<K extends keyof VolcengineClientEvents>(
@@ -247,19 +299,49 @@ export interface VolcengineClient {
 
 // ============ ASR Client Class ============
 
-export class VolcengineClient extends EventEmitter {
+/** Audio chunk sent on the current connection and not yet acknowledged */
+interface PendingAudio {
+  sequence: number;
+  chunk: Buffer;
+}
+
+export class VolcengineClient extends EventEmitter implements ASRProvider {
   private readonly config: VolcengineClientConfig;
   private ws: WebSocket | null = null;
   private connectionState: ConnectionState = 'disconnected';
   private requestId = '';
   private sequence = 0;
 
+  // Reconnection state
+  private pendingAudio: PendingAudio[] = [];
+  private pendingAudioBytes = 0;
+  /** Session audio the server has confirmed (or that was dropped), in bytes */
+  private settledAudioBytes = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private finishRequested = false;
+  private finalReceived = false;
+  /** Text recognized on earlier connections of this session */
+  private committedText = '';
+  /** Latest full text recognized on the current connection */
+  private connectionText = '';
+  /** Segments recognized on earlier connections, in session time */
+  private committedSegments: ASRSegment[] = [];
+  /** Latest segments on the current connection, in session time */
+  private connectionSegments: ASRSegment[] = [];
+  /** Session time at which the current connection's audio starts */
+  private connectionOffsetMs = 0;
+
   constructor(config: VolcengineClientConfig) {
     super();
     this.config = config;
   }
 
   get isConnected(): boolean {
+    // While reconnecting the session is still alive: audio is buffered and replayed
+    if (this.connectionState === 'reconnecting') {
+      return true;
+    }
     return this.connectionState === 'connected' && this.ws?.readyState === WebSocket.OPEN;
   }
 
@@ -277,13 +359,106 @@ export class VolcengineClient extends EventEmitter {
     this.updateState('connecting');
     this.emitStatus('connecting');
 
+    await this.openSocket(false);
+    this.emitStatus('listening');
+  }
+
+  disconnect(): void {
+    logger.info('Disconnecting', { requestId: this.requestId });
+    this.clearReconnectTimer();
+    this.cleanup();
+    this.updateState('disconnected');
+    this.emitStatus('idle');
+  }
+
+  sendAudio(chunk: ArrayBuffer): void {
+    if (!this.isConnected) {
+      logger.warn('Cannot send audio: not connected');
+      return;
+    }
+
+    const audioBuffer = Buffer.from(chunk);
+
+    if (this.connectionState === 'reconnecting') {
+      // Sequence numbers are assigned when the chunk is replayed
+      this.bufferAudio({ sequence: 0, chunk: audioBuffer });
+      return;
+    }
+
+    this.sendAudioPacket(audioBuffer);
+  }
+
+  finishAudio(): void {
+    if (!this.isConnected) {
+      logger.warn('Cannot finish audio: not connected');
+      return;
+    }
+
+    this.finishRequested = true;
+    this.emitStatus('processing');
+
+    if (this.connectionState === 'reconnecting') {
+      logger.info('Finish signal deferred until reconnected');
+      return;
+    }
+
+    this.sendFinishPacket();
+  }
+
+  // ============ Private Methods ============
+
+  private reset(): void {
+    this.requestId = '';
+    this.sequence = 0;
+    this.pendingAudio = [];
+    this.pendingAudioBytes = 0;
+    this.settledAudioBytes = 0;
+    this.reconnectAttempts = 0;
+    this.finishRequested = false;
+    this.finalReceived = false;
+    this.committedText = '';
+    this.connectionText = '';
+    this.committedSegments = [];
+    this.connectionSegments = [];
+    this.connectionOffsetMs = 0;
+  }
+
+  private updateState(state: ConnectionState): void {
+    this.connectionState = state;
+  }
+
+  private emitStatus(status: ASRStatus): void {
+    this.emit('status', status);
+  }
+
+  private cleanup(): void {
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      try {
+        if (this.ws.readyState === WebSocket.OPEN) {
+          this.ws.close();
+        }
+      } catch {
+        // Ignore errors when closing
+      }
+      this.ws = null;
+    }
+  }
+
+  /**
+   * Open a WebSocket and start a recognition request on it.
+   * Failures are reported as session errors only on the initial connect;
+   * failed reconnect attempts just reject so the next attempt can be scheduled.
+   */
+  private openSocket(isReconnect: boolean): Promise<void> {
     return new Promise((resolve, reject) => {
       this.requestId = randomUUID();
       this.sequence = 1; // V3 starts with sequence 1
 
-      logger.info('Connecting to Volcengine ASR', {
+      logger.info(isReconnect ? 'Reconnecting to Volcengine ASR' : 'Connecting to Volcengine ASR', {
         endpoint: VOLCENGINE_CONSTANTS.ENDPOINT,
         requestId: this.requestId,
+        attempt: this.reconnectAttempts,
       });
 
       const headers: Record<string, string> = {
@@ -299,54 +474,47 @@ export class VolcengineClient extends EventEmitter {
         ...(agent && { agent }),
       };
 
+      let opened = false;
+      let connectionTimeout: NodeJS.Timeout | null = null;
+
+      const fail = (err: Error): void => {
+        if (opened) return;
+        opened = true;
+        if (connectionTimeout) clearTimeout(connectionTimeout);
+        this.cleanup();
+        if (!isReconnect) {
+          this.updateState('error');
+          this.emitStatus('error');
+          this.emit('error', err);
+        }
+        reject(err);
+      };
+
       try {
         this.ws = new WebSocket(VOLCENGINE_CONSTANTS.ENDPOINT, wsOptions);
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         logger.error('Failed to create WebSocket', { error: err.message });
-        this.updateState('error');
-        this.emitStatus('error');
-        this.emit('error', err);
-        reject(err);
+        fail(err);
         return;
       }
 
-      const connectionTimeout = setTimeout(() => {
-        if (this.connectionState === 'connecting') {
-          const err = new Error('Connection timeout');
+      connectionTimeout = setTimeout(() => {
+        if (this.connectionState === 'connecting' || this.connectionState === 'reconnecting') {
           logger.error('Connection timeout');
-          this.cleanup();
-          this.updateState('error');
-          this.emitStatus('error');
-          this.emit('error', err);
-          reject(err);
+          fail(new ASRError(ASRErrorCategory.TIMEOUT, 'Connection timeout'));
         }
       }, 30000);
 
       this.ws.on('open', () => {
+        if (opened) return;
+        opened = true;
+        if (connectionTimeout) clearTimeout(connectionTimeout);
+
         logger.info('WebSocket connected', { requestId: this.requestId });
         this.updateState('connected');
 
-        // Send initial request with V3 binary format
-        const initRequest = {
-          user: { uid: 'electron_user' },
-          audio: {
-            format: 'pcm',
-            sample_rate: 16000,
-            channel: 1,
-            bits: 16,
-            codec: 'raw',
-          },
-          request: {
-            model_name: 'bigmodel',
-            enable_punc: true,
-            enable_itn: true,
-            enable_ddc: true,
-            show_utterances: true,
-            result_type: 'full',
-          },
-        };
-
+        const initRequest = this.buildInitPayload();
         logger.debug('Sending init request', initRequest);
         const payload = buildInitRequest(initRequest, this.sequence);
         this.sequence = 2; // Next sequence for audio
@@ -355,8 +523,10 @@ export class VolcengineClient extends EventEmitter {
           this.ws.send(payload);
         }
 
-        this.emitStatus('listening');
-        clearTimeout(connectionTimeout);
+        if (isReconnect) {
+          this.replayPendingAudio();
+        }
+
         resolve();
       });
 
@@ -373,23 +543,21 @@ export class VolcengineClient extends EventEmitter {
         });
         response.on('end', () => {
           logger.error('Response body', { body });
-          const err = new Error(`WebSocket upgrade failed: ${response.statusCode} - ${body}`);
-          clearTimeout(connectionTimeout);
-          this.updateState('error');
-          this.emitStatus('error');
-          this.emit('error', err);
-          reject(err);
+          const statusCode = response.statusCode ?? 0;
+          fail(
+            new ASRError(
+              categorizeHttpStatus(statusCode),
+              `WebSocket upgrade failed: ${statusCode} - ${body}`,
+              { statusCode }
+            )
+          );
         });
       });
 
       this.ws.on('error', (error: Error) => {
         logger.error('WebSocket error', { error: error.message });
-        clearTimeout(connectionTimeout);
-        this.emit('error', error);
-
-        if (this.connectionState === 'connecting') {
-          reject(error);
-        }
+        // Once open, the following 'close' event decides whether to reconnect
+        fail(new ASRError(ASRErrorCategory.NETWORK, error.message));
       });
 
       this.ws.on('close', (code: number, reason: Buffer) => {
@@ -398,46 +566,171 @@ export class VolcengineClient extends EventEmitter {
           reason: reason.toString(),
           requestId: this.requestId,
         });
-        clearTimeout(connectionTimeout);
 
-        if (this.connectionState !== 'disconnected') {
-          this.updateState('disconnected');
-          this.emitStatus('idle');
+        if (!opened) {
+          fail(new ASRError(ASRErrorCategory.NETWORK, `WebSocket closed before open: ${code}`));
+          return;
         }
+
+        this.handleClose();
       });
     });
   }
 
-  disconnect(): void {
-    logger.info('Disconnecting', { requestId: this.requestId });
-    this.cleanup();
-    this.updateState('disconnected');
-    this.emitStatus('idle');
-  }
+  private buildInitPayload(): object {
+    const options = this.config.requestOptions;
 
-  sendAudio(chunk: ArrayBuffer): void {
-    if (!this.isConnected) {
-      logger.warn('Cannot send audio: not connected');
-      return;
+    // Hotwords and boosting tables go in the request corpus
+    const corpus: Record<string, string> = {};
+    if (options.hotwords.length > 0) {
+      corpus.context = JSON.stringify({
+        hotwords: options.hotwords.map((word) => ({ word })),
+      });
+    }
+    if (options.boostingTableId) {
+      corpus.boosting_table_id = options.boostingTableId;
+    }
+    if (options.boostingTableName) {
+      corpus.boosting_table_name = options.boostingTableName;
     }
 
-    const audioBuffer = Buffer.from(chunk);
-    const payload = buildAudioRequest(audioBuffer, this.sequence, false);
-    this.sequence++;
+    return {
+      user: { uid: 'electron_user' },
+      audio: {
+        format: 'pcm',
+        sample_rate: 16000,
+        channel: 1,
+        bits: 16,
+        codec: 'raw',
+        ...(options.language && { language: options.language }),
+      },
+      request: {
+        model_name: 'bigmodel',
+        enable_punc: options.enablePunc,
+        enable_itn: options.enableItn,
+        enable_ddc: options.enableDdc,
+        show_utterances: true,
+        result_type: 'full',
+        ...(Object.keys(corpus).length > 0 && { corpus }),
+      },
+    };
+  }
 
+  private handleClose(): void {
     if (this.ws) {
-      this.ws.send(payload);
+      this.ws.removeAllListeners();
+      this.ws = null;
+    }
+
+    // Only a drop in the middle of an active session is worth recovering
+    if (this.connectionState !== 'connected' || this.finalReceived) {
+      if (this.connectionState !== 'disconnected') {
+        this.updateState('disconnected');
+        this.emitStatus('idle');
+      }
+      return;
     }
+
+    logger.warn('Connection lost mid-session', {
+      requestId: this.requestId,
+      pendingChunks: this.pendingAudio.length,
+    });
+
+    // The next connection starts a fresh transcript; keep what we have so far
+    this.committedText += this.connectionText;
+    this.connectionText = '';
+    this.committedSegments = [...this.committedSegments, ...this.connectionSegments];
+    this.connectionSegments = [];
+
+    this.updateState('reconnecting');
+    this.scheduleReconnect();
   }
 
-  finishAudio(): void {
-    if (!this.isConnected) {
-      logger.warn('Cannot finish audio: not connected');
+  private scheduleReconnect(): void {
+    const { MAX_ATTEMPTS, BASE_DELAY_MS, MAX_DELAY_MS } = VOLCENGINE_CONSTANTS.RECONNECT;
+
+    if (this.reconnectAttempts >= MAX_ATTEMPTS) {
+      const err = new ASRError(
+        ASRErrorCategory.NETWORK,
+        `Connection lost: reconnection failed after ${MAX_ATTEMPTS} attempts`
+      );
+      logger.error('Giving up reconnecting', { attempts: this.reconnectAttempts });
+      this.pendingAudio = [];
+      this.pendingAudioBytes = 0;
+      this.updateState('error');
+      this.emitStatus('error');
+      this.emit('error', err);
       return;
     }
 
+    const delay = Math.min(BASE_DELAY_MS * 2 ** this.reconnectAttempts, MAX_DELAY_MS);
+    this.reconnectAttempts++;
+
+    logger.info('Scheduling reconnect', { attempt: this.reconnectAttempts, delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+
+      this.openSocket(true)
+        .then(() => {
+          logger.info('Reconnected', {
+            requestId: this.requestId,
+            attempts: this.reconnectAttempts,
+          });
+          this.reconnectAttempts = 0;
+        })
+        .catch((error: Error) => {
+          // Disconnected while the attempt was in flight
+          if (this.connectionState !== 'reconnecting') return;
+          logger.warn('Reconnect attempt failed', { error: error.message });
+          this.scheduleReconnect();
+        });
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Resend audio the previous connection never acknowledged, then any
+   * finish signal that was requested while offline.
+   */
+  private replayPendingAudio(): void {
+    const packets = this.pendingAudio;
+    this.pendingAudio = [];
+    this.pendingAudioBytes = 0;
+    // The new connection's clock starts at the first replayed chunk
+    this.connectionOffsetMs = Math.round(this.settledAudioBytes / BYTES_PER_MS);
+
+    logger.info('Replaying unacknowledged audio', {
+      chunks: packets.length,
+      bytes: packets.reduce((sum, p) => sum + p.chunk.length, 0),
+    });
+
+    for (const packet of packets) {
+      this.sendAudioPacket(packet.chunk);
+    }
+
+    if (this.finishRequested) {
+      this.sendFinishPacket();
+    }
+  }
+
+  private sendAudioPacket(audioBuffer: Buffer): void {
+    const sequence = this.sequence++;
+    this.bufferAudio({ sequence, chunk: audioBuffer });
+
+    if (this.ws) {
+      this.ws.send(buildAudioRequest(audioBuffer, sequence, false));
+    }
+  }
+
+  private sendFinishPacket(): void {
     logger.info('Sending finish signal', { sequence: this.sequence });
-    this.emitStatus('processing');
 
     // Send final packet with empty audio and negative sequence
     const payload = buildAudioRequest(Buffer.alloc(0), this.sequence, true);
@@ -446,32 +739,27 @@ export class VolcengineClient extends EventEmitter {
     }
   }
 
-  // ============ Private Methods ============
-
-  private reset(): void {
-    this.requestId = '';
-    this.sequence = 0;
-  }
+  private bufferAudio(packet: PendingAudio): void {
+    this.pendingAudio.push(packet);
+    this.pendingAudioBytes += packet.chunk.length;
 
-  private updateState(state: ConnectionState): void {
-    this.connectionState = state;
+    // Drop the oldest audio rather than growing without bound
+    const limit = VOLCENGINE_CONSTANTS.RECONNECT.MAX_BUFFERED_AUDIO_BYTES;
+    while (this.pendingAudioBytes > limit && this.pendingAudio.length > 1) {
+      const dropped = this.pendingAudio.shift();
+      this.pendingAudioBytes -= dropped?.chunk.length ?? 0;
+      this.settledAudioBytes += dropped?.chunk.length ?? 0;
+    }
   }
 
-  private emitStatus(status: ASRStatus): void {
-    this.emit('status', status);
-  }
+  /** Forget audio the server has confirmed up to and including `sequence` */
+  private acknowledge(sequence: number): void {
+    if (sequence <= 0) return;
 
-  private cleanup(): void {
-    if (this.ws) {
-      this.ws.removeAllListeners();
-      try {
-        if (this.ws.readyState === WebSocket.OPEN) {
-          this.ws.close();
-        }
-      } catch {
-        // Ignore errors when closing
-      }
-      this.ws = null;
+    while (this.pendingAudio.length > 0 && this.pendingAudio[0].sequence <= sequence) {
+      const acked = this.pendingAudio.shift();
+      this.pendingAudioBytes -= acked?.chunk.length ?? 0;
+      this.settledAudioBytes += acked?.chunk.length ?? 0;
     }
   }
 
@@ -480,13 +768,28 @@ export class VolcengineClient extends EventEmitter {
     if (!response) return;
 
     if (response.type === 'error' && response.error) {
-      this.emit('error', new Error(response.error));
+      // Server-side failures are not transient; don't reconnect on the close that follows
+      this.updateState('error');
+      const { code } = response;
+      const category =
+        code === undefined ? ASRErrorCategory.PROTOCOL : categorizeVolcengineCode(code);
+      this.emit('error', new ASRError(category, response.error, { code }));
       this.emitStatus('error');
+    } else if (response.type === 'ack') {
+      this.acknowledge(response.sequence);
     } else if (response.type === 'result' && response.text !== undefined) {
+      this.acknowledge(response.sequence);
+      this.connectionText = response.text;
+      if (response.segments) {
+        this.connectionSegments = offsetSegments(response.segments, this.connectionOffsetMs);
+      }
+
+      const segments = [...this.committedSegments, ...this.connectionSegments];
       const result: ASRResult = {
         type: response.isFinal ? 'final' : 'interim',
-        text: response.text,
+        text: this.committedText + response.text,
         isFinal: response.isFinal ?? false,
+        ...(segments.length > 0 ? { segments } : {}),
       };
 
       logger.debug('ASR result', {
@@ -494,12 +797,15 @@ export class VolcengineClient extends EventEmitter {
         textLength: result.text.length,
       });
 
+      if (response.isFinal) {
+        this.finalReceived = true;
+      }
+
       this.emit('result', result);
 
       if (response.isFinal) {
         this.emitStatus('done');
       }
     }
-    // ACK messages are just logged, no event emitted
   }
 }
@@ -0,0 +1,103 @@
+/**
+ * WAV container helpers.
+ * Wraps raw PCM audio in a RIFF/WAVE header and unwraps it again.
+ */
+
+/**
+ * PCM format description for a WAV file.
+ */
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+/**
+ * Format of the audio the renderer streams to the main process.
+ */
+export const PCM_16K_MONO: WavFormat = {
+  sampleRate: 16000,
+  channels: 1,
+  bitsPerSample: 16,
+};
+
+/** Size of the canonical 44-byte WAV header */
+const WAV_HEADER_SIZE = 44;
+
+/**
+ * Wrap raw little-endian PCM data in a WAV container.
+ *
+ * @param pcm - Raw PCM samples
+ * @param format - PCM format (default: 16-bit, 16kHz, mono)
+ * @returns WAV file contents
+ */
+export function encodeWav(pcm: Buffer, format: WavFormat = PCM_16K_MONO): Buffer {
+  const { sampleRate, channels, bitsPerSample } = format;
+  const blockAlign = (channels * bitsPerSample) / 8;
+  const byteRate = sampleRate * blockAlign;
+
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(WAV_HEADER_SIZE - 8 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // audio format: PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Extract PCM data and its format from a WAV file.
+ * Walks the RIFF chunks, so files with extra chunks (e.g. LIST) are accepted.
+ *
+ * @param wav - WAV file contents
+ * @returns PCM samples and their format
+ * @throws Error if the file is not an uncompressed PCM WAV
+ */
+export function decodeWav(wav: Buffer): { format: WavFormat; pcm: Buffer } {
+  if (
+    wav.length < 12 ||
+    wav.toString('ascii', 0, 4) !== 'RIFF' ||
+    wav.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      if (wav.readUInt16LE(body) !== 1) {
+        throw new Error('Unsupported WAV encoding: only PCM is supported');
+      }
+      format = {
+        channels: wav.readUInt16LE(body + 2),
+        sampleRate: wav.readUInt32LE(body + 4),
+        bitsPerSample: wav.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('Invalid WAV file: data chunk before fmt chunk');
+      }
+      return { format, pcm: wav.subarray(body, Math.min(body + chunkSize, wav.length)) };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('Invalid WAV file: no data chunk');
+}
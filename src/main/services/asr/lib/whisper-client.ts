@@ -0,0 +1,241 @@
+/**
+ * Whisper-compatible ASR client.
+ * Buffers the session's PCM audio and posts it as a WAV file to an
+ * OpenAI-Whisper-compatible `/v1/audio/transcriptions` endpoint
+ * (e.g. a self-hosted whisper.cpp server) when the audio ends.
+ */
+
+import { EventEmitter } from 'events';
+import log from 'electron-log';
+import { encodeWav } from './wav';
+import { categorizeHttpStatus } from './errors';
+import { ASRErrorCategory } from '../../../../shared/types/asr';
+import type { ASRResult, ASRStatus } from '../../../../shared/types/asr';
+import type { ASRProvider, ASRProviderEvents, WhisperClientConfig } from '../types';
+import { ASRError, WHISPER_CONSTANTS, whisperTranscriptionResponseSchema } from '../types';
+
+const logger = log.scope('whisper-client');
+
+// ============ Event Types ============
+
+export type WhisperClientEvents = ASRProviderEvents;
+
+export interface WhisperClient {
+  on<K extends keyof WhisperClientEvents>(
+    event: K,
+    listener: WhisperClientEvents[K]
+  ): this;
+  off<K extends keyof WhisperClientEvents>(
+    event: K,
+    listener: WhisperClientEvents[K]
+  ): this;
+  emit<K extends keyof WhisperClientEvents>(
+    event: K,
+    ...args: Parameters<WhisperClientEvents[K]>
+  ): boolean;
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Build the transcription endpoint URL.
+ * Accepts base URLs with or without a trailing "/v1".
+ */
+function buildTranscriptionsUrl(baseURL: string): string {
+  const trimmed = baseURL.replace(/\/+$/, '');
+  const path = trimmed.endsWith('/v1')
+    ? WHISPER_CONSTANTS.TRANSCRIPTIONS_PATH.replace(/^\/v1/, '')
+    : WHISPER_CONSTANTS.TRANSCRIPTIONS_PATH;
+  return `${trimmed}${path}`;
+}
+
+// ============ Whisper Client Class ============
+
+/**
+ * Non-streaming ASR provider.
+ *
+ * There is no server connection while listening: `connect()` only opens a
+ * local session, audio is buffered in memory, and a single HTTP request is
+ * made from `finishAudio()`. No interim results are produced.
+ */
+export class WhisperClient extends EventEmitter implements ASRProvider {
+  private readonly config: WhisperClientConfig;
+  private sessionOpen = false;
+  private chunks: Buffer[] = [];
+  private abortController: AbortController | null = null;
+
+  constructor(config: WhisperClientConfig) {
+    super();
+    this.config = config;
+  }
+
+  get isConnected(): boolean {
+    return this.sessionOpen;
+  }
+
+  get finalResultTimeoutMs(): number {
+    // Leave headroom over the request timeout so its error surfaces first
+    return this.config.timeoutMs + 1000;
+  }
+
+  async connect(): Promise<void> {
+    if (this.sessionOpen) {
+      logger.warn('Session already open');
+      return;
+    }
+
+    this.emitStatus('connecting');
+    this.chunks = [];
+    this.sessionOpen = true;
+
+    logger.info('Whisper session opened', {
+      endpoint: buildTranscriptionsUrl(this.config.baseURL),
+      model: this.config.model,
+    });
+
+    this.emitStatus('listening');
+  }
+
+  sendAudio(chunk: ArrayBuffer): void {
+    if (!this.sessionOpen) {
+      logger.warn('Cannot send audio: session not open');
+      return;
+    }
+
+    this.chunks.push(Buffer.from(chunk));
+  }
+
+  finishAudio(): void {
+    if (!this.sessionOpen) {
+      logger.warn('Cannot finish audio: session not open');
+      return;
+    }
+
+    this.emitStatus('processing');
+
+    const pcm = Buffer.concat(this.chunks);
+    this.chunks = [];
+
+    if (pcm.length === 0) {
+      logger.info('No audio captured, skipping transcription request');
+      this.emitResult('');
+      this.emitStatus('done');
+      return;
+    }
+
+    this.transcribe(pcm).catch((error) => {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error('Transcription failed', { error: err.message });
+      this.emitStatus('error');
+      this.emit('error', err);
+    });
+  }
+
+  disconnect(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.chunks = [];
+    this.sessionOpen = false;
+    this.emitStatus('idle');
+  }
+
+  // ============ Private Methods ============
+
+  private async transcribe(pcm: Buffer): Promise<void> {
+    const url = buildTranscriptionsUrl(this.config.baseURL);
+    const wav = encodeWav(pcm);
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(wav)], { type: 'audio/wav' }), 'audio.wav');
+    form.append('model', this.config.model);
+    form.append('response_format', 'json');
+    if (this.config.language) {
+      form.append('language', this.config.language);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const controller = new AbortController();
+    this.abortController = controller;
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    const startTime = Date.now();
+
+    logger.info('Posting audio for transcription', {
+      url,
+      audioBytes: pcm.length,
+      durationMs: Math.round(pcm.length / 32),
+    });
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new ASRError(
+          categorizeHttpStatus(response.status),
+          `Transcription request failed: HTTP ${response.status} - ${body}`,
+          { statusCode: response.status }
+        );
+      }
+
+      const parsed = whisperTranscriptionResponseSchema.safeParse(await response.json());
+      if (!parsed.success) {
+        throw new ASRError(ASRErrorCategory.PROTOCOL, 'Unexpected transcription response format');
+      }
+
+      // A disconnect during the request means the session was abandoned
+      if (!this.sessionOpen) {
+        return;
+      }
+
+      logger.info('Transcription received', {
+        textLength: parsed.data.text.length,
+        processingTime: Date.now() - startTime,
+      });
+
+      this.emitResult(parsed.data.text.trim());
+      this.emitStatus('done');
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        if (!this.sessionOpen) {
+          return;
+        }
+        throw new ASRError(
+          ASRErrorCategory.TIMEOUT,
+          `Transcription request timed out after ${this.config.timeoutMs}ms`
+        );
+      }
+      // fetch() rejects with a TypeError when the server cannot be reached
+      if (error instanceof TypeError) {
+        throw new ASRError(ASRErrorCategory.NETWORK, `Transcription request failed: ${error.message}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+    }
+  }
+
+  private emitStatus(status: ASRStatus): void {
+    this.emit('status', status);
+  }
+
+  private emitResult(text: string): void {
+    const result: ASRResult = {
+      type: 'final',
+      text,
+      isFinal: true,
+    };
+    this.emit('result', result);
+  }
+}
@@ -10,3 +10,5 @@ export { stopASR } from './stop';
 export type { StopASRResponse } from './stop';
 
 export { getASRStatus } from './status';
+
+export { testASRConnection } from './test-connection';
@@ -0,0 +1,152 @@
+/**
+ * Test ASR connection procedure.
+ * Streams a short test clip to Volcengine and reports how it went.
+ */
+
+import log from 'electron-log';
+import { asrService } from '../asr.service';
+import { VolcengineClient } from '../lib/volcengine-client';
+import { loadVolcengineRequestOptions } from '../lib/config';
+import { getVolcengineHints } from '../lib/diagnostics';
+import { createTestClip } from '../lib/test-clip';
+import { ASRError, VOLCENGINE_CONSTANTS } from '../types';
+import type { VolcengineRequestOptions } from '../types';
+import { ASRErrorCategory } from '../../../../shared/types/asr';
+import type {
+  ASRConnectionTestRequest,
+  ASRConnectionTestResult,
+  ASRStatus,
+} from '../../../../shared/types/asr';
+
+const logger = log.scope('asr:test-connection');
+
+/** Statuses during which a dictation session uses the connection */
+const BUSY_STATUSES: ASRStatus[] = ['connecting', 'listening', 'processing'];
+
+/** Samples per millisecond of 16kHz audio */
+const SAMPLES_PER_MS = 16;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with a timeout error if the promise does not settle in time.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | null = null;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new ASRError(ASRErrorCategory.TIMEOUT, message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => {
+    if (timer) clearTimeout(timer);
+  });
+}
+
+/**
+ * Wait until the client delivers its final result or fails.
+ */
+function waitForFinalResult(client: VolcengineClient): Promise<void> {
+  return new Promise((resolve, reject) => {
+    client.on('result', (result) => {
+      if (result.isFinal) resolve();
+    });
+    client.on('error', reject);
+  });
+}
+
+/**
+ * Test the Volcengine ASR connection.
+ *
+ * Opens a session with the given credentials, streams a test clip in real
+ * time and waits for the final result. Recognition options come from the
+ * saved settings, so a rejected hotword or language setting shows up too.
+ *
+ * @param request - Credentials to test
+ * @returns Latencies on success; error code and hints on failure
+ */
+export async function testASRConnection(
+  request: ASRConnectionTestRequest
+): Promise<ASRConnectionTestResult> {
+  if (BUSY_STATUSES.includes(asrService.currentStatus)) {
+    return { success: false, error: '正在听写，请结束后再测试', hints: [] };
+  }
+
+  const missing = [
+    !request.appId && 'App ID',
+    !request.accessToken && 'Access Token',
+    !request.resourceId && 'Resource ID',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { success: false, error: `请先填写 ${missing.join('、')}`, hints: [] };
+  }
+
+  let requestOptions: VolcengineRequestOptions;
+  try {
+    requestOptions = loadVolcengineRequestOptions();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message, hints: ['请检查识别参数设置'] };
+  }
+
+  const { CLIP_MS, CHUNK_MS, CONNECT_TIMEOUT_MS, RESULT_TIMEOUT_MS, SLOW_HANDSHAKE_MS } =
+    VOLCENGINE_CONSTANTS.CONNECTION_TEST;
+  const client = new VolcengineClient({ ...request, requestOptions });
+  // Connect failures are emitted as well as thrown
+  client.on('error', () => undefined);
+
+  let handshakeMs: number | undefined;
+  try {
+    logger.info('Testing ASR connection', { resourceId: request.resourceId });
+
+    const connectStartedAt = Date.now();
+    await withTimeout(client.connect(), CONNECT_TIMEOUT_MS, 'Connection timeout');
+    handshakeMs = Date.now() - connectStartedAt;
+
+    // Server errors can arrive while the clip is still streaming
+    let streamFailed = false;
+    const finalResult = waitForFinalResult(client);
+    finalResult.catch(() => {
+      streamFailed = true;
+    });
+
+    const clip = createTestClip(CLIP_MS);
+    const chunkSamples = CHUNK_MS * SAMPLES_PER_MS;
+    for (let offset = 0; offset < clip.length && !streamFailed; offset += chunkSamples) {
+      client.sendAudio(clip.slice(offset, offset + chunkSamples).buffer);
+      await delay(CHUNK_MS);
+    }
+
+    if (!streamFailed) {
+      client.finishAudio();
+    }
+    const finishedAt = Date.now();
+    await withTimeout(finalResult, RESULT_TIMEOUT_MS, '等待识别结果超时');
+    const responseMs = Date.now() - finishedAt;
+
+    logger.info('ASR connection test succeeded', { handshakeMs, responseMs });
+    return {
+      success: true,
+      handshakeMs,
+      responseMs,
+      hints: handshakeMs > SLOW_HANDSHAKE_MS ? ['握手耗时较长，开始听写时可能有明显延迟，请检查网络或代理'] : [],
+    };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.warn('ASR connection test failed', { error: err.message });
+    return {
+      success: false,
+      handshakeMs,
+      ...(err instanceof ASRError && {
+        category: err.category,
+        errorCode: err.details.code,
+        statusCode: err.details.statusCode,
+      }),
+      error: err.message,
+      hints: getVolcengineHints(err),
+    };
+  } finally {
+    client.removeAllListeners();
+    client.disconnect();
+  }
+}
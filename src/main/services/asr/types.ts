@@ -4,6 +4,10 @@
  */
 
 import { z } from 'zod';
+import type { ASRErrorCategory, ASRErrorInfo, ASRResult, ASRStatus } from '../../../shared/types/asr';
+
+/** Longest hotword accepted by the BigModel context corpus */
+const VOLCENGINE_HOTWORD_MAX_LENGTH = 50;
 
 // ============================================================================
 // Volcengine WebSocket Protocol Schemas
@@ -57,13 +61,77 @@ export const transcriptionResultPayloadSchema = z.object({
   }).optional(),
 });
 
+/**
+ * Word entry of a V3 BigModel utterance.
+ * Confidence is reported as 0 when the model does not provide one.
+ */
+export const volcengineWordSchema = z.object({
+  text: z.string(),
+  start_time: z.number(),
+  end_time: z.number(),
+  confidence: z.number().optional(),
+});
+
+/**
+ * Utterance of a V3 BigModel result (returned with show_utterances).
+ * Extends the sentence shape with V3 timing field names and word detail.
+ */
+export const volcengineUtteranceSchema = sentenceResultSchema.extend({
+  start_time: z.number().optional(),
+  definite: z.boolean().optional(),
+  words: z.array(volcengineWordSchema).optional(),
+});
+
+/**
+ * Full server response payload of the V3 BigModel API.
+ */
+export const volcengineResultPayloadSchema = z.object({
+  result: z.object({
+    text: z.string().optional(),
+    utterances: z.array(volcengineUtteranceSchema).optional(),
+  }).optional(),
+});
+
+/**
+ * Response body of an OpenAI-Whisper-compatible transcription endpoint
+ * (response_format=json).
+ */
+export const whisperTranscriptionResponseSchema = z.object({
+  text: z.string(),
+});
+
 export type SentenceResult = z.infer<typeof sentenceResultSchema>;
 export type TranscriptionResultPayload = z.infer<typeof transcriptionResultPayloadSchema>;
+export type VolcengineWord = z.infer<typeof volcengineWordSchema>;
+export type VolcengineUtterance = z.infer<typeof volcengineUtteranceSchema>;
+export type VolcengineResultPayload = z.infer<typeof volcengineResultPayloadSchema>;
+export type WhisperTranscriptionResponse = z.infer<typeof whisperTranscriptionResponseSchema>;
 
 // ============================================================================
 // Client Configuration Types
 // ============================================================================
 
+/**
+ * BigModel recognition options sent in the init request.
+ */
+export const volcengineRequestOptionsSchema = z.object({
+  /** Recognition language, e.g. "zh-CN" or "en-US"; empty lets the model decide */
+  language: z.string().regex(/^([a-z]{2,3}(-[A-Za-z]{2,4})?)?$/, 'Invalid language code').default(''),
+  /** Add punctuation */
+  enablePunc: z.boolean().default(true),
+  /** Inverse text normalization (e.g. "一百" → "100") */
+  enableItn: z.boolean().default(true),
+  /** Disfluency removal (drops filler words and repetitions) */
+  enableDdc: z.boolean().default(true),
+  /** Words to boost for this session */
+  hotwords: z.array(z.string().trim().min(1).max(VOLCENGINE_HOTWORD_MAX_LENGTH)).default([]),
+  /** Hotword boosting table created in the Volcengine console */
+  boostingTableId: z.string().default(''),
+  boostingTableName: z.string().default(''),
+});
+
+export type VolcengineRequestOptions = z.infer<typeof volcengineRequestOptionsSchema>;
+
 /**
  * Configuration for VolcengineClient.
  */
@@ -71,6 +139,7 @@ export interface VolcengineClientConfig {
   appId: string;
   accessToken: string;
   resourceId: string;
+  requestOptions: VolcengineRequestOptions;
 }
 
 /**
@@ -83,6 +152,119 @@ export type ConnectionState =
   | 'reconnecting'
   | 'error';
 
+// ============================================================================
+// Provider Abstraction
+// ============================================================================
+
+/**
+ * Events emitted by an ASR provider.
+ */
+export interface ASRProviderEvents {
+  result: (result: ASRResult) => void;
+  status: (status: ASRStatus) => void;
+  error: (error: Error) => void;
+}
+
+/**
+ * A speech recognition backend driven by ASRService.
+ *
+ * Lifecycle: `connect()` → `sendAudio()`* → `finishAudio()` → final `result`
+ * → `disconnect()`. Providers report progress through the `status` event
+ * using the same ASRStatus values the floating window renders.
+ */
+export interface ASRProvider {
+  /** Whether the provider session is open and accepting audio */
+  readonly isConnected: boolean;
+
+  /**
+   * How long ASRService waits for the final result after `finishAudio()`.
+   * Providers that transcribe in one request after the audio ends need longer
+   * than streaming providers. Defaults to the service timeout when omitted.
+   */
+  readonly finalResultTimeoutMs?: number;
+
+  /** Open a recognition session */
+  connect(): Promise<void>;
+
+  /** Send a PCM 16-bit, 16kHz, mono audio chunk */
+  sendAudio(chunk: ArrayBuffer): void;
+
+  /** Signal end of audio so the provider produces its final result */
+  finishAudio(): void;
+
+  /** Close the session and release resources */
+  disconnect(): void;
+
+  on<K extends keyof ASRProviderEvents>(event: K, listener: ASRProviderEvents[K]): this;
+  off<K extends keyof ASRProviderEvents>(event: K, listener: ASRProviderEvents[K]): this;
+  removeAllListeners(): this;
+}
+
+/**
+ * Configuration for MockASRClient.
+ */
+export interface MockASRClientConfig {
+  /** Transcripts replayed in rotation, one per session */
+  transcripts: string[];
+}
+
+/**
+ * Configuration for WhisperClient.
+ */
+export interface WhisperClientConfig {
+  /** Server base URL, e.g. "http://192.168.1.10:8080" */
+  baseURL: string;
+  /** Model name sent with the request */
+  model: string;
+  /** Optional bearer token */
+  apiKey: string;
+  /** Optional ISO-639-1 language hint, e.g. "zh" */
+  language: string;
+  /** Request timeout in milliseconds */
+  timeoutMs: number;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Details reported by the server with an ASR error.
+ */
+export interface ASRErrorDetails {
+  /** Error code from a server error frame */
+  code?: number;
+  /** HTTP status of a rejected request or handshake */
+  statusCode?: number;
+}
+
+/**
+ * ASR error class.
+ */
+export class ASRError extends Error {
+  constructor(
+    public category: ASRErrorCategory,
+    message: string,
+    public details: ASRErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'ASRError';
+  }
+
+  /**
+   * Serializable form for the renderer.
+   *
+   * @param message - Message to show instead of this error's own
+   */
+  toInfo(message = this.message): ASRErrorInfo {
+    return {
+      message,
+      category: this.category,
+      ...(this.details.code !== undefined && { code: this.details.code }),
+    };
+  }
+}
+
 // ============================================================================
 // Internal Message Types (for building outgoing messages)
 // ============================================================================
@@ -150,5 +332,65 @@ export const VOLCENGINE_CONSTANTS = {
     MAX_ATTEMPTS: 5,
     BASE_DELAY_MS: 1000,
     MAX_DELAY_MS: 30000,
+    /** Upper bound on unacknowledged audio kept for replay (~60s of PCM) */
+    MAX_BUFFERED_AUDIO_BYTES: 60 * 32000,
   },
+
+  /** Server error codes of the BigModel streaming API */
+  ERROR_CODES: {
+    INVALID_PARAMS: 45000001,
+    EMPTY_AUDIO: 45000002,
+    AUDIO_TIMEOUT: 45000081,
+    INVALID_AUDIO_FORMAT: 45000151,
+    SERVER_BUSY: 55000031,
+    /** Codes from here on are internal server errors */
+    SERVER_ERROR_MIN: 55000000,
+  },
+
+  /** Connection test settings */
+  CONNECTION_TEST: {
+    /** Length of the test clip */
+    CLIP_MS: 1000,
+    /** Audio per packet, sent in real time */
+    CHUNK_MS: 100,
+    CONNECT_TIMEOUT_MS: 10000,
+    /** Wait for the final result after the clip */
+    RESULT_TIMEOUT_MS: 10000,
+    /** Handshakes slower than this get a network hint */
+    SLOW_HANDSHAKE_MS: 1500,
+  },
+} as const;
+
+export const WHISPER_CONSTANTS = {
+  /** Default server address (whisper.cpp server default port) */
+  DEFAULT_BASE_URL: 'http://127.0.0.1:8080',
+
+  /** Transcription endpoint path */
+  TRANSCRIPTIONS_PATH: '/v1/audio/transcriptions',
+
+  /** Default model name */
+  DEFAULT_MODEL: 'whisper-1',
+
+  /** Default request timeout */
+  DEFAULT_TIMEOUT_MS: 60000,
+} as const;
+
+export const MOCK_ASR_CONSTANTS = {
+  /** Simulated connection handshake delay */
+  CONNECT_DELAY_MS: 150,
+
+  /** Simulated server processing delay after end of audio */
+  FINAL_DELAY_MS: 300,
+
+  /** Characters revealed per second of received audio */
+  CHARS_PER_SECOND: 8,
+
+  /** Bytes of PCM 16-bit 16kHz mono audio per second */
+  BYTES_PER_SECOND: 32000,
+
+  /** Transcripts used when none are configured */
+  DEFAULT_TRANSCRIPTS: [
+    '这是一段用于离线测试的模拟语音识别结果。',
+    'This is a scripted transcript from the mock ASR provider.',
+  ],
 } as const;
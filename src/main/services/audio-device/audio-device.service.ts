@@ -0,0 +1,103 @@
+/**
+ * Audio Device Service.
+ * Tracks the microphones the renderer can see and the persisted preference.
+ *
+ * Devices can only be enumerated in the renderer, which reports them here so
+ * the tray menu can offer a picker. The recorder in the renderer opens the
+ * preferred device and falls back to the system default on its own.
+ */
+
+import { EventEmitter } from 'events';
+import log from 'electron-log';
+import { settingsService } from '../settings';
+import type { AudioInputDevice, AudioInputDeviceState } from '../../../shared/types/audio';
+
+const logger = log.scope('audio-device-service');
+
+// ============ Event Types ============
+
+export interface AudioDeviceServiceEvents {
+  /** Device list or preferred device changed */
+  changed: (state: AudioInputDeviceState) => void;
+}
+
+export interface AudioDeviceService {
+  on<K extends keyof AudioDeviceServiceEvents>(
+    event: K,
+    listener: AudioDeviceServiceEvents[K]
+  ): this;
+  off<K extends keyof AudioDeviceServiceEvents>(
+    event: K,
+    listener: AudioDeviceServiceEvents[K]
+  ): this;
+  emit<K extends keyof AudioDeviceServiceEvents>(
+    event: K,
+    ...args: Parameters<AudioDeviceServiceEvents[K]>
+  ): boolean;
+}
+
+// ============ Audio Device Service Class ============
+
+/**
+ * Audio Device Service for microphone selection.
+ *
+ * @example
+ * ```typescript
+ * audioDeviceService.on('changed', (state) => rebuildTrayMenu(state));
+ * audioDeviceService.selectInputDevice(deviceId);
+ * ```
+ */
+export class AudioDeviceService extends EventEmitter {
+  private devices: AudioInputDevice[] = [];
+
+  /**
+   * Known microphones and the preferred one.
+   */
+  getState(): AudioInputDeviceState {
+    return {
+      devices: [...this.devices],
+      selectedDeviceId: process.env.AUDIO_INPUT_DEVICE_ID ?? '',
+    };
+  }
+
+  /**
+   * Replace the device list with the renderer's latest enumeration.
+   */
+  updateDevices(devices: AudioInputDevice[]): void {
+    const unchanged =
+      devices.length === this.devices.length &&
+      devices.every((device, index) =>
+        device.deviceId === this.devices[index].deviceId && device.label === this.devices[index].label
+      );
+    if (unchanged) {
+      return;
+    }
+
+    this.devices = devices;
+    logger.info('Audio input devices updated', { count: devices.length });
+    this.emit('changed', this.getState());
+  }
+
+  /**
+   * Persist the preferred microphone.
+   *
+   * @param deviceId - Device to use, or empty for the system default
+   */
+  selectInputDevice(deviceId: string): void {
+    if (deviceId === this.getState().selectedDeviceId) {
+      return;
+    }
+
+    settingsService.updateValues({ AUDIO_INPUT_DEVICE_ID: deviceId });
+    logger.info('Audio input device selected', {
+      deviceId: deviceId || '(default)',
+      label: this.devices.find((device) => device.deviceId === deviceId)?.label,
+    });
+    this.emit('changed', this.getState());
+  }
+}
+
+/**
+ * Singleton instance of the audio device service.
+ */
+export const audioDeviceService = new AudioDeviceService();
@@ -0,0 +1,6 @@
+/**
+ * Audio device service module exports.
+ */
+
+export { AudioDeviceService, audioDeviceService } from './audio-device.service';
+export type { AudioDeviceServiceEvents } from './audio-device.service';
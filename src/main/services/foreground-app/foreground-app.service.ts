@@ -0,0 +1,260 @@
+/**
+ * Foreground App Service.
+ * Identifies the application that currently has keyboard focus.
+ *
+ * Platform-specific lookups:
+ * - macOS: System Events via osascript (name, bundle ID, PID)
+ * - Windows: GetForegroundWindow via a long-running PowerShell process
+ *   (process name, PID, window handle)
+ * - Linux (X11): xdotool (window ID, PID), process name from /proc
+ *
+ * Lookups are best-effort: any failure resolves to null.
+ */
+
+import { execFile, spawn } from 'child_process';
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import fs from 'fs';
+import log from 'electron-log';
+import type { ForegroundApp } from '../../../shared/types/foreground-app';
+
+const logger = log.scope('foreground-app-service');
+
+/** Upper bound for a single lookup */
+const LOOKUP_TIMEOUT_MS = 3000;
+
+const MAC_SCRIPT = `tell application "System Events"
+  set frontApp to first application process whose frontmost is true
+  set output to (name of frontApp) & linefeed & (bundle identifier of frontApp) & linefeed & (unix id of frontApp)
+end tell
+return output`;
+
+/**
+ * Answers one lookup per line read from stdin with one tab-separated line:
+ * process name, PID, window handle. Exits when stdin closes.
+ */
+const WINDOWS_SCRIPT = `[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+public static class ForegroundWindow {
+  [DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();
+  [DllImport("user32.dll")] public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint pid);
+}
+"@
+while ($null -ne [Console]::In.ReadLine()) {
+  $processId = 0
+  $window = [ForegroundWindow]::GetForegroundWindow()
+  [void][ForegroundWindow]::GetWindowThreadProcessId($window, [ref]$processId)
+  $process = Get-Process -Id $processId -ErrorAction SilentlyContinue
+  [Console]::Out.WriteLine("$($process.ProcessName)\`t$processId\`t$($window.ToInt64())")
+  [Console]::Out.Flush()
+}`;
+
+/**
+ * Run a command and resolve with trimmed stdout.
+ */
+function run(file: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: LOOKUP_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout.toString().trim());
+    });
+  });
+}
+
+/**
+ * A PowerShell process kept running for Windows lookups.
+ *
+ * Starting PowerShell and compiling the Win32 bindings takes seconds, so
+ * it is done once; each lookup then only writes a line to its stdin. The
+ * process is restarted on the next lookup if it exits.
+ */
+class PowerShellSession {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private output = '';
+  /** Waiting lookups, answered in order */
+  private readonly pending: Array<(line: string | null) => void> = [];
+
+  /**
+   * Request one lookup.
+   *
+   * @returns The answer line
+   * @throws Error if PowerShell cannot start, exits, or does not answer in time
+   */
+  query(): Promise<string> {
+    const child = this.child ?? this.start();
+
+    return new Promise((resolve, reject) => {
+      // A late answer still consumes this slot, keeping later answers in order
+      const timer = setTimeout(() => {
+        reject(new Error('Foreground window lookup timed out'));
+      }, LOOKUP_TIMEOUT_MS);
+
+      this.pending.push((line) => {
+        clearTimeout(timer);
+        if (line === null) {
+          reject(new Error('PowerShell exited'));
+        } else {
+          resolve(line);
+        }
+      });
+      child.stdin.write('\n');
+    });
+  }
+
+  /**
+   * Stop the PowerShell process.
+   */
+  dispose(): void {
+    const child = this.child;
+    this.stopped(child);
+    child?.kill();
+  }
+
+  private start(): ChildProcessWithoutNullStreams {
+    const child = spawn(
+      'powershell.exe',
+      ['-NoProfile', '-NonInteractive', '-Command', WINDOWS_SCRIPT],
+      { windowsHide: true }
+    );
+    this.child = child;
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => {
+      this.output += chunk;
+      let end = this.output.indexOf('\n');
+      while (end !== -1) {
+        const line = this.output.slice(0, end).replace(/\r$/, '');
+        this.output = this.output.slice(end + 1);
+        this.pending.shift()?.(line);
+        end = this.output.indexOf('\n');
+      }
+    });
+    // Errors are reported per lookup; the streams only need a listener
+    child.stdin.on('error', () => undefined);
+    child.stderr.resume();
+
+    child.on('error', (error) => {
+      logger.warn('PowerShell lookup process failed', { error: error.message });
+      this.stopped(child);
+    });
+    child.on('exit', () => this.stopped(child));
+
+    return child;
+  }
+
+  /**
+   * Forget a process that exited and fail its waiting lookups.
+   */
+  private stopped(child: ChildProcessWithoutNullStreams | null): void {
+    if (!child || this.child !== child) {
+      return;
+    }
+    this.child = null;
+    this.output = '';
+    this.pending.splice(0).forEach((answer) => answer(null));
+  }
+}
+
+function parsePid(value: string | undefined): number | undefined {
+  const pid = parseInt(value ?? '', 10);
+  return Number.isNaN(pid) ? undefined : pid;
+}
+
+/**
+ * Foreground App Service.
+ *
+ * @example
+ * ```typescript
+ * const app = await foregroundAppService.getForegroundApp();
+ * // { name: 'Code', bundleId: 'com.microsoft.VSCode', pid: 1234 }
+ * ```
+ */
+export class ForegroundAppService {
+  private readonly powerShell = new PowerShellSession();
+
+  /**
+   * Look up the application that currently has focus.
+   *
+   * @returns The focused application, or null if it cannot be determined
+   */
+  async getForegroundApp(): Promise<ForegroundApp | null> {
+    try {
+      switch (process.platform) {
+        case 'darwin':
+          return await this.getMacForegroundApp();
+        case 'win32':
+          return await this.getWindowsForegroundApp();
+        case 'linux':
+          return await this.getLinuxForegroundApp();
+        default:
+          return null;
+      }
+    } catch (error) {
+      logger.debug('Foreground app lookup failed', {
+        platform: process.platform,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Stop the helper process used for lookups on Windows.
+   */
+  dispose(): void {
+    this.powerShell.dispose();
+  }
+
+  /**
+   * Whether two lookups found the same focused window.
+   * Compares window handles where the platform reports them, otherwise
+   * (macOS) the application process.
+   *
+   * @returns false if either lookup failed
+   */
+  isSameWindow(a: ForegroundApp | null, b: ForegroundApp | null): boolean {
+    if (!a || !b) {
+      return false;
+    }
+    if (a.windowId || b.windowId) {
+      return a.windowId === b.windowId;
+    }
+    return a.pid !== undefined ? a.pid === b.pid : a.name === b.name;
+  }
+
+  private async getMacForegroundApp(): Promise<ForegroundApp | null> {
+    const [name, bundleId, pid] = (await run('osascript', ['-e', MAC_SCRIPT])).split('\n');
+    if (!name) {
+      return null;
+    }
+    return {
+      name,
+      ...(bundleId && bundleId !== 'missing value' && { bundleId }),
+      pid: parsePid(pid),
+    };
+  }
+
+  private async getWindowsForegroundApp(): Promise<ForegroundApp | null> {
+    const [name, pid, windowId] = (await this.powerShell.query()).split('\t');
+    return name ? { name, pid: parsePid(pid), ...(windowId && { windowId }) } : null;
+  }
+
+  private async getLinuxForegroundApp(): Promise<ForegroundApp | null> {
+    const windowId = await run('xdotool', ['getactivewindow']);
+    const pid = parsePid(await run('xdotool', ['getwindowpid', windowId]));
+    if (pid === undefined) {
+      return null;
+    }
+    const name = fs.readFileSync(`/proc/${pid}/comm`, 'utf-8').trim();
+    return name ? { name, pid, windowId } : null;
+  }
+}
+
+/**
+ * Singleton instance of the foreground app service.
+ */
+export const foregroundAppService = new ForegroundAppService();
@@ -0,0 +1,5 @@
+/**
+ * Foreground app service module exports.
+ */
+
+export { ForegroundAppService, foregroundAppService } from './foreground-app.service';
@@ -0,0 +1,142 @@
+/**
+ * History Service.
+ * Keeps a persisted log of completed dictation sessions so earlier results
+ * can be searched, copied and inserted again.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import log from 'electron-log';
+import { JsonFileStore } from '../storage';
+import { HISTORY_CONSTANTS, historyFileSchema } from './types';
+import type { HistoryEntryInput, HistoryFile } from './types';
+import type { HistoryEntry } from '../../../shared/types/history';
+
+const logger = log.scope('history-service');
+
+// ============ Event Types ============
+
+export interface HistoryServiceEvents {
+  updated: () => void;
+}
+
+export interface HistoryService {
+  on<K extends keyof HistoryServiceEvents>(
+    event: K,
+    listener: HistoryServiceEvents[K]
+  ): this;
+  off<K extends keyof HistoryServiceEvents>(
+    event: K,
+    listener: HistoryServiceEvents[K]
+  ): this;
+  emit<K extends keyof HistoryServiceEvents>(
+    event: K,
+    ...args: Parameters<HistoryServiceEvents[K]>
+  ): boolean;
+}
+
+// ============ History Service Class ============
+
+/**
+ * History Service for dictation sessions.
+ *
+ * @example
+ * ```typescript
+ * historyService.add({
+ *   createdAt: new Date().toISOString(),
+ *   rawText: '你好',
+ *   optimizedText: '你好。',
+ *   targetApp: { name: 'Notes' },
+ *   durationMs: 2400,
+ * });
+ *
+ * const matches = historyService.list('你好');
+ * ```
+ */
+export class HistoryService extends EventEmitter {
+  private readonly store = new JsonFileStore<HistoryFile>(
+    HISTORY_CONSTANTS.FILE_NAME,
+    historyFileSchema,
+    () => ({ version: HISTORY_CONSTANTS.VERSION, entries: [] })
+  );
+
+  /**
+   * List history entries, newest first.
+   *
+   * @param query - Case-insensitive text matched against the raw and
+   *   optimized text and the target app name
+   */
+  list(query?: string): HistoryEntry[] {
+    const entries = this.store.read().entries;
+    const needle = query?.trim().toLowerCase();
+    if (!needle) {
+      return entries;
+    }
+
+    return entries.filter((entry) =>
+      [entry.rawText, entry.optimizedText, entry.targetApp?.name]
+        .some((value) => value?.toLowerCase().includes(needle))
+    );
+  }
+
+  /**
+   * Get a single entry.
+   *
+   * @throws Error if the entry does not exist
+   */
+  get(id: string): HistoryEntry {
+    const entry = this.store.read().entries.find((item) => item.id === id);
+    if (!entry) {
+      throw new Error(`History entry not found: ${id}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Record a completed session.
+   *
+   * @returns The stored entry
+   */
+  add(input: HistoryEntryInput): HistoryEntry {
+    const entry: HistoryEntry = { id: randomUUID(), ...input };
+    const entries = [entry, ...this.store.read().entries].slice(0, HISTORY_CONSTANTS.MAX_ENTRIES);
+
+    this.save(entries);
+    logger.info('History entry added', {
+      id: entry.id,
+      targetApp: entry.targetApp?.name,
+      durationMs: entry.durationMs,
+    });
+    return entry;
+  }
+
+  /**
+   * Delete an entry. Unknown IDs are ignored.
+   */
+  delete(id: string): void {
+    const entries = this.store.read().entries;
+    const remaining = entries.filter((entry) => entry.id !== id);
+    if (remaining.length !== entries.length) {
+      this.save(remaining);
+      logger.info('History entry deleted', { id });
+    }
+  }
+
+  /**
+   * Delete all entries.
+   */
+  clear(): void {
+    this.save([]);
+    logger.info('History cleared');
+  }
+
+  private save(entries: HistoryEntry[]): void {
+    this.store.write({ version: HISTORY_CONSTANTS.VERSION, entries });
+    this.emit('updated');
+  }
+}
+
+/**
+ * Singleton instance of the history service.
+ */
+export const historyService = new HistoryService();
@@ -0,0 +1,15 @@
+/**
+ * History module exports.
+ * Re-exports the history service and procedures.
+ */
+
+// Service
+export { HistoryService, historyService } from './history.service';
+export type { HistoryServiceEvents } from './history.service';
+
+// Procedures
+export { copyHistoryEntry, reinsertHistoryEntry } from './procedures';
+
+// Types
+export type { HistoryEntryInput, HistoryFile } from './types';
+export { HISTORY_CONSTANTS } from './types';
@@ -0,0 +1,31 @@
+/**
+ * Copy history entry procedure.
+ * Puts the text of a past dictation on the clipboard.
+ */
+
+import { clipboard } from 'electron';
+import log from 'electron-log';
+import { historyService } from '../history.service';
+import type { HistoryActionResult } from '../../../../shared/types/history';
+
+const logger = log.scope('history:copy-entry');
+
+/**
+ * Copy the inserted text of a history entry to the clipboard.
+ * The optimized text is preferred when it exists.
+ *
+ * @param id - History entry ID
+ */
+export function copyHistoryEntry(id: string): HistoryActionResult {
+  try {
+    const entry = historyService.get(id);
+    clipboard.writeText(entry.optimizedText ?? entry.rawText);
+
+    logger.info('History entry copied', { id });
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to copy history entry', { id, error: message });
+    return { success: false, error: message };
+  }
+}
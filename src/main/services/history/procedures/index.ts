@@ -0,0 +1,6 @@
+/**
+ * History procedures exports.
+ */
+
+export { copyHistoryEntry } from './copy-entry';
+export { reinsertHistoryEntry } from './reinsert-entry';
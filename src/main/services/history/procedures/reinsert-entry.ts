@@ -0,0 +1,55 @@
+/**
+ * Re-insert history entry procedure.
+ * Types the text of a past dictation into the application under the main window.
+ */
+
+import { app, type BrowserWindow } from 'electron';
+import log from 'electron-log';
+import { historyService } from '../history.service';
+import { HISTORY_CONSTANTS } from '../types';
+import { textInputService } from '../../text-input';
+import type { HistoryActionResult } from '../../../../shared/types/history';
+
+const logger = log.scope('history:reinsert-entry');
+
+/**
+ * Insert the text of a history entry at the cursor of the previously
+ * focused application.
+ *
+ * The request comes from the main window, which holds focus, so the window
+ * is moved out of the way first and focus is given time to return.
+ *
+ * @param id - History entry ID
+ * @param source - Window the request came from
+ */
+export async function reinsertHistoryEntry(
+  id: string,
+  source: BrowserWindow | null
+): Promise<HistoryActionResult> {
+  try {
+    const entry = historyService.get(id);
+    const text = entry.optimizedText ?? entry.rawText;
+
+    if (process.platform === 'darwin') {
+      // Hiding the app hands focus back to the previously active application
+      app.hide();
+    } else {
+      source?.minimize();
+    }
+    await new Promise((resolve) => setTimeout(resolve, HISTORY_CONSTANTS.REINSERT_FOCUS_DELAY_MS));
+
+    // Undo removes the re-inserted text, not the dictation before it
+    textInputService.startNewInsertion();
+    const result = await textInputService.insert(text);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    logger.info('History entry re-inserted', { id, textLength: text.length });
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to re-insert history entry', { id, error: message });
+    return { success: false, error: message };
+  }
+}
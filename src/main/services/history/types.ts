@@ -0,0 +1,61 @@
+/**
+ * History types and Zod schemas.
+ * Defines the persisted dictation history file.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const HISTORY_CONSTANTS = {
+  /** File name under the userData directory */
+  FILE_NAME: 'history.json',
+
+  /** Current file format version */
+  VERSION: 1,
+
+  /** Oldest entries beyond this count are dropped */
+  MAX_ENTRIES: 1000,
+
+  /** Time for focus to leave the main window before re-inserting (ms) */
+  REINSERT_FOCUS_DELAY_MS: 300,
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+export const foregroundAppSchema = z.object({
+  name: z.string(),
+  bundleId: z.string().optional(),
+  pid: z.number().int().optional(),
+});
+
+/**
+ * A single dictation session.
+ */
+export const historyEntrySchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.string(),
+  rawText: z.string(),
+  optimizedText: z.string().nullable(),
+  targetApp: foregroundAppSchema.nullable(),
+  durationMs: z.number().nonnegative(),
+});
+
+/**
+ * Persisted history file. Entries are stored newest first.
+ */
+export const historyFileSchema = z.object({
+  version: z.literal(HISTORY_CONSTANTS.VERSION),
+  entries: z.array(historyEntrySchema),
+});
+
+export type HistoryFile = z.infer<typeof historyFileSchema>;
+
+/**
+ * Session data recorded by push-to-talk, before an ID is assigned.
+ */
+export type HistoryEntryInput = Omit<z.infer<typeof historyEntrySchema>, 'id'>;
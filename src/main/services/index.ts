@@ -11,10 +11,16 @@ export {
   stopASR,
   getASRStatus,
   VolcengineClient,
+  WhisperClient,
+  MockASRClient,
+  createASRProvider,
   loadASRConfig,
   isASRConfigured,
   ConfigurationError,
+  ASRError,
   VOLCENGINE_CONSTANTS,
+  WHISPER_CONSTANTS,
+  MOCK_ASR_CONSTANTS,
 } from './asr';
 
 export type {
@@ -22,23 +28,123 @@ export type {
   StartASRResponse,
   StopASRResponse,
   VolcengineClientEvents,
+  WhisperClientEvents,
+  MockASRClientEvents,
   ASREnvConfig,
+  ASRProvider,
+  ASRProviderEvents,
+  WhisperClientConfig,
   VolcengineClientConfig,
+  VolcengineRequestOptions,
   ConnectionState,
 } from './asr';
 
 // Keyboard Service
-export { KeyboardService, keyboardService } from './keyboard';
-export type { KeyboardConfig } from './keyboard';
+export {
+  KeyboardService,
+  keyboardService,
+  DEFAULT_TRIGGER_ID,
+  captureHotkey,
+  updateHotkey,
+  updateUndoHotkey,
+  describeHotkey,
+  findHotkeyConflict,
+  formatHotkey,
+  parseHotkey,
+} from './keyboard';
+export type {
+  KeyboardConfig,
+  KeyboardStopReason,
+  KeyboardTrigger,
+  HotkeyBinding,
+  HotkeyModifier,
+} from './keyboard';
 
 // Text Input Service
 export { TextInputService, textInputService } from './text-input';
-export type { TextInsertResult } from './text-input';
+export type { KeyStroke, TextInsertResult, UndoInsertionResult } from './text-input';
 
 // Permissions Service
 export { PermissionsService, permissionsService } from './permissions';
 export type { PermissionStatus, PermissionType, MediaAccessStatus } from './permissions';
 
+// Settings Service
+export { SettingsService, settingsService, SETTINGS_CONSTANTS, importLegacySettings } from './settings';
+export type { SettingsServiceEvents, SettingsFile } from './settings';
+
+// Audio Device Service
+export { AudioDeviceService, audioDeviceService } from './audio-device';
+export type { AudioDeviceServiceEvents } from './audio-device';
+
+// Vocabulary Service
+export {
+  VocabularyService,
+  vocabularyService,
+  importVocabularyCsv,
+  exportVocabularyCsv,
+  applyVocabulary,
+} from './vocabulary';
+export type { VocabularyEntryInput } from './vocabulary';
+
+// Recording Archive Service
+export {
+  RecordingArchiveService,
+  recordingArchiveService,
+  rerunRecording,
+} from './recording-archive';
+export type { RecordingArchiveConfig, RecordingSessionOutcome } from './recording-archive';
+
+// History Service
+export {
+  HistoryService,
+  historyService,
+  copyHistoryEntry,
+  reinsertHistoryEntry,
+} from './history';
+export type { HistoryServiceEvents, HistoryEntryInput } from './history';
+
+// Profile Service
+export { ProfileService, profileService, PROFILE_CONSTANTS } from './profile';
+export type { ProfileServiceEvents, ProfileFile, StoredProfile } from './profile';
+
+// Prompt Template Service
+export {
+  PromptTemplateService,
+  promptTemplateService,
+  importPromptTemplates,
+  exportPromptTemplates,
+  renderPromptTemplate,
+  PROMPT_TEMPLATE_CONSTANTS,
+} from './prompt-template';
+export type { PromptContext, PromptTemplateFile, PromptVariables } from './prompt-template';
+
+// Voice Command Service
+export {
+  VoiceCommandService,
+  voiceCommandService,
+  parseKeySequence,
+  matchVoiceCommand,
+  VOICE_COMMAND_CONSTANTS,
+} from './voice-command';
+export type { VoiceCommandConfig, VoiceCommandFile, VoiceCommandMatch } from './voice-command';
+
+// App Rule Service
+export {
+  AppRuleService,
+  appRuleService,
+  matchAppRule,
+  applyPostProcessing,
+  APP_RULE_CONSTANTS,
+} from './app-rule';
+export type { AppRuleFile } from './app-rule';
+
+// Foreground App Service
+export { ForegroundAppService, foregroundAppService } from './foreground-app';
+
+// Storage
+export { JsonFileStore, onCorruptStoreFile } from './storage';
+export type { CorruptStoreFile } from './storage';
+
 // Push-to-Talk Service
-export { PushToTalkService, pushToTalkService } from './push-to-talk';
+export { PushToTalkService, pushToTalkService, StreamingInserter } from './push-to-talk';
 export type { PushToTalkConfig } from './push-to-talk';
@@ -2,5 +2,18 @@
  * Keyboard service module exports.
  */
 
-export { KeyboardService, keyboardService } from './keyboard.service';
-export type { KeyboardConfig } from './keyboard.service';
+// Service
+export { KeyboardService, keyboardService, DEFAULT_TRIGGER_ID } from './keyboard.service';
+export type { KeyboardConfig, KeyboardStopReason, KeyboardTrigger } from './keyboard.service';
+
+// Procedures
+export { captureHotkey, updateHotkey, updateUndoHotkey } from './procedures';
+
+// Library utilities
+export {
+  describeHotkey,
+  findHotkeyConflict,
+  formatHotkey,
+  parseHotkey,
+} from './lib';
+export type { HotkeyBinding, HotkeyModifier } from './lib';
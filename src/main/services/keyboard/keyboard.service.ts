@@ -5,10 +5,24 @@
  * This service enables detection of keyboard events globally,
  * even when the application is not focused. Used primarily for
  * Push-to-Talk functionality.
+ *
+ * Raw key presses are translated into session start/stop callbacks
+ * according to the configured activation mode (hold, toggle or double-tap).
  */
 
 import { uIOhook, UiohookKey } from 'uiohook-napi';
+import type { UiohookKeyboardEvent } from 'uiohook-napi';
 import log from 'electron-log';
+import {
+  describeHotkey,
+  formatHotkey,
+  heldModifiers,
+  matchesHotkey,
+  modifierOfKey,
+  parseHotkey,
+} from './lib';
+import type { HotkeyBinding } from './lib';
+import type { ActivationMode } from '../../../shared/types/keyboard';
 
 const logger = log.scope('keyboard-service');
 
@@ -16,117 +30,166 @@ const logger = log.scope('keyboard-service');
  * Configuration for keyboard service.
  */
 export interface KeyboardConfig {
-  /** Key code to trigger push-to-talk (default: Right Alt/Option) */
-  triggerKey: number;
+  /** Trigger key and the modifiers held with it (default: Right Ctrl) */
+  hotkey: HotkeyBinding;
   /** Debounce time in milliseconds to prevent duplicate events */
   debounceMs: number;
   /** Minimum recording duration in milliseconds */
   minRecordingMs: number;
+  /** How the trigger key starts and stops a session */
+  activationMode: ActivationMode;
+  /** Maximum gap between the two presses of a double-tap in milliseconds */
+  doubleTapWindowMs: number;
+  /** Sessions are stopped automatically after this long (0 = no limit) */
+  maxSessionMs: number;
+  /** Hotkey that undoes the last dictation (null = none) */
+  undoHotkey: HotkeyBinding | null;
+}
+
+/**
+ * A hotkey that starts sessions, identified so callers know which one fired.
+ */
+export interface KeyboardTrigger {
+  id: string;
+  hotkey: HotkeyBinding;
 }
 
+/**
+ * ID of the trigger configured by PUSH_TO_TALK_KEY.
+ */
+export const DEFAULT_TRIGGER_ID = 'default';
+
+/**
+ * Why a session stop was requested.
+ * - key: the trigger key released (hold) or pressed again (toggle, double-tap)
+ * - max-duration: the session reached `maxSessionMs`
+ */
+export type KeyboardStopReason = 'key' | 'max-duration';
+
 /**
  * Default configuration values.
  */
 const DEFAULT_CONFIG: KeyboardConfig = {
-  triggerKey: UiohookKey.CtrlRight, // Right Ctrl key (recommended)
+  hotkey: { keycode: UiohookKey.CtrlRight, modifiers: [] }, // Right Ctrl key (recommended)
   debounceMs: 50,
   minRecordingMs: 200,
+  activationMode: 'hold',
+  doubleTapWindowMs: 400,
+  maxSessionMs: 5 * 60 * 1000,
+  undoHotkey: null,
 };
 
+/**
+ * Supported activation modes, for validating the environment variable.
+ */
+const ACTIVATION_MODES: readonly ActivationMode[] = ['hold', 'toggle', 'double-tap'];
+
+/**
+ * A pending "press the key you want" capture.
+ */
+interface HotkeyCapture {
+  resolve: (binding: HotkeyBinding | null) => void;
+  timer: NodeJS.Timeout;
+  /** Modifier key pressed on its own; becomes the binding if released alone */
+  pendingModifierKey: number | null;
+}
+
 /**
  * Internal state for keyboard service.
  */
 interface KeyboardState {
-  isKeyHeld: boolean;
+  /** Trigger whose key is currently held down */
+  heldTrigger: KeyboardTrigger | null;
   lastKeyDownTime: number;
   lastKeyUpTime: number;
   recordingStartTime: number;
+  /** Whether a session was started and not yet stopped */
+  isSessionActive: boolean;
+  /** Trigger that started the active session */
+  sessionTriggerId: string | null;
+  /** Time of the first press of a pending double-tap (0 = none) */
+  lastTapTime: number;
+  /** Trigger of the pending double-tap */
+  lastTapTriggerId: string | null;
+  /** Undo hotkey pressed; it fires once its key and modifiers are released */
+  pendingUndo: { keyReleased: boolean } | null;
 }
 
 /**
  * Keyboard Service for global keyboard monitoring.
  *
  * Uses uiohook-napi to detect key press/release events globally.
- * Handles debouncing and minimum recording duration.
+ * Handles debouncing, minimum recording duration, activation modes
+ * and the maximum session length.
  *
  * @example
  * ```typescript
  * keyboardService.register(
- *   () => console.log('Key down - start recording'),
- *   () => console.log('Key up - stop recording')
+ *   () => console.log('Start recording'),
+ *   (reason) => console.log('Stop recording', reason)
  * );
  * ```
  */
 export class KeyboardService {
   private config: KeyboardConfig;
   private state: KeyboardState = {
-    isKeyHeld: false,
+    heldTrigger: null,
     lastKeyDownTime: 0,
     lastKeyUpTime: 0,
     recordingStartTime: 0,
+    isSessionActive: false,
+    sessionTriggerId: null,
+    lastTapTime: 0,
+    lastTapTriggerId: null,
+    pendingUndo: null,
   };
 
-  private onKeyDown: (() => void) | null = null;
-  private onKeyUp: (() => void) | null = null;
+  /** Triggers besides the default one, e.g. for dictation profiles */
+  private extraTriggers: KeyboardTrigger[] = [];
+
+  private onKeyDown: ((triggerId: string) => void) | null = null;
+  private onKeyUp: ((reason: KeyboardStopReason) => void) | null = null;
+  private onUndo: (() => void) | null = null;
   private isStarted = false;
+  private maxSessionTimer: NodeJS.Timeout | null = null;
+  private capture: HotkeyCapture | null = null;
 
   // Bound handlers for proper cleanup
-  private boundKeyDownHandler: ((e: { keycode: number }) => void) | null = null;
-  private boundKeyUpHandler: ((e: { keycode: number }) => void) | null = null;
+  private boundKeyDownHandler: ((e: UiohookKeyboardEvent) => void) | null = null;
+  private boundKeyUpHandler: ((e: UiohookKeyboardEvent) => void) | null = null;
 
   constructor(config: Partial<KeyboardConfig> = {}) {
-    // Read trigger key from environment variable if not provided in config
-    const envTriggerKey = process.env.PUSH_TO_TALK_KEY;
-    let triggerKey = DEFAULT_CONFIG.triggerKey;
-
-    if (envTriggerKey) {
-      const parsedKey = parseInt(envTriggerKey, 10);
-      if (!isNaN(parsedKey)) {
-        // Validate that the key code is a known uiohook key code
-        // Get all known key codes from UiohookKey enum (both string and numeric values)
-        const knownKeyCodes = Object.values(UiohookKey).filter(v => typeof v === 'number') as number[];
-        if (knownKeyCodes.includes(parsedKey)) {
-          triggerKey = parsedKey;
-          logger.info('Using trigger key from environment variable', {
-            keyCode: parsedKey,
-            keyName: this.getKeyName(parsedKey)
-          });
-        } else {
-          logger.warn('PUSH_TO_TALK_KEY environment variable is not a known key code, using default', {
-            value: parsedKey,
-            defaultKeyCode: DEFAULT_CONFIG.triggerKey,
-            defaultKeyName: this.getKeyName(DEFAULT_CONFIG.triggerKey)
-          });
-        }
-      } else {
-        logger.warn('Invalid PUSH_TO_TALK_KEY environment variable, using default', {
-          value: envTriggerKey
-        });
-      }
-    }
-
     this.config = {
       ...DEFAULT_CONFIG,
-      triggerKey,
+      hotkey: this.readHotkey(),
+      activationMode: this.readActivationMode(),
+      maxSessionMs: this.readMaxSessionMs(),
+      undoHotkey: this.readUndoHotkey(),
       ...config
     };
 
     logger.info('KeyboardService created', {
-      triggerKey: this.config.triggerKey,
-      triggerKeyName: this.getKeyName(this.config.triggerKey),
+      hotkey: describeHotkey(this.config.hotkey),
       debounceMs: this.config.debounceMs,
       minRecordingMs: this.config.minRecordingMs,
-      source: envTriggerKey ? 'environment' : config.triggerKey ? 'config' : 'default'
+      activationMode: this.config.activationMode,
+      maxSessionMs: this.config.maxSessionMs,
+      undoHotkey: this.config.undoHotkey && describeHotkey(this.config.undoHotkey),
     });
   }
 
   /**
-   * Register callbacks for key down/up events.
+   * Register callbacks for session start/stop.
    *
-   * @param onKeyDown - Called when trigger key is pressed
-   * @param onKeyUp - Called when trigger key is released (after min duration)
+   * @param onKeyDown - Called with the trigger ID when a session should start (key press, or double-tap)
+   * @param onKeyUp - Called when the session should stop (after min duration)
+   * @param onUndo - Called when the undo hotkey was pressed and released outside a session
    */
-  register(onKeyDown: () => void, onKeyUp: () => void): void {
+  register(
+    onKeyDown: (triggerId: string) => void,
+    onKeyUp: (reason: KeyboardStopReason) => void,
+    onUndo?: () => void
+  ): void {
     if (this.isStarted) {
       logger.warn('KeyboardService already registered, unregistering first');
       this.unregister();
@@ -134,10 +197,11 @@ export class KeyboardService {
 
     this.onKeyDown = onKeyDown;
     this.onKeyUp = onKeyUp;
+    this.onUndo = onUndo ?? null;
 
     // Create bound handlers
-    this.boundKeyDownHandler = (e) => this.handleKeyDown(e.keycode);
-    this.boundKeyUpHandler = (e) => this.handleKeyUp(e.keycode);
+    this.boundKeyDownHandler = (e) => this.handleKeyDown(e);
+    this.boundKeyUpHandler = (e) => this.handleKeyUp(e);
 
     // Register event listeners
     uIOhook.on('keydown', this.boundKeyDownHandler);
@@ -150,16 +214,20 @@ export class KeyboardService {
 
       logger.info('KeyboardService registered', {
         platform: process.platform,
-        triggerKey: this.config.triggerKey,
-        triggerKeyName: this.getKeyName(this.config.triggerKey)
+        hotkey: describeHotkey(this.config.hotkey)
       });
 
       // Platform-specific guidance
-      const keyName = this.getKeyName(this.config.triggerKey);
+      const keyName = describeHotkey(this.config.hotkey);
+      const action = {
+        hold: 'hold',
+        toggle: 'press',
+        'double-tap': 'double-tap',
+      }[this.config.activationMode];
       if (process.platform === 'win32') {
-        logger.info(`On Windows, hold ${keyName} key to trigger speech recognition`);
+        logger.info(`On Windows, ${action} ${keyName} key to trigger speech recognition`);
       } else if (process.platform === 'darwin') {
-        logger.info(`On macOS, hold ${keyName} key to trigger speech recognition`);
+        logger.info(`On macOS, ${action} ${keyName} key to trigger speech recognition`);
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -193,10 +261,12 @@ export class KeyboardService {
 
     // Stop the hook
     uIOhook.stop();
+    this.cancelCapture();
 
     // Clean up state
     this.onKeyDown = null;
     this.onKeyUp = null;
+    this.onUndo = null;
     this.boundKeyDownHandler = null;
     this.boundKeyUpHandler = null;
     this.isStarted = false;
@@ -216,63 +286,275 @@ export class KeyboardService {
    * Check if the trigger key is currently held.
    */
   get isKeyCurrentlyHeld(): boolean {
-    return this.state.isKeyHeld;
+    return this.state.heldTrigger !== null;
+  }
+
+  /**
+   * The current trigger hotkey.
+   */
+  get hotkey(): HotkeyBinding {
+    return this.config.hotkey;
+  }
+
+  /**
+   * Replace the trigger hotkey. Takes effect on the next key press.
+   *
+   * @param hotkey - New trigger hotkey
+   */
+  setHotkey(hotkey: HotkeyBinding): void {
+    this.config.hotkey = hotkey;
+    this.resetKeyState();
+
+    logger.info('Trigger hotkey changed', {
+      value: formatHotkey(hotkey),
+      hotkey: describeHotkey(hotkey),
+    });
+  }
+
+  /**
+   * The hotkey that undoes the last dictation, or null if there is none.
+   */
+  get undoHotkey(): HotkeyBinding | null {
+    return this.config.undoHotkey;
+  }
+
+  /**
+   * Replace the undo hotkey. Takes effect on the next key press.
+   *
+   * @param hotkey - New undo hotkey, or null to remove it
+   */
+  setUndoHotkey(hotkey: HotkeyBinding | null): void {
+    this.config.undoHotkey = hotkey;
+    this.resetKeyState();
+
+    logger.info('Undo hotkey changed', {
+      value: hotkey && formatHotkey(hotkey),
+      hotkey: hotkey && describeHotkey(hotkey),
+    });
+  }
+
+  /**
+   * Re-read the trigger hotkey, activation mode, maximum session length
+   * and undo hotkey from the settings. An active session keeps running;
+   * the new maximum length applies to the next one.
+   */
+  reloadConfig(): void {
+    this.config = {
+      ...this.config,
+      hotkey: this.readHotkey(),
+      activationMode: this.readActivationMode(),
+      maxSessionMs: this.readMaxSessionMs(),
+      undoHotkey: this.readUndoHotkey(),
+    };
+    this.resetKeyState();
+
+    logger.info('Keyboard settings reloaded', {
+      hotkey: describeHotkey(this.config.hotkey),
+      activationMode: this.config.activationMode,
+      maxSessionMs: this.config.maxSessionMs,
+      undoHotkey: this.config.undoHotkey && describeHotkey(this.config.undoHotkey),
+    });
+  }
+
+  /**
+   * Replace the additional triggers. The default trigger is kept.
+   *
+   * @param triggers - Triggers with their own IDs (not `DEFAULT_TRIGGER_ID`)
+   */
+  setTriggers(triggers: KeyboardTrigger[]): void {
+    this.extraTriggers = triggers.filter((trigger) => trigger.id !== DEFAULT_TRIGGER_ID);
+    this.resetKeyState();
+
+    logger.info('Additional triggers updated', {
+      triggers: this.extraTriggers.map((trigger) => ({
+        id: trigger.id,
+        hotkey: describeHotkey(trigger.hotkey),
+      })),
+    });
+  }
+
+  /**
+   * Find the trigger that already uses a binding.
+   *
+   * @param hotkey - Binding to look up
+   * @returns The trigger ID, or null if the binding is free
+   */
+  findTriggerByHotkey(hotkey: HotkeyBinding): string | null {
+    const value = formatHotkey(hotkey);
+    return this.allTriggers().find((trigger) => formatHotkey(trigger.hotkey) === value)?.id ?? null;
+  }
+
+  /**
+   * Wait for the user to press the key or chord they want as the trigger.
+   * Sessions are not triggered while capturing. A modifier pressed and
+   * released on its own (e.g. Right Ctrl) is captured as a bare key;
+   * Escape cancels.
+   *
+   * @param timeoutMs - Give up after this long
+   * @returns The captured binding, or null if cancelled or timed out
+   * @throws Error if the keyboard hook is not running
+   */
+  captureHotkey(timeoutMs = 10000): Promise<HotkeyBinding | null> {
+    if (!this.isStarted) {
+      return Promise.reject(new Error('Keyboard hook is not running'));
+    }
+
+    // Only one capture at a time
+    this.cancelCapture();
+
+    return new Promise((resolve) => {
+      this.capture = {
+        resolve,
+        timer: setTimeout(() => this.finishCapture(null), timeoutMs),
+        pendingModifierKey: null,
+      };
+      logger.info('Capturing trigger hotkey');
+    });
+  }
+
+  /**
+   * Cancel a pending capture, resolving it with null.
+   */
+  cancelCapture(): void {
+    this.finishCapture(null);
+  }
+
+  /**
+   * The configured activation mode.
+   */
+  get activationMode(): ActivationMode {
+    return this.config.activationMode;
+  }
+
+  /**
+   * Mark the current session as ended without calling `onKeyUp`.
+   * Call this when the session stops for another reason (e.g. silence
+   * auto-stop), so the next press in toggle mode starts a new session
+   * instead of stopping one that no longer exists.
+   */
+  endSession(): void {
+    this.clearMaxSessionTimer();
+    this.state.isSessionActive = false;
+    this.state.sessionTriggerId = null;
+    this.state.lastTapTime = 0;
+    this.state.lastTapTriggerId = null;
   }
 
   /**
    * Reset internal state.
    */
   private resetState(): void {
+    this.clearMaxSessionTimer();
     this.state = {
-      isKeyHeld: false,
+      heldTrigger: null,
       lastKeyDownTime: 0,
       lastKeyUpTime: 0,
       recordingStartTime: 0,
+      isSessionActive: false,
+      sessionTriggerId: null,
+      lastTapTime: 0,
+      lastTapTriggerId: null,
+      pendingUndo: null,
     };
   }
 
   /**
-   * Get human-readable key name for logging.
-   */
-  private getKeyName(keycode: number): string {
-    // Common key codes from uiohook-napi
-    const keyNames: Record<number, string> = {
-      0x00: 'Unknown',
-      0x38: 'Alt',
-      0x39: 'Space',
-      0x3A: 'CapsLock',
-      0x3B: 'F1',
-      0x3C: 'F2',
-      0x3D: 'F3',
-      0x3E: 'F4',
-      0x3F: 'F5',
-      0x40: 'F6',
-      0x41: 'F7',
-      0x42: 'F8',
-      0x43: 'F9',
-      0x44: 'F10',
-      0x57: 'F11',
-      0x58: 'F12',
-      0x5B: 'MetaLeft', // Windows key left
-      0x5C: 'MetaRight', // Windows key right
-      0x64: 'ContextMenu', // Menu key
-      0xE0: 'ControlLeft',
-      0xE1: 'ShiftLeft',
-      0xE2: 'AltLeft',
-      0xE3: 'MetaLeft',
-      0xE4: 'ControlRight',
-      0xE5: 'ShiftRight',
-      0xE6: 'AltRight', // Right Alt/Option
-      // Additional keys for better logging
-      0x46: 'ScrollLock',
-      0x45: 'Pause',
-      0x01: 'Escape',
-      0x1C: 'Enter',
-      0x0F: 'Tab',
-      0x0E: 'Backspace',
-    };
+   * Forget held keys and pending double-taps after the triggers change.
+   * A held key's release must not stop anything; an active session is kept.
+   */
+  private resetKeyState(): void {
+    this.state.heldTrigger = null;
+    this.state.lastTapTime = 0;
+    this.state.lastTapTriggerId = null;
+    this.state.pendingUndo = null;
+  }
 
-    return keyNames[keycode] || `KeyCode_${keycode.toString(16)}`;
+  /**
+   * The default trigger followed by the additional ones.
+   */
+  private allTriggers(): KeyboardTrigger[] {
+    return [{ id: DEFAULT_TRIGGER_ID, hotkey: this.config.hotkey }, ...this.extraTriggers];
+  }
+
+  /**
+   * Read the trigger hotkey from the PUSH_TO_TALK_KEY environment variable.
+   */
+  private readHotkey(): HotkeyBinding {
+    const envHotkey = process.env.PUSH_TO_TALK_KEY;
+    if (!envHotkey) {
+      return DEFAULT_CONFIG.hotkey;
+    }
+
+    try {
+      return parseHotkey(envHotkey);
+    } catch (error) {
+      logger.warn('Invalid PUSH_TO_TALK_KEY environment variable, using default', {
+        value: envHotkey,
+        error: error instanceof Error ? error.message : String(error),
+        defaultHotkey: describeHotkey(DEFAULT_CONFIG.hotkey)
+      });
+      return DEFAULT_CONFIG.hotkey;
+    }
+  }
+
+  /**
+   * Read the activation mode from the PUSH_TO_TALK_MODE environment variable.
+   */
+  private readActivationMode(): ActivationMode {
+    const envMode = process.env.PUSH_TO_TALK_MODE;
+    if (!envMode) {
+      return DEFAULT_CONFIG.activationMode;
+    }
+
+    const mode = ACTIVATION_MODES.find((m) => m === envMode);
+    if (!mode) {
+      logger.warn('Invalid PUSH_TO_TALK_MODE environment variable, using default', {
+        value: envMode,
+        defaultMode: DEFAULT_CONFIG.activationMode,
+      });
+      return DEFAULT_CONFIG.activationMode;
+    }
+    return mode;
+  }
+
+  /**
+   * Read the maximum session length from the MAX_SESSION_SECONDS environment variable.
+   */
+  private readMaxSessionMs(): number {
+    const envSeconds = process.env.MAX_SESSION_SECONDS;
+    if (!envSeconds) {
+      return DEFAULT_CONFIG.maxSessionMs;
+    }
+
+    const seconds = Number(envSeconds);
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      logger.warn('Invalid MAX_SESSION_SECONDS environment variable, using default', {
+        value: envSeconds,
+        defaultMs: DEFAULT_CONFIG.maxSessionMs,
+      });
+      return DEFAULT_CONFIG.maxSessionMs;
+    }
+    return seconds * 1000;
+  }
+
+  /**
+   * Read the undo hotkey from the UNDO_HOTKEY environment variable.
+   */
+  private readUndoHotkey(): HotkeyBinding | null {
+    const envHotkey = process.env.UNDO_HOTKEY;
+    if (!envHotkey) {
+      return null;
+    }
+
+    try {
+      return parseHotkey(envHotkey);
+    } catch (error) {
+      logger.warn('Invalid UNDO_HOTKEY environment variable, undo hotkey disabled', {
+        value: envHotkey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
   }
 
   /**
@@ -285,9 +567,18 @@ export class KeyboardService {
   /**
    * Handle key down event.
    */
-  private handleKeyDown(keycode: number): void {
-    // Ignore if not our trigger key
-    if (keycode !== this.config.triggerKey) {
+  private handleKeyDown(event: UiohookKeyboardEvent): void {
+    if (this.capture) {
+      this.handleCaptureKeyDown(event);
+      return;
+    }
+
+    // Ignore if not one of our trigger keys (with exactly its modifiers)
+    const trigger = this.allTriggers().find((candidate) =>
+      matchesHotkey(candidate.hotkey, event.keycode, event)
+    );
+    if (!trigger) {
+      this.handleUndoKeyDown(event);
       return;
     }
 
@@ -297,32 +588,58 @@ export class KeyboardService {
     }
 
     // Ignore if already held (prevents duplicate events)
-    if (this.state.isKeyHeld) {
+    if (this.state.heldTrigger) {
       return;
     }
 
     // Update state
-    this.state.isKeyHeld = true;
-    this.state.lastKeyDownTime = Date.now();
-    this.state.recordingStartTime = Date.now();
-
-    logger.debug('Trigger key pressed');
-
-    // Call callback
-    this.onKeyDown?.();
+    const now = Date.now();
+    this.state.heldTrigger = trigger;
+    this.state.lastKeyDownTime = now;
+
+    logger.debug('Trigger key pressed', { trigger: trigger.id, mode: this.config.activationMode });
+
+    switch (this.config.activationMode) {
+      case 'hold':
+        this.startSession(trigger.id);
+        break;
+      case 'toggle':
+        this.toggleSession(trigger.id);
+        break;
+      case 'double-tap': {
+        // The first press only arms the double-tap; the second one toggles
+        const isSecondTap =
+          this.state.lastTapTriggerId === trigger.id &&
+          now - this.state.lastTapTime <= this.config.doubleTapWindowMs;
+        if (isSecondTap) {
+          this.state.lastTapTime = 0;
+          this.state.lastTapTriggerId = null;
+          this.toggleSession(trigger.id);
+        } else {
+          this.state.lastTapTime = now;
+          this.state.lastTapTriggerId = trigger.id;
+        }
+        break;
+      }
+    }
   }
 
   /**
    * Handle key up event.
    */
-  private handleKeyUp(keycode: number): void {
-    // Ignore if not our trigger key
-    if (keycode !== this.config.triggerKey) {
+  private handleKeyUp(event: UiohookKeyboardEvent): void {
+    if (this.capture) {
+      this.handleCaptureKeyUp(event);
       return;
     }
 
-    // Ignore if not currently held
-    if (!this.state.isKeyHeld) {
+    if (this.state.pendingUndo) {
+      this.handleUndoKeyUp(event);
+      return;
+    }
+
+    // Ignore if not the held trigger key; modifiers may be released first
+    if (!this.state.heldTrigger || event.keycode !== this.state.heldTrigger.hotkey.keycode) {
       return;
     }
 
@@ -331,15 +648,64 @@ export class KeyboardService {
       return;
     }
 
-    // Calculate recording duration
-    const recordingDuration = Date.now() - this.state.recordingStartTime;
-
     // Update state
-    this.state.isKeyHeld = false;
+    this.state.heldTrigger = null;
     this.state.lastKeyUpTime = Date.now();
 
+    // Only hold mode stops on release; the session may also have hit its time limit
+    if (this.config.activationMode !== 'hold' || !this.state.isSessionActive) {
+      return;
+    }
+
+    this.stopSession('key');
+  }
+
+  /**
+   * Start a session if none is active, otherwise stop it.
+   * Only the trigger that started a session can stop it.
+   */
+  private toggleSession(triggerId: string): void {
+    if (!this.state.isSessionActive) {
+      this.startSession(triggerId);
+    } else if (this.state.sessionTriggerId === triggerId) {
+      this.stopSession('key');
+    } else {
+      logger.debug('Another trigger is recording, ignoring', { trigger: triggerId });
+    }
+  }
+
+  /**
+   * Start a session and arm the maximum session length timer.
+   */
+  private startSession(triggerId: string): void {
+    this.state.isSessionActive = true;
+    this.state.sessionTriggerId = triggerId;
+    this.state.recordingStartTime = Date.now();
+
+    this.clearMaxSessionTimer();
+    if (this.config.maxSessionMs > 0) {
+      this.maxSessionTimer = setTimeout(() => {
+        this.maxSessionTimer = null;
+        logger.warn('Maximum session length reached, stopping', {
+          maxSessionMs: this.config.maxSessionMs,
+        });
+        this.stopSession('max-duration');
+      }, this.config.maxSessionMs);
+    }
+
+    // Call callback
+    this.onKeyDown?.(triggerId);
+  }
+
+  /**
+   * Stop the active session.
+   */
+  private stopSession(reason: KeyboardStopReason): void {
+    // Calculate recording duration
+    const recordingDuration = Date.now() - this.state.recordingStartTime;
+
     // Check minimum recording duration
-    if (recordingDuration < this.config.minRecordingMs) {
+    if (reason === 'key' && recordingDuration < this.config.minRecordingMs) {
       logger.debug('Recording too short, ignoring', {
         duration: recordingDuration,
         minRequired: this.config.minRecordingMs,
@@ -347,10 +713,126 @@ export class KeyboardService {
       return;
     }
 
-    logger.debug('Trigger key released', { duration: recordingDuration });
+    this.endSession();
+
+    logger.debug('Session stop requested', { reason, duration: recordingDuration });
 
     // Call callback
-    this.onKeyUp?.();
+    this.onKeyUp?.(reason);
+  }
+
+  /**
+   * Arm the undo hotkey if it was pressed outside a session.
+   * Auto-repeat of a held undo hotkey is ignored.
+   */
+  private handleUndoKeyDown(event: UiohookKeyboardEvent): void {
+    const { undoHotkey } = this.config;
+    if (!undoHotkey || !matchesHotkey(undoHotkey, event.keycode, event)) {
+      return;
+    }
+
+    if (this.state.isSessionActive || this.state.heldTrigger) {
+      logger.debug('Undo hotkey pressed during a session, ignoring');
+      return;
+    }
+
+    this.state.pendingUndo = { keyReleased: false };
+  }
+
+  /**
+   * Fire the armed undo once no key of the hotkey is held any more, so
+   * the simulated key presses of the undo are not combined with them.
+   */
+  private handleUndoKeyUp(event: UiohookKeyboardEvent): void {
+    const { pendingUndo } = this.state;
+    if (!pendingUndo || !this.config.undoHotkey) {
+      return;
+    }
+
+    if (event.keycode === this.config.undoHotkey.keycode) {
+      pendingUndo.keyReleased = true;
+    }
+
+    // The released key's own modifier flag may still be set
+    const releasedModifier = modifierOfKey(event.keycode);
+    const stillHeld = heldModifiers(event).filter((modifier) => modifier !== releasedModifier);
+    if (!pendingUndo.keyReleased || stillHeld.length > 0) {
+      return;
+    }
+
+    this.state.pendingUndo = null;
+    logger.debug('Undo hotkey released');
+    this.onUndo?.();
+  }
+
+  /**
+   * Handle key down while capturing a new hotkey.
+   */
+  private handleCaptureKeyDown(event: UiohookKeyboardEvent): void {
+    if (!this.capture) {
+      return;
+    }
+
+    // A modifier may be the start of a chord; wait for the next key
+    if (modifierOfKey(event.keycode)) {
+      this.capture.pendingModifierKey = event.keycode;
+      return;
+    }
+
+    const modifiers = heldModifiers(event);
+    if (event.keycode === UiohookKey.Escape && modifiers.length === 0) {
+      logger.info('Hotkey capture cancelled');
+      this.finishCapture(null);
+      return;
+    }
+
+    this.finishCapture({ keycode: event.keycode, modifiers });
+  }
+
+  /**
+   * Handle key up while capturing a new hotkey.
+   */
+  private handleCaptureKeyUp(event: UiohookKeyboardEvent): void {
+    if (!this.capture || this.capture.pendingModifierKey !== event.keycode) {
+      return;
+    }
+
+    // Releasing one modifier of an unfinished chord is not a binding
+    const ownModifier = modifierOfKey(event.keycode);
+    if (heldModifiers(event).some((modifier) => modifier !== ownModifier)) {
+      this.capture.pendingModifierKey = null;
+      return;
+    }
+
+    this.finishCapture({ keycode: event.keycode, modifiers: [] });
+  }
+
+  /**
+   * End the pending capture, if any.
+   */
+  private finishCapture(binding: HotkeyBinding | null): void {
+    const capture = this.capture;
+    if (!capture) {
+      return;
+    }
+
+    clearTimeout(capture.timer);
+    this.capture = null;
+
+    if (binding) {
+      logger.info('Trigger hotkey captured', { hotkey: describeHotkey(binding) });
+    }
+    capture.resolve(binding);
+  }
+
+  /**
+   * Clear the maximum session length timer.
+   */
+  private clearMaxSessionTimer(): void {
+    if (this.maxSessionTimer) {
+      clearTimeout(this.maxSessionTimer);
+      this.maxSessionTimer = null;
+    }
   }
 }
 
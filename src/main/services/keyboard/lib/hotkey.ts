@@ -0,0 +1,326 @@
+/**
+ * Hotkey bindings.
+ * Parses, formats and describes trigger hotkeys, and checks them against
+ * well-known system shortcuts.
+ *
+ * A binding is stored as a string of side-agnostic modifiers followed by a
+ * uiohook key code, e.g. "3613" (Right Ctrl) or "ctrl+shift+57" (Ctrl+Shift+Space).
+ */
+
+import { UiohookKey } from 'uiohook-napi';
+
+/**
+ * Modifier held together with the trigger key (either side).
+ */
+export type HotkeyModifier = 'ctrl' | 'alt' | 'shift' | 'meta';
+
+/**
+ * A trigger key with the modifiers that must be held with it.
+ */
+export interface HotkeyBinding {
+  /** uiohook key code of the trigger key */
+  keycode: number;
+  /** Modifiers that must be held, in `MODIFIER_ORDER` */
+  modifiers: HotkeyModifier[];
+}
+
+/**
+ * Modifier state of a keyboard event.
+ */
+export interface ModifierState {
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+/** Canonical modifier order used when formatting and comparing bindings */
+export const MODIFIER_ORDER: readonly HotkeyModifier[] = ['ctrl', 'alt', 'shift', 'meta'];
+
+/**
+ * Key codes of the modifier keys themselves.
+ */
+const MODIFIER_KEYS: Record<number, HotkeyModifier> = {
+  [UiohookKey.Ctrl]: 'ctrl',
+  [UiohookKey.CtrlRight]: 'ctrl',
+  [UiohookKey.Alt]: 'alt',
+  [UiohookKey.AltRight]: 'alt',
+  [UiohookKey.Shift]: 'shift',
+  [UiohookKey.ShiftRight]: 'shift',
+  [UiohookKey.Meta]: 'meta',
+  [UiohookKey.MetaRight]: 'meta',
+};
+
+/**
+ * USB HID usage codes saved by earlier versions of the Settings page.
+ * uiohook does not report these, so they are mapped to its own codes.
+ */
+const LEGACY_KEY_CODES: Record<number, number> = {
+  228: UiohookKey.CtrlRight,
+  229: UiohookKey.ShiftRight,
+  230: UiohookKey.AltRight,
+};
+
+/**
+ * Display names for keys whose `UiohookKey` name is not user-friendly.
+ */
+const KEY_LABELS: Record<number, string> = {
+  [UiohookKey.Ctrl]: 'Left Ctrl',
+  [UiohookKey.CtrlRight]: 'Right Ctrl',
+  [UiohookKey.Alt]: 'Left Alt',
+  [UiohookKey.AltRight]: 'Right Alt',
+  [UiohookKey.Shift]: 'Left Shift',
+  [UiohookKey.ShiftRight]: 'Right Shift',
+  [UiohookKey.Meta]: 'Left Meta',
+  [UiohookKey.MetaRight]: 'Right Meta',
+};
+
+/**
+ * Key names indexed by uiohook key code.
+ * Some codes have several names (e.g. numpad aliases); the first one wins.
+ */
+const KEY_NAMES: Map<number, string> = (() => {
+  const names = new Map<number, string>();
+  for (const [name, code] of Object.entries(UiohookKey)) {
+    if (!names.has(code)) {
+      names.set(code, name);
+    }
+  }
+  return names;
+})();
+
+/**
+ * Keys that type text or edit it. Bound alone (or with Shift only) they
+ * would fire while the user is typing.
+ */
+const TYPING_KEYS: ReadonlySet<number> = new Set<number>([
+  ...Object.entries(UiohookKey)
+    .filter(([name]) => /^[A-Z0-9]$/.test(name))
+    .map(([, code]) => code),
+  UiohookKey.Space,
+  UiohookKey.Enter,
+  UiohookKey.Tab,
+  UiohookKey.Backspace,
+  UiohookKey.Delete,
+  UiohookKey.Escape,
+  UiohookKey.ArrowLeft,
+  UiohookKey.ArrowRight,
+  UiohookKey.ArrowUp,
+  UiohookKey.ArrowDown,
+  UiohookKey.Semicolon,
+  UiohookKey.Equal,
+  UiohookKey.Comma,
+  UiohookKey.Minus,
+  UiohookKey.Period,
+  UiohookKey.Slash,
+  UiohookKey.Backquote,
+  UiohookKey.BracketLeft,
+  UiohookKey.Backslash,
+  UiohookKey.BracketRight,
+  UiohookKey.Quote,
+]);
+
+/**
+ * A system shortcut that a trigger hotkey must not shadow.
+ */
+interface ReservedShortcut {
+  modifiers: HotkeyModifier[];
+  keycode: number;
+  description: string;
+}
+
+const reserved = (
+  modifiers: HotkeyModifier[],
+  keycode: number,
+  description: string
+): ReservedShortcut => ({ modifiers, keycode, description });
+
+/**
+ * Editing shortcuts, bound to Cmd on macOS and Ctrl elsewhere.
+ */
+function editingShortcuts(primary: HotkeyModifier): ReservedShortcut[] {
+  return [
+    reserved([primary], UiohookKey.C, '复制'),
+    reserved([primary], UiohookKey.V, '粘贴'),
+    reserved([primary], UiohookKey.X, '剪切'),
+    reserved([primary], UiohookKey.Z, '撤销'),
+    reserved([primary], UiohookKey.A, '全选'),
+    reserved([primary], UiohookKey.S, '保存'),
+    reserved([primary], UiohookKey.F, '查找'),
+    reserved([primary], UiohookKey.W, '关闭窗口'),
+    reserved([primary], UiohookKey.Q, '退出应用'),
+  ];
+}
+
+/**
+ * Well-known system shortcuts per platform.
+ */
+const RESERVED_SHORTCUTS: Partial<Record<NodeJS.Platform, ReservedShortcut[]>> = {
+  darwin: [
+    ...editingShortcuts('meta'),
+    reserved(['meta'], UiohookKey.Space, 'Spotlight 搜索'),
+    reserved(['ctrl'], UiohookKey.Space, '切换输入法'),
+    reserved(['ctrl', 'meta'], UiohookKey.Space, '表情与符号'),
+    reserved(['meta'], UiohookKey.Tab, '切换应用'),
+    reserved(['shift', 'meta'], UiohookKey[3], '截屏'),
+    reserved(['shift', 'meta'], UiohookKey[4], '截屏'),
+    reserved(['shift', 'meta'], UiohookKey[5], '截屏'),
+    reserved(['ctrl', 'meta'], UiohookKey.Q, '锁定屏幕'),
+    reserved(['alt', 'meta'], UiohookKey.Escape, '强制退出'),
+  ],
+  win32: [
+    ...editingShortcuts('ctrl'),
+    reserved(['alt'], UiohookKey.Tab, '切换窗口'),
+    reserved(['alt'], UiohookKey.F4, '关闭窗口'),
+    reserved(['alt'], UiohookKey.Space, '窗口菜单'),
+    reserved(['ctrl'], UiohookKey.Escape, '开始菜单'),
+    reserved(['ctrl', 'shift'], UiohookKey.Escape, '任务管理器'),
+    reserved(['ctrl', 'alt'], UiohookKey.Delete, '安全选项'),
+    reserved(['meta'], UiohookKey.Space, '切换输入法'),
+    reserved(['meta'], UiohookKey.Tab, '任务视图'),
+    reserved(['meta'], UiohookKey.D, '显示桌面'),
+    reserved(['meta'], UiohookKey.E, '文件资源管理器'),
+    reserved(['meta'], UiohookKey.L, '锁定屏幕'),
+    reserved(['meta'], UiohookKey.R, '运行'),
+    reserved(['meta'], UiohookKey.H, '语音输入'),
+    reserved(['shift', 'meta'], UiohookKey.S, '截图'),
+  ],
+  linux: [
+    ...editingShortcuts('ctrl'),
+    reserved(['alt'], UiohookKey.Tab, '切换窗口'),
+    reserved(['alt'], UiohookKey.F4, '关闭窗口'),
+    reserved(['meta'], UiohookKey.Space, '切换输入法'),
+    reserved(['ctrl', 'alt'], UiohookKey.T, '打开终端'),
+    reserved(['ctrl', 'alt'], UiohookKey.Delete, '注销'),
+    reserved(['meta'], UiohookKey.L, '锁定屏幕'),
+  ],
+};
+
+/**
+ * Modifier a key code belongs to, or null for ordinary keys.
+ */
+export function modifierOfKey(keycode: number): HotkeyModifier | null {
+  return MODIFIER_KEYS[keycode] ?? null;
+}
+
+/**
+ * Modifiers held according to a keyboard event, in canonical order.
+ */
+export function heldModifiers(state: ModifierState): HotkeyModifier[] {
+  return MODIFIER_ORDER.filter((modifier) => state[`${modifier}Key`]);
+}
+
+/**
+ * Check whether a key event matches a binding.
+ * The modifier flag of the trigger key itself is ignored, so a bare
+ * Right Ctrl binding matches however the platform reports that flag.
+ */
+export function matchesHotkey(binding: HotkeyBinding, keycode: number, state: ModifierState): boolean {
+  if (keycode !== binding.keycode) {
+    return false;
+  }
+
+  const ownModifier = modifierOfKey(binding.keycode);
+  return MODIFIER_ORDER.every(
+    (modifier) =>
+      modifier === ownModifier || state[`${modifier}Key`] === binding.modifiers.includes(modifier)
+  );
+}
+
+/**
+ * Parse a stored binding string.
+ *
+ * @param value - e.g. "3613" or "ctrl+shift+57"
+ * @returns The parsed binding
+ * @throws Error if the value is malformed or names an unknown key
+ */
+export function parseHotkey(value: string): HotkeyBinding {
+  const parts = value.trim().toLowerCase().split('+');
+  const keyPart = parts.pop() ?? '';
+  const parsedKey = /^\d+$/.test(keyPart) ? parseInt(keyPart, 10) : NaN;
+  const keycode = LEGACY_KEY_CODES[parsedKey] ?? parsedKey;
+
+  if (!KEY_NAMES.has(keycode)) {
+    throw new Error(`Unknown key code: ${keyPart || '(empty)'}`);
+  }
+
+  const modifiers = new Set<HotkeyModifier>();
+  for (const part of parts) {
+    const modifier = MODIFIER_ORDER.find((m) => m === part);
+    if (!modifier) {
+      throw new Error(`Unknown modifier: ${part}`);
+    }
+    modifiers.add(modifier);
+  }
+
+  return { keycode, modifiers: MODIFIER_ORDER.filter((m) => modifiers.has(m)) };
+}
+
+/**
+ * Format a binding for storage (inverse of `parseHotkey`).
+ */
+export function formatHotkey(binding: HotkeyBinding): string {
+  return [...binding.modifiers, String(binding.keycode)].join('+');
+}
+
+/**
+ * Human-readable name of a single key.
+ */
+export function describeKey(keycode: number, platform: NodeJS.Platform = process.platform): string {
+  const label = KEY_LABELS[keycode] ?? KEY_NAMES.get(keycode) ?? `KeyCode_${keycode.toString(16)}`;
+
+  // Use the names printed on the platform's keyboards
+  if (platform === 'darwin') {
+    return label.replace('Alt', 'Option').replace('Meta', 'Command');
+  }
+  if (platform === 'win32') {
+    return label.replace('Meta', 'Win');
+  }
+  return label;
+}
+
+/**
+ * Human-readable binding, e.g. "Ctrl+Shift+Space".
+ */
+export function describeHotkey(binding: HotkeyBinding, platform: NodeJS.Platform = process.platform): string {
+  const modifierNames: Record<HotkeyModifier, string> = {
+    ctrl: 'Ctrl',
+    alt: platform === 'darwin' ? 'Option' : 'Alt',
+    shift: 'Shift',
+    meta: platform === 'darwin' ? 'Command' : platform === 'win32' ? 'Win' : 'Super',
+  };
+
+  return [
+    ...binding.modifiers.map((modifier) => modifierNames[modifier]),
+    describeKey(binding.keycode, platform),
+  ].join('+');
+}
+
+/**
+ * Find a reason the binding cannot be used as a trigger.
+ *
+ * @param binding - Candidate binding
+ * @param platform - Platform whose system shortcuts to check
+ * @returns A user-facing explanation, or null if the binding is usable
+ */
+export function findHotkeyConflict(
+  binding: HotkeyBinding,
+  platform: NodeJS.Platform = process.platform
+): string | null {
+  const onlyShift = binding.modifiers.every((modifier) => modifier === 'shift');
+  if (TYPING_KEYS.has(binding.keycode) && onlyShift) {
+    return `${describeHotkey(binding, platform)} 会在正常打字时误触发，请加上 Ctrl、Alt 等修饰键`;
+  }
+
+  const shortcut = (RESERVED_SHORTCUTS[platform] ?? []).find(
+    (candidate) =>
+      candidate.keycode === binding.keycode &&
+      candidate.modifiers.length === binding.modifiers.length &&
+      candidate.modifiers.every((modifier) => binding.modifiers.includes(modifier))
+  );
+  if (shortcut) {
+    return `${describeHotkey(binding, platform)} 与系统快捷键冲突（${shortcut.description}）`;
+  }
+
+  return null;
+}
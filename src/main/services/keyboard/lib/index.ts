@@ -0,0 +1,16 @@
+/**
+ * Keyboard library exports.
+ */
+
+export {
+  MODIFIER_ORDER,
+  describeHotkey,
+  describeKey,
+  findHotkeyConflict,
+  formatHotkey,
+  heldModifiers,
+  matchesHotkey,
+  modifierOfKey,
+  parseHotkey,
+} from './hotkey';
+export type { HotkeyBinding, HotkeyModifier, ModifierState } from './hotkey';
@@ -0,0 +1,33 @@
+/**
+ * Capture hotkey procedure.
+ * Records the next key or chord the user presses.
+ */
+
+import log from 'electron-log';
+import { keyboardService } from '../keyboard.service';
+import { describeHotkey, formatHotkey } from '../lib';
+import type { HotkeyResult } from '../../../../shared/types/keyboard';
+
+const logger = log.scope('keyboard:capture-hotkey');
+
+/**
+ * Wait for the user to press a new trigger hotkey.
+ * The hotkey is only captured, not validated or applied.
+ */
+export async function captureHotkey(): Promise<HotkeyResult> {
+  try {
+    const binding = await keyboardService.captureHotkey();
+    if (!binding) {
+      return { success: false, error: '已取消' };
+    }
+
+    return {
+      success: true,
+      hotkey: { value: formatHotkey(binding), label: describeHotkey(binding) },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to capture hotkey', { error: message });
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Keyboard procedures exports.
+ */
+
+export { captureHotkey } from './capture-hotkey';
+export { updateHotkey } from './update-hotkey';
+export { updateUndoHotkey } from './update-undo-hotkey';
@@ -0,0 +1,54 @@
+/**
+ * Update hotkey procedure.
+ * Validates, persists and applies a new trigger hotkey.
+ */
+
+import log from 'electron-log';
+import { DEFAULT_TRIGGER_ID, keyboardService } from '../keyboard.service';
+import { describeHotkey, findHotkeyConflict, formatHotkey, parseHotkey } from '../lib';
+import { settingsService } from '../../settings';
+import type { HotkeyResult } from '../../../../shared/types/keyboard';
+
+const logger = log.scope('keyboard:update-hotkey');
+
+/**
+ * Change the trigger hotkey without restarting.
+ * Hotkeys that shadow system shortcuts or fire while typing are rejected.
+ *
+ * @param value - Binding in stored form, e.g. "ctrl+shift+57"
+ */
+export function updateHotkey(value: string): HotkeyResult {
+  try {
+    const binding = parseHotkey(value);
+    const conflict = findHotkeyConflict(binding);
+    if (conflict) {
+      logger.warn('Hotkey rejected', { value, conflict });
+      return { success: false, error: conflict };
+    }
+
+    const owner = keyboardService.findTriggerByHotkey(binding);
+    if (owner && owner !== DEFAULT_TRIGGER_ID) {
+      logger.warn('Hotkey rejected', { value, usedBy: owner });
+      return { success: false, error: '该快捷键已被某个听写配置使用' };
+    }
+
+    const { undoHotkey } = keyboardService;
+    if (undoHotkey && formatHotkey(undoHotkey) === formatHotkey(binding)) {
+      logger.warn('Hotkey rejected', { value, usedBy: 'undo' });
+      return { success: false, error: '该快捷键已用于撤销听写' };
+    }
+
+    const normalized = formatHotkey(binding);
+    settingsService.updateValues({ PUSH_TO_TALK_KEY: normalized });
+    keyboardService.setHotkey(binding);
+
+    return {
+      success: true,
+      hotkey: { value: normalized, label: describeHotkey(binding) },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to update hotkey', { value, error: message });
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Update undo hotkey procedure.
+ * Validates, persists and applies the hotkey that undoes the last dictation.
+ */
+
+import log from 'electron-log';
+import { DEFAULT_TRIGGER_ID, keyboardService } from '../keyboard.service';
+import { describeHotkey, findHotkeyConflict, formatHotkey, parseHotkey } from '../lib';
+import { settingsService } from '../../settings';
+import type { HotkeyResult } from '../../../../shared/types/keyboard';
+
+const logger = log.scope('keyboard:update-undo-hotkey');
+
+/**
+ * Change or remove the undo hotkey without restarting.
+ * Hotkeys that shadow system shortcuts, fire while typing or are already
+ * used as a trigger are rejected.
+ *
+ * @param value - Binding in stored form, e.g. "ctrl+alt+90", or null to remove it
+ */
+export function updateUndoHotkey(value: string | null): HotkeyResult {
+  try {
+    if (!value) {
+      settingsService.updateValues({ UNDO_HOTKEY: '' });
+      keyboardService.setUndoHotkey(null);
+      return { success: true };
+    }
+
+    const binding = parseHotkey(value);
+    const conflict = findHotkeyConflict(binding);
+    if (conflict) {
+      logger.warn('Undo hotkey rejected', { value, conflict });
+      return { success: false, error: conflict };
+    }
+
+    const owner = keyboardService.findTriggerByHotkey(binding);
+    if (owner) {
+      logger.warn('Undo hotkey rejected', { value, usedBy: owner });
+      return {
+        success: false,
+        error: owner === DEFAULT_TRIGGER_ID ? '该快捷键已用作触发键' : '该快捷键已被某个听写配置使用',
+      };
+    }
+
+    const normalized = formatHotkey(binding);
+    settingsService.updateValues({ UNDO_HOTKEY: normalized });
+    keyboardService.setUndoHotkey(binding);
+
+    return {
+      success: true,
+      hotkey: { value: normalized, label: describeHotkey(binding) },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to update undo hotkey', { value, error: message });
+    return { success: false, error: message };
+  }
+}
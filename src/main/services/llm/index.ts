@@ -4,4 +4,5 @@
 
 export * from './types';
 export * from './volcengine-llm-client';
-export * from './llm.service';
\ No newline at end of file
+export * from './llm.service';
+export * from './lib';
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * HTTP helpers for LLM APIs.
+ * JSON requests with per-attempt timeouts and exponential-backoff retries.
+ */
+
+import type { LLMRequestOptions } from '../types';
+
+/**
+ * Error thrown by the request helpers.
+ * - status / responseText: set for HTTP error responses
+ * - code: ETIMEDOUT for timeouts, otherwise the network error code if any
+ */
+export interface HttpRequestError extends Error {
+  status?: number;
+  responseText?: string;
+  code?: string;
+}
+
+/**
+ * Narrow a caught value to a request error, wrapping non-Error values.
+ */
+export function toHttpRequestError(error: unknown): HttpRequestError {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * POST a JSON request, retrying server errors and rate limits.
+ * The timeout covers each attempt until the response headers arrive.
+ * @param url Endpoint URL
+ * @param headers Request headers
+ * @param requestBody JSON request body
+ * @param options Request options (timeout and retries)
+ * @param logDetails Extra fields for the attempt log
+ * @returns The successful response
+ */
+export async function postWithRetry(
+  url: string,
+  headers: Record<string, string>,
+  requestBody: object,
+  options: LLMRequestOptions = {},
+  logDetails: Record<string, unknown> = {}
+): Promise<Response> {
+  const maxRetries = options.maxRetries ?? 2;
+  let lastError: HttpRequestError | null = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? 30000);
+
+    try {
+      console.log(`LLM API request attempt ${attempt + 1}/${maxRetries + 1}`, {
+        url,
+        ...logDetails,
+      });
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('LLM API request failed:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          attempt: attempt + 1,
+        });
+
+        const error: HttpRequestError = Object.assign(
+          new Error(`HTTP ${response.status}: ${response.statusText}`),
+          { status: response.status, responseText: errorText }
+        );
+        lastError = error;
+
+        // Don't retry on client errors (4xx) except 429 (rate limit)
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          throw error;
+        }
+
+        // Wait before retry (exponential backoff)
+        if (attempt < maxRetries) {
+          const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
+          console.log(`Retrying after ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        throw error;
+      }
+
+      console.log(`LLM API request successful on attempt ${attempt + 1}`);
+      return response;
+    } catch (caught) {
+      clearTimeout(timeoutId);
+      const error = toHttpRequestError(caught);
+
+      // Enhance error with more details
+      if (error.name === 'AbortError') {
+        error.name = 'TimeoutError';
+        error.code = 'ETIMEDOUT';
+      }
+
+      lastError = error;
+
+      // Don't retry timeout errors immediately
+      if (error.name === 'TimeoutError') {
+        throw error;
+      }
+
+      // Wait before retry (exponential backoff)
+      if (attempt < maxRetries) {
+        const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
+        console.log(`Retrying after ${delay}ms due to error:`, error.message);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+    }
+  }
+
+  // If we get here, all retries failed
+  throw lastError || new Error('LLM API request failed after all retries');
+}
+
+/**
+ * GET a JSON document without retries.
+ * @param url Endpoint URL
+ * @param headers Request headers
+ * @param timeout Timeout in milliseconds
+ * @returns Parsed response body
+ * @throws Error with the HTTP status if the request fails
+ */
+export async function getJSON(
+  url: string,
+  headers: Record<string, string>,
+  timeout = 10000
+): Promise<unknown> {
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(timeout),
+  });
+
+  if (!response.ok) {
+    throw Object.assign(new Error(`HTTP ${response.status}: ${response.statusText}`), {
+      status: response.status,
+    });
+  }
+  return response.json();
+}
+
+/**
+ * Parse extra request headers written as "Name: value" pairs separated by `|`.
+ * @param value Header list, e.g. "X-Org: demo|X-Trace: 1"
+ * @returns Header map; entries without a name are skipped
+ */
+export function parseHeaderList(value: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const entry of value.split('|')) {
+    const colonIndex = entry.indexOf(':');
+    if (colonIndex === -1) {
+      continue;
+    }
+    const name = entry.slice(0, colonIndex).trim();
+    if (name) {
+      headers[name] = entry.slice(colonIndex + 1).trim();
+    }
+  }
+  return headers;
+}
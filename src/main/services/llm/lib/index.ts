@@ -0,0 +1,7 @@
+/**
+ * LLM library utilities.
+ */
+
+export { ServerSentEventParser } from './sse';
+export { postWithRetry, getJSON, parseHeaderList, toHttpRequestError } from './http';
+export type { HttpRequestError } from './http';
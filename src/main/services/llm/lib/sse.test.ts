@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ServerSentEventParser } from './sse';
+
+/**
+ * Push pieces in order and collect every completed event.
+ */
+function parse(pieces: string[]): string[] {
+  const parser = new ServerSentEventParser();
+  const events = pieces.flatMap((piece) => parser.push(piece));
+  return [...events, ...parser.flush()];
+}
+
+describe('ServerSentEventParser', () => {
+  it('reassembles events split across pieces', () => {
+    expect(parse(['data: {"a":1}\n\nda', 'ta: [DONE]\n\n'])).toEqual(['{"a":1}', '[DONE]']);
+  });
+
+  it('joins the data lines of one event', () => {
+    expect(parse(['data: first\ndata: second\n\n'])).toEqual(['first\nsecond']);
+  });
+
+  it('ignores comments', () => {
+    expect(parse([': keep-alive\n\ndata: x\n\n'])).toEqual(['x']);
+  });
+
+  it('accepts \\r\\n and \\r line endings', () => {
+    expect(parse(['data: a\r\n\r\ndata: b\r\rdata: c\n\n'])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not end an event at a \\r\\n split across pieces', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('data: first\r')).toEqual([]);
+    expect(parser.push('\ndata: second\r')).toEqual([]);
+    expect(parser.push('\n\r')).toEqual([]);
+    expect(parser.push('\n')).toEqual(['first\nsecond']);
+  });
+
+  it('returns an unterminated event on flush', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('data: tail')).toEqual([]);
+    expect(parser.flush()).toEqual(['tail']);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Server-sent events parsing.
+ * Splits a `text/event-stream` body into the data payloads of its events.
+ */
+
+/**
+ * Incremental parser for a server-sent event stream.
+ * Text may be pushed in pieces of any size; events split across pieces
+ * are reassembled.
+ *
+ * @example
+ * ```typescript
+ * const parser = new ServerSentEventParser();
+ * parser.push('data: {"a":1}\n\nda'); // ['{"a":1}']
+ * parser.push('ta: [DONE]\n\n');      // ['[DONE]']
+ * ```
+ */
+export class ServerSentEventParser {
+  /** Text after the last complete line */
+  private pending = '';
+  /** Data lines of the event being read */
+  private dataLines: string[] = [];
+
+  /**
+   * Parse the next piece of the stream.
+   *
+   * @param text - Decoded stream text
+   * @returns Data payloads of the events completed by this piece
+   */
+  push(text: string): string[] {
+    const buffer = this.pending + text;
+    // A trailing \r may be the first half of a \r\n split across pieces
+    const complete = buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer;
+    const lines = complete.split(/\r\n|\r|\n/);
+    this.pending = (lines.pop() ?? '') + buffer.slice(complete.length);
+
+    const events: string[] = [];
+    for (const line of lines) {
+      const data = this.readLine(line);
+      if (data !== null) {
+        events.push(data);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * End the stream, returning an event that was not terminated by a blank line.
+   */
+  flush(): string[] {
+    const events = this.push('\n\n');
+    this.pending = '';
+    return events;
+  }
+
+  /**
+   * Process one line; a blank line completes the current event.
+   */
+  private readLine(line: string): string | null {
+    if (line === '') {
+      if (this.dataLines.length === 0) {
+        return null;
+      }
+      const data = this.dataLines.join('\n');
+      this.dataLines = [];
+      return data;
+    }
+
+    // Comments (keep-alives) start with a colon; other fields are unused here
+    if (line.startsWith('data:')) {
+      this.dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+    }
+    return null;
+  }
+}
@@ -3,18 +3,32 @@
  * Manages LLM configuration, requests, and error handling.
  */
 
-import { LLMConfig, LLMRequestOptions, ILLMService, LLMError, LLMErrorType } from './types';
+import {
+  LLMConfig,
+  LLMRequestOptions,
+  ILLMClient,
+  ILLMService,
+  LLMError,
+  LLMErrorType,
+  LLMProviderType,
+} from './types';
 import { VolcengineLLMClient } from './volcengine-llm-client';
+import { OpenAICompatibleClient } from './openai-compatible-client';
+import { parseHeaderList } from './lib';
 
 /**
  * Default LLM configuration.
  */
 const DEFAULT_CONFIG: LLMConfig = {
   enabled: false,
+  provider: 'volcengine',
   apiKey: '',
   model: 'skylark2-pro-32k',
   prompt: '请将以下口语化的文本优化为书面语，保持原意不变，修正语法错误，使表达更加流畅自然：',
   baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+  headers: {},
+  stream: true,
+  earlyInsert: false,
 };
 
 /**
@@ -27,12 +41,28 @@ const DEFAULT_REQUEST_OPTIONS: LLMRequestOptions = {
   maxTokens: 2000,
 };
 
+/**
+ * Default base URL of a local OpenAI-compatible server (llama.cpp).
+ */
+const DEFAULT_OPENAI_BASE_URL = 'http://127.0.0.1:8080/v1';
+
+/**
+ * Create the client for the configured provider.
+ * @param config LLM configuration
+ * @returns Provider client
+ */
+function createLLMClient(config: LLMConfig): ILLMClient {
+  return config.provider === 'openai'
+    ? new OpenAICompatibleClient(config)
+    : new VolcengineLLMClient(config);
+}
+
 /**
  * LLM service implementation.
  */
 export class LLMService implements ILLMService {
   private config: LLMConfig;
-  private client: VolcengineLLMClient;
+  private client: ILLMClient;
   private isInitialized = false;
 
   constructor() {
@@ -42,18 +72,20 @@ export class LLMService implements ILLMService {
       this.config = this.loadConfigFromEnv();
       console.log('LLM service: Configuration loaded:', {
         enabled: this.config.enabled,
+        provider: this.config.provider,
         model: this.config.model,
         baseURL: this.config.baseURL,
+        stream: this.config.stream,
         hasApiKey: !!this.config.apiKey,
       });
-      this.client = new VolcengineLLMClient(this.config);
+      this.client = createLLMClient(this.config);
       this.isInitialized = true;
       console.log('LLM service: Initialized successfully');
     } catch (error) {
       console.error('LLM service: Initialization failed:', error);
       // Fallback to default config but mark as not initialized
       this.config = DEFAULT_CONFIG;
-      this.client = new VolcengineLLMClient(this.config);
+      this.client = createLLMClient(this.config);
       this.isInitialized = false;
     }
   }
@@ -64,12 +96,29 @@ export class LLMService implements ILLMService {
    */
   private loadConfigFromEnv(): LLMConfig {
     try {
+      const provider: LLMProviderType = process.env.LLM_PROVIDER === 'openai' ? 'openai' : 'volcengine';
+      const connection = provider === 'openai'
+        ? {
+          apiKey: process.env.OPENAI_LLM_API_KEY || '',
+          model: process.env.OPENAI_LLM_MODEL || '',
+          baseURL: process.env.OPENAI_LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+          headers: parseHeaderList(process.env.OPENAI_LLM_HEADERS || ''),
+        }
+        : {
+          apiKey: process.env.VOLCENGINE_LLM_API_KEY || '',
+          model: process.env.VOLCENGINE_LLM_MODEL || DEFAULT_CONFIG.model,
+          baseURL: process.env.VOLCENGINE_LLM_BASE_URL || DEFAULT_CONFIG.baseURL,
+          headers: {},
+        };
+
       return {
         enabled: process.env.VOLCENGINE_LLM_ENABLED === 'true',
-        apiKey: process.env.VOLCENGINE_LLM_API_KEY || '',
-        model: process.env.VOLCENGINE_LLM_MODEL || DEFAULT_CONFIG.model,
+        provider,
+        ...connection,
+        baseURL: connection.baseURL.replace(/\/+$/, ''),
         prompt: process.env.VOLCENGINE_LLM_PROMPT || DEFAULT_CONFIG.prompt,
-        baseURL: process.env.VOLCENGINE_LLM_BASE_URL || DEFAULT_CONFIG.baseURL,
+        stream: process.env.VOLCENGINE_LLM_STREAM !== 'false',
+        earlyInsert: process.env.VOLCENGINE_LLM_EARLY_INSERT === 'true',
       };
     } catch (error) {
       console.error('Failed to load LLM configuration from environment:', error);
@@ -164,6 +213,18 @@ export class LLMService implements ILLMService {
     }
   }
 
+  /**
+   * List the models offered by a server.
+   * @param overrides Connection settings to try instead of the current ones,
+   *   e.g. unsaved values from the Settings page
+   * @returns Model IDs
+   */
+  async listModels(overrides: Partial<LLMConfig> = {}): Promise<string[]> {
+    const config = { ...this.config, ...overrides };
+    config.baseURL = config.baseURL.replace(/\/+$/, '');
+    return createLLMClient(config).listModels();
+  }
+
   /**
    * Get current LLM configuration.
    * @returns LLM configuration
@@ -180,8 +241,8 @@ export class LLMService implements ILLMService {
     const oldConfig = { ...this.config };
     this.config = { ...this.config, ...config };
 
-    // Update the client with new configuration
-    await this.client.updateConfig(this.config);
+    // The provider may have changed, so build a new client
+    this.client = createLLMClient(this.config);
 
     console.log('LLM configuration updated:', {
       oldEnabled: oldConfig.enabled,
@@ -206,7 +267,18 @@ export class LLMService implements ILLMService {
    * @returns Whether LLM optimization is available
    */
   isAvailable(): boolean {
-    return this.isInitialized && this.config.enabled && this.config.apiKey.length > 0;
+    return this.isInitialized && this.config.enabled && this.isConfigured();
+  }
+
+  /**
+   * Check if the selected provider has the settings it needs.
+   * Local OpenAI-compatible servers usually need no API key.
+   */
+  private isConfigured(): boolean {
+    if (this.config.provider === 'openai') {
+      return this.config.baseURL.length > 0 && this.config.model.length > 0;
+    }
+    return this.config.apiKey.length > 0;
   }
 
   /**
@@ -223,7 +295,7 @@ export class LLMService implements ILLMService {
     return {
       initialized: this.isInitialized,
       enabled: this.config.enabled,
-      configured: this.config.apiKey.length > 0,
+      configured: this.isConfigured(),
       model: this.config.model,
       baseURL: this.config.baseURL,
     };
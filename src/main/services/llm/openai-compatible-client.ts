@@ -0,0 +1,336 @@
+/**
+ * OpenAI-compatible LLM client.
+ * Talks to any server implementing the OpenAI chat completions and models
+ * APIs, such as llama.cpp, Ollama or vLLM.
+ */
+
+import {
+  ILLMClient,
+  LLMConfig,
+  LLMMessage,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMError,
+  LLMErrorType,
+} from './types';
+import { ServerSentEventParser, getJSON, postWithRetry, toHttpRequestError } from './lib';
+
+/**
+ * Total length of the message contents, for request logs.
+ */
+export function messageLength(messages: LLMMessage[]): number {
+  return messages.reduce((total, message) => total + message.content.length, 0);
+}
+
+/**
+ * Client for OpenAI-compatible chat completions APIs.
+ * Provider-specific clients extend it and override `complete()`.
+ */
+export class OpenAICompatibleClient implements ILLMClient {
+  protected config: LLMConfig;
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Headers for every request: the configured extras plus the API key.
+   */
+  protected requestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Provider-specific fields added to chat completions requests.
+   */
+  protected extraRequestFields(): Record<string, unknown> {
+    return {};
+  }
+
+  /**
+   * Check the configuration before a request.
+   * @throws LLMError if the client cannot make requests
+   */
+  protected validateConfig(): void {
+    if (!this.config.enabled) {
+      throw new LLMError(
+        LLMErrorType.CONFIGURATION_ERROR,
+        'LLM optimization is not enabled'
+      );
+    }
+
+    if (!this.config.baseURL || !this.config.model) {
+      throw new LLMError(
+        LLMErrorType.CONFIGURATION_ERROR,
+        'LLM base URL or model is not configured'
+      );
+    }
+  }
+
+  /**
+   * Request a complete response.
+   * @param messages Messages to send to LLM
+   * @param options Request options
+   * @returns Generated text (empty if the response has none)
+   */
+  protected async complete(
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {}
+  ): Promise<string> {
+    const response = await postWithRetry(
+      `${this.config.baseURL}/chat/completions`,
+      this.requestHeaders(),
+      {
+        model: this.config.model,
+        messages,
+        max_tokens: options.maxTokens,
+        ...this.extraRequestFields(),
+      },
+      options,
+      { model: this.config.model, inputLength: messageLength(messages) }
+    );
+
+    const data = await response.json() as { choices?: { message?: { content?: string } }[] };
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  /**
+   * Request a streamed response from the chat completions API.
+   * Partial text is reported through `options.onPartialText` as it arrives.
+   * @param messages Messages to send to LLM
+   * @param options Request options
+   * @returns The complete generated text
+   */
+  protected async completeStream(
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {}
+  ): Promise<string> {
+    const response = await postWithRetry(
+      `${this.config.baseURL}/chat/completions`,
+      this.requestHeaders(),
+      {
+        model: this.config.model,
+        messages,
+        stream: true,
+        ...this.extraRequestFields(),
+      },
+      options,
+      { model: this.config.model, inputLength: messageLength(messages), stream: true }
+    );
+    if (!response.body) {
+      throw new Error('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new ServerSentEventParser();
+    const idleTimeout = options.timeout ?? 30000;
+    let text = '';
+    let timedOut = false;
+    let idleTimer: NodeJS.Timeout | null = null;
+
+    // The timeout applies to the gap between chunks, not the whole response
+    const resetIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        timedOut = true;
+        reader.cancel().catch(() => undefined);
+      }, idleTimeout);
+    };
+
+    try {
+      resetIdleTimer();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (timedOut) {
+          throw Object.assign(new Error('LLM stream stalled'), {
+            name: 'TimeoutError',
+            code: 'ETIMEDOUT',
+          });
+        }
+
+        const events = done ? parser.flush() : parser.push(decoder.decode(value, { stream: true }));
+        for (const data of events) {
+          if (data === '[DONE]') {
+            return text;
+          }
+
+          const chunk = JSON.parse(data);
+          if (chunk.error) {
+            throw new Error(chunk.error.message || 'LLM stream returned an error');
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta.length > 0) {
+            text += delta;
+            options.onPartialText?.(text);
+          }
+        }
+
+        if (done) {
+          return text;
+        }
+        resetIdleTimer();
+      }
+    } finally {
+      if (idleTimer) clearTimeout(idleTimer);
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Optimize text using the configured model.
+   * @param text Text to optimize
+   * @param options Request options
+   * @returns LLM response
+   */
+  async optimizeText(
+    text: string,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+
+    // Validate configuration
+    this.validateConfig();
+
+    // Validate input text
+    if (!text || text.trim().length === 0) {
+      throw new LLMError(
+        LLMErrorType.VALIDATION_ERROR,
+        'Input text cannot be empty'
+      );
+    }
+
+    if (text.length > 10000) {
+      throw new LLMError(
+        LLMErrorType.VALIDATION_ERROR,
+        'Input text is too long (maximum 10000 characters)'
+      );
+    }
+
+    try {
+      // Rendered template messages, or the user's custom prompt (or the caller's override)
+      const messages: LLMMessage[] = options.messages ?? [
+        { role: 'user', content: `${options.prompt || this.config.prompt}\n\n原文：${text}` },
+      ];
+
+      const optimizedText = this.config.stream
+        ? await this.completeStream(messages, options)
+        : await this.complete(messages, options);
+
+      if (!optimizedText || optimizedText.trim().length === 0) {
+        throw new LLMError(
+          LLMErrorType.API_ERROR,
+          'Empty response from LLM API'
+        );
+      }
+
+      return {
+        text: optimizedText,
+        processingTime: Date.now() - startTime,
+        success: true,
+      };
+    } catch (caught) {
+      const processingTime = Date.now() - startTime;
+      const error = toHttpRequestError(caught);
+
+      // Handle different types of errors
+      let errorType = LLMErrorType.API_ERROR;
+      let errorMessage = 'Failed to optimize text with LLM';
+
+      if (error.name === 'TimeoutError' || error.code === 'ETIMEDOUT') {
+        errorType = LLMErrorType.TIMEOUT_ERROR;
+        errorMessage = 'LLM request timed out';
+      } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+        errorType = LLMErrorType.NETWORK_ERROR;
+        errorMessage = 'Network error connecting to LLM API';
+      } else if (error.status === 401 || error.status === 403) {
+        errorType = LLMErrorType.CONFIGURATION_ERROR;
+        errorMessage = 'Invalid API key or authentication failed';
+      } else if (error.status === 429) {
+        errorType = LLMErrorType.API_ERROR;
+        errorMessage = 'Rate limit exceeded, please try again later';
+      } else if (error.status === 400) {
+        errorType = LLMErrorType.VALIDATION_ERROR;
+        errorMessage = 'Invalid request parameters';
+      }
+
+      console.error('LLM optimization error:', {
+        errorType,
+        errorMessage,
+        details: error.message,
+        processingTime,
+      });
+
+      return {
+        text: text, // Fallback to original text
+        processingTime,
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Test connection with a short completion request.
+   * @returns Whether connection is successful
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      this.validateConfig();
+
+      const responseText = await this.complete(
+        [{ role: 'user', content: 'Hello, please respond with "OK"' }],
+        { maxTokens: 10 }
+      );
+
+      console.log('LLM connection test response:', { responseText, hasResponse: !!responseText });
+      return responseText.length > 0;
+    } catch (error) {
+      console.error('LLM connection test failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * List models from the `/models` endpoint.
+   * @returns Model IDs, sorted
+   */
+  async listModels(): Promise<string[]> {
+    if (!this.config.baseURL) {
+      throw new LLMError(
+        LLMErrorType.CONFIGURATION_ERROR,
+        'LLM base URL is not configured'
+      );
+    }
+
+    const data = await getJSON(`${this.config.baseURL}/models`, this.requestHeaders()) as {
+      data?: { id?: unknown }[];
+    };
+
+    return (data.data ?? [])
+      .map((model) => model.id)
+      .filter((id): id is string => typeof id === 'string' && id.length > 0)
+      .sort();
+  }
+
+  /**
+   * Update client configuration.
+   * @param config New configuration
+   */
+  async updateConfig(config: Partial<LLMConfig>): Promise<void> {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get current configuration.
+   * @returns Current configuration
+   */
+  getConfig(): LLMConfig {
+    return { ...this.config };
+  }
+}
@@ -2,13 +2,23 @@
  * LLM service type definitions.
  */
 
+/**
+ * Supported LLM providers.
+ * - volcengine: Volcano Engine Ark (Doubao)
+ * - openai: any OpenAI-compatible server, e.g. llama.cpp or Ollama
+ */
+export type LLMProviderType = 'volcengine' | 'openai';
+
 /**
  * LLM configuration from environment variables.
+ * Connection fields hold the values of the selected provider.
  */
 export interface LLMConfig {
   /** Whether LLM optimization is enabled */
   enabled: boolean;
-  /** LLM API key */
+  /** Provider that serves the requests */
+  provider: LLMProviderType;
+  /** LLM API key (optional for local OpenAI-compatible servers) */
   apiKey: string;
   /** LLM model name */
   model: string;
@@ -16,6 +26,20 @@ export interface LLMConfig {
   prompt: string;
   /** LLM API base URL */
   baseURL: string;
+  /** Extra HTTP headers sent with every request */
+  headers: Record<string, string>;
+  /** Whether to stream the response from the chat completions API */
+  stream: boolean;
+  /** Whether streamed text may be inserted before the response completes */
+  earlyInsert: boolean;
+}
+
+/**
+ * A chat message sent to the model.
+ */
+export interface LLMMessage {
+  role: 'system' | 'user';
+  content: string;
 }
 
 /**
@@ -30,6 +54,12 @@ export interface LLMRequestOptions {
   temperature?: number;
   /** Maximum tokens to generate */
   maxTokens?: number;
+  /** Prompt to use instead of the configured one */
+  prompt?: string;
+  /** Rendered messages to send instead of the prompt and text, e.g. from a prompt template */
+  messages?: LLMMessage[];
+  /** Called with the text generated so far while a streamed response arrives */
+  onPartialText?: (text: string) => void;
 }
 
 /**
@@ -48,6 +78,27 @@ export interface LLMResponse {
   error?: string;
 }
 
+/**
+ * Connection settings to discover models with, as edited in Settings.
+ */
+export interface LLMModelQuery {
+  provider: LLMProviderType;
+  baseURL: string;
+  apiKey: string;
+  /** Extra headers as "Name: value" pairs separated by | */
+  headers: string;
+}
+
+/**
+ * Result of model discovery.
+ */
+export interface LLMModelListResult {
+  success: boolean;
+  /** Model IDs reported by the server */
+  models?: string[];
+  error?: string;
+}
+
 /**
  * LLM error types.
  */
@@ -73,6 +124,29 @@ export class LLMError extends Error {
   }
 }
 
+/**
+ * Provider client used by the LLM service.
+ */
+export interface ILLMClient {
+  /**
+   * Optimize text; failures fall back to the input text.
+   * @param text Text to optimize
+   * @param options Request options
+   */
+  optimizeText(text: string, options?: LLMRequestOptions): Promise<LLMResponse>;
+
+  /**
+   * Send a short request to check the configuration.
+   */
+  testConnection(): Promise<boolean>;
+
+  /**
+   * List the models the server offers.
+   * @returns Model IDs
+   */
+  listModels(): Promise<string[]>;
+}
+
 /**
  * LLM service interface.
  */
@@ -0,0 +1,12 @@
+/**
+ * Profile module exports.
+ * Re-exports the dictation profile service and its types.
+ */
+
+// Service
+export { ProfileService, profileService } from './profile.service';
+export type { ProfileServiceEvents } from './profile.service';
+
+// Types
+export type { ProfileFile, StoredProfile } from './types';
+export { PROFILE_CONSTANTS } from './types';
@@ -0,0 +1,273 @@
+/**
+ * Profile Service.
+ * Maintains dictation profiles: named pipelines that bundle an ASR
+ * language, an LLM prompt and an insert method, each started by its own
+ * trigger hotkey.
+ *
+ * The hotkey from the keyboard settings keeps running the default
+ * pipeline, which follows the global ASR and LLM settings.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import log from 'electron-log';
+import { JsonFileStore } from '../storage';
+import {
+  DEFAULT_TRIGGER_ID,
+  keyboardService,
+  describeHotkey,
+  findHotkeyConflict,
+  formatHotkey,
+  parseHotkey,
+} from '../keyboard';
+import type { KeyboardTrigger } from '../keyboard';
+import { PROFILE_CONSTANTS, profileFileSchema, profileSchema } from './types';
+import type { ProfileFile, StoredProfile } from './types';
+import type { DictationProfile } from '../../../shared/types/profile';
+
+const logger = log.scope('profile-service');
+
+/**
+ * Pipeline of the default trigger.
+ */
+const DEFAULT_PROFILE: DictationProfile = {
+  id: DEFAULT_TRIGGER_ID,
+  name: '默认',
+  hotkey: null,
+  asrLanguage: '',
+  llmEnabled: true,
+  llmPrompt: '',
+  promptTemplateId: '',
+  insertMethod: 'auto',
+};
+
+/**
+ * Profiles created on first launch. They have no hotkey until the user
+ * records one.
+ */
+function createDefaultFile(): ProfileFile {
+  return {
+    version: PROFILE_CONSTANTS.VERSION,
+    profiles: [
+      {
+        id: 'raw',
+        name: '原始转写',
+        hotkey: null,
+        asrLanguage: '',
+        llmEnabled: false,
+        llmPrompt: '',
+        promptTemplateId: '',
+        insertMethod: 'auto',
+      },
+      {
+        id: 'polish',
+        name: '书面润色',
+        hotkey: null,
+        asrLanguage: '',
+        llmEnabled: true,
+        llmPrompt:
+          '请将以下口语转写整理成通顺、正式的书面语：修正错别字和标点，去掉口头禅和重复，保持原意，只输出整理后的文本：',
+        promptTemplateId: '',
+        insertMethod: 'auto',
+      },
+      {
+        id: 'translate',
+        name: '翻译成英文',
+        hotkey: null,
+        asrLanguage: '',
+        llmEnabled: true,
+        llmPrompt: '请将以下文本翻译成自然流畅的英文，只输出译文：',
+        promptTemplateId: '',
+        insertMethod: 'auto',
+      },
+    ],
+  };
+}
+
+// ============ Event Types ============
+
+export interface ProfileServiceEvents {
+  changed: () => void;
+}
+
+export interface ProfileService {
+  on<K extends keyof ProfileServiceEvents>(
+    event: K,
+    listener: ProfileServiceEvents[K]
+  ): this;
+  off<K extends keyof ProfileServiceEvents>(
+    event: K,
+    listener: ProfileServiceEvents[K]
+  ): this;
+  emit<K extends keyof ProfileServiceEvents>(
+    event: K,
+    ...args: Parameters<ProfileServiceEvents[K]>
+  ): boolean;
+}
+
+// ============ Profile Service Class ============
+
+/**
+ * Profile Service for dictation pipelines.
+ *
+ * @example
+ * ```typescript
+ * // Register every profile hotkey
+ * keyboardService.setTriggers(profileService.getTriggers());
+ *
+ * // Pipeline for the trigger that fired
+ * const profile = profileService.resolve(triggerId);
+ * ```
+ */
+export class ProfileService extends EventEmitter {
+  private readonly store = new JsonFileStore<ProfileFile>(
+    PROFILE_CONSTANTS.FILE_NAME,
+    profileFileSchema,
+    createDefaultFile
+  );
+
+  /**
+   * List the user's profiles.
+   */
+  list(): DictationProfile[] {
+    return this.store.read().profiles.map((profile) => this.toProfile(profile));
+  }
+
+  /**
+   * Get the pipeline for a trigger.
+   * The default trigger, and any trigger whose profile was removed, runs
+   * the default pipeline.
+   *
+   * @param triggerId - ID reported by the keyboard service
+   */
+  resolve(triggerId: string): DictationProfile {
+    if (triggerId === DEFAULT_TRIGGER_ID) {
+      return DEFAULT_PROFILE;
+    }
+
+    const profile = this.list().find((item) => item.id === triggerId);
+    if (!profile) {
+      logger.warn('Unknown profile, using default', { triggerId });
+      return DEFAULT_PROFILE;
+    }
+    return profile;
+  }
+
+  /**
+   * Replace the profile list.
+   *
+   * @param profiles - Profiles to persist; missing IDs are assigned
+   * @returns The saved profiles
+   * @throws Error if a profile is invalid or its hotkey is unusable
+   */
+  save(profiles: DictationProfile[]): DictationProfile[] {
+    const normalized = profiles.map((profile) => this.normalize(profile));
+    this.checkHotkeys(normalized);
+
+    const saved = this.store.write({
+      version: PROFILE_CONSTANTS.VERSION,
+      profiles: normalized,
+    });
+
+    logger.info('Profiles saved', { count: saved.profiles.length });
+    this.emit('changed');
+    return saved.profiles.map((profile) => this.toProfile(profile));
+  }
+
+  /**
+   * Keyboard triggers for the profiles that have a hotkey.
+   * Unparseable hotkeys in a hand-edited file are skipped.
+   */
+  getTriggers(): KeyboardTrigger[] {
+    const triggers: KeyboardTrigger[] = [];
+    for (const profile of this.store.read().profiles) {
+      if (!profile.hotkey) {
+        continue;
+      }
+      try {
+        triggers.push({ id: profile.id, hotkey: parseHotkey(profile.hotkey) });
+      } catch (error) {
+        logger.warn('Ignoring invalid profile hotkey', {
+          id: profile.id,
+          hotkey: profile.hotkey,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return triggers;
+  }
+
+  /**
+   * Trim the fields and validate them, naming the profile in the error.
+   */
+  private normalize(profile: DictationProfile): StoredProfile {
+    const result = profileSchema.safeParse({
+      id: profile.id && profile.id !== DEFAULT_TRIGGER_ID ? profile.id : randomUUID(),
+      name: profile.name.trim(),
+      hotkey: profile.hotkey ? formatHotkey(parseHotkey(profile.hotkey.value)) : null,
+      asrLanguage: profile.asrLanguage.trim(),
+      llmEnabled: profile.llmEnabled,
+      llmPrompt: profile.llmPrompt.trim(),
+      promptTemplateId: profile.promptTemplateId ?? '',
+      insertMethod: profile.insertMethod,
+    });
+
+    if (!result.success) {
+      throw new Error(`「${profile.name.trim() || '未命名'}」：${result.error.issues[0].message}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Reject hotkeys that are unsafe, shared between profiles, or already
+   * used by the default trigger or the undo hotkey.
+   */
+  private checkHotkeys(profiles: StoredProfile[]): void {
+    const mainHotkey = formatHotkey(keyboardService.hotkey);
+    const { undoHotkey } = keyboardService;
+    const seen = new Map<string, string>();
+
+    for (const profile of profiles) {
+      if (!profile.hotkey) {
+        continue;
+      }
+
+      const binding = parseHotkey(profile.hotkey);
+      const conflict = findHotkeyConflict(binding);
+      if (conflict) {
+        throw new Error(`「${profile.name}」：${conflict}`);
+      }
+      if (profile.hotkey === mainHotkey) {
+        throw new Error(`「${profile.name}」的快捷键与默认触发键相同`);
+      }
+      if (undoHotkey && profile.hotkey === formatHotkey(undoHotkey)) {
+        throw new Error(`「${profile.name}」的快捷键与撤销听写快捷键相同`);
+      }
+
+      const other = seen.get(profile.hotkey);
+      if (other) {
+        throw new Error(`「${profile.name}」与「${other}」使用了相同的快捷键`);
+      }
+      seen.set(profile.hotkey, profile.name);
+    }
+  }
+
+  private toProfile(profile: StoredProfile): DictationProfile {
+    let hotkey: DictationProfile['hotkey'] = null;
+    if (profile.hotkey) {
+      try {
+        hotkey = { value: profile.hotkey, label: describeHotkey(parseHotkey(profile.hotkey)) };
+      } catch {
+        // Shown as unset; getTriggers() skips it as well
+        hotkey = null;
+      }
+    }
+
+    return { ...profile, hotkey };
+  }
+}
+
+/**
+ * Singleton instance of the profile service.
+ */
+export const profileService = new ProfileService();
@@ -0,0 +1,55 @@
+/**
+ * Dictation profile types and Zod schemas.
+ * Defines the persisted profile file.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PROFILE_CONSTANTS = {
+  /** File name under the userData directory */
+  FILE_NAME: 'profiles.json',
+
+  /** Current file format version */
+  VERSION: 1,
+
+  /** Longest profile name accepted */
+  MAX_NAME_LENGTH: 30,
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * A single dictation profile.
+ * The hotkey is kept in its stored form, e.g. "ctrl+shift+57".
+ */
+export const profileSchema = z.object({
+  id: z.string().min(1),
+  name: z
+    .string()
+    .trim()
+    .min(1, '配置名称不能为空')
+    .max(PROFILE_CONSTANTS.MAX_NAME_LENGTH, `配置名称不能超过 ${PROFILE_CONSTANTS.MAX_NAME_LENGTH} 个字符`),
+  hotkey: z.string().min(1).nullable(),
+  asrLanguage: z.string().regex(/^([a-z]{2,3}(-[A-Za-z]{2,4})?)?$/, '识别语言格式无效，例如 en-US'),
+  llmEnabled: z.boolean(),
+  llmPrompt: z.string(),
+  promptTemplateId: z.string().default(''),
+  insertMethod: z.enum(['auto', 'type', 'paste', 'clipboard']),
+});
+
+/**
+ * Persisted profile file.
+ */
+export const profileFileSchema = z.object({
+  version: z.literal(PROFILE_CONSTANTS.VERSION),
+  profiles: z.array(profileSchema),
+});
+
+export type StoredProfile = z.infer<typeof profileSchema>;
+export type ProfileFile = z.infer<typeof profileFileSchema>;
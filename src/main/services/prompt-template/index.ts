@@ -0,0 +1,17 @@
+/**
+ * Prompt template module exports.
+ * Re-exports the prompt template service, procedures, and library utilities.
+ */
+
+// Service
+export { PromptTemplateService, promptTemplateService } from './prompt-template.service';
+
+// Procedures
+export { importPromptTemplates, exportPromptTemplates } from './procedures';
+
+// Types
+export type { PromptContext, PromptTemplateFile, PromptVariable, PromptVariables } from './types';
+export { PROMPT_TEMPLATE_CONSTANTS } from './types';
+
+// Library utilities
+export { renderPromptTemplate, formatPromptDate } from './lib';
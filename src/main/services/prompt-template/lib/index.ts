@@ -0,0 +1,10 @@
+/**
+ * Prompt template library exports.
+ */
+
+export {
+  listTemplateVariables,
+  findUnknownVariable,
+  renderPromptTemplate,
+  formatPromptDate,
+} from './render';
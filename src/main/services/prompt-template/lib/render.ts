@@ -0,0 +1,60 @@
+/**
+ * Prompt template rendering.
+ * Substitutes {{variable}} placeholders in template messages.
+ */
+
+import { PROMPT_TEMPLATE_CONSTANTS } from '../types';
+import type { PromptVariable, PromptVariables } from '../types';
+import type { PromptTemplatePreview } from '../../../../shared/types/prompt-template';
+
+/** Matches {{name}}, allowing spaces inside the braces */
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_]+)\s*\}\}/g;
+
+function isPromptVariable(name: string): name is PromptVariable {
+  return (PROMPT_TEMPLATE_CONSTANTS.VARIABLES as readonly string[]).includes(name);
+}
+
+/**
+ * List the variable names used in a message, in order of first use.
+ */
+export function listTemplateVariables(message: string): string[] {
+  const names = Array.from(message.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Find the first variable in a message that templates do not support.
+ *
+ * @returns The unknown variable name, or null if all are supported
+ */
+export function findUnknownVariable(message: string): string | null {
+  return listTemplateVariables(message).find((name) => !isPromptVariable(name)) ?? null;
+}
+
+/**
+ * Render the system and user messages of a template.
+ * Unknown placeholders are left as written.
+ */
+export function renderPromptTemplate(
+  template: PromptTemplatePreview,
+  variables: PromptVariables
+): PromptTemplatePreview {
+  const render = (message: string) =>
+    message.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+      isPromptVariable(name) ? variables[name] : placeholder
+    );
+
+  return {
+    system: render(template.system).trim(),
+    user: render(template.user).trim(),
+  };
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time.
+ */
+export function formatPromptDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Export prompt templates procedure.
+ * Writes the template library to a JSON file chosen by the user.
+ */
+
+import { dialog, type BrowserWindow } from 'electron';
+import fs from 'fs';
+import log from 'electron-log';
+import { promptTemplateService } from '../prompt-template.service';
+import { PROMPT_TEMPLATE_CONSTANTS } from '../types';
+import type { PromptTemplateFile } from '../types';
+import type { PromptTemplateTransferResult } from '../../../../shared/types/prompt-template';
+
+const logger = log.scope('prompt-template:export-json');
+
+/**
+ * Export the template library to a JSON file chosen by the user.
+ * The file uses the same format as the stored library.
+ *
+ * @param parent - Window the file dialog is attached to
+ * @returns Export result with the number of templates written
+ */
+export async function exportPromptTemplates(
+  parent: BrowserWindow | null
+): Promise<PromptTemplateTransferResult> {
+  try {
+    const options: Electron.SaveDialogOptions = {
+      title: '导出提示词模板',
+      defaultPath: 'prompt-templates.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    };
+    const selection = parent
+      ? await dialog.showSaveDialog(parent, options)
+      : await dialog.showSaveDialog(options);
+
+    if (selection.canceled || !selection.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    const file: PromptTemplateFile = {
+      version: PROMPT_TEMPLATE_CONSTANTS.VERSION,
+      templates: promptTemplateService.list(),
+    };
+    fs.writeFileSync(selection.filePath, `${JSON.stringify(file, null, 2)}\n`, 'utf-8');
+
+    logger.info('Prompt templates exported', {
+      file: selection.filePath,
+      count: file.templates.length,
+    });
+    return { success: true, count: file.templates.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to export prompt templates', { error: message });
+    return { success: false, error: message };
+  }
+}
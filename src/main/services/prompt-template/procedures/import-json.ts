@@ -0,0 +1,56 @@
+/**
+ * Import prompt templates procedure.
+ * Lets the user pick an exported JSON file and adds its templates to the library.
+ */
+
+import { dialog, type BrowserWindow } from 'electron';
+import fs from 'fs';
+import log from 'electron-log';
+import { promptTemplateService } from '../prompt-template.service';
+import { promptTemplateFileSchema } from '../types';
+import type { PromptTemplateTransferResult } from '../../../../shared/types/prompt-template';
+
+const logger = log.scope('prompt-template:import-json');
+
+/**
+ * Import prompt templates from a JSON file chosen by the user.
+ *
+ * @param parent - Window the file dialog is attached to
+ * @returns Import result with the updated template list
+ */
+export async function importPromptTemplates(
+  parent: BrowserWindow | null
+): Promise<PromptTemplateTransferResult> {
+  try {
+    const options: Electron.OpenDialogOptions = {
+      title: '导入提示词模板',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+      properties: ['openFile'],
+    };
+    const selection = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options);
+
+    if (selection.canceled || selection.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const content = fs.readFileSync(selection.filePaths[0], 'utf-8');
+    const parsed = promptTemplateFileSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      return { success: false, error: '文件不是有效的提示词模板导出文件' };
+    }
+
+    const templates = promptTemplateService.importTemplates(parsed.data.templates);
+
+    logger.info('Prompt templates imported', {
+      file: selection.filePaths[0],
+      count: parsed.data.templates.length,
+    });
+    return { success: true, count: parsed.data.templates.length, templates };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to import prompt templates', { error: message });
+    return { success: false, error: message };
+  }
+}
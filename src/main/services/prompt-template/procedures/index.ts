@@ -0,0 +1,6 @@
+/**
+ * Prompt template procedures exports.
+ */
+
+export { importPromptTemplates } from './import-json';
+export { exportPromptTemplates } from './export-json';
@@ -0,0 +1,192 @@
+/**
+ * Prompt Template Service.
+ * Maintains the library of named LLM prompt templates.
+ *
+ * A template splits the prompt into a system and a user message and may
+ * use variables that are filled in for each dictation. Dictation profiles
+ * pick a template by ID.
+ */
+
+import { clipboard } from 'electron';
+import { randomUUID } from 'crypto';
+import log from 'electron-log';
+import { JsonFileStore } from '../storage';
+import { findUnknownVariable, formatPromptDate, listTemplateVariables, renderPromptTemplate } from './lib';
+import { PROMPT_TEMPLATE_CONSTANTS, promptTemplateFileSchema, promptTemplateSchema } from './types';
+import type { PromptContext, PromptTemplateFile } from './types';
+import type {
+  PromptTemplate,
+  PromptTemplatePreview,
+} from '../../../shared/types/prompt-template';
+
+const logger = log.scope('prompt-template-service');
+
+/**
+ * Templates created on first launch.
+ */
+function createDefaultFile(): PromptTemplateFile {
+  return {
+    version: PROMPT_TEMPLATE_CONSTANTS.VERSION,
+    templates: [
+      {
+        id: 'polish',
+        name: '书面润色',
+        system: '你是一名中文编辑，负责把语音转写整理成通顺的书面语。只输出整理后的文本，不要解释。',
+        user: '请修正下面文本中的错别字和标点，去掉口头禅和重复，保持原意：\n\n{{text}}',
+      },
+      {
+        id: 'app-tone',
+        name: '按应用调整语气',
+        system: '你帮助用户在 {{app_name}} 中输入文字。根据应用的常见用途调整语气和格式，只输出最终文本。',
+        user: '{{text}}',
+      },
+      {
+        id: 'reply-clipboard',
+        name: '回复剪贴板内容',
+        system: '你帮助用户撰写回复。今天是 {{date}}。只输出回复正文。',
+        user: '需要回复的内容：\n{{clipboard}}\n\n我的回复要点：\n{{text}}',
+      },
+    ],
+  };
+}
+
+/**
+ * Prompt Template Service for managing LLM prompts.
+ *
+ * @example
+ * ```typescript
+ * const template = promptTemplateService.get(profile.promptTemplateId);
+ * const { system, user } = promptTemplateService.render(template, {
+ *   text: result.text,
+ *   appName: 'Slack',
+ *   language: 'zh-CN',
+ * });
+ * ```
+ */
+export class PromptTemplateService {
+  private readonly store = new JsonFileStore<PromptTemplateFile>(
+    PROMPT_TEMPLATE_CONSTANTS.FILE_NAME,
+    promptTemplateFileSchema,
+    createDefaultFile
+  );
+
+  /**
+   * List all templates.
+   */
+  list(): PromptTemplate[] {
+    return this.store.read().templates;
+  }
+
+  /**
+   * Find a template by ID.
+   *
+   * @returns The template, or null if it does not exist
+   */
+  get(id: string): PromptTemplate | null {
+    return this.list().find((template) => template.id === id) ?? null;
+  }
+
+  /**
+   * Replace the template list.
+   *
+   * @param templates - Templates to persist; missing IDs are assigned
+   * @returns The saved templates
+   * @throws Error if a template is invalid
+   */
+  save(templates: PromptTemplate[]): PromptTemplate[] {
+    const normalized = templates.map((template) => this.normalize(template));
+
+    const names = new Set<string>();
+    for (const template of normalized) {
+      if (names.has(template.name)) {
+        throw new Error(`存在多个名为「${template.name}」的模板`);
+      }
+      names.add(template.name);
+    }
+
+    const saved = this.store.write({
+      version: PROMPT_TEMPLATE_CONSTANTS.VERSION,
+      templates: normalized,
+    });
+
+    logger.info('Prompt templates saved', { count: saved.templates.length });
+    return saved.templates;
+  }
+
+  /**
+   * Add imported templates to the library.
+   * A template with the same name as an existing one replaces it.
+   *
+   * @param templates - Templates from an exported file
+   * @returns The saved templates
+   */
+  importTemplates(templates: PromptTemplate[]): PromptTemplate[] {
+    const merged = [...this.list()];
+
+    for (const template of templates) {
+      const index = merged.findIndex((existing) => existing.name === template.name.trim());
+      if (index === -1) {
+        merged.push({ ...template, id: randomUUID() });
+      } else {
+        merged[index] = { ...template, id: merged[index].id };
+      }
+    }
+
+    logger.info('Importing prompt templates', { imported: templates.length });
+    return this.save(merged);
+  }
+
+  /**
+   * Render a template for a dictation.
+   * The date and clipboard are read at the time of the call.
+   *
+   * @param template - System and user messages to render
+   * @param context - Values of the current dictation
+   */
+  render(template: PromptTemplatePreview, context: PromptContext): PromptTemplatePreview {
+    const needsClipboard = [template.system, template.user].some((message) =>
+      listTemplateVariables(message).includes('clipboard')
+    );
+
+    return renderPromptTemplate(template, {
+      text: context.text,
+      app_name: context.appName,
+      language: context.language,
+      date: formatPromptDate(new Date()),
+      clipboard: needsClipboard ? clipboard.readText() : '',
+    });
+  }
+
+  /**
+   * Trim the fields and validate them, naming the template in the error.
+   */
+  private normalize(template: PromptTemplate): PromptTemplate {
+    const name = template.name.trim() || '未命名';
+    const result = promptTemplateSchema.safeParse({
+      id: template.id || randomUUID(),
+      name: template.name.trim(),
+      system: template.system.trim(),
+      user: template.user.trim(),
+    });
+
+    if (!result.success) {
+      throw new Error(`「${name}」：${result.error.issues[0].message}`);
+    }
+
+    const { system, user } = result.data;
+    const unknown = findUnknownVariable(system) ?? findUnknownVariable(user);
+    if (unknown) {
+      throw new Error(`「${name}」：不支持的变量 {{${unknown}}}`);
+    }
+    if (!listTemplateVariables(user).includes('text')) {
+      throw new Error(`「${name}」：用户消息必须包含 {{text}}`);
+    }
+
+    return result.data;
+  }
+}
+
+/**
+ * Singleton instance of the prompt template service.
+ */
+export const promptTemplateService = new PromptTemplateService();
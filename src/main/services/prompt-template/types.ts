@@ -0,0 +1,77 @@
+/**
+ * Prompt template types and Zod schemas.
+ * Defines the persisted template file, which is also the import/export format.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PROMPT_TEMPLATE_CONSTANTS = {
+  /** File name under the userData directory */
+  FILE_NAME: 'prompt-templates.json',
+
+  /** Current file format version */
+  VERSION: 1,
+
+  /** Longest template name accepted */
+  MAX_NAME_LENGTH: 30,
+
+  /** Variables a template may use */
+  VARIABLES: ['text', 'app_name', 'language', 'date', 'clipboard'],
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * A single prompt template.
+ */
+export const promptTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z
+    .string()
+    .trim()
+    .min(1, '模板名称不能为空')
+    .max(
+      PROMPT_TEMPLATE_CONSTANTS.MAX_NAME_LENGTH,
+      `模板名称不能超过 ${PROMPT_TEMPLATE_CONSTANTS.MAX_NAME_LENGTH} 个字符`
+    ),
+  system: z.string(),
+  user: z.string().trim().min(1, '用户消息不能为空'),
+});
+
+/**
+ * Persisted template file.
+ */
+export const promptTemplateFileSchema = z.object({
+  version: z.literal(PROMPT_TEMPLATE_CONSTANTS.VERSION),
+  templates: z.array(promptTemplateSchema),
+});
+
+export type PromptTemplateFile = z.infer<typeof promptTemplateFileSchema>;
+
+/**
+ * Name of a template variable, e.g. "app_name".
+ */
+export type PromptVariable = (typeof PROMPT_TEMPLATE_CONSTANTS.VARIABLES)[number];
+
+/**
+ * Values substituted for the template variables.
+ */
+export type PromptVariables = Record<PromptVariable, string>;
+
+/**
+ * Per-dictation values; the date and clipboard are read when rendering.
+ */
+export interface PromptContext {
+  /** Recognized text */
+  text: string;
+  /** Name of the application the text goes to (empty if unknown) */
+  appName: string;
+  /** Recognition language, e.g. "zh-CN" (empty if not set) */
+  language: string;
+}
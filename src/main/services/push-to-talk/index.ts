@@ -4,3 +4,4 @@
 
 export { PushToTalkService, pushToTalkService } from './push-to-talk.service';
 export type { PushToTalkConfig } from './push-to-talk.service';
+export { StreamingInserter } from './lib';
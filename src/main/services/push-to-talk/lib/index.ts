@@ -0,0 +1,5 @@
+/**
+ * Push-to-talk library utilities.
+ */
+
+export { StreamingInserter } from './streaming-insert';
@@ -0,0 +1,96 @@
+/**
+ * Streaming text insertion.
+ * Inserts text that is still being generated one sentence at a time, so
+ * the user sees the result before the LLM response completes.
+ */
+
+import type { TextInsertResult } from '../../text-input';
+
+/** Punctuation that ends a sentence, clause or line */
+const SENTENCE_END = /[。！？；!?;\n]|\.(?=\s)/g;
+
+/**
+ * Index just past the last sentence end in `text`, or -1 if there is none.
+ */
+function findLastSentenceEnd(text: string): number {
+  let end = -1;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    end = (match.index ?? 0) + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Inserts the completed sentences of a growing text.
+ * Inserts run one after another in the order they were requested; after
+ * a failed insert nothing more is inserted.
+ *
+ * @example
+ * ```typescript
+ * const inserter = new StreamingInserter((text) => textInputService.insert(text));
+ * inserter.update('你好。今天'); // inserts "你好。"
+ * await inserter.finish('你好。今天天气不错。'); // inserts "今天天气不错。"
+ * ```
+ */
+export class StreamingInserter {
+  private inserted = '';
+  private queue: Promise<TextInsertResult> = Promise.resolve({ success: true });
+
+  /**
+   * @param insert - Inserts a piece of text at the cursor
+   */
+  constructor(private readonly insert: (text: string) => Promise<TextInsertResult>) {}
+
+  /**
+   * Text handed to the insert function so far.
+   */
+  get insertedText(): string {
+    return this.inserted;
+  }
+
+  /**
+   * Whether any text has been inserted.
+   */
+  get hasStarted(): boolean {
+    return this.inserted.length > 0;
+  }
+
+  /**
+   * Insert the sentences completed since the last update.
+   *
+   * @param text - The whole text generated so far
+   */
+  update(text: string): void {
+    if (!text.startsWith(this.inserted)) {
+      return;
+    }
+
+    const end = findLastSentenceEnd(text);
+    if (end > this.inserted.length) {
+      this.enqueue(text.slice(this.inserted.length, end));
+    }
+  }
+
+  /**
+   * Insert the rest of the final text and wait for all inserts.
+   *
+   * @param text - The complete text
+   * @returns The first failure, or success
+   */
+  async finish(text: string): Promise<TextInsertResult> {
+    if (!text.startsWith(this.inserted)) {
+      await this.queue;
+      return { success: false, error: 'Final text does not continue the inserted text' };
+    }
+
+    if (text.length > this.inserted.length) {
+      this.enqueue(text.slice(this.inserted.length));
+    }
+    return this.queue;
+  }
+
+  private enqueue(piece: string): void {
+    this.inserted += piece;
+    this.queue = this.queue.then((previous) => (previous.success ? this.insert(piece) : previous));
+  }
+}
@@ -2,7 +2,7 @@
  * Push-to-Talk Service.
  * Orchestrates keyboard hooks, ASR, and text insertion for voice input.
  *
- * Flow:
+ * Flow (hold mode; toggle and double-tap differ only in steps 1 and 5):
  * 1. User holds Right Option key
  * 2. KeyboardService detects keydown -> triggers handleKeyDown
  * 3. ASR session starts, floating window shows
@@ -10,19 +10,40 @@
  * 5. User releases Right Option key
  * 6. KeyboardService detects keyup -> triggers handleKeyUp
  * 7. ASR session stops, gets final result
- * 8. Text is inserted at cursor position
+ * 8. Text is inserted at cursor position (or executed, if it is a voice command)
  * 9. Floating window hides
+ *
+ * The undo hotkey or tray item removes the text inserted by the last session.
  */
 
 import { BrowserWindow } from 'electron';
 import log from 'electron-log';
-import { keyboardService } from '../keyboard';
+import { keyboardService, DEFAULT_TRIGGER_ID } from '../keyboard';
+import type { KeyboardStopReason } from '../keyboard';
 import { textInputService } from '../text-input';
+import type { UndoInsertionResult } from '../text-input';
 import { asrService } from '../asr';
 import { permissionsService } from '../permissions';
 import { floatingWindow } from '../../windows';
 import { IPC_CHANNELS } from '../../../shared/constants/channels';
 import { getLLMService } from '../llm';
+import type { LLMMessage } from '../llm';
+import { vocabularyService } from '../vocabulary';
+import { recordingArchiveService } from '../recording-archive';
+import type { RecordingSessionOutcome } from '../recording-archive';
+import { historyService } from '../history';
+import { foregroundAppService } from '../foreground-app';
+import { profileService } from '../profile';
+import { promptTemplateService } from '../prompt-template';
+import { voiceCommandService } from '../voice-command';
+import { appRuleService, applyPostProcessing, hasPostProcessing } from '../app-rule';
+import { settingsService } from '../settings';
+import { StreamingInserter } from './lib';
+import type { ASRResult } from '../../../shared/types/asr';
+import type { ForegroundApp } from '../../../shared/types/foreground-app';
+import type { VoiceCommand } from '../../../shared/types/voice-command';
+import type { DictationProfile } from '../../../shared/types/profile';
+import type { EnvConfig, SettingKey } from '../../../shared/types/settings';
 
 const logger = log.scope('push-to-talk-service');
 
@@ -44,6 +65,39 @@ const DEFAULT_CONFIG: PushToTalkConfig = {
   hideDelayMs: 500,
 };
 
+/**
+ * How long to wait for the renderer to send its last audio chunk.
+ */
+const RECORDING_STOP_TIMEOUT_MS = 500;
+
+/**
+ * Settings cached by the keyboard service.
+ */
+const KEYBOARD_SETTINGS: readonly SettingKey[] = [
+  'PUSH_TO_TALK_KEY',
+  'PUSH_TO_TALK_MODE',
+  'MAX_SESSION_SECONDS',
+  'UNDO_HOTKEY',
+];
+
+/**
+ * Settings cached by the LLM service.
+ */
+const LLM_SETTINGS: readonly SettingKey[] = [
+  'VOLCENGINE_LLM_ENABLED',
+  'LLM_PROVIDER',
+  'VOLCENGINE_LLM_API_KEY',
+  'VOLCENGINE_LLM_MODEL',
+  'VOLCENGINE_LLM_PROMPT',
+  'VOLCENGINE_LLM_BASE_URL',
+  'VOLCENGINE_LLM_STREAM',
+  'VOLCENGINE_LLM_EARLY_INSERT',
+  'OPENAI_LLM_BASE_URL',
+  'OPENAI_LLM_API_KEY',
+  'OPENAI_LLM_MODEL',
+  'OPENAI_LLM_HEADERS',
+];
+
 /**
  * Push-to-Talk Service orchestrates the voice input flow.
  *
@@ -68,6 +122,12 @@ export class PushToTalkService {
   private isInitialized = false;
   private isWarmedUp = false;
   private warmupTimer: NodeJS.Timeout | null = null;
+  private sessionStartedAt = 0;
+  private targetAppLookup: Promise<ForegroundApp | null> = Promise.resolve(null);
+  /** Resolves the pending wait for the renderer's last audio chunk */
+  private onRecordingStopped: (() => void) | null = null;
+  /** Pipeline of the current session */
+  private profile: DictationProfile = profileService.resolve(DEFAULT_TRIGGER_ID);
 
   constructor(config: Partial<PushToTalkConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -98,12 +158,29 @@ export class PushToTalkService {
 
     try {
       logger.info('PushToTalkService: Attempting to register keyboard hooks...');
+      // Both services were created before the settings and secrets were loaded
+      keyboardService.reloadConfig();
+      getLLMService().reloadConfig();
+      settingsService.on('changed', this.handleSettingsChanged);
+
       // Register keyboard hooks
       keyboardService.register(
-        () => this.handleKeyDown(),
-        () => this.handleKeyUp()
+        (triggerId) => this.handleKeyDown(triggerId),
+        (reason) => this.handleStopRequest(reason),
+        () => {
+          this.undoLastDictation().catch((error) => {
+            logger.error('Failed to undo dictation', { error });
+          });
+        }
       );
 
+      // Every profile with a hotkey gets its own trigger
+      keyboardService.setTriggers(profileService.getTriggers());
+      profileService.on('changed', this.handleProfilesChanged);
+
+      // Start the lookup helper now, so the first session does not wait for it
+      void foregroundAppService.getForegroundApp();
+
       this.isInitialized = true;
       logger.info('PushToTalkService initialized successfully', { platform: process.platform });
 
@@ -170,6 +247,9 @@ export class PushToTalkService {
 
     // Unregister keyboard hooks
     keyboardService.unregister();
+    profileService.off('changed', this.handleProfilesChanged);
+    settingsService.off('changed', this.handleSettingsChanged);
+    foregroundAppService.dispose();
 
     this.isInitialized = false;
     this.isWarmedUp = false;
@@ -183,11 +263,90 @@ export class PushToTalkService {
     return this.isActive;
   }
 
+  /**
+   * The renderer stopped recording and sent its last audio chunk.
+   */
+  handleRecordingStopped(): void {
+    this.onRecordingStopped?.();
+  }
+
+  /**
+   * End the session because the renderer detected silence after speech.
+   * Takes the same stop path as releasing the trigger key.
+   */
+  async stopOnSilence(): Promise<void> {
+    if (!this.isActive) {
+      return;
+    }
+
+    logger.info('Silence detected, auto-stopping session');
+    await this.handleKeyUp();
+  }
+
+  /**
+   * Remove the text inserted by the last dictation from the target app.
+   * Refused during a session, or if another window has focus than the
+   * one the text went to.
+   */
+  async undoLastDictation(): Promise<void> {
+    if (this.isActive) {
+      logger.info('Recording, ignoring undo');
+      return;
+    }
+
+    logger.info('Undoing last dictation');
+    // The tray menu may have had focus
+    await this.waitForFocusReturn();
+
+    const result = await textInputService.undoLastInsertion();
+    if (result.refused) {
+      this.warnUndoRefused(result.refused);
+    } else if (!result.success) {
+      logger.error('Failed to undo dictation', { error: result.error });
+      floatingWindow.sendError(`Undo failed: ${result.error}`);
+    }
+  }
+
+  /**
+   * Tell the user why the last dictation was not undone.
+   */
+  private warnUndoRefused(reason: NonNullable<UndoInsertionResult['refused']>): void {
+    const warnings: Record<typeof reason, string> = {
+      nothing: '没有可撤销的听写',
+      'window-changed': '当前窗口不是插入文本的窗口，未撤销',
+      'too-long': '文本过长，请手动删除',
+      'window-unknown': '无法确认当前窗口，未撤销',
+    };
+    floatingWindow.sendWarning(warnings[reason]);
+  }
+
+  /**
+   * Re-register the profile triggers after the profiles were edited.
+   */
+  private handleProfilesChanged = (): void => {
+    keyboardService.setTriggers(profileService.getTriggers());
+  };
+
+  /**
+   * Reconfigure the services that cache saved settings.
+   * The ASR service reads its settings at the start of every session.
+   */
+  private handleSettingsChanged = (changes: Partial<EnvConfig>): void => {
+    const changed = (keys: readonly SettingKey[]) => keys.some((key) => key in changes);
+
+    if (changed(KEYBOARD_SETTINGS)) {
+      keyboardService.reloadConfig();
+    }
+    if (changed(LLM_SETTINGS)) {
+      getLLMService().reloadConfig();
+    }
+  };
+
   /**
    * Handle key down event (trigger key pressed).
-   * Starts ASR session and shows floating window.
+   * Starts ASR session with the trigger's profile and shows floating window.
    */
-  private async handleKeyDown(): Promise<void> {
+  private async handleKeyDown(triggerId: string): Promise<void> {
     if (this.isActive) {
       logger.warn('Already recording, ignoring key down');
       return;
@@ -199,19 +358,32 @@ export class PushToTalkService {
       // Continue processing - warmup is just a warning
     }
 
-    logger.info('Push-to-talk: START');
+    this.profile = profileService.resolve(triggerId);
+    logger.info('Push-to-talk: START', { profile: this.profile.name });
     this.isActive = true;
+    this.sessionStartedAt = Date.now();
+    // Undo removes what this session inserts, not what earlier ones did;
+    // until it inserts something, the previous dictation can still be undone
+    textInputService.startNewInsertion();
+
+    // Resolve the focused app in the background; it is only needed at key up,
+    // where it selects the app rule and is recorded in the history
+    this.targetAppLookup = foregroundAppService.getForegroundApp();
 
     try {
       // Show floating window with listening status
+      floatingWindow.sendActivationMode(keyboardService.activationMode);
       floatingWindow.sendStatus('connecting');
 
       // Start ASR session
-      await asrService.start();
+      await asrService.start({ language: this.profile.asrLanguage || undefined });
 
       // Update status to listening
       floatingWindow.sendStatus('listening');
 
+      // Archive the session's audio and transcripts (no-op unless enabled)
+      recordingArchiveService.startSession();
+
       // Notify renderer to start recording
       this.notifyRendererStartRecording();
 
@@ -222,12 +394,24 @@ export class PushToTalkService {
 
       // Reset state on failure
       this.isActive = false;
+      keyboardService.endSession();
 
       // Show error in floating window
       floatingWindow.sendError(`Failed to start: ${message}`);
     }
   }
 
+  /**
+   * Handle a stop request from the keyboard service.
+   * Stopping at the maximum session length keeps the audio recorded so far.
+   */
+  private async handleStopRequest(reason: KeyboardStopReason): Promise<void> {
+    if (reason === 'max-duration' && this.isActive) {
+      logger.warn('Maximum session length reached, stopping session');
+    }
+    await this.handleKeyUp();
+  }
+
   /**
    * Handle key up event (trigger key released).
    * Stops ASR session, inserts text, and hides floating window.
@@ -240,16 +424,29 @@ export class PushToTalkService {
 
     logger.info('Push-to-talk: STOP');
     this.isActive = false;
+    // The session may have ended on silence; keep toggle modes in sync
+    keyboardService.endSession();
+    recordingArchiveService.markStopped();
+
+    const archiveOutcome: RecordingSessionOutcome = {
+      finalText: '',
+      optimizedText: null,
+      recognitionMs: 0,
+      llmMs: null,
+    };
 
     try {
       // Update floating window status
       floatingWindow.sendStatus('processing');
 
-      // Notify renderer to stop recording
-      this.notifyRendererStopRecording();
+      // Stop recording; the renderer flushes its last chunk before the stream ends
+      await this.notifyRendererStopRecording();
 
-      // Stop ASR and get final result
-      const result = await asrService.stop();
+      // Stop ASR and get final result, corrected with the custom vocabulary
+      const stopStartedAt = Date.now();
+      const result = this.applyVocabulary(await asrService.stop());
+      archiveOutcome.recognitionMs = Date.now() - stopStartedAt;
+      archiveOutcome.finalText = result?.text ?? '';
 
       if (result && result.text) {
         logger.info('ASR result received', {
@@ -260,11 +457,40 @@ export class PushToTalkService {
         // Send result to floating window
         floatingWindow.sendResult(result);
 
+        // Editing and punctuation commands are executed instead of inserted
+        const commandMatch = voiceCommandService.match(result.text);
+        if (commandMatch.type === 'command') {
+          await this.executeVoiceCommand(commandMatch.command);
+          recordingArchiveService.finishSession(archiveOutcome);
+          logger.info('Push-to-talk session completed');
+          return;
+        }
+
+        // A rule for the target app adjusts the pipeline and the final text
+        const appRule = appRuleService.match(await this.targetAppLookup);
+        this.profile = appRuleService.apply(this.profile, appRule);
+
         let finalText = result.text;
 
-        // Check if LLM optimization is enabled and available
+        // Check if the profile uses the LLM and it is enabled and available
         const llmService = getLLMService();
-        if (llmService.isAvailable()) {
+        let earlyInserter: StreamingInserter | null = null;
+        if (this.profile.llmEnabled && llmService.isAvailable()) {
+          // With a streamed response, sentences may be inserted as they arrive.
+          // The floating window is not focusable, so the target app keeps focus.
+          // Post-processing needs the complete text, so it rules this out.
+          const { stream, earlyInsert } = llmService.getConfig();
+          const insertMethod = this.profile.insertMethod;
+          if (
+            stream &&
+            earlyInsert &&
+            this.config.autoInsertText &&
+            insertMethod !== 'clipboard' &&
+            !hasPostProcessing(appRule)
+          ) {
+            earlyInserter = new StreamingInserter((text) => textInputService.insert(text, insertMethod));
+          }
+
           try {
             logger.info('Starting LLM optimization...');
 
@@ -272,11 +498,33 @@ export class PushToTalkService {
             floatingWindow.sendStatus('llm_optimizing');
 
             // Optimize text using LLM
+            const llmStartedAt = Date.now();
             const optimizedText = await llmService.optimizeText(result.text, {
               timeout: 15000, // 15 seconds timeout for LLM
               maxRetries: 2,
+              prompt: this.profile.llmPrompt || undefined,
+              messages: await this.renderPromptMessages(result.text),
+              onPartialText: (partialText) => {
+                // Preview the text while it is generated
+                floatingWindow.sendResult({
+                  type: 'interim',
+                  text: partialText,
+                  isFinal: false,
+                  isOptimized: true,
+                });
+                earlyInserter?.update(partialText);
+              },
             });
 
+            // A failed request falls back to the original text, which no
+            // longer matches the sentences inserted from the stream
+            if (earlyInserter?.hasStarted && !optimizedText.startsWith(earlyInserter.insertedText)) {
+              throw new Error('LLM stream ended before completing');
+            }
+
+            archiveOutcome.llmMs = Date.now() - llmStartedAt;
+            archiveOutcome.optimizedText = optimizedText;
+
             if (optimizedText !== result.text) {
               logger.info('LLM optimization completed', {
                 originalLength: result.text.length,
@@ -303,16 +551,27 @@ export class PushToTalkService {
               errorType: error.type,
             });
 
-            // Show warning in floating window
-            floatingWindow.sendWarning('LLM优化失败，使用原始文本');
+            if (earlyInserter?.hasStarted) {
+              // Inserted sentences cannot be taken back; keep what is already in place
+              floatingWindow.sendWarning('LLM优化中断，已插入部分文本');
+              finalText = earlyInserter.insertedText;
+            } else {
+              // Show warning in floating window
+              floatingWindow.sendWarning('LLM优化失败，使用原始文本');
 
-            // Continue with original text
-            finalText = result.text;
+              // Continue with original text
+              finalText = result.text;
+            }
           }
         } else {
           logger.debug('LLM optimization is disabled or not configured');
         }
 
+        if (hasPostProcessing(appRule)) {
+          finalText = applyPostProcessing(finalText, appRule);
+          logger.info('App rule post-processing applied', { finalLength: finalText.length });
+        }
+
         floatingWindow.sendStatus('done');
 
         // IMPORTANT: Hide floating window FIRST to return focus to the previous app
@@ -321,13 +580,14 @@ export class PushToTalkService {
 
         // Insert text at cursor position after focus returns
         if (this.config.autoInsertText) {
-          // Wait for focus to return to the previous application
-          // Windows may need more time for focus to properly return
-          const focusWaitTime = process.platform === 'win32' ? 300 : 100;
-          logger.debug(`Waiting ${focusWaitTime}ms for focus to return`, { platform: process.platform });
-          await new Promise(resolve => setTimeout(resolve, focusWaitTime));
-
-          const insertResult = await textInputService.insert(finalText);
+          let insertResult;
+          if (earlyInserter?.hasStarted) {
+            // Part of the text is already in place; insert the remainder
+            insertResult = await earlyInserter.finish(finalText);
+          } else {
+            await this.waitForFocusReturn();
+            insertResult = await textInputService.insert(finalText, this.profile.insertMethod);
+          }
 
           if (!insertResult.success) {
             logger.error('Failed to insert text', {
@@ -346,16 +606,20 @@ export class PushToTalkService {
             });
           }
         }
+
+        await this.recordHistory(result.text, archiveOutcome.optimizedText);
       } else {
         logger.info('No ASR result to insert');
         // Hide floating window
         floatingWindow.hide();
       }
 
+      recordingArchiveService.finishSession(archiveOutcome);
       logger.info('Push-to-talk session completed');
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       logger.error('Failed to stop push-to-talk session', { error: message });
+      recordingArchiveService.discardSession();
 
       // Show error in floating window briefly, then hide
       floatingWindow.sendError(`Error: ${message}`);
@@ -365,6 +629,119 @@ export class PushToTalkService {
     }
   }
 
+  /**
+   * Wait for focus to return to the previous application after the
+   * floating window is hidden.
+   */
+  private async waitForFocusReturn(): Promise<void> {
+    // Windows may need more time for focus to properly return
+    const focusWaitTime = process.platform === 'win32' ? 300 : 100;
+    logger.debug(`Waiting ${focusWaitTime}ms for focus to return`, { platform: process.platform });
+    await new Promise(resolve => setTimeout(resolve, focusWaitTime));
+  }
+
+  /**
+   * Execute a recognized voice command in the target application.
+   */
+  private async executeVoiceCommand(command: VoiceCommand): Promise<void> {
+    floatingWindow.sendStatus('done');
+    floatingWindow.hide();
+
+    if (!this.config.autoInsertText) {
+      return;
+    }
+
+    await this.waitForFocusReturn();
+    const commandResult = await voiceCommandService.execute(command, this.profile.insertMethod);
+    if (commandResult.refused) {
+      this.warnUndoRefused(commandResult.refused);
+    } else if (!commandResult.success) {
+      logger.error('Failed to execute voice command', { error: commandResult.error });
+      floatingWindow.sendError(`Command failed: ${commandResult.error}`);
+    }
+  }
+
+  /**
+   * Replace misrecognized vocabulary aliases in the ASR result.
+   */
+  private applyVocabulary(result: ASRResult | null): ASRResult | null {
+    if (!result?.text) {
+      return result;
+    }
+
+    const text = vocabularyService.applyReplacements(result.text);
+    if (text === result.text) {
+      return result;
+    }
+
+    logger.info('Vocabulary replacements applied', {
+      originalLength: result.text.length,
+      correctedLength: text.length,
+    });
+    return { ...result, text };
+  }
+
+  /**
+   * Render the profile's prompt template for the recognized text.
+   *
+   * @returns The LLM messages, or undefined to use the profile's plain prompt
+   */
+  private async renderPromptMessages(text: string): Promise<LLMMessage[] | undefined> {
+    const templateId = this.profile.promptTemplateId;
+    if (!templateId) {
+      return undefined;
+    }
+
+    const template = promptTemplateService.get(templateId);
+    if (!template) {
+      logger.warn('Prompt template not found, using the profile prompt', { templateId });
+      return undefined;
+    }
+
+    const targetApp = await this.targetAppLookup;
+    const { system, user } = promptTemplateService.render(template, {
+      text,
+      appName: targetApp?.name ?? '',
+      language: this.profile.asrLanguage || this.configuredLanguage(),
+    });
+
+    const messages: LLMMessage[] = [{ role: 'user', content: user }];
+    if (system) {
+      messages.unshift({ role: 'system', content: system });
+    }
+    return messages;
+  }
+
+  /**
+   * Recognition language from the settings of the selected ASR provider.
+   */
+  private configuredLanguage(): string {
+    const language = process.env.ASR_PROVIDER === 'whisper'
+      ? process.env.WHISPER_LANGUAGE
+      : process.env.VOLCENGINE_ASR_LANGUAGE;
+    return language?.trim() ?? '';
+  }
+
+  /**
+   * Add the completed session to the dictation history.
+   * Failures are logged and never interrupt the session.
+   */
+  private async recordHistory(rawText: string, optimizedText: string | null): Promise<void> {
+    try {
+      historyService.add({
+        createdAt: new Date(this.sessionStartedAt).toISOString(),
+        rawText,
+        optimizedText,
+        targetApp: await this.targetAppLookup,
+        durationMs: Date.now() - this.sessionStartedAt,
+      });
+    } catch (error) {
+      logger.warn('Failed to record dictation history', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Notify renderer process to start recording.
    */
@@ -377,12 +754,28 @@ export class PushToTalkService {
 
   /**
    * Notify renderer process to stop recording.
+   * Resolves once the renderer reports that its last audio chunk was sent,
+   * or after `RECORDING_STOP_TIMEOUT_MS`.
    */
-  private notifyRendererStopRecording(): void {
+  private notifyRendererStopRecording(): Promise<void> {
     const mainWindow = this.getMainWindow();
-    if (mainWindow) {
-      mainWindow.webContents.send(IPC_CHANNELS.ASR.STATUS, 'processing');
+    if (!mainWindow) {
+      return Promise.resolve();
     }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        logger.warn('Renderer did not confirm that recording stopped');
+        this.onRecordingStopped = null;
+        resolve();
+      }, RECORDING_STOP_TIMEOUT_MS);
+      this.onRecordingStopped = () => {
+        clearTimeout(timer);
+        this.onRecordingStopped = null;
+        resolve();
+      };
+      mainWindow.webContents.send(IPC_CHANNELS.ASR.STATUS, 'processing');
+    });
   }
 
   /**
@@ -0,0 +1,13 @@
+/**
+ * Recording archive module exports.
+ */
+
+// Service
+export { RecordingArchiveService, recordingArchiveService } from './recording-archive.service';
+
+// Procedures
+export { rerunRecording } from './procedures';
+
+// Types
+export type { RecordingArchiveConfig, RecordingSessionOutcome } from './types';
+export { RECORDING_ARCHIVE_CONSTANTS } from './types';
@@ -0,0 +1,5 @@
+/**
+ * Recording archive procedures exports.
+ */
+
+export { rerunRecording } from './rerun';
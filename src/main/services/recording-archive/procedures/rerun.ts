@@ -0,0 +1,28 @@
+/**
+ * Re-run recording procedure.
+ * Feeds an archived recording back through the ASR pipeline.
+ */
+
+import log from 'electron-log';
+import { recordingArchiveService } from '../recording-archive.service';
+import type { RecordingRerunResult } from '../../../../shared/types/recording-archive';
+
+const logger = log.scope('recording-archive:rerun');
+
+/**
+ * Re-run ASR on an archived recording.
+ *
+ * @param id - Recording ID
+ * @returns Recognized text, or an error message
+ */
+export async function rerunRecording(id: string): Promise<RecordingRerunResult> {
+  try {
+    logger.info('Re-running recording', { id });
+    const result = await recordingArchiveService.replay(id);
+    return { success: true, text: result?.text ?? '' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to re-run recording', { id, error: message });
+    return { success: false, error: message };
+  }
+}
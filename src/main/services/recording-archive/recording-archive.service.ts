@@ -0,0 +1,324 @@
+/**
+ * Recording Archive Service.
+ * Keeps the audio and transcripts of dictation sessions so bad
+ * transcriptions can be reproduced.
+ *
+ * Opt-in via RECORDING_ARCHIVE_ENABLED. Each session is written to
+ * `userData/recordings` as `<id>.wav` plus a `<id>.json` sidecar, and only
+ * the most recent RECORDING_ARCHIVE_MAX_SESSIONS sessions are kept.
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'node:path';
+import log from 'electron-log';
+import { asrService, encodeWav, decodeWav, PCM_16K_MONO } from '../asr';
+import { RECORDING_ARCHIVE_CONSTANTS, recordingMetadataSchema } from './types';
+import type { RecordingArchiveConfig, RecordingSessionOutcome } from './types';
+import type { ASRProviderType, ASRResult } from '../../../shared/types/asr';
+import type {
+  RecordingInterimResult,
+  RecordingMetadata,
+} from '../../../shared/types/recording-archive';
+
+const logger = log.scope('recording-archive-service');
+
+/** Archive IDs are generated from timestamps; reject anything else */
+const RECORDING_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Session being recorded.
+ */
+interface ActiveSession {
+  id: string;
+  startedAt: number;
+  stoppedAt: number | null;
+  provider: ASRProviderType;
+  chunks: Buffer[];
+  interimResults: RecordingInterimResult[];
+}
+
+/**
+ * Load archive configuration from environment variables.
+ */
+function loadArchiveConfig(): RecordingArchiveConfig {
+  const maxSessions = parseInt(process.env.RECORDING_ARCHIVE_MAX_SESSIONS ?? '', 10);
+
+  return {
+    enabled: process.env.RECORDING_ARCHIVE_ENABLED === 'true',
+    maxSessions: Number.isNaN(maxSessions) || maxSessions <= 0
+      ? RECORDING_ARCHIVE_CONSTANTS.DEFAULT_MAX_SESSIONS
+      : maxSessions,
+  };
+}
+
+/**
+ * Recording Archive Service.
+ *
+ * @example
+ * ```typescript
+ * // Push-to-talk session
+ * recordingArchiveService.startSession();
+ * recordingArchiveService.appendAudio(chunk);
+ * recordingArchiveService.markStopped();
+ * recordingArchiveService.finishSession({ finalText, optimizedText, recognitionMs, llmMs });
+ *
+ * // Reproduce it later
+ * const result = await recordingArchiveService.replay(id);
+ * ```
+ */
+export class RecordingArchiveService {
+  private session: ActiveSession | null = null;
+  private replaying = false;
+
+  /**
+   * Whether a saved recording is currently being fed through ASR.
+   */
+  get isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  /**
+   * Directory holding archived recordings.
+   */
+  get directory(): string {
+    return path.join(app.getPath('userData'), RECORDING_ARCHIVE_CONSTANTS.DIRECTORY);
+  }
+
+  /**
+   * Begin archiving a session if the archive is enabled.
+   */
+  startSession(): void {
+    this.discardSession();
+
+    if (!loadArchiveConfig().enabled) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    this.session = {
+      id: new Date(startedAt).toISOString().replace(/[:.]/g, '-'),
+      startedAt,
+      stoppedAt: null,
+      provider: asrService.provider ?? 'volcengine',
+      chunks: [],
+      interimResults: [],
+    };
+
+    asrService.on('result', this.handleResult);
+    logger.debug('Archiving session', { id: this.session.id });
+  }
+
+  /**
+   * Append a chunk of the session's PCM audio.
+   */
+  appendAudio(chunk: ArrayBuffer): void {
+    if (!this.session || this.session.stoppedAt !== null) {
+      return;
+    }
+    this.session.chunks.push(Buffer.from(chunk));
+  }
+
+  /**
+   * Mark the end of recording (trigger key released).
+   */
+  markStopped(): void {
+    if (this.session && this.session.stoppedAt === null) {
+      this.session.stoppedAt = Date.now();
+    }
+  }
+
+  /**
+   * Write the session to disk and apply the retention limit.
+   * Failures are logged and never interrupt dictation.
+   */
+  finishSession(outcome: RecordingSessionOutcome): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    this.discardSession();
+
+    const pcm = Buffer.concat(session.chunks);
+    const stoppedAt = session.stoppedAt ?? Date.now();
+    const metadata: RecordingMetadata = {
+      version: RECORDING_ARCHIVE_CONSTANTS.VERSION,
+      id: session.id,
+      createdAt: new Date(session.startedAt).toISOString(),
+      audioDurationMs: Math.round(pcm.length / RECORDING_ARCHIVE_CONSTANTS.BYTES_PER_MS),
+      provider: session.provider,
+      interimResults: session.interimResults,
+      finalText: outcome.finalText,
+      optimizedText: outcome.optimizedText,
+      timings: {
+        recordingMs: stoppedAt - session.startedAt,
+        recognitionMs: outcome.recognitionMs,
+        llmMs: outcome.llmMs,
+      },
+    };
+
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(this.audioPath(session.id), encodeWav(pcm, PCM_16K_MONO));
+      fs.writeFileSync(this.metadataPath(session.id), JSON.stringify(metadata, null, 2), 'utf-8');
+      logger.info('Session archived', { id: session.id, audioBytes: pcm.length });
+
+      this.prune(loadArchiveConfig().maxSessions);
+    } catch (error) {
+      logger.error('Failed to archive session', {
+        id: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Drop the current session without writing it.
+   */
+  discardSession(): void {
+    if (this.session) {
+      asrService.off('result', this.handleResult);
+      this.session = null;
+    }
+  }
+
+  /**
+   * List archived recordings, newest first.
+   */
+  listRecordings(): RecordingMetadata[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    const recordings: RecordingMetadata[] = [];
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const content = fs.readFileSync(path.join(this.directory, file), 'utf-8');
+        const result = recordingMetadataSchema.safeParse(JSON.parse(content));
+        if (result.success) {
+          recordings.push(result.data);
+        } else {
+          logger.warn('Skipping invalid sidecar', { file });
+        }
+      } catch (error) {
+        logger.warn('Failed to read sidecar', {
+          file,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return recordings.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Delete an archived recording.
+   */
+  deleteRecording(id: string): void {
+    this.assertValidId(id);
+    fs.rmSync(this.audioPath(id), { force: true });
+    fs.rmSync(this.metadataPath(id), { force: true });
+    logger.info('Recording deleted', { id });
+  }
+
+  /**
+   * Feed an archived recording through ASRService at real-time pace,
+   * as if it were live audio.
+   *
+   * @returns The final ASR result, or null if nothing was recognized
+   * @throws Error if the recording cannot be read or ASR is busy
+   */
+  async replay(id: string): Promise<ASRResult | null> {
+    this.assertValidId(id);
+
+    if (this.replaying || this.isASRBusy()) {
+      throw new Error('ASR is busy');
+    }
+
+    const { format, pcm } = decodeWav(fs.readFileSync(this.audioPath(id)));
+    if (
+      format.sampleRate !== PCM_16K_MONO.sampleRate ||
+      format.channels !== PCM_16K_MONO.channels ||
+      format.bitsPerSample !== PCM_16K_MONO.bitsPerSample
+    ) {
+      throw new Error('Recording is not 16-bit 16kHz mono PCM');
+    }
+
+    const chunkBytes =
+      RECORDING_ARCHIVE_CONSTANTS.REPLAY_CHUNK_MS * RECORDING_ARCHIVE_CONSTANTS.BYTES_PER_MS;
+
+    logger.info('Replaying recording', { id, audioBytes: pcm.length });
+    this.replaying = true;
+
+    try {
+      await asrService.start();
+
+      for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+        // Stop feeding if the session ended or failed
+        if (asrService.currentStatus !== 'listening') {
+          break;
+        }
+
+        const chunk = pcm.subarray(offset, offset + chunkBytes);
+        asrService.processAudioChunk(
+          chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.length) as ArrayBuffer
+        );
+        await new Promise((resolve) =>
+          setTimeout(resolve, RECORDING_ARCHIVE_CONSTANTS.REPLAY_CHUNK_MS)
+        );
+      }
+
+      return await asrService.stop();
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  // ============ Private Methods ============
+
+  private handleResult = (result: ASRResult): void => {
+    if (!this.session || result.isFinal || this.session.stoppedAt !== null) {
+      return;
+    }
+    this.session.interimResults.push({
+      offsetMs: Date.now() - this.session.startedAt,
+      text: result.text,
+    });
+  };
+
+  private isASRBusy(): boolean {
+    return asrService.currentStatus !== 'idle';
+  }
+
+  private prune(maxSessions: number): void {
+    const stale = this.listRecordings().slice(maxSessions);
+    for (const recording of stale) {
+      this.deleteRecording(recording.id);
+    }
+    if (stale.length > 0) {
+      logger.info('Pruned archived sessions', { removed: stale.length, maxSessions });
+    }
+  }
+
+  private assertValidId(id: string): void {
+    if (!RECORDING_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid recording ID: ${id}`);
+    }
+  }
+
+  private audioPath(id: string): string {
+    return path.join(this.directory, `${id}.wav`);
+  }
+
+  private metadataPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+/**
+ * Singleton instance of the recording archive service.
+ */
+export const recordingArchiveService = new RecordingArchiveService();
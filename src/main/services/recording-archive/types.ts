@@ -0,0 +1,76 @@
+/**
+ * Recording archive types and Zod schemas.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const RECORDING_ARCHIVE_CONSTANTS = {
+  /** Directory under userData holding the recordings */
+  DIRECTORY: 'recordings',
+
+  /** Sidecar format version */
+  VERSION: 1,
+
+  /** Sessions kept when RECORDING_ARCHIVE_MAX_SESSIONS is unset */
+  DEFAULT_MAX_SESSIONS: 50,
+
+  /** Audio fed to ASR per tick when re-running a recording */
+  REPLAY_CHUNK_MS: 100,
+
+  /** Bytes of PCM 16-bit 16kHz mono audio per millisecond */
+  BYTES_PER_MS: 32,
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * JSON sidecar written next to each WAV file.
+ */
+export const recordingMetadataSchema = z.object({
+  version: z.literal(RECORDING_ARCHIVE_CONSTANTS.VERSION),
+  id: z.string(),
+  createdAt: z.string(),
+  audioDurationMs: z.number(),
+  provider: z.enum(['volcengine', 'whisper', 'mock']),
+  interimResults: z.array(z.object({
+    offsetMs: z.number(),
+    text: z.string(),
+  })),
+  finalText: z.string(),
+  optimizedText: z.string().nullable(),
+  timings: z.object({
+    recordingMs: z.number(),
+    recognitionMs: z.number(),
+    llmMs: z.number().nullable(),
+  }),
+});
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Recording archive configuration.
+ */
+export interface RecordingArchiveConfig {
+  /** Whether sessions are archived (opt-in) */
+  enabled: boolean;
+  /** Number of most recent sessions kept */
+  maxSessions: number;
+}
+
+/**
+ * Outcome of a session, reported when it ends.
+ */
+export interface RecordingSessionOutcome {
+  finalText: string;
+  optimizedText: string | null;
+  recognitionMs: number;
+  llmMs: number | null;
+}
@@ -0,0 +1,23 @@
+/**
+ * Settings module exports.
+ * Re-exports the settings service, types and library utilities.
+ */
+
+// Service
+export { SettingsService, settingsService } from './settings.service';
+export type { SettingsServiceEvents } from './settings.service';
+
+// Types
+export { SETTINGS_CONSTANTS, settingsFileSchema } from './types';
+export type { SettingsFile } from './types';
+
+// Library utilities
+export {
+  importLegacySettings,
+  removeEnvVariables,
+  diffSettings,
+  isSecretSetting,
+  maskSecrets,
+  resolveSecret,
+} from './lib';
+export type { LegacySettingsImport } from './lib';
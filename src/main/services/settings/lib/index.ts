@@ -0,0 +1,14 @@
+/**
+ * Settings library exports.
+ */
+
+export { importLegacySettings, removeEnvVariables, diffSettings } from './migrate';
+export type { LegacySettingsImport } from './migrate';
+export {
+  isSecretSetting,
+  canEncryptSecrets,
+  encryptSecret,
+  decryptSecret,
+  maskSecrets,
+  resolveSecret,
+} from './secrets';
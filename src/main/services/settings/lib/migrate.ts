@@ -0,0 +1,90 @@
+/**
+ * Settings migration.
+ * Imports the environment variables that held the settings before they
+ * were stored in the userData directory.
+ */
+
+import { settingsSchema } from '../../../../shared/types/settings';
+import { SETTINGS_CONSTANTS } from '../types';
+import type { EnvConfig, SettingKey } from '../../../../shared/types/settings';
+
+/**
+ * Result of importing legacy settings.
+ */
+export interface LegacySettingsImport {
+  /** Complete settings, defaults filled in */
+  values: EnvConfig;
+  /** Keys that were set but invalid and fell back to the default */
+  rejected: SettingKey[];
+}
+
+/**
+ * Build settings from environment variables, e.g. `process.env` after
+ * dotenv has loaded a .env file.
+ *
+ * Empty values use the default, as the .env reader did. Each value is
+ * validated on its own so one bad line does not discard the rest.
+ *
+ * @param env - Variables to import
+ */
+export function importLegacySettings(env: Record<string, string | undefined>): LegacySettingsImport {
+  const picked: Record<string, string> = {};
+  const rejected: SettingKey[] = [];
+
+  for (const key of Object.keys(settingsSchema.shape) as SettingKey[]) {
+    const value = env[key];
+    if (!value) {
+      continue;
+    }
+    if (key === 'PUSH_TO_TALK_KEY' && value === SETTINGS_CONSTANTS.LEGACY_DEFAULT_HOTKEY) {
+      continue;
+    }
+
+    if (settingsSchema.shape[key].safeParse(value).success) {
+      picked[key] = value;
+    } else {
+      rejected.push(key);
+    }
+  }
+
+  return { values: settingsSchema.parse(picked), rejected };
+}
+
+/**
+ * Remove variables from the contents of a .env file.
+ * Other lines, comments included, are kept as they are.
+ *
+ * @param content - Contents of the .env file
+ * @param keys - Variables to remove
+ * @returns The new contents and the variables that were found
+ */
+export function removeEnvVariables(
+  content: string,
+  keys: readonly string[]
+): { content: string; removed: string[] } {
+  const removed: string[] = [];
+  const lines = content.split(/\r?\n/).filter((line) => {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=/.exec(line);
+    if (match && keys.includes(match[1])) {
+      removed.push(match[1]);
+      return false;
+    }
+    return true;
+  });
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  return { content: lines.join(eol), removed };
+}
+
+/**
+ * Settings that differ between two snapshots.
+ */
+export function diffSettings(previous: EnvConfig, next: EnvConfig): Partial<EnvConfig> {
+  const changes: Partial<Record<SettingKey, string>> = {};
+  for (const key of Object.keys(next) as SettingKey[]) {
+    if (previous[key] !== next[key]) {
+      changes[key] = next[key];
+    }
+  }
+  return changes as Partial<EnvConfig>;
+}
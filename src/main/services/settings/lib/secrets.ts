@@ -0,0 +1,72 @@
+/**
+ * Secret helpers.
+ * Encrypts API keys with the OS keychain through Electron safeStorage.
+ */
+
+import { safeStorage } from 'electron';
+import { SECRET_MASK, SECRET_SETTINGS } from '../../../../shared/types/settings';
+import type { EnvConfig, SecretSettingKey, SettingKey } from '../../../../shared/types/settings';
+
+/**
+ * Check whether a setting is a secret.
+ */
+export function isSecretSetting(key: SettingKey): key is SecretSettingKey {
+  return (SECRET_SETTINGS as readonly SettingKey[]).includes(key);
+}
+
+/**
+ * Whether secrets can be encrypted. Only reliable after the app is ready.
+ */
+export function canEncryptSecrets(): boolean {
+  return safeStorage.isEncryptionAvailable();
+}
+
+/**
+ * Encrypt a secret for storage.
+ *
+ * @returns Base64 ciphertext
+ */
+export function encryptSecret(value: string): string {
+  return safeStorage.encryptString(value).toString('base64');
+}
+
+/**
+ * Decrypt a stored secret.
+ *
+ * @param value - Base64 ciphertext from `encryptSecret()`
+ * @throws Error if the OS keychain cannot decrypt it
+ */
+export function decryptSecret(value: string): string {
+  return safeStorage.decryptString(Buffer.from(value, 'base64'));
+}
+
+/**
+ * Replace stored secrets with the mask, for sending to the renderer.
+ */
+export function maskSecrets(config: EnvConfig): EnvConfig {
+  const masked = { ...config };
+  for (const key of SECRET_SETTINGS) {
+    if (masked[key]) {
+      masked[key] = SECRET_MASK;
+    }
+  }
+  return masked;
+}
+
+/**
+ * Resolve a secret sent back by the renderer: the mask keeps the stored
+ * value, anything else replaces it.
+ *
+ * @param value - Value from the renderer
+ * @param stored - Current plain-text value
+ * @throws Error if the value was typed after the mask instead of replacing it
+ */
+export function resolveSecret(value: string, stored: string): string {
+  if (value === SECRET_MASK) {
+    return stored;
+  }
+  if (value.includes(SECRET_MASK)) {
+    throw new Error('请清空后重新输入完整的密钥');
+  }
+  return value;
+}
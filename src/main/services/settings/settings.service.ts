@@ -0,0 +1,304 @@
+/**
+ * Settings Service.
+ * Stores the application settings in the userData directory and applies
+ * changed values to the running process. API keys are encrypted with the
+ * OS keychain and only leave the main process masked.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'node:path';
+import dotenv from 'dotenv';
+import log from 'electron-log';
+import { JsonFileStore } from '../storage';
+import {
+  canEncryptSecrets,
+  decryptSecret,
+  diffSettings,
+  encryptSecret,
+  importLegacySettings,
+  isSecretSetting,
+  maskSecrets,
+  removeEnvVariables,
+  resolveSecret,
+} from './lib';
+import { SETTINGS_CONSTANTS, settingsFileSchema } from './types';
+import type { SettingsFile } from './types';
+import { SECRET_SETTINGS, settingsSchema } from '../../../shared/types/settings';
+import type { EnvConfig, SecretSettingKey, SettingKey } from '../../../shared/types/settings';
+
+const logger = log.scope('settings-service');
+
+/**
+ * Settings created on first launch, imported from the environment
+ * variables (and the .env file loaded into them) that held them before.
+ */
+function createDefaultFile(): SettingsFile {
+  const { values, rejected } = importLegacySettings(process.env);
+  if (rejected.length > 0) {
+    logger.warn('Ignoring invalid legacy settings', { keys: rejected });
+  }
+  return { version: SETTINGS_CONSTANTS.VERSION, values, secrets: {} };
+}
+
+// ============ Event Types ============
+
+export interface SettingsServiceEvents {
+  /** Saved values differ from the previous ones */
+  changed: (changes: Partial<EnvConfig>) => void;
+}
+
+export interface SettingsService {
+  on<K extends keyof SettingsServiceEvents>(
+    event: K,
+    listener: SettingsServiceEvents[K]
+  ): this;
+  off<K extends keyof SettingsServiceEvents>(
+    event: K,
+    listener: SettingsServiceEvents[K]
+  ): this;
+  emit<K extends keyof SettingsServiceEvents>(
+    event: K,
+    ...args: Parameters<SettingsServiceEvents[K]>
+  ): boolean;
+}
+
+// ============ Settings Service Class ============
+
+/**
+ * Settings Service for the persisted application settings.
+ *
+ * Services read their settings from `process.env`, so every save also
+ * updates `process.env` and emits `changed` with the values that differ.
+ * Services that cache their configuration listen for it and reload.
+ *
+ * Secrets can only be decrypted once the app is ready, so they are loaded
+ * by `unlockSecrets()` after `initialize()`. Until then, and wherever the
+ * OS offers no encryption, they are kept in plain text.
+ *
+ * @example
+ * ```typescript
+ * settingsService.initialize();
+ * app.on('ready', () => settingsService.unlockSecrets());
+ * settingsService.updateValues({ AUDIO_INPUT_DEVICE_ID: deviceId });
+ * settingsService.on('changed', (changes) => console.log(Object.keys(changes)));
+ * ```
+ */
+export class SettingsService extends EventEmitter {
+  private readonly store = new JsonFileStore<SettingsFile>(
+    SETTINGS_CONSTANTS.FILE_NAME,
+    settingsFileSchema,
+    createDefaultFile
+  );
+
+  /** Decrypted secrets, empty until `unlockSecrets()` */
+  private decrypted: Partial<Record<SecretSettingKey, string>> = {};
+  private isUnlocked = false;
+
+  /**
+   * Load the settings into `process.env`.
+   * Must run before the services read their configuration. On first
+   * launch the settings are imported from the environment and the .env
+   * file, saved, and the imported secrets are removed from the .env file.
+   */
+  initialize(): void {
+    const isFirstLaunch = !fs.existsSync(this.store.filePath);
+    if (isFirstLaunch) {
+      this.loadLegacyEnvFile();
+    }
+    const data = this.store.read();
+
+    if (isFirstLaunch) {
+      this.store.write(data);
+      logger.info('Settings imported from environment variables', { file: this.store.filePath });
+      this.removeMigratedSecrets(data.values);
+    }
+
+    this.applyToEnvironment(data.values);
+    logger.info('Settings loaded', { file: this.store.filePath });
+  }
+
+  /**
+   * Decrypt the stored secrets into `process.env`, and encrypt secrets
+   * still stored in plain text (from .env or an older settings file).
+   * Must run after the app is ready.
+   */
+  unlockSecrets(): void {
+    if (!canEncryptSecrets()) {
+      logger.warn('Secret encryption is not available, API keys stay in plain text');
+      return;
+    }
+
+    const data = this.store.read();
+    for (const [key, value] of Object.entries(data.secrets)) {
+      if (!isSecretSetting(key as SettingKey)) {
+        continue;
+      }
+      try {
+        this.decrypted[key as SecretSettingKey] = decryptSecret(value);
+      } catch (error) {
+        logger.error('Failed to decrypt secret, it must be entered again', {
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.isUnlocked = true;
+
+    const plainText = SECRET_SETTINGS.filter((key) => data.values[key] !== '');
+    if (plainText.length > 0 || data.version < SETTINGS_CONSTANTS.VERSION) {
+      this.persist(this.getConfig());
+      logger.info('Secrets moved to encrypted storage', { keys: plainText });
+    }
+
+    this.applyToEnvironment(this.decrypted);
+  }
+
+  /**
+   * Current settings, secrets in plain text. Never send to a renderer.
+   */
+  getConfig(): EnvConfig {
+    return { ...this.store.read().values, ...this.decrypted };
+  }
+
+  /**
+   * Current settings with the secrets masked, for the renderer.
+   */
+  getMaskedConfig(): EnvConfig {
+    return maskSecrets(this.getConfig());
+  }
+
+  /**
+   * Resolve a secret the renderer sent back, e.g. an unsaved API key.
+   *
+   * @param key - Secret setting
+   * @param value - Value from the renderer; the mask means the stored value
+   */
+  resolveSecret(key: SecretSettingKey, value: string): string {
+    return resolveSecret(value, this.getConfig()[key]);
+  }
+
+  /**
+   * Validate and persist the settings.
+   *
+   * @param config - Complete settings; masked secrets keep their stored value
+   * @returns The saved settings
+   * @throws Error naming the first invalid setting
+   */
+  save(config: EnvConfig): EnvConfig {
+    const current = this.getConfig();
+    const resolved = { ...config };
+    for (const key of SECRET_SETTINGS) {
+      try {
+        resolved[key] = resolveSecret(config[key] ?? '', current[key]);
+      } catch (error) {
+        throw new Error(`「${key}」：${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const result = settingsSchema.safeParse(resolved);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`「${issue.path.join('.')}」：${issue.message}`);
+    }
+
+    const changes = diffSettings(current, result.data);
+    const saved = this.persist(result.data);
+
+    if (Object.keys(changes).length > 0) {
+      this.applyToEnvironment(changes);
+      logger.info('Settings updated', { keys: Object.keys(changes) });
+      this.emit('changed', changes);
+    }
+    return saved;
+  }
+
+  /**
+   * Update individual values, keeping the rest.
+   *
+   * @param changes - Values to set
+   */
+  updateValues(changes: Partial<EnvConfig>): EnvConfig {
+    return this.save({ ...this.getConfig(), ...changes });
+  }
+
+  /**
+   * Replace all settings with their defaults.
+   */
+  resetToDefaults(): EnvConfig {
+    logger.info('Restoring default settings');
+    return this.save(settingsSchema.parse({}));
+  }
+
+  /**
+   * Load the .env file into `process.env` for the first-launch import.
+   * Variables already set in the environment take precedence.
+   */
+  private loadLegacyEnvFile(): void {
+    const envPath = path.resolve(SETTINGS_CONSTANTS.LEGACY_ENV_FILE);
+    if (fs.existsSync(envPath)) {
+      dotenv.config({ path: envPath, quiet: true });
+    }
+  }
+
+  /**
+   * Remove the imported secrets from the .env file, so API keys are not
+   * left in plain text once they are stored in settings.json.
+   */
+  private removeMigratedSecrets(values: EnvConfig): void {
+    const envPath = path.resolve(SETTINGS_CONSTANTS.LEGACY_ENV_FILE);
+    const imported = SECRET_SETTINGS.filter((key) => values[key] !== '');
+    if (imported.length === 0 || !fs.existsSync(envPath)) {
+      return;
+    }
+
+    try {
+      const result = removeEnvVariables(fs.readFileSync(envPath, 'utf-8'), imported);
+      if (result.removed.length > 0) {
+        fs.writeFileSync(envPath, result.content, 'utf-8');
+        logger.info('Imported secrets removed from .env', { file: envPath, keys: result.removed });
+      }
+    } catch (error) {
+      logger.error('Failed to remove imported secrets from .env, delete them by hand', {
+        file: envPath,
+        keys: imported,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Write the settings, encrypting the secrets once they are unlocked.
+   * While locked the stored ciphertexts are kept untouched.
+   */
+  private persist(config: EnvConfig): EnvConfig {
+    const values = { ...config };
+    let secrets = this.store.read().secrets;
+
+    if (this.isUnlocked) {
+      secrets = {};
+      this.decrypted = {};
+      for (const key of SECRET_SETTINGS) {
+        if (values[key]) {
+          secrets[key] = encryptSecret(values[key]);
+          this.decrypted[key] = values[key];
+        }
+        values[key] = '';
+      }
+    }
+
+    this.store.write({ version: SETTINGS_CONSTANTS.VERSION, values, secrets });
+    return this.getConfig();
+  }
+
+  private applyToEnvironment(values: Partial<EnvConfig>): void {
+    for (const [key, value] of Object.entries(values)) {
+      process.env[key] = value ?? '';
+    }
+  }
+}
+
+/**
+ * Singleton instance of the settings service.
+ */
+export const settingsService = new SettingsService();
@@ -0,0 +1,41 @@
+/**
+ * Settings types and Zod schemas.
+ * Defines the persisted settings file.
+ */
+
+import { z } from 'zod';
+import { settingsSchema } from '../../../shared/types/settings';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SETTINGS_CONSTANTS = {
+  /** File name under the userData directory */
+  FILE_NAME: 'settings.json',
+
+  /** Current file format version (1 kept secrets in plain text) */
+  VERSION: 2,
+
+  /** File that held the settings before settings.json, relative to the working directory */
+  LEGACY_ENV_FILE: '.env',
+
+  /** Old default trigger key code, replaced by Right Ctrl (3613) */
+  LEGACY_DEFAULT_HOTKEY: '574',
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Persisted settings file.
+ */
+export const settingsFileSchema = z.object({
+  version: z.union([z.literal(1), z.literal(SETTINGS_CONSTANTS.VERSION)]),
+  values: settingsSchema,
+  /** Encrypted secrets, base64; the matching entries in `values` are empty */
+  secrets: z.record(z.string(), z.string()).default({}),
+});
+
+export type SettingsFile = z.infer<typeof settingsFileSchema>;
@@ -0,0 +1,6 @@
+/**
+ * Storage module exports.
+ */
+
+export { JsonFileStore, onCorruptStoreFile } from './json-file-store';
+export type { CorruptStoreFile } from './json-file-store';
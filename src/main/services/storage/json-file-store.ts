@@ -0,0 +1,169 @@
+/**
+ * JSON file store.
+ * Persists a zod-validated document in the app's userData directory.
+ */
+
+import { app } from 'electron';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'node:path';
+import log from 'electron-log';
+import type { z } from 'zod';
+
+const logger = log.scope('json-file-store');
+
+/**
+ * A store file that could not be parsed and was moved aside.
+ */
+export interface CorruptStoreFile {
+  /** Name of the store file, e.g. `settings.json` */
+  fileName: string;
+  /** Where the unreadable contents were moved, or null if moving failed */
+  backupPath: string | null;
+  /** Why the contents were rejected */
+  error: string;
+}
+
+const corruptFiles: CorruptStoreFile[] = [];
+const corruptFileEvents = new EventEmitter();
+
+/**
+ * Subscribe to corrupt store files.
+ * Files found before subscribing are reported immediately.
+ *
+ * @returns Function that removes the listener
+ */
+export function onCorruptStoreFile(listener: (file: CorruptStoreFile) => void): () => void {
+  corruptFiles.forEach((file) => listener(file));
+  corruptFileEvents.on('corrupt', listener);
+  return () => {
+    corruptFileEvents.off('corrupt', listener);
+  };
+}
+
+/**
+ * A single JSON document stored under `app.getPath('userData')`.
+ *
+ * Reads are cached after the first load. A missing file falls back to the
+ * default value. An invalid file is renamed to `<name>.corrupt-<timestamp>`
+ * before falling back, so the next write cannot destroy it. Writes go
+ * through a temp file and rename so a crash mid-write cannot corrupt the
+ * previous contents.
+ *
+ * @example
+ * ```typescript
+ * const store = new JsonFileStore('vocabulary.json', vocabularyFileSchema, () => ({
+ *   version: 1,
+ *   entries: [],
+ * }));
+ * const data = store.read();
+ * store.write({ ...data, entries: [...data.entries, entry] });
+ * ```
+ */
+export class JsonFileStore<T> {
+  private cache: T | null = null;
+
+  constructor(
+    private readonly fileName: string,
+    private readonly schema: z.ZodType<T>,
+    private readonly createDefault: () => T
+  ) {}
+
+  /**
+   * Absolute path of the backing file.
+   */
+  get filePath(): string {
+    return path.join(app.getPath('userData'), this.fileName);
+  }
+
+  /**
+   * Read the document, loading it from disk on first access.
+   */
+  read(): T {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    this.cache = this.load();
+    return this.cache;
+  }
+
+  /**
+   * Validate and persist the document.
+   *
+   * @throws Error if the value does not match the schema or cannot be written
+   */
+  write(value: T): T {
+    const data = this.schema.parse(value);
+    const filePath = this.filePath;
+    const tempPath = `${filePath}.tmp`;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+
+    this.cache = data;
+    return data;
+  }
+
+  private load(): T {
+    const filePath = this.filePath;
+
+    try {
+      if (!fs.existsSync(filePath)) {
+        return this.createDefault();
+      }
+
+      const content = fs.readFileSync(filePath, 'utf-8');
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch (error) {
+        return this.recoverCorruptFile(error instanceof Error ? error.message : String(error));
+      }
+
+      const result = this.schema.safeParse(parsed);
+      if (!result.success) {
+        return this.recoverCorruptFile(result.error.message);
+      }
+
+      return result.data;
+    } catch (error) {
+      logger.error('Failed to read store', {
+        file: this.fileName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.createDefault();
+    }
+  }
+
+  /**
+   * Move an unreadable file aside and fall back to the default value.
+   */
+  private recoverCorruptFile(reason: string): T {
+    const filePath = this.filePath;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let backupPath: string | null = `${filePath}.corrupt-${timestamp}`;
+
+    try {
+      fs.renameSync(filePath, backupPath);
+    } catch (error) {
+      logger.error('Failed to back up corrupt store', {
+        file: this.fileName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      backupPath = null;
+    }
+
+    logger.error('Corrupt store contents, using defaults', {
+      file: this.fileName,
+      backupPath,
+      error: reason,
+    });
+
+    const corruptFile: CorruptStoreFile = { fileName: this.fileName, backupPath, error: reason };
+    corruptFiles.push(corruptFile);
+    corruptFileEvents.emit('corrupt', corruptFile);
+    return this.createDefault();
+  }
+}
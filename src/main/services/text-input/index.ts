@@ -3,4 +3,4 @@
  */
 
 export { TextInputService, textInputService } from './text-input.service';
-export type { TextInsertResult } from './text-input.service';
+export type { KeyStroke, TextInsertResult, UndoInsertionResult } from './text-input.service';
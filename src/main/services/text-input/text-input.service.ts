@@ -10,11 +10,27 @@
  */
 
 import { insertText } from '@xitanggg/node-insert-text';
-import { systemPreferences, shell } from 'electron';
+import { uIOhook, UiohookKey } from 'uiohook-napi';
+import { clipboard, systemPreferences, shell } from 'electron';
 import log from 'electron-log';
+import { foregroundAppService } from '../foreground-app';
+import type { ForegroundApp } from '../../../shared/types/foreground-app';
+import type { InsertMethod } from '../../../shared/types/profile';
 
 const logger = log.scope('text-input-service');
 
+/** Pause between simulated key strokes, so the target app sees them in order */
+const KEY_STROKE_DELAY_MS = 20;
+
+/** Pause between the backspaces of an undo; they are all the same key */
+const BACKSPACE_DELAY_MS = 5;
+
+/** Longest typed insertion an undo erases; longer ones are left to the user */
+const MAX_UNDO_BACKSPACES = 1000;
+
+/** Splits text into what one Backspace deletes */
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
 /**
  * Result of a text insertion operation.
  */
@@ -23,6 +39,50 @@ export interface TextInsertResult {
   error?: string;
 }
 
+/**
+ * Result of undoing the last insertion.
+ */
+export interface UndoInsertionResult extends TextInsertResult {
+  /**
+   * Why nothing was removed, if the undo was refused:
+   * - nothing: no insertion to undo
+   * - window-changed: another window has focus than at the insertion
+   * - window-unknown: the focused window could not be determined
+   * - too-long: too much text to erase key by key
+   */
+  refused?: 'nothing' | 'window-changed' | 'window-unknown' | 'too-long';
+}
+
+/**
+ * A simulated key press with the modifiers held during it.
+ */
+export interface KeyStroke {
+  /** uiohook key code */
+  keycode: number;
+  /** uiohook key codes of the modifiers */
+  modifiers: number[];
+}
+
+/**
+ * One insert that reached the target application.
+ * - type: typed key by key, removed with Backspace
+ * - paste: pasted, removed with the target's own undo
+ */
+interface InsertedPart {
+  method: 'type' | 'paste';
+  /** Characters as the user sees them (grapheme clusters) */
+  length: number;
+}
+
+/**
+ * The inserts since `startNewInsertion`, e.g. the chunks of one dictation.
+ */
+interface Insertion {
+  parts: InsertedPart[];
+  /** Window that had focus after the first insert */
+  target: Promise<ForegroundApp | null>;
+}
+
 /**
  * Text Input Service for inserting text at cursor position.
  *
@@ -45,6 +105,11 @@ export interface TextInsertResult {
  * ```
  */
 export class TextInputService {
+  /** Inserts that an undo would remove */
+  private lastInsertion: Insertion | null = null;
+  /** The next insert replaces `lastInsertion` instead of extending it */
+  private isNewInsertionPending = false;
+
   /**
    * Check if Accessibility permission is granted.
    *
@@ -80,14 +145,22 @@ export class TextInputService {
    * Insert text at the current cursor position.
    *
    * @param text - Text to insert
+   * @param method - How to insert the text (default: platform default)
    * @returns Result indicating success or failure with error message
    */
-  async insert(text: string): Promise<TextInsertResult> {
+  async insert(text: string, method: InsertMethod = 'auto'): Promise<TextInsertResult> {
     // Validate input
     if (!text) {
       return { success: true }; // Empty text is a no-op
     }
 
+    // Copy-only needs no accessibility permission
+    if (method === 'clipboard') {
+      clipboard.writeText(text);
+      logger.info('Text copied to clipboard', { length: text.length });
+      return { success: true };
+    }
+
     // Check permission first
     if (!this.checkPermission()) {
       logger.warn('Accessibility permission not granted');
@@ -104,6 +177,18 @@ export class TextInputService {
         preview: text.length > 50 ? text.substring(0, 50) + '...' : text
       });
 
+      // An explicit method overrides the platform default
+      if (method !== 'auto') {
+        insertText(text, method === 'paste', null, 100);
+        logger.info('Text inserted successfully', {
+          length: text.length,
+          platform: process.platform,
+          method
+        });
+        this.recordInsertion(text, method);
+        return { success: true };
+      }
+
       // Use different settings based on platform for better compatibility
       if (process.platform === 'win32') {
         // On Windows, use insertWithPaste method for better compatibility
@@ -121,6 +206,7 @@ export class TextInputService {
               platform: process.platform,
               attempt
             });
+            this.recordInsertion(text, 'paste');
             return { success: true };
           } catch (error) {
             lastError = error instanceof Error ? error : new Error(String(error));
@@ -145,6 +231,7 @@ export class TextInputService {
           length: text.length,
           platform: process.platform
         });
+        this.recordInsertion(text, 'type');
         return { success: true };
       } else {
         // Linux and other platforms - try with paste method
@@ -153,6 +240,7 @@ export class TextInputService {
           length: text.length,
           platform: process.platform
         });
+        this.recordInsertion(text, 'paste');
         return { success: true };
       }
     } catch (error) {
@@ -178,6 +266,163 @@ export class TextInputService {
       return { success: false, error: userMessage };
     }
   }
+
+  /**
+   * Press a sequence of keys in the focused application.
+   *
+   * @param strokes - Key strokes, pressed in order
+   * @returns Result indicating success or failure with error message
+   */
+  async pressKeys(strokes: KeyStroke[]): Promise<TextInsertResult> {
+    if (!this.checkPermission()) {
+      logger.warn('Accessibility permission not granted');
+      return {
+        success: false,
+        error: 'Accessibility permission required. Please enable in System Settings.',
+      };
+    }
+
+    // The keys may move the cursor or edit the text around the insertion
+    this.lastInsertion = null;
+
+    try {
+      await this.tapKeys(strokes, KEY_STROKE_DELAY_MS);
+      logger.info('Keys pressed', { strokes: strokes.length, platform: process.platform });
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to press keys', { error: message, platform: process.platform });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Start a new insertion: the next inserts are undone on their own.
+   * Until this is called, consecutive inserts (e.g. the sentences of a
+   * streamed response) are undone together. The previous insertion can
+   * still be undone until the next insert actually happens.
+   */
+  startNewInsertion(): void {
+    this.isNewInsertionPending = true;
+  }
+
+  /**
+   * Remove the text inserted since `startNewInsertion` from the focused
+   * application. Typed text is erased with Backspace, pasted text with the
+   * application's undo shortcut.
+   *
+   * Refuses if the focused window is not the one the text went to, or
+   * cannot be determined; the insertion can then still be undone later.
+   * Text copied to the clipboard only is never undone.
+   *
+   * @returns Result indicating success, refusal or failure
+   */
+  async undoLastInsertion(): Promise<UndoInsertionResult> {
+    const insertion = this.lastInsertion;
+    if (!insertion) {
+      return { success: false, refused: 'nothing' };
+    }
+
+    const [target, current] = await Promise.all([
+      insertion.target,
+      foregroundAppService.getForegroundApp(),
+    ]);
+    if (!target || !current) {
+      logger.warn('Focused window unknown, not undoing', {
+        insertedInto: target?.name,
+        focused: current?.name,
+      });
+      return { success: false, refused: 'window-unknown' };
+    }
+    if (!foregroundAppService.isSameWindow(target, current)) {
+      logger.warn('Focused window changed since the insertion, not undoing', {
+        insertedInto: target.name,
+        focused: current.name,
+      });
+      return { success: false, refused: 'window-changed' };
+    }
+
+    const typedLength = insertion.parts
+      .filter((part) => part.method === 'type')
+      .reduce((total, part) => total + part.length, 0);
+    if (typedLength > MAX_UNDO_BACKSPACES) {
+      logger.warn('Insertion too long to undo', { length: typedLength });
+      return { success: false, refused: 'too-long' };
+    }
+
+    if (!this.checkPermission()) {
+      logger.warn('Accessibility permission not granted');
+      return {
+        success: false,
+        error: 'Accessibility permission required. Please enable in System Settings.',
+      };
+    }
+
+    // The insertion is gone even if an undo below fails part way
+    this.lastInsertion = null;
+
+    const backspace: KeyStroke = { keycode: UiohookKey.Backspace, modifiers: [] };
+    const undo: KeyStroke = {
+      keycode: UiohookKey.Z,
+      modifiers: [process.platform === 'darwin' ? UiohookKey.Meta : UiohookKey.Ctrl],
+    };
+
+    try {
+      // Latest first, so each part is at the cursor when it is removed
+      for (const [index, part] of [...insertion.parts].reverse().entries()) {
+        if (index > 0) {
+          await new Promise(resolve => setTimeout(resolve, KEY_STROKE_DELAY_MS));
+        }
+        if (part.method === 'type') {
+          await this.tapKeys(Array<KeyStroke>(part.length).fill(backspace), BACKSPACE_DELAY_MS);
+        } else {
+          await this.tapKeys([undo], 0);
+        }
+      }
+
+      logger.info('Insertion undone', {
+        parts: insertion.parts.length,
+        typedLength,
+        target: target.name,
+      });
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to undo insertion', { error: message, platform: process.platform });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Add a successful insert to the insertion an undo would remove, or
+   * replace it after `startNewInsertion`.
+   * The focused window is looked up once, after the first insert.
+   */
+  private recordInsertion(text: string, method: 'type' | 'paste'): void {
+    const part: InsertedPart = { method, length: [...graphemes.segment(text)].length };
+
+    if (this.lastInsertion && !this.isNewInsertionPending) {
+      this.lastInsertion.parts.push(part);
+      return;
+    }
+    this.isNewInsertionPending = false;
+    this.lastInsertion = {
+      parts: [part],
+      target: foregroundAppService.getForegroundApp(),
+    };
+  }
+
+  /**
+   * Tap keys one after another with a pause between them.
+   */
+  private async tapKeys(strokes: KeyStroke[], delayMs: number): Promise<void> {
+    for (const [index, stroke] of strokes.entries()) {
+      if (index > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+      uIOhook.keyTap(stroke.keycode, stroke.modifiers);
+    }
+  }
 }
 
 /**
@@ -0,0 +1,17 @@
+/**
+ * Vocabulary module exports.
+ * Re-exports the vocabulary service, procedures, and library utilities.
+ */
+
+// Service
+export { VocabularyService, vocabularyService } from './vocabulary.service';
+
+// Procedures
+export { importVocabularyCsv, exportVocabularyCsv } from './procedures';
+
+// Types
+export type { VocabularyEntryInput, VocabularyFile } from './types';
+export { VOCABULARY_CONSTANTS } from './types';
+
+// Library utilities
+export { parseVocabularyCsv, stringifyVocabularyCsv, applyVocabulary } from './lib';
@@ -0,0 +1,122 @@
+/**
+ * Vocabulary CSV conversion.
+ * Format: `term,aliases,boost` with aliases separated by "|".
+ */
+
+import { VOCABULARY_CONSTANTS } from '../types';
+import type { VocabularyEntryInput } from '../types';
+import type { VocabularyEntry } from '../../../../shared/types/vocabulary';
+
+/**
+ * Parse CSV text into rows (RFC 4180: quoted fields, doubled quotes, CRLF).
+ */
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM written by spreadsheet apps
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim().length > 0));
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseBoost(value: string | undefined): boolean {
+  if (value === undefined || value.trim() === '') {
+    return true;
+  }
+  return !['false', '0', 'no', 'n'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Parse vocabulary CSV.
+ * A header row is optional; rows without a term are skipped.
+ *
+ * @throws Error if a term exceeds the maximum length
+ */
+export function parseVocabularyCsv(text: string): VocabularyEntryInput[] {
+  const rows = parseRows(text);
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === VOCABULARY_CONSTANTS.CSV_COLUMNS[0]) {
+    rows.shift();
+  }
+
+  const entries: VocabularyEntryInput[] = [];
+  rows.forEach((row, index) => {
+    const term = row[0]?.trim() ?? '';
+    if (!term) {
+      return;
+    }
+    if (term.length > VOCABULARY_CONSTANTS.MAX_TERM_LENGTH) {
+      throw new Error(
+        `Row ${index + 1}: term longer than ${VOCABULARY_CONSTANTS.MAX_TERM_LENGTH} characters`
+      );
+    }
+
+    const aliases = (row[1] ?? '')
+      .split(VOCABULARY_CONSTANTS.ALIAS_SEPARATOR)
+      .map((alias) => alias.trim())
+      .filter((alias) => alias.length > 0);
+
+    entries.push({ term, aliases, boost: parseBoost(row[2]) });
+  });
+
+  return entries;
+}
+
+/**
+ * Serialize vocabulary entries as CSV with a header row.
+ */
+export function stringifyVocabularyCsv(entries: VocabularyEntry[]): string {
+  const lines = [VOCABULARY_CONSTANTS.CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push([
+      escapeField(entry.term),
+      escapeField(entry.aliases.join(VOCABULARY_CONSTANTS.ALIAS_SEPARATOR)),
+      entry.boost ? 'true' : 'false',
+    ].join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
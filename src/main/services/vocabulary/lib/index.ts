@@ -0,0 +1,6 @@
+/**
+ * Vocabulary library exports.
+ */
+
+export { parseVocabularyCsv, stringifyVocabularyCsv } from './csv';
+export { applyVocabulary } from './replace';
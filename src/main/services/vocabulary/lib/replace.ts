@@ -0,0 +1,53 @@
+/**
+ * Vocabulary replacement pass.
+ * Rewrites misrecognized aliases to their vocabulary term.
+ */
+
+import type { VocabularyEntry } from '../../../../shared/types/vocabulary';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the match pattern for one alias.
+ * Aliases starting or ending with a Latin letter or digit only match whole
+ * words, so "py" does not rewrite the middle of "happy"; CJK aliases match anywhere.
+ */
+function aliasPattern(alias: string): string {
+  const escaped = escapeRegExp(alias);
+  const start = /^[A-Za-z0-9]/.test(alias) ? '(?<![A-Za-z0-9])' : '';
+  const end = /[A-Za-z0-9]$/.test(alias) ? '(?![A-Za-z0-9])' : '';
+  return `${start}${escaped}${end}`;
+}
+
+/**
+ * Replace every alias occurrence with its term, case-insensitively.
+ *
+ * All aliases are matched in a single pass (longest first), so a term
+ * inserted by one replacement is never rewritten by another.
+ *
+ * @param text - Recognized text
+ * @param entries - Vocabulary entries
+ * @returns Corrected text
+ */
+export function applyVocabulary(text: string, entries: VocabularyEntry[]): string {
+  const replacements = new Map<string, string>();
+  for (const entry of entries) {
+    for (const alias of entry.aliases) {
+      const key = alias.toLowerCase();
+      if (alias && alias !== entry.term && !replacements.has(key)) {
+        replacements.set(key, entry.term);
+      }
+    }
+  }
+
+  if (!text || replacements.size === 0) {
+    return text;
+  }
+
+  const aliases = [...replacements.keys()].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(aliases.map(aliasPattern).join('|'), 'gi');
+
+  return text.replace(pattern, (match) => replacements.get(match.toLowerCase()) ?? match);
+}
@@ -0,0 +1,49 @@
+/**
+ * Export vocabulary procedure.
+ * Writes the vocabulary to a CSV file chosen by the user.
+ */
+
+import { dialog, type BrowserWindow } from 'electron';
+import fs from 'fs';
+import log from 'electron-log';
+import { vocabularyService } from '../vocabulary.service';
+import { stringifyVocabularyCsv } from '../lib';
+import type { VocabularyTransferResult } from '../../../../shared/types/vocabulary';
+
+const logger = log.scope('vocabulary:export-csv');
+
+/**
+ * Export the vocabulary to a CSV file chosen by the user.
+ *
+ * @param parent - Window the file dialog is attached to
+ * @returns Export result with the number of entries written
+ */
+export async function exportVocabularyCsv(
+  parent: BrowserWindow | null
+): Promise<VocabularyTransferResult> {
+  try {
+    const options: Electron.SaveDialogOptions = {
+      title: '导出词汇表',
+      defaultPath: 'vocabulary.csv',
+      filters: [{ name: 'CSV', extensions: ['csv'] }],
+    };
+    const selection = parent
+      ? await dialog.showSaveDialog(parent, options)
+      : await dialog.showSaveDialog(options);
+
+    if (selection.canceled || !selection.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    const entries = vocabularyService.getEntries();
+    // Prefix a BOM so spreadsheet apps detect UTF-8
+    fs.writeFileSync(selection.filePath, `\uFEFF${stringifyVocabularyCsv(entries)}`, 'utf-8');
+
+    logger.info('Vocabulary exported', { file: selection.filePath, count: entries.length });
+    return { success: true, count: entries.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to export vocabulary', { error: message });
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Import vocabulary procedure.
+ * Lets the user pick a CSV file and adds its entries to the vocabulary.
+ */
+
+import { dialog, type BrowserWindow } from 'electron';
+import fs from 'fs';
+import log from 'electron-log';
+import { vocabularyService } from '../vocabulary.service';
+import { parseVocabularyCsv } from '../lib';
+import type {
+  VocabularyImportMode,
+  VocabularyTransferResult,
+} from '../../../../shared/types/vocabulary';
+
+const logger = log.scope('vocabulary:import-csv');
+
+/**
+ * Import vocabulary entries from a CSV file chosen by the user.
+ *
+ * @param mode - Merge with or replace the existing list
+ * @param parent - Window the file dialog is attached to
+ * @returns Import result with the updated vocabulary
+ */
+export async function importVocabularyCsv(
+  mode: VocabularyImportMode,
+  parent: BrowserWindow | null
+): Promise<VocabularyTransferResult> {
+  try {
+    const options: Electron.OpenDialogOptions = {
+      title: '导入词汇表',
+      filters: [{ name: 'CSV', extensions: ['csv'] }],
+      properties: ['openFile'],
+    };
+    const selection = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options);
+
+    if (selection.canceled || selection.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const content = fs.readFileSync(selection.filePaths[0], 'utf-8');
+    const inputs = parseVocabularyCsv(content);
+    const entries = vocabularyService.importEntries(inputs, mode);
+
+    logger.info('Vocabulary imported', { file: selection.filePaths[0], count: inputs.length });
+    return { success: true, count: inputs.length, entries };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to import vocabulary', { error: message });
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Vocabulary procedures exports.
+ */
+
+export { importVocabularyCsv } from './import-csv';
+export { exportVocabularyCsv } from './export-csv';
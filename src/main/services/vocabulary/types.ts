@@ -0,0 +1,56 @@
+/**
+ * Vocabulary types and Zod schemas.
+ * Defines the persisted vocabulary file and CSV exchange format.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const VOCABULARY_CONSTANTS = {
+  /** File name under the userData directory */
+  FILE_NAME: 'vocabulary.json',
+
+  /** Current file format version */
+  VERSION: 1,
+
+  /** Longest term accepted (matches the Volcengine hotword limit) */
+  MAX_TERM_LENGTH: 50,
+
+  /** CSV column order */
+  CSV_COLUMNS: ['term', 'aliases', 'boost'],
+
+  /** Separator between aliases inside the CSV aliases column */
+  ALIAS_SEPARATOR: '|',
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * A single vocabulary entry.
+ */
+export const vocabularyEntrySchema = z.object({
+  id: z.string().min(1),
+  term: z.string().trim().min(1).max(VOCABULARY_CONSTANTS.MAX_TERM_LENGTH),
+  aliases: z.array(z.string().trim().min(1)),
+  boost: z.boolean(),
+});
+
+/**
+ * Persisted vocabulary file.
+ */
+export const vocabularyFileSchema = z.object({
+  version: z.literal(VOCABULARY_CONSTANTS.VERSION),
+  entries: z.array(vocabularyEntrySchema),
+});
+
+export type VocabularyFile = z.infer<typeof vocabularyFileSchema>;
+
+/**
+ * Entry parsed from CSV, before an ID is assigned.
+ */
+export type VocabularyEntryInput = Omit<z.infer<typeof vocabularyEntrySchema>, 'id'>;
@@ -0,0 +1,122 @@
+/**
+ * Vocabulary Service.
+ * Maintains the custom vocabulary used to boost and correct recognition.
+ *
+ * Terms marked for boosting are sent to the ASR provider as hotwords, and
+ * every recognized text passes through an alias → term replacement before
+ * it is inserted.
+ */
+
+import { randomUUID } from 'crypto';
+import log from 'electron-log';
+import { JsonFileStore } from '../storage';
+import { applyVocabulary } from './lib';
+import { VOCABULARY_CONSTANTS, vocabularyFileSchema } from './types';
+import type { VocabularyEntryInput, VocabularyFile } from './types';
+import type { VocabularyEntry, VocabularyImportMode } from '../../../shared/types/vocabulary';
+
+const logger = log.scope('vocabulary-service');
+
+/**
+ * Vocabulary Service for managing custom terms.
+ *
+ * @example
+ * ```typescript
+ * // Hotwords for the ASR request
+ * const hotwords = vocabularyService.getHotwords();
+ *
+ * // Correct recognized text
+ * const text = vocabularyService.applyReplacements('open type less');
+ * ```
+ */
+export class VocabularyService {
+  private readonly store = new JsonFileStore<VocabularyFile>(
+    VOCABULARY_CONSTANTS.FILE_NAME,
+    vocabularyFileSchema,
+    () => ({ version: VOCABULARY_CONSTANTS.VERSION, entries: [] })
+  );
+
+  /**
+   * Get all vocabulary entries.
+   */
+  getEntries(): VocabularyEntry[] {
+    return this.store.read().entries;
+  }
+
+  /**
+   * Replace the vocabulary with the given entries.
+   *
+   * @param entries - Entries to persist; missing IDs are assigned
+   * @returns The saved entries
+   * @throws Error if an entry is invalid
+   */
+  saveEntries(entries: VocabularyEntry[]): VocabularyEntry[] {
+    const normalized = entries.map((entry) => this.normalize(entry, entry.id));
+    const saved = this.store.write({
+      version: VOCABULARY_CONSTANTS.VERSION,
+      entries: normalized,
+    });
+
+    logger.info('Vocabulary saved', { count: saved.entries.length });
+    return saved.entries;
+  }
+
+  /**
+   * Add imported entries to the vocabulary.
+   *
+   * @param inputs - Parsed entries
+   * @param mode - Merge with or replace the existing list
+   * @returns The saved entries
+   */
+  importEntries(inputs: VocabularyEntryInput[], mode: VocabularyImportMode): VocabularyEntry[] {
+    const entries = mode === 'replace' ? [] : [...this.getEntries()];
+
+    for (const input of inputs) {
+      const index = entries.findIndex(
+        (entry) => entry.term.toLowerCase() === input.term.trim().toLowerCase()
+      );
+      if (index === -1) {
+        entries.push(this.normalize(input));
+      } else {
+        entries[index] = this.normalize(input, entries[index].id);
+      }
+    }
+
+    logger.info('Importing vocabulary', { mode, imported: inputs.length });
+    return this.saveEntries(entries);
+  }
+
+  /**
+   * Terms to send to the ASR provider as boosting hotwords.
+   */
+  getHotwords(): string[] {
+    return this.getEntries()
+      .filter((entry) => entry.boost)
+      .map((entry) => entry.term);
+  }
+
+  /**
+   * Replace misrecognized aliases in text with their vocabulary terms.
+   */
+  applyReplacements(text: string): string {
+    return applyVocabulary(text, this.getEntries());
+  }
+
+  private normalize(input: VocabularyEntryInput, id?: string): VocabularyEntry {
+    const term = input.term.trim();
+    const aliases = [...new Set(input.aliases.map((alias) => alias.trim()))]
+      .filter((alias) => alias.length > 0 && alias !== term);
+
+    return {
+      id: id || randomUUID(),
+      term,
+      aliases,
+      boost: input.boost,
+    };
+  }
+}
+
+/**
+ * Singleton instance of the vocabulary service.
+ */
+export const vocabularyService = new VocabularyService();
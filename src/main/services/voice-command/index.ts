@@ -0,0 +1,14 @@
+/**
+ * Voice command module exports.
+ * Re-exports the voice command service and library utilities.
+ */
+
+// Service
+export { VoiceCommandService, voiceCommandService } from './voice-command.service';
+
+// Types
+export type { VoiceCommandConfig, VoiceCommandFile, VoiceCommandMatch } from './types';
+export { VOICE_COMMAND_CONSTANTS } from './types';
+
+// Library utilities
+export { parseKeySequence, normalizeUtterance, matchVoiceCommand } from './lib';
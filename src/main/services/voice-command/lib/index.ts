@@ -0,0 +1,6 @@
+/**
+ * Voice command library exports.
+ */
+
+export { parseKeySequence } from './key-sequence';
+export { normalizeUtterance, matchVoiceCommand } from './match';
@@ -0,0 +1,89 @@
+/**
+ * Key sequences.
+ * Parses the key sequences of voice commands into key strokes.
+ *
+ * A sequence is a list of strokes separated by spaces; a stroke is a key
+ * with optional modifiers joined by "+", e.g. "mod+shift+z" or
+ * "shift+home backspace". "mod" is Cmd on macOS and Ctrl elsewhere.
+ */
+
+import { UiohookKey } from 'uiohook-napi';
+import type { KeyStroke } from '../../text-input';
+
+const MODIFIER_KEYS: Record<string, number> = {
+  ctrl: UiohookKey.Ctrl,
+  alt: UiohookKey.Alt,
+  shift: UiohookKey.Shift,
+  meta: UiohookKey.Meta,
+  cmd: UiohookKey.Meta,
+};
+
+const NAMED_KEYS: Record<string, number> = {
+  enter: UiohookKey.Enter,
+  tab: UiohookKey.Tab,
+  space: UiohookKey.Space,
+  backspace: UiohookKey.Backspace,
+  delete: UiohookKey.Delete,
+  escape: UiohookKey.Escape,
+  esc: UiohookKey.Escape,
+  left: UiohookKey.ArrowLeft,
+  right: UiohookKey.ArrowRight,
+  up: UiohookKey.ArrowUp,
+  down: UiohookKey.ArrowDown,
+  home: UiohookKey.Home,
+  end: UiohookKey.End,
+  pageup: UiohookKey.PageUp,
+  pagedown: UiohookKey.PageDown,
+};
+
+/**
+ * uiohook key code for a key name, or undefined if unknown.
+ * Letters, digits and F1-F24 use their `UiohookKey` names.
+ */
+function lookupKey(name: string): number | undefined {
+  if (name in NAMED_KEYS) {
+    return NAMED_KEYS[name];
+  }
+  if (/^([a-z0-9]|f([1-9]|1[0-9]|2[0-4]))$/.test(name)) {
+    return (UiohookKey as Record<string, number>)[name.toUpperCase()];
+  }
+  return undefined;
+}
+
+/**
+ * Parse a key sequence.
+ *
+ * @param sequence - Sequence such as "mod+a" or "shift+home backspace"
+ * @param platform - Platform that decides what "mod" means
+ * @returns Strokes in the order they are pressed
+ * @throws Error naming the first unrecognized key
+ */
+export function parseKeySequence(
+  sequence: string,
+  platform: NodeJS.Platform = process.platform
+): KeyStroke[] {
+  const strokes = sequence.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (strokes.length === 0) {
+    throw new Error('按键序列不能为空');
+  }
+
+  return strokes.map((stroke) => {
+    const parts = stroke.split('+');
+    const key = parts.pop() ?? '';
+    const keycode = lookupKey(key);
+    if (keycode === undefined) {
+      throw new Error(`无法识别的按键「${key}」`);
+    }
+
+    const modifiers = parts.map((part) => {
+      const name = part === 'mod' ? (platform === 'darwin' ? 'meta' : 'ctrl') : part;
+      const modifier = MODIFIER_KEYS[name];
+      if (modifier === undefined) {
+        throw new Error(`无法识别的修饰键「${part}」`);
+      }
+      return modifier;
+    });
+
+    return { keycode, modifiers };
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Voice command matching.
+ * Checks whether a whole utterance is a command from the grammar.
+ */
+
+import type { VoiceCommandMatch } from '../types';
+import type { VoiceCommand } from '../../../../shared/types/voice-command';
+
+/**
+ * Reduce an utterance to lowercase letters and digits, so that ASR
+ * punctuation and spacing do not affect matching ("New line." → "newline").
+ */
+export function normalizeUtterance(text: string): string {
+  return text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/** Characters that end a leading prefix token: spacing and punctuation */
+const TOKEN_BOUNDARY = /^[\s\p{P}\p{S}]/u;
+
+/**
+ * Remove the prefix from the start of an utterance.
+ * The prefix must be a token of its own, followed by spacing, punctuation
+ * or the end, so "命令，撤销" has the prefix "命令" but "命令行工具" does not.
+ *
+ * @param text - Recognized text
+ * @param normalizedPrefix - Prefix reduced by `normalizeUtterance`
+ * @returns The text after the prefix, or null if it does not start with it
+ */
+function stripPrefix(text: string, normalizedPrefix: string): string | null {
+  const chars = [...text];
+  let consumed = '';
+  for (const [index, char] of chars.entries()) {
+    consumed += normalizeUtterance(char);
+    if (consumed === normalizedPrefix) {
+      const rest = chars.slice(index + 1).join('');
+      return rest === '' || TOKEN_BOUNDARY.test(rest) ? rest : null;
+    }
+    if (!normalizedPrefix.startsWith(consumed)) {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Match an utterance against the command grammar.
+ * Only an utterance that consists of the command alone matches, so a
+ * command word inside a sentence is dictated as usual. The same holds
+ * after the prefix: a prefix followed by anything else is dictation.
+ *
+ * @param text - Recognized text
+ * @param commands - Command grammar
+ * @param prefix - Phrase required before the command (empty = none)
+ */
+export function matchVoiceCommand(
+  text: string,
+  commands: VoiceCommand[],
+  prefix: string
+): VoiceCommandMatch {
+  const normalizedPrefix = normalizeUtterance(prefix);
+  const rest = normalizedPrefix ? stripPrefix(text.trim(), normalizedPrefix) : text;
+  if (rest === null) {
+    return { type: 'none' };
+  }
+
+  const spoken = normalizeUtterance(rest);
+  const command = commands.find((item) =>
+    item.phrases.some((phrase) => normalizeUtterance(phrase) === spoken)
+  );
+  return command ? { type: 'command', command } : { type: 'none' };
+}
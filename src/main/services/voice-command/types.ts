@@ -0,0 +1,81 @@
+/**
+ * Voice command types and Zod schemas.
+ * Defines the persisted command grammar.
+ */
+
+import { z } from 'zod';
+import type { VoiceCommand } from '../../../shared/types/voice-command';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const VOICE_COMMAND_CONSTANTS = {
+  /** File name under the userData directory */
+  FILE_NAME: 'voice-commands.json',
+
+  /** Current file format version */
+  VERSION: 1,
+
+  /** Longest spoken phrase accepted */
+  MAX_PHRASE_LENGTH: 30,
+} as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * A single voice command.
+ */
+export const voiceCommandSchema = z
+  .object({
+    id: z.string().min(1),
+    phrases: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1)
+          .max(
+            VOICE_COMMAND_CONSTANTS.MAX_PHRASE_LENGTH,
+            `命令短语不能超过 ${VOICE_COMMAND_CONSTANTS.MAX_PHRASE_LENGTH} 个字符`
+          )
+      )
+      .min(1, '至少需要一个命令短语'),
+    action: z.enum(['keys', 'text', 'delete-dictation']),
+    value: z.string(),
+  })
+  .refine((item) => item.action === 'delete-dictation' || item.value.length > 0, {
+    message: '按键序列或文本不能为空',
+    path: ['value'],
+  });
+
+/**
+ * Persisted command file.
+ */
+export const voiceCommandFileSchema = z.object({
+  version: z.literal(VOICE_COMMAND_CONSTANTS.VERSION),
+  commands: z.array(voiceCommandSchema),
+});
+
+export type VoiceCommandFile = z.infer<typeof voiceCommandFileSchema>;
+
+/**
+ * Voice command settings.
+ */
+export interface VoiceCommandConfig {
+  /** Whether utterances are checked for commands */
+  enabled: boolean;
+  /** Phrase that must precede every command (empty = none) */
+  prefix: string;
+}
+
+/**
+ * Outcome of checking an utterance against the grammar.
+ * - none: ordinary dictation, insert it
+ * - command: execute the command
+ */
+export type VoiceCommandMatch =
+  | { type: 'none' }
+  | { type: 'command'; command: VoiceCommand };
@@ -0,0 +1,195 @@
+/**
+ * Voice Command Service.
+ * Recognizes editing and punctuation commands in dictated text.
+ *
+ * An utterance that consists of a command alone ("换行", "select all") is
+ * executed as a key sequence or a fixed text instead of being typed.
+ * An optional spoken prefix keeps commands from firing by accident.
+ */
+
+import { randomUUID } from 'crypto';
+import log from 'electron-log';
+import { JsonFileStore } from '../storage';
+import { textInputService } from '../text-input';
+import type { UndoInsertionResult } from '../text-input';
+import { matchVoiceCommand, normalizeUtterance, parseKeySequence } from './lib';
+import { VOICE_COMMAND_CONSTANTS, voiceCommandFileSchema, voiceCommandSchema } from './types';
+import type { VoiceCommandConfig, VoiceCommandFile, VoiceCommandMatch } from './types';
+import type { VoiceCommand } from '../../../shared/types/voice-command';
+import type { InsertMethod } from '../../../shared/types/profile';
+
+const logger = log.scope('voice-command-service');
+
+/**
+ * Load voice command settings from environment variables.
+ */
+function loadVoiceCommandConfig(): VoiceCommandConfig {
+  return {
+    enabled: process.env.VOICE_COMMANDS_ENABLED !== 'false',
+    prefix: process.env.VOICE_COMMAND_PREFIX?.trim() ?? '',
+  };
+}
+
+const command = (phrases: string[], action: VoiceCommand['action'], value: string) => ({
+  id: randomUUID(),
+  phrases,
+  action,
+  value,
+});
+
+/**
+ * Grammar created on first launch.
+ */
+function createDefaultFile(): VoiceCommandFile {
+  return {
+    version: VOICE_COMMAND_CONSTANTS.VERSION,
+    commands: [
+      command(['换行', 'new line'], 'keys', 'enter'),
+      command(['新段落', 'new paragraph'], 'keys', 'enter enter'),
+      command(['全选', 'select all'], 'keys', 'mod+a'),
+      command(['撤销', 'undo'], 'keys', 'mod+z'),
+      command(['重做', 'redo'], 'keys', 'mod+shift+z'),
+      command(['删除上一句', 'delete last sentence'], 'delete-dictation', ''),
+      command(['退格', 'backspace'], 'keys', 'backspace'),
+      command(['句号', 'period'], 'text', '。'),
+      command(['逗号', 'comma'], 'text', '，'),
+      command(['问号', 'question mark'], 'text', '？'),
+      command(['感叹号', 'exclamation mark'], 'text', '！'),
+    ],
+  };
+}
+
+/**
+ * Voice Command Service for editing by voice.
+ *
+ * @example
+ * ```typescript
+ * const match = voiceCommandService.match(result.text);
+ * if (match.type === 'command') {
+ *   await voiceCommandService.execute(match.command, 'auto');
+ * }
+ * ```
+ */
+export class VoiceCommandService {
+  private readonly store = new JsonFileStore<VoiceCommandFile>(
+    VOICE_COMMAND_CONSTANTS.FILE_NAME,
+    voiceCommandFileSchema,
+    createDefaultFile
+  );
+
+  /**
+   * List the command grammar.
+   */
+  list(): VoiceCommand[] {
+    return this.store.read().commands;
+  }
+
+  /**
+   * Replace the command grammar.
+   *
+   * @param commands - Commands to persist; missing IDs are assigned
+   * @returns The saved commands
+   * @throws Error if a command is invalid or a phrase is used twice
+   */
+  save(commands: VoiceCommand[]): VoiceCommand[] {
+    const normalized = commands.map((item) => this.normalize(item));
+
+    const seen = new Map<string, string>();
+    for (const item of normalized) {
+      for (const phrase of item.phrases) {
+        const key = normalizeUtterance(phrase);
+        if (seen.has(key)) {
+          throw new Error(`命令短语「${phrase}」重复`);
+        }
+        seen.set(key, phrase);
+      }
+    }
+
+    const saved = this.store.write({
+      version: VOICE_COMMAND_CONSTANTS.VERSION,
+      commands: normalized,
+    });
+
+    logger.info('Voice commands saved', { count: saved.commands.length });
+    return saved.commands;
+  }
+
+  /**
+   * Check whether dictated text is a command.
+   * Always returns `none` when voice commands are disabled.
+   *
+   * @param text - Final recognized text
+   */
+  match(text: string): VoiceCommandMatch {
+    const config = loadVoiceCommandConfig();
+    if (!config.enabled) {
+      return { type: 'none' };
+    }
+    return matchVoiceCommand(text, this.list(), config.prefix);
+  }
+
+  /**
+   * Execute a command in the focused application.
+   *
+   * @param item - Command to execute
+   * @param insertMethod - How text commands insert their text
+   * @returns Result; `refused` is only set by delete-dictation commands
+   */
+  async execute(item: VoiceCommand, insertMethod: InsertMethod): Promise<UndoInsertionResult> {
+    logger.info('Executing voice command', { phrase: item.phrases[0], action: item.action });
+
+    if (item.action === 'text') {
+      return textInputService.insert(item.value, insertMethod);
+    }
+    if (item.action === 'delete-dictation') {
+      return textInputService.undoLastInsertion();
+    }
+
+    try {
+      return await textInputService.pressKeys(parseKeySequence(item.value));
+    } catch (error) {
+      // Only reachable for a hand-edited file; save() validates sequences
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Trim the fields and validate them, naming the command in the error.
+   */
+  private normalize(item: VoiceCommand): VoiceCommand {
+    const phrases = [...new Set(item.phrases.map((phrase) => phrase.trim()))]
+      .filter((phrase) => phrase.length > 0);
+    const label = phrases[0] ?? '未命名';
+
+    const result = voiceCommandSchema.safeParse({
+      id: item.id || randomUUID(),
+      phrases,
+      action: item.action,
+      value: item.action === 'keys' ? item.value.trim().toLowerCase() : item.action === 'text' ? item.value : '',
+    });
+    if (!result.success) {
+      throw new Error(`「${label}」：${result.error.issues[0].message}`);
+    }
+
+    if (phrases.some((phrase) => normalizeUtterance(phrase).length === 0)) {
+      throw new Error(`「${label}」：命令短语不能只包含标点`);
+    }
+
+    if (result.data.action === 'keys') {
+      try {
+        parseKeySequence(result.data.value);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`「${label}」：${message}`);
+      }
+    }
+
+    return result.data;
+  }
+}
+
+/**
+ * Singleton instance of the voice command service.
+ */
+export const voiceCommandService = new VoiceCommandService();
@@ -6,7 +6,8 @@
 import { BrowserWindow, screen, app } from 'electron';
 import fs from 'fs';
 import path from 'node:path';
-import type { ASRResult, ASRStatus } from '../../shared/types/asr';
+import type { ASRErrorInfo, ASRResult, ASRStatus } from '../../shared/types/asr';
+import type { ActivationMode } from '../../shared/types/keyboard';
 import { IPC_CHANNELS } from '../../shared/constants/channels';
 
 /**
@@ -228,6 +229,17 @@ export class FloatingWindowManager {
     this.window.webContents.send(IPC_CHANNELS.ASR.STATUS, status);
   }
 
+  /**
+   * Send the trigger key activation mode shown in the status bar.
+   * @param mode - Activation mode of the session being started
+   */
+  sendActivationMode(mode: ActivationMode): void {
+    if (!this.window || this.window.isDestroyed()) {
+      return;
+    }
+    this.window.webContents.send(IPC_CHANNELS.FLOATING_WINDOW.ACTIVATION_MODE, mode);
+  }
+
   /**
    * Send ASR result to the floating window.
    * @param result - The ASR result containing transcribed text
@@ -241,15 +253,16 @@ export class FloatingWindowManager {
 
   /**
    * Send error message to the floating window.
-   * @param error - The error message
+   * @param error - The error message, or the error with its category
    */
-  sendError(error: string): void {
+  sendError(error: string | ASRErrorInfo): void {
     if (!this.window || this.window.isDestroyed()) {
       return;
     }
+    const info: ASRErrorInfo = typeof error === 'string' ? { message: error } : error;
     // Show window to display error
     this.show();
-    this.window.webContents.send(IPC_CHANNELS.ASR.ERROR, error);
+    this.window.webContents.send(IPC_CHANNELS.ASR.ERROR, info);
     // Auto-hide after showing error
     this.scheduleAutoHide();
   }
@@ -8,9 +8,39 @@
 
 import { contextBridge, ipcRenderer } from 'electron';
 import { IPC_CHANNELS } from './shared/constants/channels';
-import type { ASRConfig, ASRResult, ASRStatus } from './shared/types/asr';
+import type {
+  ASRConfig,
+  ASRConnectionTestRequest,
+  ASRConnectionTestResult,
+  ASRErrorInfo,
+  ASRResult,
+  ASRStatus,
+} from './shared/types/asr';
 import type { EnvConfig } from './shared/types/settings';
-import type { LLMConfig, LLMRequestOptions } from './main/services/llm/types';
+import type { ActivationMode, HotkeyInfo, HotkeyResult } from './shared/types/keyboard';
+import type { AudioInputDevice, AudioInputDeviceState } from './shared/types/audio';
+import type { DictationProfile, ProfileSaveResult } from './shared/types/profile';
+import type { AppRule, AppRuleSaveResult } from './shared/types/app-rule';
+import type {
+  PromptTemplate,
+  PromptTemplatePreview,
+  PromptTemplateSaveResult,
+  PromptTemplateTransferResult,
+} from './shared/types/prompt-template';
+import type { VoiceCommand, VoiceCommandSaveResult } from './shared/types/voice-command';
+import type {
+  VocabularyEntry,
+  VocabularyImportMode,
+  VocabularyTransferResult,
+} from './shared/types/vocabulary';
+import type { RecordingMetadata, RecordingRerunResult } from './shared/types/recording-archive';
+import type { HistoryActionResult, HistoryEntry } from './shared/types/history';
+import type {
+  LLMConfig,
+  LLMModelListResult,
+  LLMModelQuery,
+  LLMRequestOptions,
+} from './main/services/llm/types';
 
 /**
  * ASR API exposed to the renderer process.
@@ -37,6 +67,27 @@ const asrApi = {
     ipcRenderer.send(IPC_CHANNELS.ASR.SEND_AUDIO, chunk);
   },
 
+  /**
+   * Request the session to end because the speaker has gone silent.
+   */
+  autoStop: (): void => {
+    ipcRenderer.send(IPC_CHANNELS.ASR.AUTO_STOP);
+  },
+
+  /**
+   * Report that recording stopped and the last audio chunk was sent.
+   */
+  recordingStopped: (): void => {
+    ipcRenderer.send(IPC_CHANNELS.ASR.RECORDING_STOPPED);
+  },
+
+  /**
+   * Stream a test clip to Volcengine with the given credentials.
+   * @param request - Credentials; a masked Access Token means the saved one
+   */
+  testConnection: (request: ASRConnectionTestRequest): Promise<ASRConnectionTestResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.ASR.TEST_CONNECTION, request),
+
   /**
    * Subscribe to ASR results.
    * @param callback - Called when ASR result is received
@@ -72,8 +123,8 @@ const asrApi = {
    * @param callback - Called when ASR error occurs
    * @returns Unsubscribe function
    */
-  onError: (callback: (error: string) => void): (() => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, error: string): void => {
+  onError: (callback: (error: ASRErrorInfo) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, error: ASRErrorInfo): void => {
       callback(error);
     };
     ipcRenderer.on(IPC_CHANNELS.ASR.ERROR, handler);
@@ -106,6 +157,21 @@ const floatingWindowApi = {
   setContentHeight: (height: number): void => {
     ipcRenderer.send(IPC_CHANNELS.FLOATING_WINDOW.SET_CONTENT_HEIGHT, height);
   },
+
+  /**
+   * Subscribe to the activation mode of each new session.
+   * @param callback - Called when a session starts
+   * @returns Unsubscribe function
+   */
+  onActivationMode: (callback: (mode: ActivationMode) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, mode: ActivationMode): void => {
+      callback(mode);
+    };
+    ipcRenderer.on(IPC_CHANNELS.FLOATING_WINDOW.ACTIVATION_MODE, handler);
+    return () => {
+      ipcRenderer.removeListener(IPC_CHANNELS.FLOATING_WINDOW.ACTIVATION_MODE, handler);
+    };
+  },
 };
 
 /**
@@ -113,23 +179,38 @@ const floatingWindowApi = {
  */
 const settingsApi = {
   /**
-   * Get current environment configuration.
+   * Get current settings.
    */
   getEnvConfig: (): Promise<EnvConfig> =>
     ipcRenderer.invoke(IPC_CHANNELS.SETTINGS.GET_ENV_CONFIG),
 
   /**
-   * Update environment configuration.
-   * @param config - New environment configuration
+   * Validate and save settings. Changed values apply without a restart.
+   * @param config - Complete settings
    */
   updateEnvConfig: (config: EnvConfig): Promise<void> =>
     ipcRenderer.invoke(IPC_CHANNELS.SETTINGS.UPDATE_ENV_CONFIG, config),
 
   /**
-   * Apply default configuration from .env.example.
+   * Restore the default settings.
    */
   applyDefaultConfig: (): Promise<void> =>
     ipcRenderer.invoke(IPC_CHANNELS.SETTINGS.APPLY_DEFAULT_CONFIG),
+
+  /**
+   * Subscribe to saved settings.
+   * @param callback - Called with the complete settings
+   * @returns Unsubscribe function
+   */
+  onChanged: (callback: (config: EnvConfig) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, config: EnvConfig): void => {
+      callback(config);
+    };
+    ipcRenderer.on(IPC_CHANNELS.SETTINGS.CHANGED, handler);
+    return () => {
+      ipcRenderer.removeListener(IPC_CHANNELS.SETTINGS.CHANGED, handler);
+    };
+  },
 };
 
 /**
@@ -178,6 +259,313 @@ const llmApi = {
    */
   reloadConfig: (): Promise<void> =>
     ipcRenderer.invoke(IPC_CHANNELS.LLM.RELOAD_CONFIG),
+
+  /**
+   * List models offered by the LLM server.
+   * @param query - Unsaved connection settings to use instead of the current ones
+   */
+  listModels: (query?: LLMModelQuery): Promise<LLMModelListResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.LLM.LIST_MODELS, query),
+};
+
+/**
+ * Keyboard API exposed to the renderer process.
+ */
+const keyboardApi = {
+  /**
+   * Get the current trigger hotkey.
+   */
+  getHotkey: (): Promise<HotkeyInfo> =>
+    ipcRenderer.invoke(IPC_CHANNELS.KEYBOARD.GET_HOTKEY),
+
+  /**
+   * Wait for the user to press a new trigger hotkey (not applied yet).
+   */
+  captureHotkey: (): Promise<HotkeyResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.KEYBOARD.CAPTURE_HOTKEY),
+
+  /**
+   * Cancel a pending hotkey capture.
+   */
+  cancelCapture: (): Promise<void> =>
+    ipcRenderer.invoke(IPC_CHANNELS.KEYBOARD.CANCEL_CAPTURE),
+
+  /**
+   * Validate, save and apply a trigger hotkey without restarting.
+   * @param value - Binding in stored form, e.g. "ctrl+shift+57"
+   */
+  setHotkey: (value: string): Promise<HotkeyResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.KEYBOARD.SET_HOTKEY, value),
+
+  /**
+   * Get the hotkey that undoes the last dictation (null if none is set).
+   */
+  getUndoHotkey: (): Promise<HotkeyInfo | null> =>
+    ipcRenderer.invoke(IPC_CHANNELS.KEYBOARD.GET_UNDO_HOTKEY),
+
+  /**
+   * Validate, save and apply the undo hotkey without restarting.
+   * @param value - Binding in stored form, or null to remove the hotkey
+   */
+  setUndoHotkey: (value: string | null): Promise<HotkeyResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.KEYBOARD.SET_UNDO_HOTKEY, value),
+};
+
+/**
+ * Audio API exposed to the renderer process.
+ */
+const audioApi = {
+  /**
+   * Report the available microphones to the main process.
+   * @param devices - Audio input devices from enumerateDevices()
+   */
+  reportDevices: (devices: AudioInputDevice[]): void => {
+    ipcRenderer.send(IPC_CHANNELS.AUDIO.REPORT_DEVICES, devices);
+  },
+
+  /**
+   * Get the available microphones and the preferred one.
+   */
+  getDevices: (): Promise<AudioInputDeviceState> =>
+    ipcRenderer.invoke(IPC_CHANNELS.AUDIO.GET_DEVICES),
+
+  /**
+   * Set and persist the preferred microphone.
+   * @param deviceId - Device ID, or empty for the system default
+   */
+  setInputDevice: (deviceId: string): Promise<void> =>
+    ipcRenderer.invoke(IPC_CHANNELS.AUDIO.SET_INPUT_DEVICE, deviceId),
+
+  /**
+   * Subscribe to microphone list or preference changes.
+   * @param callback - Called with the new device state
+   * @returns Unsubscribe function
+   */
+  onDevicesChanged: (callback: (state: AudioInputDeviceState) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, state: AudioInputDeviceState): void => {
+      callback(state);
+    };
+    ipcRenderer.on(IPC_CHANNELS.AUDIO.DEVICES_CHANGED, handler);
+    return () => {
+      ipcRenderer.removeListener(IPC_CHANNELS.AUDIO.DEVICES_CHANGED, handler);
+    };
+  },
+};
+
+/**
+ * Dictation profiles API exposed to the renderer process.
+ */
+const profilesApi = {
+  /**
+   * Get dictation profiles.
+   */
+  list: (): Promise<DictationProfile[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROFILES.LIST),
+
+  /**
+   * Replace dictation profiles. Their hotkeys take effect immediately.
+   * @param profiles - Full profile list
+   */
+  save: (profiles: DictationProfile[]): Promise<ProfileSaveResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROFILES.SAVE, profiles),
+};
+
+/**
+ * Application rules API exposed to the renderer process.
+ */
+const appRulesApi = {
+  /**
+   * Get application rules in priority order.
+   */
+  list: (): Promise<AppRule[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.APP_RULES.LIST),
+
+  /**
+   * Replace application rules. Takes effect on the next dictation.
+   * @param rules - Full rule list in priority order
+   */
+  save: (rules: AppRule[]): Promise<AppRuleSaveResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.APP_RULES.SAVE, rules),
+
+  /**
+   * Get names and bundle IDs of apps recently dictated into.
+   */
+  getRecentApps: (): Promise<string[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.APP_RULES.RECENT_APPS),
+};
+
+/**
+ * Prompt templates API exposed to the renderer process.
+ */
+const promptTemplatesApi = {
+  /**
+   * Get prompt templates.
+   */
+  list: (): Promise<PromptTemplate[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPT_TEMPLATES.LIST),
+
+  /**
+   * Replace prompt templates.
+   * @param templates - Full template list
+   */
+  save: (templates: PromptTemplate[]): Promise<PromptTemplateSaveResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPT_TEMPLATES.SAVE, templates),
+
+  /**
+   * Render a template's messages against sample text.
+   * @param template - System and user messages to render
+   * @param text - Sample text for {{text}}
+   */
+  preview: (template: PromptTemplatePreview, text: string): Promise<PromptTemplatePreview> =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPT_TEMPLATES.PREVIEW, template, text),
+
+  /**
+   * Import templates from a JSON file chosen by the user.
+   * Templates with the same name are replaced.
+   */
+  importJson: (): Promise<PromptTemplateTransferResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPT_TEMPLATES.IMPORT_JSON),
+
+  /**
+   * Export templates to a JSON file chosen by the user.
+   */
+  exportJson: (): Promise<PromptTemplateTransferResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPT_TEMPLATES.EXPORT_JSON),
+};
+
+/**
+ * Voice commands API exposed to the renderer process.
+ */
+const voiceCommandsApi = {
+  /**
+   * Get the voice command grammar.
+   */
+  list: (): Promise<VoiceCommand[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.VOICE_COMMANDS.LIST),
+
+  /**
+   * Replace the voice command grammar. Takes effect on the next dictation.
+   * @param commands - Full command list
+   */
+  save: (commands: VoiceCommand[]): Promise<VoiceCommandSaveResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.VOICE_COMMANDS.SAVE, commands),
+};
+
+/**
+ * Vocabulary API exposed to the renderer process.
+ */
+const vocabularyApi = {
+  /**
+   * Get vocabulary entries.
+   */
+  getEntries: (): Promise<VocabularyEntry[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.VOCABULARY.GET_ENTRIES),
+
+  /**
+   * Replace vocabulary entries.
+   * @param entries - Full vocabulary list
+   * @returns The saved entries
+   */
+  saveEntries: (entries: VocabularyEntry[]): Promise<VocabularyEntry[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.VOCABULARY.SAVE_ENTRIES, entries),
+
+  /**
+   * Import entries from a CSV file chosen in a file dialog.
+   * @param mode - Merge with or replace the existing list
+   */
+  importCsv: (mode?: VocabularyImportMode): Promise<VocabularyTransferResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.VOCABULARY.IMPORT_CSV, mode),
+
+  /**
+   * Export entries to a CSV file chosen in a save dialog.
+   */
+  exportCsv: (): Promise<VocabularyTransferResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.VOCABULARY.EXPORT_CSV),
+};
+
+/**
+ * Recording Archive API exposed to the renderer process.
+ */
+const recordingArchiveApi = {
+  /**
+   * List archived recordings, newest first.
+   */
+  list: (): Promise<RecordingMetadata[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.RECORDING_ARCHIVE.LIST),
+
+  /**
+   * Delete an archived recording.
+   * @param id - Recording ID
+   */
+  delete: (id: string): Promise<void> =>
+    ipcRenderer.invoke(IPC_CHANNELS.RECORDING_ARCHIVE.DELETE, id),
+
+  /**
+   * Feed an archived recording back through ASR.
+   * @param id - Recording ID
+   */
+  rerun: (id: string): Promise<RecordingRerunResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.RECORDING_ARCHIVE.RERUN, id),
+
+  /**
+   * Open the recordings folder in the file manager.
+   */
+  openFolder: (): Promise<void> =>
+    ipcRenderer.invoke(IPC_CHANNELS.RECORDING_ARCHIVE.OPEN_FOLDER),
+};
+
+/**
+ * History API exposed to the renderer process.
+ */
+const historyApi = {
+  /**
+   * List dictation history, newest first.
+   * @param query - Optional case-insensitive search text
+   */
+  list: (query?: string): Promise<HistoryEntry[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY.LIST, query),
+
+  /**
+   * Delete a history entry.
+   * @param id - History entry ID
+   */
+  delete: (id: string): Promise<void> =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY.DELETE, id),
+
+  /**
+   * Delete all history entries.
+   */
+  clear: (): Promise<void> =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY.CLEAR),
+
+  /**
+   * Copy an entry's text to the clipboard.
+   * @param id - History entry ID
+   */
+  copy: (id: string): Promise<HistoryActionResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY.COPY, id),
+
+  /**
+   * Insert an entry's text at the cursor of the previously focused app.
+   * @param id - History entry ID
+   */
+  reinsert: (id: string): Promise<HistoryActionResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY.REINSERT, id),
+
+  /**
+   * Subscribe to history changes.
+   * @param callback - Called when entries are added or removed
+   * @returns Unsubscribe function
+   */
+  onUpdated: (callback: () => void): (() => void) => {
+    const handler = (): void => {
+      callback();
+    };
+    ipcRenderer.on(IPC_CHANNELS.HISTORY.UPDATED, handler);
+    return () => {
+      ipcRenderer.removeListener(IPC_CHANNELS.HISTORY.UPDATED, handler);
+    };
+  },
 };
 
 // Expose the API to the renderer process
@@ -185,5 +573,14 @@ contextBridge.exposeInMainWorld('api', {
   asr: asrApi,
   floatingWindow: floatingWindowApi,
   settings: settingsApi,
+  keyboard: keyboardApi,
+  audio: audioApi,
   llm: llmApi,
+  profiles: profilesApi,
+  promptTemplates: promptTemplatesApi,
+  appRules: appRulesApi,
+  voiceCommands: voiceCommandsApi,
+  vocabulary: vocabularyApi,
+  recordingArchive: recordingArchiveApi,
+  history: historyApi,
 });
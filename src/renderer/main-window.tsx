@@ -6,7 +6,15 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { SettingsPage } from './src/modules/settings/SettingsPage';
-import { AudioRecorder } from './src/modules/asr';
+import {
+  AudioRecorder,
+  VoiceActivityGate,
+  VAD_CONFIG,
+  listAudioInputDevices,
+  watchAudioInputDevices,
+} from './src/modules/asr';
+import type { VoiceActivityGateOptions } from './src/modules/asr';
+import type { EnvConfig } from '../shared/types/settings';
 import '../index.css';
 
 console.log(
@@ -35,20 +43,31 @@ console.log('[Renderer] AudioRecorder imported?', typeof AudioRecorder);
 // Audio recorder instance
 let recorder: AudioRecorder | null = null;
 
+// Preferred microphone, kept in sync with settings and the tray menu
+let inputDeviceId = '';
+
+// Voice activity gate for the current session, recreated on each start
+let gate: VoiceActivityGate | null = null;
+
+// Silence trimming and auto-stop settings, updated whenever the settings are saved;
+// each recording uses the values current when it starts
+let vadOptions: VoiceActivityGateOptions = { trimSilence: true };
+
 /**
  * Initialize audio recorder with callback to send chunks to main process.
  */
 function initRecorder(): AudioRecorder {
-  return new AudioRecorder(
+  const instance = new AudioRecorder(
     (chunk) => {
-      // Send audio chunk to main process via IPC
-      console.log('[Renderer] Sending audio chunk to main process:', chunk.byteLength, 'bytes');
-      window.api.asr.sendAudio(chunk);
+      // Only chunks that pass the voice activity gate reach the main process
+      gate?.process(chunk);
     },
     (state) => {
       console.log('[Renderer] AudioRecorder state:', state);
     }
   );
+  instance.setInputDevice(inputDeviceId);
+  return instance;
 }
 
 /**
@@ -59,24 +78,43 @@ async function startRecording(): Promise<void> {
     recorder = initRecorder();
   }
 
+  gate = new VoiceActivityGate(
+    (chunk) => {
+      // Send audio chunk to main process via IPC
+      window.api.asr.sendAudio(chunk);
+    },
+    {
+      ...vadOptions,
+      onSilenceTimeout: () => {
+        console.log('[Renderer] Silence after speech, requesting auto-stop');
+        window.api.asr.autoStop();
+      },
+    }
+  );
+
   try {
     console.log('[Renderer] Starting audio recording...');
     await recorder.start();
     console.log('[Renderer] Audio recording started');
+
+    // Device labels only become available once microphone access is granted
+    reportAudioInputDevices();
   } catch (error) {
     console.error('[Renderer] Failed to start recording:', error);
   }
 }
 
 /**
- * Stop recording audio.
+ * Stop recording audio and tell the main process once the last chunk
+ * has been sent, so it can finish the ASR stream.
  */
-function stopRecording(): void {
+async function stopRecording(): Promise<void> {
   if (recorder) {
     console.log('[Renderer] Stopping audio recording...');
-    recorder.stop();
+    await recorder.stop();
     console.log('[Renderer] Audio recording stopped');
   }
+  window.api.asr.recordingStopped();
 }
 
 // Track current status to avoid duplicate operations
@@ -101,13 +139,72 @@ if (window.api && window.api.asr && typeof window.api.asr.onStatus === 'function
     } else {
       // Stop recording for any other status
       console.log('[Renderer] Stopping recording due to status:', status);
-      stopRecording();
+      stopRecording().catch((error) => {
+        console.error('[Renderer] Failed to stop recording:', error);
+      });
     }
   });
 } else {
   console.error('[Renderer] ERROR: Cannot set up ASR status listener - window.api.asr.onStatus not available');
 }
 
+// ============================================================================
+// Voice Activity Detection Settings
+// ============================================================================
+
+/**
+ * Apply the voice activity detection settings to the next recording.
+ */
+function applyVadSettings(config: EnvConfig): void {
+  const thresholdDb = parseFloat(config.VAD_THRESHOLD_DB);
+  const autoStopMs = parseInt(config.VAD_AUTO_STOP_MS, 10);
+  vadOptions = {
+    trimSilence: config.VAD_ENABLED !== 'false',
+    thresholdDb: Number.isFinite(thresholdDb) ? thresholdDb : VAD_CONFIG.thresholdDb,
+    autoStopMs: autoStopMs > 0 ? autoStopMs : 0,
+  };
+  console.log('[Renderer] Voice activity detection settings:', vadOptions);
+}
+
+if (window.api && window.api.settings) {
+  window.api.settings.getEnvConfig()
+    .then(applyVadSettings)
+    .catch((error) => console.error('[Renderer] Failed to load VAD settings:', error));
+
+  // Settings saved from the Settings page apply without a restart
+  window.api.settings.onChanged(applyVadSettings);
+}
+
+// ============================================================================
+// Microphone Selection
+// ============================================================================
+
+/**
+ * Report the available microphones so the tray menu can list them.
+ */
+function reportAudioInputDevices(): void {
+  listAudioInputDevices()
+    .then((devices) => window.api.audio.reportDevices(devices))
+    .catch((error) => console.error('[Renderer] Failed to enumerate microphones:', error));
+}
+
+if (window.api && window.api.audio) {
+  window.api.audio.getDevices()
+    .then((state) => {
+      inputDeviceId = state.selectedDeviceId;
+      recorder?.setInputDevice(inputDeviceId);
+    })
+    .catch((error) => console.error('[Renderer] Failed to load microphone preference:', error));
+
+  window.api.audio.onDevicesChanged((state) => {
+    inputDeviceId = state.selectedDeviceId;
+    recorder?.setInputDevice(inputDeviceId);
+  });
+
+  reportAudioInputDevices();
+  watchAudioInputDevices((devices) => window.api.audio.reportDevices(devices));
+}
+
 // Cleanup on window unload
 window.addEventListener('beforeunload', () => {
   if (recorder) {
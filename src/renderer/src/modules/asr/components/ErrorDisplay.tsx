@@ -1,13 +1,29 @@
 /**
  * Error Display Component.
- * Displays error messages in a visually distinct style.
+ * Displays error messages in a visually distinct style, with guidance
+ * for the error's category.
  */
 
 import type { ReactNode } from 'react';
+import { ASRErrorCategory } from '../../../../../shared/types/asr';
+
+/**
+ * What to do about each kind of failure.
+ */
+const CATEGORY_GUIDANCE: Record<ASRErrorCategory, string> = {
+  [ASRErrorCategory.AUTH]: '鉴权失败：请在设置中检查 App ID、Access Token 和 Resource ID',
+  [ASRErrorCategory.QUOTA]: '额度或并发已达上限：请检查控制台用量和余额，稍后重试',
+  [ASRErrorCategory.NETWORK]: '网络连接失败：请检查网络或代理设置',
+  [ASRErrorCategory.PROTOCOL]: '服务返回了异常响应：请检查识别参数，稍后重试',
+  [ASRErrorCategory.TIMEOUT]: '请求超时：网络较慢或服务繁忙，请稍后重试',
+  [ASRErrorCategory.NO_SPEECH]: '没有收到语音：请检查麦克风选择是否正确',
+};
 
 interface ErrorDisplayProps {
   /** Error message to display */
   message?: string;
+  /** Error category, adds guidance below the message */
+  category?: ASRErrorCategory;
 }
 
 /**
@@ -15,10 +31,10 @@ interface ErrorDisplayProps {
  *
  * @example
  * ```tsx
- * <ErrorDisplay message="Connection failed. Please try again." />
+ * <ErrorDisplay message="Connection failed: Connection timeout" category={ASRErrorCategory.TIMEOUT} />
  * ```
  */
-export function ErrorDisplay({ message }: ErrorDisplayProps): ReactNode {
+export function ErrorDisplay({ message, category }: ErrorDisplayProps): ReactNode {
   // Don't render if no message
   if (!message) {
     return null;
@@ -27,7 +43,10 @@ export function ErrorDisplay({ message }: ErrorDisplayProps): ReactNode {
   return (
     <div className="error-display">
       <span className="error-display__icon">!</span>
-      <span className="error-display__message">{message}</span>
+      <div className="error-display__body">
+        <span className="error-display__message">{message}</span>
+        {category && <span className="error-display__guidance">{CATEGORY_GUIDANCE[category]}</span>}
+      </div>
     </div>
   );
 }
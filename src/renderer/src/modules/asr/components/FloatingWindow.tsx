@@ -26,13 +26,17 @@ import { ErrorDisplay } from './ErrorDisplay';
  * ```
  */
 export function FloatingWindow(): ReactNode {
-  const { status, result, error } = useASRStatus();
+  const { status, result, error, activationMode } = useASRStatus();
 
   // Determine what to show based on status
   // FIX: Show transcript during listening state for real-time streaming display
+  // While the LLM streams, the transcript previews the optimized text
   const hasTranscriptText =
     Boolean(result?.text) &&
-    (status === 'listening' || status === 'processing' || status === 'done');
+    (status === 'listening' ||
+      status === 'processing' ||
+      status === 'llm_optimizing' ||
+      status === 'done');
 
   // Always show status indicator (status bar at top)
   const showStatusIndicator = true;
@@ -41,15 +45,21 @@ export function FloatingWindow(): ReactNode {
     <div className="floating-window">
       <div className="floating-window__content">
         {/* Status indicator - always visible */}
-        {showStatusIndicator && <StatusIndicator status={status} />}
+        {showStatusIndicator && (
+          <StatusIndicator status={status} activationMode={activationMode} />
+        )}
 
-        {/* Transcript display - show during listening, processing, and done */}
+        {/* Transcript display - show during listening, processing, optimizing, and done */}
         {hasTranscriptText && result && (
-          <TranscriptDisplay text={result.text} interim={!result.isFinal} />
+          <TranscriptDisplay
+            text={result.text}
+            interim={!result.isFinal}
+            segments={result.segments}
+          />
         )}
 
         {/* Error display */}
-        {error && <ErrorDisplay message={error} />}
+        {error && <ErrorDisplay message={error.message} category={error.category} />}
       </div>
     </div>
   );
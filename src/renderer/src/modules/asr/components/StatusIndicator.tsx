@@ -5,10 +5,13 @@
 
 import type { ReactNode } from 'react';
 import type { ASRStatus } from '../../../../../shared/types/asr';
+import type { ActivationMode } from '../../../../../shared/types/keyboard';
 
 interface StatusIndicatorProps {
   /** Current ASR status */
   status: ASRStatus;
+  /** Trigger key activation mode, shown at the end of the bar */
+  activationMode?: ActivationMode | null;
 }
 
 /**
@@ -25,21 +28,33 @@ const STATUS_CONFIG: Record<ASRStatus, { label: string; className: string }> = {
   error: { label: 'Error', className: 'status-indicator--error' },
 };
 
+/**
+ * Activation mode labels, hinting how the session is stopped.
+ */
+const MODE_LABELS: Record<ActivationMode, string> = {
+  hold: 'Hold',
+  toggle: 'Toggle',
+  'double-tap': 'Double-tap',
+};
+
 /**
  * Displays the current ASR status with an animated indicator.
  *
  * @example
  * ```tsx
- * <StatusIndicator status="listening" />
+ * <StatusIndicator status="listening" activationMode="toggle" />
  * ```
  */
-export function StatusIndicator({ status }: StatusIndicatorProps): ReactNode {
+export function StatusIndicator({ status, activationMode }: StatusIndicatorProps): ReactNode {
   const config = STATUS_CONFIG[status];
 
   return (
     <div className={`status-indicator ${config.className}`}>
       <span className="status-indicator__dot" />
       <span className="status-indicator__label">{config.label}</span>
+      {activationMode && (
+        <span className="status-indicator__mode">{MODE_LABELS[activationMode]}</span>
+      )}
     </div>
   );
 }
@@ -5,12 +5,62 @@
  */
 
 import { useEffect, useRef, type ReactNode } from 'react';
+import type { ASRSegment } from '../../../../../shared/types/asr';
+
+/** Words recognized below this confidence are underlined */
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
 
 interface TranscriptDisplayProps {
   /** Transcribed text to display */
   text?: string;
   /** Whether this is an interim (not final) result */
   interim?: boolean;
+  /** Utterance and word detail, used to mark low-confidence words */
+  segments?: ASRSegment[];
+}
+
+/**
+ * Split text into plain runs and low-confidence word spans.
+ * Words are located in the text in order; words that cannot be found
+ * (e.g. normalized differently than the display text) are skipped.
+ */
+function renderWithConfidence(text: string, segments: ASRSegment[]): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+
+  for (const segment of segments) {
+    for (const word of segment.words) {
+      const { confidence } = word;
+      if (confidence === undefined || confidence >= LOW_CONFIDENCE_THRESHOLD || !word.text) {
+        continue;
+      }
+
+      const index = text.indexOf(word.text, cursor);
+      if (index === -1) {
+        continue;
+      }
+
+      if (index > cursor) {
+        nodes.push(text.slice(cursor, index));
+      }
+      nodes.push(
+        <span
+          key={`${word.startTime}-${index}`}
+          className="transcript-word--low-confidence"
+          title={`置信度 ${Math.round(confidence * 100)}%`}
+        >
+          {word.text}
+        </span>
+      );
+      cursor = index + word.text.length;
+    }
+  }
+
+  if (cursor < text.length) {
+    nodes.push(text.slice(cursor));
+  }
+
+  return nodes;
 }
 
 /**
@@ -26,7 +76,7 @@ interface TranscriptDisplayProps {
  * <TranscriptDisplay text="Hello world" interim={false} />
  * ```
  */
-export function TranscriptDisplay({ text, interim = false }: TranscriptDisplayProps): ReactNode {
+export function TranscriptDisplay({ text, interim = false, segments }: TranscriptDisplayProps): ReactNode {
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Measure content height, notify main process, and auto-scroll to bottom
@@ -62,7 +112,7 @@ export function TranscriptDisplay({ text, interim = false }: TranscriptDisplayPr
 
   return (
     <div ref={containerRef} className={className}>
-      {text}
+      {segments && segments.length > 0 ? renderWithConfidence(text, segments) : text}
     </div>
   );
 }
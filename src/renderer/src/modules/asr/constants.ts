@@ -13,10 +13,25 @@ export const AUDIO_CONFIG = {
   channelCount: 1,
   /** Bits per sample for PCM encoding */
   bitsPerSample: 16,
-  /** ScriptProcessorNode buffer size (must be power of 2) */
-  bufferSize: 1024,
-  /** Target interval between audio chunks in milliseconds */
+  /** Interval between audio chunks in milliseconds (enforced by the capture worklet) */
   chunkInterval: 100,
+  /** Registered name of the capture AudioWorkletProcessor */
+  workletProcessorName: 'pcm-capture-processor',
+  /** Longest wait for the worklet to flush its last partial chunk on stop (ms) */
+  flushTimeoutMs: 200,
+} as const;
+
+/**
+ * Voice activity detection defaults.
+ * Detection works on whole chunks of `AUDIO_CONFIG.chunkInterval` ms.
+ */
+export const VAD_CONFIG = {
+  /** Chunks louder than this RMS level (dBFS) count as speech */
+  thresholdDb: -50,
+  /** Audio kept before the first speech chunk so soft onsets are not clipped (ms) */
+  preRollMs: 300,
+  /** Silence still sent after speech so word endings are not clipped (ms) */
+  hangoverMs: 400,
 } as const;
 
 /**
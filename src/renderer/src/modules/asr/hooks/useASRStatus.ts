@@ -4,7 +4,8 @@
  */
 
 import { useEffect, useState, useCallback } from 'react';
-import type { ASRResult, ASRStatus } from '../../../../../shared/types/asr';
+import type { ASRErrorInfo, ASRResult, ASRStatus } from '../../../../../shared/types/asr';
+import type { ActivationMode } from '../../../../../shared/types/keyboard';
 
 /**
  * Return type for useASRStatus hook.
@@ -14,8 +15,10 @@ export interface UseASRStatusReturn {
   status: ASRStatus;
   /** Latest ASR result (interim or final) */
   result: ASRResult | null;
-  /** Error message if any */
-  error: string | null;
+  /** Error, with its category when known */
+  error: ASRErrorInfo | null;
+  /** Activation mode of the current session (null until the first session) */
+  activationMode: ActivationMode | null;
   /** Clear the current result and error */
   clear: () => void;
 }
@@ -32,7 +35,7 @@ export interface UseASRStatusReturn {
  *     <div>
  *       <StatusIndicator status={status} />
  *       {result && <TranscriptDisplay text={result.text} interim={!result.isFinal} />}
- *       {error && <ErrorDisplay message={error} />}
+ *       {error && <ErrorDisplay message={error.message} category={error.category} />}
  *     </div>
  *   );
  * }
@@ -41,7 +44,8 @@ export interface UseASRStatusReturn {
 export function useASRStatus(): UseASRStatusReturn {
   const [status, setStatus] = useState<ASRStatus>('idle');
   const [result, setResult] = useState<ASRResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ASRErrorInfo | null>(null);
+  const [activationMode, setActivationMode] = useState<ActivationMode | null>(null);
 
   // Clear state
   const clear = useCallback(() => {
@@ -67,16 +71,19 @@ export function useASRStatus(): UseASRStatusReturn {
       setResult(newResult);
     });
 
-    const unsubscribeError = window.api.asr.onError((errorMessage) => {
-      setError(errorMessage);
+    const unsubscribeError = window.api.asr.onError((errorInfo) => {
+      setError(errorInfo);
       setStatus('error');
     });
 
+    const unsubscribeActivationMode = window.api.floatingWindow.onActivationMode(setActivationMode);
+
     // Cleanup subscriptions
     return () => {
       unsubscribeStatus();
       unsubscribeResult();
       unsubscribeError();
+      unsubscribeActivationMode();
     };
   }, []);
 
@@ -84,6 +91,7 @@ export function useASRStatus(): UseASRStatusReturn {
     status,
     result,
     error,
+    activationMode,
     clear,
   };
 }
@@ -37,11 +37,18 @@ export {
   float32ToInt16,
   int16ToArrayBuffer,
   float32ToArrayBuffer,
+  writeFloat32AsInt16,
+  Resampler,
   AudioRecorder,
+  listAudioInputDevices,
+  watchAudioInputDevices,
+  VoiceActivityGate,
+  chunkLevelDb,
 } from './lib';
+export type { VoiceActivityGateOptions } from './lib';
 
 // Constants
-export { AUDIO_CONFIG, AUDIO_ERRORS } from './constants';
+export { AUDIO_CONFIG, AUDIO_ERRORS, VAD_CONFIG } from './constants';
 
 // React hooks
 export { useAudioRecorder, useASRStatus } from './hooks';
@@ -53,6 +60,8 @@ export type {
   AudioChunkCallback,
   StateChangeCallback,
   AudioResources,
+  CaptureWorkletMessage,
+  CaptureWorkletCommand,
 } from './types';
 
 // Components
@@ -0,0 +1,49 @@
+/**
+ * Audio input device enumeration.
+ * Lists the microphones available to getUserMedia and watches for changes.
+ */
+
+import type { AudioInputDevice } from '../../../../../shared/types/audio';
+
+/**
+ * Chromium aliases that point at another entry in the list.
+ */
+const ALIAS_DEVICE_IDS = new Set(['default', 'communications']);
+
+/**
+ * Lists the available microphones.
+ * Labels are empty until microphone permission has been granted.
+ *
+ * @returns Audio input devices, without the "default" aliases
+ */
+export async function listAudioInputDevices(): Promise<AudioInputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'audioinput' && !ALIAS_DEVICE_IDS.has(device.deviceId))
+    .map((device) => ({ deviceId: device.deviceId, label: device.label }));
+}
+
+/**
+ * Calls back with the new microphone list whenever a device is plugged in or removed.
+ *
+ * @param callback - Called with the updated device list
+ * @returns Unsubscribe function
+ */
+export function watchAudioInputDevices(
+  callback: (devices: AudioInputDevice[]) => void
+): () => void {
+  const handler = (): void => {
+    listAudioInputDevices()
+      .then(callback)
+      .catch((error) => console.error('[AudioDevices] Failed to enumerate devices:', error));
+  };
+
+  navigator.mediaDevices?.addEventListener('devicechange', handler);
+  return () => {
+    navigator.mediaDevices?.removeEventListener('devicechange', handler);
+  };
+}
@@ -1,20 +1,35 @@
 /**
  * AudioRecorder class for capturing microphone audio.
  * Uses Web Audio API to capture, process, and convert audio to PCM format.
+ * Conversion and chunking run in an AudioWorklet, off the main thread.
+ * Opens the preferred microphone and falls back to the system default when
+ * it is missing or unplugged mid-session.
  *
  * This is a vanilla TypeScript implementation that doesn't require React.
  * Can be used directly or wrapped in a React hook when needed.
  */
 
 import { AUDIO_CONFIG, AUDIO_ERRORS } from '../constants';
-import { float32ToArrayBuffer } from './pcm-converter';
+import captureWorkletUrl from './pcm-capture.worklet?worker&url';
 import type {
   AudioChunkCallback,
   AudioRecorderState,
   AudioResources,
+  CaptureWorkletMessage,
   StateChangeCallback,
 } from '../types';
 
+/**
+ * getUserMedia constraints for speech capture.
+ */
+const CAPTURE_CONSTRAINTS: MediaTrackConstraints = {
+  sampleRate: AUDIO_CONFIG.sampleRate,
+  channelCount: AUDIO_CONFIG.channelCount,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
 /**
  * AudioRecorder for capturing microphone audio and converting to PCM format.
  *
@@ -33,8 +48,8 @@ import type {
  * // Start recording
  * await recorder.start();
  *
- * // Stop recording
- * recorder.stop();
+ * // Stop recording; resolves once the last chunk has been delivered
+ * await recorder.stop();
  *
  * // Clean up when done
  * recorder.destroy();
@@ -47,6 +62,7 @@ export class AudioRecorder {
   };
 
   private resources: AudioResources | null = null;
+  private deviceId = '';
   private onAudioChunk: AudioChunkCallback;
   private onStateChange: StateChangeCallback | null;
 
@@ -85,6 +101,15 @@ export class AudioRecorder {
     return this.state.error;
   }
 
+  /**
+   * Sets the preferred microphone. Takes effect on the next start().
+   *
+   * @param deviceId - Device ID from enumerateDevices(), or empty for the system default
+   */
+  public setInputDevice(deviceId: string): void {
+    this.deviceId = deviceId;
+  }
+
   /**
    * Updates the internal state and notifies listeners.
    */
@@ -94,24 +119,117 @@ export class AudioRecorder {
   }
 
   /**
-   * Cleans up all audio resources.
+   * Disconnects audio nodes, stops the microphone and closes the AudioContext.
    */
-  private cleanupResources(): void {
-    if (!this.resources) return;
-
+  private releaseResources(resources: AudioResources): void {
     // Disconnect and close audio nodes
-    this.resources.processorNode.disconnect();
-    this.resources.sourceNode.disconnect();
+    resources.processorNode.port.onmessage = null;
+    resources.processorNode.disconnect();
+    resources.sourceNode.disconnect();
 
     // Stop all media stream tracks
-    this.resources.stream.getTracks().forEach((track: MediaStreamTrack) => {
+    resources.stream.getTracks().forEach((track: MediaStreamTrack) => {
       track.stop();
     });
 
     // Close the AudioContext
-    void this.resources.audioContext.close();
+    void resources.audioContext.close();
+  }
 
-    this.resources = null;
+  /**
+   * Requests microphone access, preferring the selected device.
+   * Falls back to the system default if the selected device is gone.
+   */
+  private async openStream(): Promise<MediaStream> {
+    if (this.deviceId) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({
+          audio: { ...CAPTURE_CONSTRAINTS, deviceId: { exact: this.deviceId } },
+        });
+      } catch (err) {
+        const missing = err instanceof DOMException &&
+          ['NotFoundError', 'OverconstrainedError', 'NotReadableError'].includes(err.name);
+        if (!missing) {
+          throw err;
+        }
+        console.warn('[AudioRecorder] Selected microphone unavailable, using system default:', {
+          deviceId: this.deviceId,
+          error: err.name,
+        });
+      }
+    }
+
+    console.log('[AudioRecorder] Requesting microphone access with constraints:', CAPTURE_CONSTRAINTS);
+    return navigator.mediaDevices.getUserMedia({ audio: CAPTURE_CONSTRAINTS });
+  }
+
+  /**
+   * Switches to the system default microphone when the current one ends
+   * (e.g. a headset is unplugged) while recording.
+   */
+  private watchForUnplug(resources: AudioResources): void {
+    const [track] = resources.stream.getAudioTracks();
+    if (!track) return;
+
+    track.onended = () => {
+      if (this.resources !== resources) return;
+
+      console.warn('[AudioRecorder] Microphone disconnected, falling back to system default:', track.label);
+      void this.switchToDefaultDevice(resources);
+    };
+  }
+
+  /**
+   * Reconnects the capture graph to the system default microphone,
+   * keeping the AudioContext and worklet so buffered audio is not lost.
+   */
+  private async switchToDefaultDevice(resources: AudioResources): Promise<void> {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: CAPTURE_CONSTRAINTS });
+
+      // Recording may have stopped while waiting for the new device
+      if (this.resources !== resources) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      const sourceNode = resources.audioContext.createMediaStreamSource(stream);
+      resources.sourceNode.disconnect();
+      resources.stream.getTracks().forEach((track) => track.stop());
+      sourceNode.connect(resources.processorNode);
+
+      resources.stream = stream;
+      resources.sourceNode = sourceNode;
+      this.watchForUnplug(resources);
+
+      console.log('[AudioRecorder] Switched to system default microphone:', stream.getAudioTracks()[0]?.label);
+    } catch (err) {
+      console.error('[AudioRecorder] No fallback microphone available:', err);
+      if (this.resources === resources) {
+        void this.stop();
+        this.setState({ error: AUDIO_ERRORS.DEVICE_NOT_AVAILABLE });
+      }
+    }
+  }
+
+  /**
+   * Asks the worklet to post its last partial chunk, then releases the
+   * resources. Gives up after `AUDIO_CONFIG.flushTimeoutMs`.
+   */
+  private async flushAndRelease(resources: AudioResources): Promise<void> {
+    // Stop feeding new audio into the worklet
+    resources.sourceNode.disconnect();
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, AUDIO_CONFIG.flushTimeoutMs);
+      resources.onFlushed = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      resources.processorNode.port.postMessage({ type: 'flush' });
+    });
+
+    this.releaseResources(resources);
   }
 
   /**
@@ -133,6 +251,10 @@ export class AudioRecorder {
     this.setState({ error: null });
     console.log('[AudioRecorder] Previous error cleared');
 
+    // Released in the catch path if a later step fails
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+
     try {
       // Check for AudioContext support
       const AudioContextClass =
@@ -144,24 +266,7 @@ export class AudioRecorder {
         return;
       }
 
-      // Request microphone access with audio constraints
-      console.log('[AudioRecorder] Requesting microphone access with constraints:', {
-        sampleRate: AUDIO_CONFIG.sampleRate,
-        channelCount: AUDIO_CONFIG.channelCount,
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      });
-
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: AUDIO_CONFIG.sampleRate,
-          channelCount: AUDIO_CONFIG.channelCount,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
+      stream = await this.openStream();
 
       console.log('[AudioRecorder] Microphone access granted, stream:', {
         id: stream.id,
@@ -176,7 +281,7 @@ export class AudioRecorder {
       });
 
       // Create AudioContext with desired sample rate
-      const audioContext = new AudioContextClass({
+      audioContext = new AudioContextClass({
         sampleRate: AUDIO_CONFIG.sampleRate,
       });
 
@@ -187,6 +292,14 @@ export class AudioRecorder {
         outputLatency: audioContext.outputLatency
       });
 
+      // The requested rate is only a hint; the worklet resamples whatever we got
+      if (audioContext.sampleRate !== AUDIO_CONFIG.sampleRate) {
+        console.warn('[AudioRecorder] AudioContext ignored the requested sample rate, resampling:', {
+          requested: AUDIO_CONFIG.sampleRate,
+          actual: audioContext.sampleRate,
+        });
+      }
+
       // Ensure AudioContext is running
       if (audioContext.state === 'suspended') {
         console.log('[AudioRecorder] AudioContext is suspended, attempting to resume...');
@@ -197,55 +310,43 @@ export class AudioRecorder {
       // Create source node from media stream
       const sourceNode = audioContext.createMediaStreamSource(stream);
 
-      // Create ScriptProcessorNode for audio processing
-      // Note: ScriptProcessorNode is deprecated but still widely supported
-      // AudioWorklet would be the modern replacement but requires more setup
-      const processorNode = audioContext.createScriptProcessor(
-        AUDIO_CONFIG.bufferSize,
-        AUDIO_CONFIG.channelCount, // input channels
-        AUDIO_CONFIG.channelCount // output channels
-      );
-
-      // Store callback reference for closure
-      const onChunk = this.onAudioChunk;
-
-      // Set up audio processing callback
-      processorNode.onaudioprocess = (event: AudioProcessingEvent): void => {
-        // Get audio data from input buffer (channel 0 = mono)
-        const inputData = event.inputBuffer.getChannelData(0);
-
-        // Debug: log audio data info
-        console.log('[AudioRecorder] Audio process callback:', {
-          sampleCount: inputData.length,
-          firstSample: inputData.length > 0 ? inputData[0] : null,
-          hasData: inputData.length > 0
-        });
-
-        // Convert Float32 audio to PCM 16-bit ArrayBuffer
-        const pcmBuffer = float32ToArrayBuffer(inputData);
-
-        // Debug: log PCM buffer info
-        console.log('[AudioRecorder] PCM buffer created:', {
-          byteLength: pcmBuffer.byteLength,
-          hasData: pcmBuffer.byteLength > 0
-        });
-
-        // Send chunk to callback
-        onChunk(pcmBuffer);
-      };
+      // Load the capture worklet and create its node
+      await audioContext.audioWorklet.addModule(captureWorkletUrl);
+      const processorNode = new AudioWorkletNode(audioContext, AUDIO_CONFIG.workletProcessorName, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: AUDIO_CONFIG.channelCount,
+        channelCountMode: 'explicit',
+      });
 
       // Connect the audio graph: source -> processor -> destination
       sourceNode.connect(processorNode);
-      // Connect to destination to ensure onaudioprocess fires
-      // The audio won't actually play because we're not outputting anything meaningful
+      // Connect to destination so the graph keeps pulling audio through the worklet
+      // The worklet writes no output, so nothing is played
       processorNode.connect(audioContext.destination);
 
       // Store resources for cleanup
-      this.resources = {
+      const resources: AudioResources = {
         stream,
         audioContext,
         sourceNode,
         processorNode,
+        onFlushed: null,
+      };
+      this.resources = resources;
+
+      this.watchForUnplug(resources);
+
+      // Store callback reference for closure
+      const onChunk = this.onAudioChunk;
+
+      // Chunks arrive already converted to PCM 16-bit and batched to chunkInterval
+      processorNode.port.onmessage = (event: MessageEvent<CaptureWorkletMessage>): void => {
+        if (event.data.type === 'chunk') {
+          onChunk(event.data.buffer);
+        } else if (event.data.type === 'flushed') {
+          resources.onFlushed?.();
+        }
       };
 
       console.log('[AudioRecorder] Resources created and connected:', {
@@ -289,28 +390,38 @@ export class AudioRecorder {
         });
       }
 
-      // Clean up any partially created resources
-      this.cleanupResources();
+      // Release the microphone and AudioContext opened before the failure
+      stream?.getTracks().forEach((track: MediaStreamTrack) => {
+        track.stop();
+      });
+      void audioContext?.close();
     }
   }
 
   /**
    * Stops the current recording.
+   *
+   * @returns Promise that resolves once the last partial chunk has been
+   *   delivered and the microphone released
    */
-  public stop(): void {
+  public async stop(): Promise<void> {
     if (!this.state.isRecording) {
       return;
     }
 
-    this.cleanupResources();
+    const resources = this.resources;
+    this.resources = null;
     this.setState({ isRecording: false });
+    if (resources) {
+      await this.flushAndRelease(resources);
+    }
   }
 
   /**
    * Cleans up all resources. Call this when the recorder is no longer needed.
    */
   public destroy(): void {
-    this.stop();
+    void this.stop();
     this.onStateChange = null;
   }
 }
@@ -2,5 +2,14 @@
  * ASR library exports.
  */
 
-export { float32ToInt16, int16ToArrayBuffer, float32ToArrayBuffer } from './pcm-converter';
+export {
+  float32ToInt16,
+  int16ToArrayBuffer,
+  float32ToArrayBuffer,
+  writeFloat32AsInt16,
+} from './pcm-converter';
+export { Resampler } from './resampler';
 export { AudioRecorder } from './audio-recorder';
+export { listAudioInputDevices, watchAudioInputDevices } from './audio-devices';
+export { VoiceActivityGate, chunkLevelDb } from './voice-activity-gate';
+export type { VoiceActivityGateOptions } from './voice-activity-gate';
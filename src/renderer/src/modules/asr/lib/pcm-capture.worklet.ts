@@ -0,0 +1,98 @@
+/**
+ * PCM capture AudioWorklet processor.
+ * Runs on the audio rendering thread: resamples input from the context's
+ * actual rate to `AUDIO_CONFIG.sampleRate`, converts it to PCM 16-bit and
+ * posts it to the main thread in fixed-size chunks of
+ * `AUDIO_CONFIG.chunkInterval` milliseconds.
+ *
+ * Loaded with `audioContext.audioWorklet.addModule()`, so it must not
+ * depend on DOM globals.
+ */
+
+import { AUDIO_CONFIG } from '../constants';
+import { writeFloat32AsInt16 } from './pcm-converter';
+import { Resampler } from './resampler';
+import type { CaptureWorkletCommand, CaptureWorkletMessage } from '../types';
+
+// ============ AudioWorkletGlobalScope declarations ============
+// The DOM lib does not describe the worklet scope; declare what is used here.
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+declare function registerProcessor(
+  name: string,
+  processorCtor: new () => AudioWorkletProcessor
+): void;
+
+/** Sample rate of the owning AudioContext */
+declare const sampleRate: number;
+
+// ============ Processor ============
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  // The context may not run at the requested rate, so always resample
+  private resampler = new Resampler(sampleRate, AUDIO_CONFIG.sampleRate);
+  private buffer = new Int16Array(
+    Math.round((AUDIO_CONFIG.sampleRate * AUDIO_CONFIG.chunkInterval) / 1000)
+  );
+  private filled = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<CaptureWorkletCommand>): void => {
+      if (event.data.type === 'flush') {
+        this.write(this.resampler.flush());
+        this.postChunk();
+        this.post({ type: 'flushed' });
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // Channel 0 only - capture is mono
+    const samples = inputs[0]?.[0];
+    if (samples) {
+      this.write(this.resampler.process(samples));
+    }
+    return true;
+  }
+
+  /**
+   * Append output-rate samples, posting each chunk as it fills up.
+   */
+  private write(samples: Float32Array): void {
+    // A render quantum rarely divides the chunk size evenly
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(samples.length - offset, this.buffer.length - this.filled);
+      writeFloat32AsInt16(samples.subarray(offset, offset + count), this.buffer, this.filled);
+      this.filled += count;
+      offset += count;
+
+      if (this.filled === this.buffer.length) {
+        this.postChunk();
+      }
+    }
+  }
+
+  /**
+   * Post the buffered samples, transferring ownership of the memory.
+   */
+  private postChunk(): void {
+    if (this.filled === 0) {
+      return;
+    }
+
+    const buffer = this.buffer.slice(0, this.filled).buffer;
+    this.filled = 0;
+    this.post({ type: 'chunk', buffer }, [buffer]);
+  }
+
+  private post(message: CaptureWorkletMessage, transfer: Transferable[] = []): void {
+    this.port.postMessage(message, transfer);
+  }
+}
+
+registerProcessor(AUDIO_CONFIG.workletProcessorName, PcmCaptureProcessor);
@@ -3,6 +3,28 @@
  * Converts audio data between Float32 (Web Audio API format) and Int16 (PCM format).
  */
 
+/**
+ * Writes Float32 audio samples into an existing Int16Array.
+ * Allocation-free variant used by the capture worklet's audio thread.
+ *
+ * @param source - Audio samples in Float32 format (-1.0 to 1.0)
+ * @param target - Destination Int16 buffer
+ * @param offset - Index in the target to start writing at
+ */
+export function writeFloat32AsInt16(
+  source: Float32Array,
+  target: Int16Array,
+  offset = 0
+): void {
+  for (let i = 0; i < source.length; i++) {
+    // Clamp value to [-1.0, 1.0] range
+    const sample = Math.max(-1, Math.min(1, source[i]));
+    // Convert to 16-bit integer range
+    // Use 0x7fff (32767) instead of 0x8000 (32768) to avoid overflow
+    target[offset + i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+}
+
 /**
  * Converts Float32Array audio samples to Int16Array.
  * Web Audio API uses Float32 samples in range [-1.0, 1.0].
@@ -13,35 +35,7 @@
  */
 export function float32ToInt16(float32Array: Float32Array): Int16Array {
   const int16Array = new Int16Array(float32Array.length);
-
-  // Debug: check input data
-  if (float32Array.length > 0) {
-    console.log('[PCM Converter] float32ToInt16:', {
-      inputLength: float32Array.length,
-      firstSample: float32Array[0],
-      minSample: Math.min(...float32Array),
-      maxSample: Math.max(...float32Array)
-    });
-  }
-
-  for (let i = 0; i < float32Array.length; i++) {
-    // Clamp value to [-1.0, 1.0] range
-    const sample = Math.max(-1, Math.min(1, float32Array[i]));
-    // Convert to 16-bit integer range
-    // Use 0x7fff (32767) instead of 0x8000 (32768) to avoid overflow
-    int16Array[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-  }
-
-  // Debug: check output data
-  if (int16Array.length > 0) {
-    console.log('[PCM Converter] float32ToInt16 output:', {
-      outputLength: int16Array.length,
-      firstSample: int16Array[0],
-      minSample: Math.min(...int16Array),
-      maxSample: Math.max(...int16Array)
-    });
-  }
-
+  writeFloat32AsInt16(float32Array, int16Array);
   return int16Array;
 }
 
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Resampler } from './resampler';
+
+const OUTPUT_RATE = 16000;
+
+/** Length of the synthetic test signals */
+const SIGNAL_SECONDS = 0.5;
+
+/** Block size of the capture worklet */
+const BLOCK_SIZE = 128;
+
+/** Output samples skipped at each end, where the kernel overlaps the signal edges */
+const EDGE_SAMPLES = 200;
+
+function sine(frequency: number, rate: number, amplitude: number): Float32Array {
+  const samples = new Float32Array(Math.round(SIGNAL_SECONDS * rate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / rate);
+  }
+  return samples;
+}
+
+/**
+ * Resample a whole signal block by block, as the worklet does.
+ */
+function resample(input: Float32Array, inputRate: number): Float32Array {
+  const resampler = new Resampler(inputRate, OUTPUT_RATE);
+  const blocks: Float32Array[] = [];
+  for (let offset = 0; offset < input.length; offset += BLOCK_SIZE) {
+    blocks.push(resampler.process(input.subarray(offset, offset + BLOCK_SIZE)));
+  }
+  blocks.push(resampler.flush());
+
+  const output = new Float32Array(blocks.reduce((total, block) => total + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    output.set(block, offset);
+    offset += block.length;
+  }
+  return output;
+}
+
+/**
+ * Amplitude of one frequency component (Goertzel algorithm), measured
+ * away from the signal edges.
+ */
+function toneAmplitude(samples: Float32Array, frequency: number, rate: number): number {
+  const window = samples.subarray(EDGE_SAMPLES, samples.length - EDGE_SAMPLES);
+  const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / rate);
+
+  let previous = 0;
+  let beforePrevious = 0;
+  for (const sample of window) {
+    const current = sample + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  const power = previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+  return (2 * Math.sqrt(Math.max(0, power))) / window.length;
+}
+
+function decibels(ratio: number): number {
+  return 20 * Math.log10(ratio);
+}
+
+describe('Resampler', () => {
+  describe.each([44100, 48000, 8000])('%i Hz to 16 kHz', (inputRate) => {
+    it('produces one output sample per output period', () => {
+      const input = sine(1000, inputRate, 0.5);
+      const output = resample(input, inputRate);
+
+      const expected = (input.length * OUTPUT_RATE) / inputRate;
+      expect(Math.abs(output.length - expected)).toBeLessThanOrEqual(1);
+    });
+
+    it('keeps the amplitude of a passband tone', () => {
+      const output = resample(sine(1000, inputRate, 0.5), inputRate);
+
+      expect(toneAmplitude(output, 1000, OUTPUT_RATE)).toBeCloseTo(0.5, 2);
+    });
+  });
+
+  describe.each([44100, 48000])('%i Hz to 16 kHz', (inputRate) => {
+    it('attenuates a tone above the output Nyquist frequency', () => {
+      // 12 kHz would alias to 4 kHz without the low-pass filter
+      const output = resample(sine(12000, inputRate, 0.5), inputRate);
+
+      expect(decibels(toneAmplitude(output, 4000, OUTPUT_RATE) / 0.5)).toBeLessThan(-60);
+    });
+  });
+
+  describe('8 kHz to 16 kHz', () => {
+    it('attenuates the image of a passband tone', () => {
+      // Upsampling a 1 kHz tone mirrors it to 7 kHz without interpolation
+      const output = resample(sine(1000, 8000, 0.5), 8000);
+
+      expect(decibels(toneAmplitude(output, 7000, OUTPUT_RATE) / 0.5)).toBeLessThan(-60);
+    });
+  });
+
+  it('passes samples through unchanged when the rates match', () => {
+    const input = sine(1000, OUTPUT_RATE, 0.5);
+    const resampler = new Resampler(OUTPUT_RATE, OUTPUT_RATE);
+
+    expect(resampler.process(input)).toEqual(input);
+    expect(resampler.flush()).toHaveLength(0);
+  });
+});
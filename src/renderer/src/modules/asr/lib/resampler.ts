@@ -0,0 +1,161 @@
+/**
+ * Streaming audio resampler.
+ * Converts Float32 audio between sample rates with windowed-sinc
+ * interpolation. When downsampling, the sinc kernel is narrowed to the
+ * output Nyquist frequency so it doubles as the anti-alias low-pass filter.
+ *
+ * Runs inside the capture AudioWorklet, so it must not depend on DOM globals.
+ */
+
+/** Zero crossings of the sinc kernel on each side of the output sample */
+const KERNEL_ZERO_CROSSINGS = 8;
+
+/**
+ * Fraction of the output Nyquist frequency kept by the low-pass filter.
+ * The remainder is the transition band, which keeps aliasing out of the
+ * speech band without a very long kernel.
+ */
+const PASSBAND_RATIO = 0.9;
+
+/**
+ * Normalized sinc: sin(πx) / (πx).
+ */
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1;
+  }
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+/**
+ * Blackman window over [-1, 1], zero outside.
+ */
+function blackman(x: number): number {
+  if (x <= -1 || x >= 1) {
+    return 0;
+  }
+  const phase = Math.PI * (x + 1);
+  return 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+}
+
+/**
+ * Streaming resampler for mono Float32 audio.
+ *
+ * Input may arrive in blocks of any size; filter state is carried between
+ * calls so block boundaries are seamless. Output lags the input by half
+ * the kernel width; call `flush()` at the end of the stream to drain it.
+ *
+ * @example
+ * ```typescript
+ * const resampler = new Resampler(48000, 16000);
+ * const out = resampler.process(block); // ~block.length / 3 samples
+ * const tail = resampler.flush();
+ * ```
+ */
+export class Resampler {
+  /** Input samples advanced per output sample */
+  private readonly step: number;
+  /** Low-pass cutoff relative to the input Nyquist frequency (0-1] */
+  private readonly cutoff: number;
+  /** Kernel half-width in input samples */
+  private readonly halfWidth: number;
+  /** Input samples not yet fully consumed by the kernel */
+  private history: Float32Array;
+  /** Position of the next output sample, in history sample coordinates */
+  private position: number;
+
+  /**
+   * @param inputRate - Sample rate of the incoming audio (Hz)
+   * @param outputRate - Sample rate to produce (Hz)
+   */
+  constructor(
+    readonly inputRate: number,
+    readonly outputRate: number
+  ) {
+    if (!(inputRate > 0) || !(outputRate > 0)) {
+      throw new Error(`Invalid sample rates: ${inputRate} -> ${outputRate}`);
+    }
+
+    this.step = inputRate / outputRate;
+    this.cutoff = Math.min(1, outputRate / inputRate) * (inputRate > outputRate ? PASSBAND_RATIO : 1);
+    this.halfWidth = Math.ceil(KERNEL_ZERO_CROSSINGS / this.cutoff);
+
+    // Leading silence lets the first output sample line up with the first input sample
+    this.history = new Float32Array(this.halfWidth);
+    this.position = this.halfWidth;
+  }
+
+  /**
+   * Whether the rates match and samples pass through unchanged.
+   */
+  get isPassthrough(): boolean {
+    return this.inputRate === this.outputRate;
+  }
+
+  /**
+   * Resample the next block of input.
+   *
+   * @param input - Audio samples at the input rate
+   * @returns Audio samples at the output rate (possibly empty)
+   */
+  process(input: Float32Array): Float32Array {
+    if (this.isPassthrough) {
+      return input.slice();
+    }
+
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    // Only emit samples whose whole kernel is covered by the buffer
+    const available = Math.max(0, Math.ceil((buffer.length - this.halfWidth - this.position) / this.step));
+    const output = new Float32Array(available);
+
+    for (let i = 0; i < available; i++) {
+      output[i] = this.interpolate(buffer, this.position);
+      this.position += this.step;
+    }
+
+    // Keep everything the next output sample's kernel still reaches
+    const consumed = Math.max(0, Math.floor(this.position) - this.halfWidth);
+    this.history = buffer.slice(consumed);
+    this.position -= consumed;
+
+    return output;
+  }
+
+  /**
+   * Drain the samples held back by the kernel and reset the stream.
+   *
+   * @returns Remaining output samples
+   */
+  flush(): Float32Array {
+    if (this.isPassthrough) {
+      return new Float32Array(0);
+    }
+
+    // Emit only up to the last real input sample, not the padding itself
+    const remaining = Math.max(0, Math.ceil((this.history.length - this.position) / this.step));
+    const tail = this.process(new Float32Array(this.halfWidth)).subarray(0, remaining);
+
+    this.history = new Float32Array(this.halfWidth);
+    this.position = this.halfWidth;
+    return tail;
+  }
+
+  /**
+   * Windowed-sinc value of the signal at a fractional position.
+   */
+  private interpolate(buffer: Float32Array, position: number): number {
+    const first = Math.max(0, Math.ceil(position - this.halfWidth));
+    const last = Math.min(buffer.length - 1, Math.floor(position + this.halfWidth));
+
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      const distance = position - k;
+      sum += buffer[k] * sinc(this.cutoff * distance) * blackman(distance / this.halfWidth);
+    }
+    return sum * this.cutoff;
+  }
+}
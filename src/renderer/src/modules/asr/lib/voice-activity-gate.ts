@@ -0,0 +1,154 @@
+/**
+ * Voice activity gate.
+ * Energy-based VAD stage between the AudioRecorder and the main process:
+ * drops leading and trailing silence, and reports when the speaker has been
+ * silent long enough to end the session.
+ */
+
+import { AUDIO_CONFIG, VAD_CONFIG } from '../constants';
+import type { AudioChunkCallback } from '../types';
+
+/**
+ * Voice activity gate options.
+ */
+export interface VoiceActivityGateOptions {
+  /** Drop silence before the first and after the last speech (default: true) */
+  trimSilence?: boolean;
+  /** Chunks louder than this RMS level (dBFS) count as speech */
+  thresholdDb?: number;
+  /** Audio kept before the first speech chunk (ms) */
+  preRollMs?: number;
+  /** Silence still sent after speech (ms) */
+  hangoverMs?: number;
+  /** Silence after speech that triggers onSilenceTimeout (ms, 0 = disabled) */
+  autoStopMs?: number;
+  /** Called once when autoStopMs of silence follows speech */
+  onSilenceTimeout?: () => void;
+}
+
+/**
+ * RMS level of a PCM 16-bit chunk in dBFS.
+ */
+export function chunkLevelDb(chunk: ArrayBuffer): number {
+  const samples = new Int16Array(chunk);
+  if (samples.length === 0) {
+    return -Infinity;
+  }
+
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] / 0x8000;
+    sumSquares += sample * sample;
+  }
+  return 10 * Math.log10(sumSquares / samples.length);
+}
+
+/**
+ * Gates PCM 16-bit chunks by loudness.
+ *
+ * Silent chunks after speech are held back rather than dropped: if speech
+ * resumes they are released in order so pauses inside an utterance are
+ * preserved, and if it does not they are never sent. Create one gate per
+ * recording session.
+ *
+ * @example
+ * ```typescript
+ * const gate = new VoiceActivityGate((chunk) => window.api.asr.sendAudio(chunk), {
+ *   autoStopMs: 1500,
+ *   onSilenceTimeout: () => window.api.asr.autoStop(),
+ * });
+ * const recorder = new AudioRecorder((chunk) => gate.process(chunk));
+ * ```
+ */
+export class VoiceActivityGate {
+  private readonly trimSilence: boolean;
+  private readonly thresholdDb: number;
+  private readonly preRollChunks: number;
+  private readonly hangoverChunks: number;
+  private readonly autoStopChunks: number;
+  private readonly onSilenceTimeout: (() => void) | null;
+
+  /** Whether speech has been detected in this session */
+  private speechStarted = false;
+  /** Consecutive silent chunks since the last speech */
+  private silentChunks = 0;
+  /** Silent chunks not sent yet (pre-roll before speech, held silence after) */
+  private held: ArrayBuffer[] = [];
+  private timedOut = false;
+
+  /**
+   * @param onChunk - Receives the chunks that pass the gate
+   * @param options - Detection and trimming options
+   */
+  constructor(
+    private readonly onChunk: AudioChunkCallback,
+    options: VoiceActivityGateOptions = {}
+  ) {
+    const toChunks = (ms: number) => Math.ceil(ms / AUDIO_CONFIG.chunkInterval);
+
+    this.trimSilence = options.trimSilence ?? true;
+    this.thresholdDb = options.thresholdDb ?? VAD_CONFIG.thresholdDb;
+    this.preRollChunks = toChunks(options.preRollMs ?? VAD_CONFIG.preRollMs);
+    this.hangoverChunks = toChunks(options.hangoverMs ?? VAD_CONFIG.hangoverMs);
+    this.autoStopChunks = toChunks(options.autoStopMs ?? 0);
+    this.onSilenceTimeout = options.onSilenceTimeout ?? null;
+  }
+
+  /**
+   * Whether any speech has been detected so far.
+   */
+  get hasSpeech(): boolean {
+    return this.speechStarted;
+  }
+
+  /**
+   * Feed the next chunk from the recorder.
+   */
+  process(chunk: ArrayBuffer): void {
+    const isSpeech = chunkLevelDb(chunk) >= this.thresholdDb;
+
+    if (isSpeech) {
+      this.speechStarted = true;
+      this.silentChunks = 0;
+      this.release();
+      this.onChunk(chunk);
+      return;
+    }
+
+    this.silentChunks++;
+
+    if (!this.trimSilence) {
+      this.onChunk(chunk);
+    } else if (!this.speechStarted) {
+      // Leading silence: keep only the pre-roll
+      this.held.push(chunk);
+      if (this.held.length > this.preRollChunks) {
+        this.held.shift();
+      }
+    } else if (this.silentChunks <= this.hangoverChunks) {
+      this.onChunk(chunk);
+    } else {
+      this.held.push(chunk);
+    }
+
+    if (
+      this.speechStarted &&
+      this.autoStopChunks > 0 &&
+      this.silentChunks >= this.autoStopChunks &&
+      !this.timedOut
+    ) {
+      this.timedOut = true;
+      this.onSilenceTimeout?.();
+    }
+  }
+
+  /**
+   * Send held chunks ahead of newly detected speech.
+   */
+  private release(): void {
+    for (const chunk of this.held) {
+      this.onChunk(chunk);
+    }
+    this.held = [];
+  }
+}
@@ -32,6 +32,22 @@ export interface AudioResources {
   audioContext: AudioContext;
   /** Source node from the media stream */
   sourceNode: MediaStreamAudioSourceNode;
-  /** Processor node for capturing audio data */
-  processorNode: ScriptProcessorNode;
+  /** Worklet node converting and batching audio off the main thread */
+  processorNode: AudioWorkletNode;
+  /** Called when the worklet confirms a flush, set while stopping */
+  onFlushed: (() => void) | null;
 }
+
+/**
+ * Message posted from the capture worklet to the main thread.
+ */
+export type CaptureWorkletMessage =
+  /** A batch of PCM 16-bit samples */
+  | { type: 'chunk'; buffer: ArrayBuffer }
+  /** All buffered samples have been posted in response to a flush request */
+  | { type: 'flushed' };
+
+/**
+ * Message posted from the main thread to the capture worklet.
+ */
+export type CaptureWorkletCommand = { type: 'flush' };
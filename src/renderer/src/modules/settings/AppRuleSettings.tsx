@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import type { AppRule, TextCasing } from '../../../../shared/types/app-rule';
+import type { InsertMethod } from '../../../../shared/types/profile';
+import type { PromptTemplate } from '../../../../shared/types/prompt-template';
+
+// Editable rule - apps are edited as free text and split on save
+type AppRuleRow = Omit<AppRule, 'apps'> & { appsText: string };
+
+const insertMethodOptions: { value: InsertMethod | ''; label: string }[] = [
+  { value: '', label: '跟随听写配置' },
+  { value: 'auto', label: '自动（跟随系统）' },
+  { value: 'type', label: '模拟键入' },
+  { value: 'paste', label: '粘贴' },
+  { value: 'clipboard', label: '仅复制到剪贴板' },
+];
+
+const llmEnabledOptions: { value: '' | 'on' | 'off'; label: string }[] = [
+  { value: '', label: '跟随听写配置（设置了提示词时开启）' },
+  { value: 'on', label: '开启' },
+  { value: 'off', label: '关闭' },
+];
+
+const casingOptions: { value: TextCasing; label: string }[] = [
+  { value: 'none', label: '不转换' },
+  { value: 'lower', label: '全部小写' },
+  { value: 'camel', label: 'camelCase' },
+  { value: 'snake', label: 'snake_case' },
+  { value: 'kebab', label: 'kebab-case' },
+];
+
+const toRow = ({ apps, ...rule }: AppRule): AppRuleRow => ({
+  ...rule,
+  appsText: apps.join(', '),
+});
+
+const toRule = ({ appsText, ...row }: AppRuleRow): AppRule => ({
+  ...row,
+  apps: appsText
+    .split(/[,，\n]/)
+    .map(app => app.trim())
+    .filter(app => app.length > 0),
+});
+
+const createRow = (): AppRuleRow => ({
+  id: crypto.randomUUID(),
+  name: '',
+  enabled: true,
+  appsText: '',
+  llmEnabled: null,
+  promptTemplateId: '',
+  llmPrompt: '',
+  insertMethod: null,
+  stripTrailingPeriod: false,
+  casing: 'none',
+});
+
+export const AppRuleSettings: React.FC = () => {
+  const [rows, setRows] = useState<AppRuleRow[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [recentApps, setRecentApps] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [status, setStatus] = useState<'idle' | 'working' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setIsLoading(true);
+      const [rules, loadedTemplates, apps] = await Promise.all([
+        window.api.appRules.list(),
+        window.api.promptTemplates.list(),
+        window.api.appRules.getRecentApps(),
+      ]);
+      setRows(rules.map(toRow));
+      setTemplates(loadedTemplates);
+      setRecentApps(apps);
+    } catch (error) {
+      console.error('Failed to load app rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showMessage = (nextStatus: 'success' | 'error', text: string) => {
+    setStatus(nextStatus);
+    setMessage(text);
+
+    // Clear message after 3 seconds
+    setTimeout(() => {
+      setStatus('idle');
+      setMessage('');
+    }, 3000);
+  };
+
+  const handleChange = (id: string, changes: Partial<AppRuleRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const handleAddApp = (row: AppRuleRow, app: string) => {
+    if (!app) {
+      return;
+    }
+    handleChange(row.id, { appsText: row.appsText.trim() ? `${row.appsText}, ${app}` : app });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    setRows(prev => {
+      const next = [...prev];
+      const [row] = next.splice(index, 1);
+      next.splice(index + offset, 0, row);
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    setRows(prev => [...prev, createRow()]);
+  };
+
+  const handleDelete = (id: string) => {
+    setRows(prev => prev.filter(row => row.id !== id));
+  };
+
+  const handleSave = async () => {
+    try {
+      setStatus('working');
+      const result = await window.api.appRules.save(rows.map(toRule));
+      if (!result.success || !result.rules) {
+        showMessage('error', `保存失败: ${result.error ?? '未知错误'}`);
+        return;
+      }
+      setRows(result.rules.map(toRow));
+      showMessage('success', `应用规则已保存（${result.rules.length} 条），下次听写生效`);
+    } catch (error) {
+      console.error('Failed to save app rules:', error);
+      showMessage('error', '保存失败');
+    }
+  };
+
+  if (isLoading) {
+    return <div className="loading">加载应用规则中...</div>;
+  }
+
+  return (
+    <div className="settings-form">
+      <h2 className="form-title">应用规则</h2>
+      <p className="form-description">
+        按下快捷键时会记录当前应用。规则匹配应用名称或 Bundle ID（macOS）后，可以开关LLM优化、替换LLM提示词和插入方式，
+        并对最终文本做后处理，例如在聊天应用中去掉句末句号、在终端中转换成命令风格。
+        规则按顺序匹配，第一条匹配的规则生效；未设置的项沿用听写配置。
+      </p>
+
+      {rows.map((row, index) => (
+        <div key={row.id} className="profile-card">
+          <div className="profile-card__header">
+            <input
+              type="text"
+              className="form-input"
+              value={row.name}
+              onChange={(e) => handleChange(row.id, { name: e.target.value })}
+              placeholder="规则名称，例如：聊天应用"
+              maxLength={30}
+            />
+            <label htmlFor={`app-rule-enabled-${row.id}`} className="form-toggle">
+              <input
+                id={`app-rule-enabled-${row.id}`}
+                type="checkbox"
+                className="toggle-input"
+                checked={row.enabled}
+                onChange={(e) => handleChange(row.id, { enabled: e.target.checked })}
+              />
+              <span className="toggle-slider"></span>
+            </label>
+            <button className="btn-link" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+              上移
+            </button>
+            <button className="btn-link" onClick={() => handleMove(index, 1)} disabled={index === rows.length - 1}>
+              下移
+            </button>
+            <button className="btn-link" onClick={() => handleDelete(row.id)}>
+              删除
+            </button>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`app-rule-apps-${row.id}`} className="form-label">
+              应用
+              <span className="form-hint">（应用名称或 Bundle ID，逗号分隔）</span>
+            </label>
+            <input
+              id={`app-rule-apps-${row.id}`}
+              type="text"
+              className="form-input"
+              value={row.appsText}
+              onChange={(e) => handleChange(row.id, { appsText: e.target.value })}
+              placeholder="例如：Slack, com.tinyspeck.slackmacgap"
+            />
+            {recentApps.length > 0 && (
+              <select
+                className="form-input profile-card__template"
+                value=""
+                onChange={(e) => handleAddApp(row, e.target.value)}
+              >
+                <option value="">从最近听写过的应用中添加…</option>
+                {recentApps.map(app => (
+                  <option key={app} value={app}>{app}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`app-rule-llm-${row.id}`} className="form-label">LLM优化</label>
+            <select
+              id={`app-rule-llm-${row.id}`}
+              className="form-input"
+              value={row.llmEnabled === null ? '' : row.llmEnabled ? 'on' : 'off'}
+              onChange={(e) => handleChange(row.id, { llmEnabled: e.target.value ? e.target.value === 'on' : null })}
+            >
+              {llmEnabledOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`app-rule-template-${row.id}`} className="form-label">LLM提示词</label>
+            <select
+              id={`app-rule-template-${row.id}`}
+              className="form-input"
+              value={row.promptTemplateId}
+              onChange={(e) => handleChange(row.id, { promptTemplateId: e.target.value })}
+            >
+              <option value="">不使用模板</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>
+                  模板：{template.name}
+                </option>
+              ))}
+            </select>
+            {!row.promptTemplateId && (
+              <textarea
+                className="form-input form-textarea"
+                value={row.llmPrompt}
+                onChange={(e) => handleChange(row.id, { llmPrompt: e.target.value })}
+                placeholder="留空沿用听写配置的提示词"
+                rows={2}
+              />
+            )}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`app-rule-insert-${row.id}`} className="form-label">插入方式</label>
+            <select
+              id={`app-rule-insert-${row.id}`}
+              className="form-input"
+              value={row.insertMethod ?? ''}
+              onChange={(e) => handleChange(row.id, { insertMethod: (e.target.value || null) as InsertMethod | null })}
+            >
+              {insertMethodOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`app-rule-casing-${row.id}`} className="form-label">
+              文本格式
+              <span className="form-hint">（命令风格会把文本转换成一个标识符）</span>
+            </label>
+            <select
+              id={`app-rule-casing-${row.id}`}
+              className="form-input"
+              value={row.casing}
+              onChange={(e) => handleChange(row.id, { casing: e.target.value as TextCasing })}
+            >
+              {casingOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <div className="form-row">
+              <label htmlFor={`app-rule-period-${row.id}`} className="form-label">去掉句末句号</label>
+              <label htmlFor={`app-rule-period-${row.id}`} className="form-toggle">
+                <input
+                  id={`app-rule-period-${row.id}`}
+                  type="checkbox"
+                  className="toggle-input"
+                  checked={row.stripTrailingPeriod}
+                  onChange={(e) => handleChange(row.id, { stripTrailingPeriod: e.target.checked })}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {rows.length === 0 && (
+        <p className="profile-card__empty">暂无应用规则，点击“添加规则”开始</p>
+      )}
+
+      <div className="form-group">
+        <div className="button-group">
+          <button className="btn btn-secondary" onClick={handleAdd}>
+            添加规则
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={status === 'working'}
+          >
+            保存应用规则
+          </button>
+        </div>
+        {message && (
+          <div className={`status-message ${status === 'success' ? 'success' : 'error'}`}>
+            {message}
+          </div>
+        )}
+        <div className="form-help">
+          <p>有后处理（文本格式或去掉句号）的规则会关闭“提前插入”，因为需要完整文本才能处理。</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import type { HistoryEntry } from '../../../../shared/types/history';
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}秒`;
+
+export const HistoryView: React.FC = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [status, setStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    loadEntries(query);
+
+    // Refresh when a dictation finishes while the view is open
+    return window.api.history.onUpdated(() => loadEntries(query));
+  }, [query]);
+
+  const loadEntries = async (search: string) => {
+    try {
+      setEntries(await window.api.history.list(search));
+    } catch (error) {
+      console.error('Failed to load history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showMessage = (nextStatus: 'success' | 'error', text: string) => {
+    setStatus(nextStatus);
+    setMessage(text);
+
+    // Clear message after 3 seconds
+    setTimeout(() => {
+      setStatus('idle');
+      setMessage('');
+    }, 3000);
+  };
+
+  const handleCopy = async (id: string) => {
+    const result = await window.api.history.copy(id);
+    if (result.success) {
+      showMessage('success', '已复制到剪贴板');
+    } else {
+      showMessage('error', `复制失败: ${result.error ?? '未知错误'}`);
+    }
+  };
+
+  const handleReinsert = async (id: string) => {
+    const result = await window.api.history.reinsert(id);
+    if (!result.success) {
+      showMessage('error', `插入失败: ${result.error ?? '未知错误'}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await window.api.history.delete(id);
+    } catch (error) {
+      console.error('Failed to delete history entry:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定要清空全部历史记录吗？')) {
+      return;
+    }
+    try {
+      await window.api.history.clear();
+    } catch (error) {
+      console.error('Failed to clear history:', error);
+    }
+  };
+
+  return (
+    <div className="settings-form">
+      <h2 className="form-title">历史记录</h2>
+      <p className="form-description">
+        每次听写的识别文本、LLM优化文本、目标应用和耗时，仅保存在本机。
+        “插入”会把文本重新输入到切换回的应用光标处。
+      </p>
+
+      <div className="form-group">
+        <input
+          type="search"
+          className="form-input"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索文本或应用名称"
+        />
+      </div>
+
+      <div className="button-group">
+        <button className="btn btn-secondary" onClick={handleClear} disabled={entries.length === 0 || query !== ''}>
+          清空历史记录
+        </button>
+      </div>
+
+      {message && (
+        <div className={`status-message ${status === 'success' ? 'success' : 'error'}`}>
+          {message}
+        </div>
+      )}
+
+      {isLoading && <div className="loading">加载历史记录中...</div>}
+
+      {!isLoading && entries.length === 0 && (
+        <div className="form-help">
+          <p>{query ? '没有匹配的记录。' : '暂无历史记录。'}</p>
+        </div>
+      )}
+
+      {entries.map(entry => (
+        <div key={entry.id} className="history-item">
+          <div className="history-item__header">
+            <span className="history-item__meta">
+              {new Date(entry.createdAt).toLocaleString()} · {formatDuration(entry.durationMs)}
+              {entry.targetApp && ` · ${entry.targetApp.name}`}
+            </span>
+            <span className="history-item__actions">
+              <button className="btn-link btn-link--primary" onClick={() => handleCopy(entry.id)}>
+                复制
+              </button>
+              <button className="btn-link btn-link--primary" onClick={() => handleReinsert(entry.id)}>
+                插入
+              </button>
+              <button className="btn-link" onClick={() => handleDelete(entry.id)}>
+                删除
+              </button>
+            </span>
+          </div>
+          <p className="history-item__text">{entry.optimizedText ?? entry.rawText}</p>
+          {entry.optimizedText !== null && entry.optimizedText !== entry.rawText && (
+            <p className="history-item__text history-item__text--secondary">
+              原始识别: {entry.rawText}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import type { HotkeyResult } from '../../../../shared/types/keyboard';
+
+// Right Ctrl, the recommended trigger
+const DEFAULT_HOTKEY = '3613';
+
+type HotkeyKind = 'trigger' | 'undo';
+
+// The trigger is reset to its default; the undo hotkey is optional and cleared
+const HOTKEY_KINDS: Record<HotkeyKind, {
+  name: string;
+  get: () => Promise<{ label: string } | null>;
+  set: (value: string | null) => Promise<HotkeyResult>;
+  reset: { value: string | null; label: string };
+}> = {
+  trigger: {
+    name: '触发键',
+    get: () => window.api.keyboard.getHotkey(),
+    set: (value) => window.api.keyboard.setHotkey(value ?? DEFAULT_HOTKEY),
+    reset: { value: DEFAULT_HOTKEY, label: '恢复默认' },
+  },
+  undo: {
+    name: '撤销键',
+    get: () => window.api.keyboard.getUndoHotkey(),
+    set: (value) => window.api.keyboard.setUndoHotkey(value),
+    reset: { value: null, label: '清除' },
+  },
+};
+
+type HotkeyCaptureProps = {
+  // Which hotkey to edit (default: the trigger)
+  kind?: HotkeyKind;
+  // Called with the stored binding after a new hotkey has been applied ('' when cleared)
+  onChange: (value: string) => void;
+};
+
+export const HotkeyCapture: React.FC<HotkeyCaptureProps> = ({ kind = 'trigger', onChange }) => {
+  const hotkeyKind = HOTKEY_KINDS[kind];
+  const [label, setLabel] = useState<string>('');
+  const [status, setStatus] = useState<'idle' | 'capturing' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    loadHotkey();
+
+    // Don't leave the keyboard hook swallowing presses after leaving the tab
+    return () => {
+      window.api.keyboard.cancelCapture().catch(() => undefined);
+    };
+  }, []);
+
+  const loadHotkey = async () => {
+    try {
+      const hotkey = await hotkeyKind.get();
+      setLabel(hotkey?.label ?? '');
+    } catch (error) {
+      console.error('Failed to load hotkey:', error);
+    }
+  };
+
+  const showMessage = (nextStatus: 'success' | 'error', text: string) => {
+    setStatus(nextStatus);
+    setMessage(text);
+
+    // Clear message after 3 seconds
+    setTimeout(() => {
+      setStatus('idle');
+      setMessage('');
+    }, 3000);
+  };
+
+  const applyHotkey = async (value: string | null) => {
+    const result = await hotkeyKind.set(value);
+    if (!result.success) {
+      showMessage('error', result.error || '设置快捷键失败');
+      return;
+    }
+
+    if (!result.hotkey) {
+      setLabel('');
+      onChange('');
+      showMessage('success', `已清除${hotkeyKind.name}`);
+      return;
+    }
+
+    setLabel(result.hotkey.label);
+    onChange(result.hotkey.value);
+    showMessage('success', `${hotkeyKind.name}已改为 ${result.hotkey.label}，立即生效`);
+  };
+
+  const handleCapture = async () => {
+    try {
+      setStatus('capturing');
+      setMessage('');
+      const captured = await window.api.keyboard.captureHotkey();
+      if (!captured.success || !captured.hotkey) {
+        setStatus('idle');
+        if (captured.error && captured.error !== '已取消') {
+          showMessage('error', captured.error);
+        }
+        return;
+      }
+      await applyHotkey(captured.hotkey.value);
+    } catch (error) {
+      console.error('Failed to capture hotkey:', error);
+      showMessage('error', '录制快捷键失败');
+    }
+  };
+
+  const handleCancel = () => {
+    window.api.keyboard.cancelCapture().catch((error) => {
+      console.error('Failed to cancel hotkey capture:', error);
+    });
+  };
+
+  const handleReset = async () => {
+    try {
+      await applyHotkey(hotkeyKind.reset.value);
+    } catch (error) {
+      console.error('Failed to reset hotkey:', error);
+      showMessage('error', `${hotkeyKind.reset.label}快捷键失败`);
+    }
+  };
+
+  return (
+    <div className="hotkey-capture">
+      <div className="hotkey-capture__row">
+        <div className={`hotkey-capture__display ${status === 'capturing' ? 'hotkey-capture__display--active' : ''}`}>
+          {status === 'capturing' ? '请按下想要的按键或组合键…（Esc 取消）' : label || '未设置'}
+        </div>
+        {status === 'capturing' ? (
+          <button type="button" className="btn btn-secondary" onClick={handleCancel}>
+            取消
+          </button>
+        ) : (
+          <>
+            <button type="button" className="btn btn-primary" onClick={handleCapture}>
+              录制快捷键
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={handleReset}
+              disabled={kind === 'undo' && !label}
+            >
+              {hotkeyKind.reset.label}
+            </button>
+          </>
+        )}
+      </div>
+
+      {message && (
+        <div className={`status-message ${status === 'error' ? 'error' : 'success'}`}>
+          {message}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import type { DictationProfile, InsertMethod } from '../../../../shared/types/profile';
+import type { PromptTemplate } from '../../../../shared/types/prompt-template';
+
+const insertMethodOptions: { value: InsertMethod; label: string }[] = [
+  { value: 'auto', label: '自动（跟随系统）' },
+  { value: 'type', label: '模拟键入' },
+  { value: 'paste', label: '粘贴' },
+  { value: 'clipboard', label: '仅复制到剪贴板' },
+];
+
+const createProfile = (): DictationProfile => ({
+  id: crypto.randomUUID(),
+  name: '',
+  hotkey: null,
+  asrLanguage: '',
+  llmEnabled: true,
+  llmPrompt: '',
+  promptTemplateId: '',
+  insertMethod: 'auto',
+});
+
+export const ProfileSettings: React.FC = () => {
+  const [profiles, setProfiles] = useState<DictationProfile[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [capturingId, setCapturingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<'idle' | 'working' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    loadProfiles();
+
+    // Don't leave the keyboard hook swallowing presses after leaving the tab
+    return () => {
+      window.api.keyboard.cancelCapture().catch(() => undefined);
+    };
+  }, []);
+
+  const loadProfiles = async () => {
+    try {
+      setIsLoading(true);
+      const [loadedProfiles, loadedTemplates] = await Promise.all([
+        window.api.profiles.list(),
+        window.api.promptTemplates.list(),
+      ]);
+      setProfiles(loadedProfiles);
+      setTemplates(loadedTemplates);
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showMessage = (nextStatus: 'success' | 'error', text: string) => {
+    setStatus(nextStatus);
+    setMessage(text);
+
+    // Clear message after 3 seconds
+    setTimeout(() => {
+      setStatus('idle');
+      setMessage('');
+    }, 3000);
+  };
+
+  const handleChange = (id: string, changes: Partial<DictationProfile>) => {
+    setProfiles(prev => prev.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+  };
+
+  // A deleted template falls back to the profile's own prompt
+  const hasTemplate = (profile: DictationProfile) =>
+    templates.some(template => template.id === profile.promptTemplateId);
+
+  const handleAdd = () => {
+    setProfiles(prev => [...prev, createProfile()]);
+  };
+
+  const handleDelete = (id: string) => {
+    setProfiles(prev => prev.filter(profile => profile.id !== id));
+  };
+
+  const handleCapture = async (id: string) => {
+    try {
+      setCapturingId(id);
+      const captured = await window.api.keyboard.captureHotkey();
+      if (captured.success && captured.hotkey) {
+        handleChange(id, { hotkey: captured.hotkey });
+      } else if (captured.error && captured.error !== '已取消') {
+        showMessage('error', captured.error);
+      }
+    } catch (error) {
+      console.error('Failed to capture hotkey:', error);
+      showMessage('error', '录制快捷键失败');
+    } finally {
+      setCapturingId(null);
+    }
+  };
+
+  const handleCancelCapture = () => {
+    window.api.keyboard.cancelCapture().catch((error) => {
+      console.error('Failed to cancel hotkey capture:', error);
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setStatus('working');
+      const result = await window.api.profiles.save(profiles);
+      if (!result.success || !result.profiles) {
+        showMessage('error', `保存失败: ${result.error ?? '未知错误'}`);
+        return;
+      }
+      setProfiles(result.profiles);
+      showMessage('success', `听写配置已保存（${result.profiles.length} 个），快捷键立即生效`);
+    } catch (error) {
+      console.error('Failed to save profiles:', error);
+      showMessage('error', '保存失败');
+    }
+  };
+
+  if (isLoading) {
+    return <div className="loading">加载听写配置中...</div>;
+  }
+
+  return (
+    <div className="settings-form">
+      <h2 className="form-title">听写配置</h2>
+      <p className="form-description">
+        为不同场景准备不同的听写流程：每个配置有自己的快捷键、识别语言、LLM提示词和插入方式。
+        “键盘快捷键”中设置的触发键继续使用全局设置。
+        启用LLM的配置需要先在“LLM设置”中启用并配置LLM，提示词模板也在“LLM设置”中管理。
+      </p>
+
+      {profiles.map(profile => (
+        <div key={profile.id} className="profile-card">
+          <div className="profile-card__header">
+            <input
+              type="text"
+              className="form-input"
+              value={profile.name}
+              onChange={(e) => handleChange(profile.id, { name: e.target.value })}
+              placeholder="配置名称，例如：翻译成英文"
+              maxLength={30}
+            />
+            <button className="btn-link" onClick={() => handleDelete(profile.id)}>
+              删除
+            </button>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label">快捷键</label>
+            <div className="hotkey-capture__row">
+              <div className={`hotkey-capture__display ${capturingId === profile.id ? 'hotkey-capture__display--active' : ''}`}>
+                {capturingId === profile.id
+                  ? '请按下想要的按键或组合键…（Esc 取消）'
+                  : profile.hotkey?.label || '未设置'}
+              </div>
+              {capturingId === profile.id ? (
+                <button type="button" className="btn btn-secondary" onClick={handleCancelCapture}>
+                  取消
+                </button>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="btn btn-primary"
+                    onClick={() => handleCapture(profile.id)}
+                    disabled={capturingId !== null}
+                  >
+                    录制快捷键
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={() => handleChange(profile.id, { hotkey: null })}
+                    disabled={!profile.hotkey}
+                  >
+                    清除
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`profile-language-${profile.id}`} className="form-label">
+              识别语言
+              <span className="form-hint">（例如 en-US，留空使用API设置中的语言）</span>
+            </label>
+            <input
+              id={`profile-language-${profile.id}`}
+              type="text"
+              className="form-input"
+              value={profile.asrLanguage}
+              onChange={(e) => handleChange(profile.id, { asrLanguage: e.target.value })}
+              placeholder="留空使用API设置"
+            />
+          </div>
+
+          <div className="form-group">
+            <div className="form-row">
+              <label htmlFor={`profile-llm-${profile.id}`} className="form-label">使用LLM优化</label>
+              <label htmlFor={`profile-llm-${profile.id}`} className="form-toggle">
+                <input
+                  id={`profile-llm-${profile.id}`}
+                  type="checkbox"
+                  className="toggle-input"
+                  checked={profile.llmEnabled}
+                  onChange={(e) => handleChange(profile.id, { llmEnabled: e.target.checked })}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </div>
+            {profile.llmEnabled && (
+              <select
+                className="form-input profile-card__template"
+                value={profile.promptTemplateId}
+                onChange={(e) => handleChange(profile.id, { promptTemplateId: e.target.value })}
+              >
+                <option value="">不使用模板（使用下方提示词）</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>
+                    模板：{template.name}
+                  </option>
+                ))}
+                {profile.promptTemplateId && !hasTemplate(profile) && (
+                  <option value={profile.promptTemplateId}>（模板已删除，将使用下方提示词）</option>
+                )}
+              </select>
+            )}
+            {profile.llmEnabled && !hasTemplate(profile) && (
+              <textarea
+                className="form-input form-textarea"
+                value={profile.llmPrompt}
+                onChange={(e) => handleChange(profile.id, { llmPrompt: e.target.value })}
+                placeholder="留空使用LLM设置中的提示词"
+                rows={3}
+              />
+            )}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`profile-insert-${profile.id}`} className="form-label">插入方式</label>
+            <select
+              id={`profile-insert-${profile.id}`}
+              className="form-input"
+              value={profile.insertMethod}
+              onChange={(e) => handleChange(profile.id, { insertMethod: e.target.value as InsertMethod })}
+            >
+              {insertMethodOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      {profiles.length === 0 && (
+        <p className="profile-card__empty">暂无听写配置，点击“添加配置”开始</p>
+      )}
+
+      <div className="form-group">
+        <div className="button-group">
+          <button className="btn btn-secondary" onClick={handleAdd}>
+            添加配置
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={status === 'working' || capturingId !== null}
+          >
+            保存听写配置
+          </button>
+        </div>
+        {message && (
+          <div className={`status-message ${status === 'success' ? 'success' : 'error'}`}>
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
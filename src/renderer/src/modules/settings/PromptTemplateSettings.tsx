@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import type { PromptTemplate, PromptTemplatePreview } from '../../../../shared/types/prompt-template';
+
+const DEFAULT_SAMPLE_TEXT = '嗯那个我们明天下午三点开会吧，然后讨论一下新版本的发布计划';
+
+const createTemplate = (): PromptTemplate => ({
+  id: crypto.randomUUID(),
+  name: '',
+  system: '',
+  user: '{{text}}',
+});
+
+export const PromptTemplateSettings: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [previews, setPreviews] = useState<Record<string, PromptTemplatePreview>>({});
+  const [sampleText, setSampleText] = useState<string>(DEFAULT_SAMPLE_TEXT);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [status, setStatus] = useState<'idle' | 'working' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setIsLoading(true);
+      setTemplates(await window.api.promptTemplates.list());
+    } catch (error) {
+      console.error('Failed to load prompt templates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showMessage = (nextStatus: 'success' | 'error', text: string) => {
+    setStatus(nextStatus);
+    setMessage(text);
+
+    // Clear message after 3 seconds
+    setTimeout(() => {
+      setStatus('idle');
+      setMessage('');
+    }, 3000);
+  };
+
+  const handleChange = (id: string, changes: Partial<PromptTemplate>) => {
+    setTemplates(prev => prev.map(template => (template.id === id ? { ...template, ...changes } : template)));
+  };
+
+  const handleAdd = () => {
+    setTemplates(prev => [...prev, createTemplate()]);
+  };
+
+  const handleDelete = (id: string) => {
+    setTemplates(prev => prev.filter(template => template.id !== id));
+  };
+
+  const handlePreview = async (template: PromptTemplate) => {
+    try {
+      const preview = await window.api.promptTemplates.preview(
+        { system: template.system, user: template.user },
+        sampleText
+      );
+      setPreviews(prev => ({ ...prev, [template.id]: preview }));
+    } catch (error) {
+      console.error('Failed to preview prompt template:', error);
+      showMessage('error', '预览失败');
+    }
+  };
+
+  const handleClosePreview = (id: string) => {
+    setPreviews(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setStatus('working');
+      const result = await window.api.promptTemplates.save(templates);
+      if (!result.success || !result.templates) {
+        showMessage('error', `保存失败: ${result.error ?? '未知错误'}`);
+        return;
+      }
+      setTemplates(result.templates);
+      showMessage('success', `提示词模板已保存（${result.templates.length} 个）`);
+    } catch (error) {
+      console.error('Failed to save prompt templates:', error);
+      showMessage('error', '保存失败');
+    }
+  };
+
+  const handleImport = async () => {
+    setStatus('working');
+    const result = await window.api.promptTemplates.importJson();
+    if (result.canceled) {
+      setStatus('idle');
+      return;
+    }
+    if (result.success && result.templates) {
+      setTemplates(result.templates);
+      showMessage('success', `已导入 ${result.count ?? 0} 个模板`);
+    } else {
+      showMessage('error', `导入失败: ${result.error ?? '未知错误'}`);
+    }
+  };
+
+  const handleExport = async () => {
+    setStatus('working');
+    const result = await window.api.promptTemplates.exportJson();
+    if (result.canceled) {
+      setStatus('idle');
+      return;
+    }
+    if (result.success) {
+      showMessage('success', `已导出 ${result.count ?? 0} 个模板`);
+    } else {
+      showMessage('error', `导出失败: ${result.error ?? '未知错误'}`);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="loading">加载提示词模板中...</div>;
+  }
+
+  return (
+    <div className="prompt-templates">
+      <h3 className="form-subtitle">提示词模板</h3>
+      <p className="form-description">
+        模板分为系统消息和用户消息，可以在“听写配置”中为每个配置选择一个模板。
+        可用变量：<code>{'{{text}}'}</code> 识别文本、<code>{'{{app_name}}'}</code> 当前应用、
+        <code>{'{{language}}'}</code> 识别语言、<code>{'{{date}}'}</code> 今天日期、
+        <code>{'{{clipboard}}'}</code> 剪贴板内容。用户消息必须包含 <code>{'{{text}}'}</code>。
+      </p>
+
+      <div className="form-group">
+        <label htmlFor="prompt-template-sample" className="form-label">
+          预览示例文本
+          <span className="form-hint">（预览时当前应用为 Slack，识别语言为 zh-CN）</span>
+        </label>
+        <input
+          id="prompt-template-sample"
+          type="text"
+          className="form-input"
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+        />
+      </div>
+
+      {templates.map(template => (
+        <div key={template.id} className="profile-card">
+          <div className="profile-card__header">
+            <input
+              type="text"
+              className="form-input"
+              value={template.name}
+              onChange={(e) => handleChange(template.id, { name: e.target.value })}
+              placeholder="模板名称，例如：邮件回复"
+              maxLength={30}
+            />
+            <button className="btn-link" onClick={() => handlePreview(template)}>
+              预览
+            </button>
+            <button className="btn-link" onClick={() => handleDelete(template.id)}>
+              删除
+            </button>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`prompt-template-system-${template.id}`} className="form-label">
+              系统消息
+              <span className="form-hint">（可留空）</span>
+            </label>
+            <textarea
+              id={`prompt-template-system-${template.id}`}
+              className="form-input form-textarea"
+              value={template.system}
+              onChange={(e) => handleChange(template.id, { system: e.target.value })}
+              placeholder="例如：你是一名编辑，只输出整理后的文本。"
+              rows={2}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={`prompt-template-user-${template.id}`} className="form-label">
+              用户消息
+            </label>
+            <textarea
+              id={`prompt-template-user-${template.id}`}
+              className="form-input form-textarea"
+              value={template.user}
+              onChange={(e) => handleChange(template.id, { user: e.target.value })}
+              placeholder="例如：请整理下面的文本：{{text}}"
+              rows={3}
+            />
+          </div>
+
+          {previews[template.id] && (
+            <div className="prompt-template-preview">
+              <div className="prompt-template-preview__header">
+                <span className="form-label">预览</span>
+                <button className="btn-link" onClick={() => handleClosePreview(template.id)}>
+                  关闭
+                </button>
+              </div>
+              {previews[template.id].system && (
+                <>
+                  <div className="prompt-template-preview__role">system</div>
+                  <div className="prompt-template-preview__text">{previews[template.id].system}</div>
+                </>
+              )}
+              <div className="prompt-template-preview__role">user</div>
+              <div className="prompt-template-preview__text">{previews[template.id].user}</div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {templates.length === 0 && (
+        <p className="profile-card__empty">暂无提示词模板，点击“添加模板”开始</p>
+      )}
+
+      <div className="form-group">
+        <div className="button-group">
+          <button className="btn btn-secondary" onClick={handleAdd}>
+            添加模板
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={status === 'working'}
+          >
+            保存模板
+          </button>
+        </div>
+        <div className="button-group">
+          <button
+            className="btn btn-secondary"
+            onClick={handleImport}
+            disabled={status === 'working'}
+          >
+            导入JSON
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={handleExport}
+            disabled={status === 'working'}
+          >
+            导出JSON
+          </button>
+        </div>
+        {message && (
+          <div className={`status-message ${status === 'success' ? 'success' : 'error'}`}>
+            {message}
+          </div>
+        )}
+        <div className="form-help">
+          <p>模板保存后对下一次听写生效。导入时与现有模板合并，同名模板会被覆盖。</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import type { RecordingMetadata } from '../../../../shared/types/recording-archive';
+
+// Result of the latest re-run per recording
+type RerunState = {
+  status: 'running' | 'success' | 'error';
+  text: string;
+};
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}秒`;
+
+export const RecordingArchiveList: React.FC = () => {
+  const [recordings, setRecordings] = useState<RecordingMetadata[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [reruns, setReruns] = useState<Record<string, RerunState>>({});
+
+  useEffect(() => {
+    loadRecordings();
+  }, []);
+
+  const loadRecordings = async () => {
+    try {
+      setIsLoading(true);
+      setRecordings(await window.api.recordingArchive.list());
+    } catch (error) {
+      console.error('Failed to load recordings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRerun = async (id: string) => {
+    setReruns(prev => ({ ...prev, [id]: { status: 'running', text: '' } }));
+    const result = await window.api.recordingArchive.rerun(id);
+    setReruns(prev => ({
+      ...prev,
+      [id]: result.success
+        ? { status: 'success', text: result.text || '（未识别到文本）' }
+        : { status: 'error', text: `重新识别失败: ${result.error ?? '未知错误'}` },
+    }));
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await window.api.recordingArchive.delete(id);
+      setRecordings(prev => prev.filter(recording => recording.id !== id));
+    } catch (error) {
+      console.error('Failed to delete recording:', error);
+    }
+  };
+
+  const isRerunning = Object.values(reruns).some(rerun => rerun.status === 'running');
+
+  if (isLoading) {
+    return <div className="loading">加载录音存档中...</div>;
+  }
+
+  return (
+    <div className="form-group">
+      <div className="button-group">
+        <button className="btn btn-secondary" onClick={loadRecordings}>
+          刷新
+        </button>
+        <button className="btn btn-secondary" onClick={() => window.api.recordingArchive.openFolder()}>
+          打开存档目录
+        </button>
+      </div>
+
+      {recordings.length === 0 && (
+        <div className="form-help">
+          <p>暂无录音存档。</p>
+        </div>
+      )}
+
+      {recordings.map(recording => {
+        const rerun = reruns[recording.id];
+        return (
+          <div key={recording.id} className="recording-item">
+            <div className="recording-item__header">
+              <span className="recording-item__meta">
+                {new Date(recording.createdAt).toLocaleString()} · {formatDuration(recording.audioDurationMs)} · {recording.provider}
+              </span>
+              <span className="recording-item__actions">
+                <button
+                  className="btn-link btn-link--primary"
+                  onClick={() => handleRerun(recording.id)}
+                  disabled={isRerunning}
+                >
+                  {rerun?.status === 'running' ? '识别中...' : '重新识别'}
+                </button>
+                <button
+                  className="btn-link"
+                  onClick={() => handleDelete(recording.id)}
+                  disabled={rerun?.status === 'running'}
+                >
+                  删除
+                </button>
+              </span>
+            </div>
+            <p className="recording-item__text">{recording.finalText || '（无识别结果）'}</p>
+            {recording.optimizedText && recording.optimizedText !== recording.finalText && (
+              <p className="recording-item__text recording-item__text--secondary">
+                LLM优化: {recording.optimizedText}
+              </p>
+            )}
+            <p className="recording-item__timings">
+              录音 {formatDuration(recording.timings.recordingMs)} ·
+              识别 {formatDuration(recording.timings.recognitionMs)}
+              {recording.timings.llmMs !== null && ` · LLM ${formatDuration(recording.timings.llmMs)}`}
+            </p>
+            {rerun && rerun.status !== 'running' && (
+              <div className={`status-message ${rerun.status === 'success' ? 'success' : 'error'}`}>
+                {rerun.status === 'success' ? `重新识别结果: ${rerun.text}` : rerun.text}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
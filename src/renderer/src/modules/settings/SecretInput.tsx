@@ -0,0 +1,37 @@
+import React from 'react';
+import { SECRET_MASK } from '../../../../shared/types/settings';
+
+type SecretInputProps = {
+  id: string;
+  // Saved secrets arrive as SECRET_MASK; sending it back keeps the saved value
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+};
+
+export const SecretInput: React.FC<SecretInputProps> = ({ id, value, onChange, placeholder, disabled }) => {
+  const isSaved = value === SECRET_MASK;
+
+  return (
+    <>
+      <input
+        id={id}
+        type="password"
+        className="form-input"
+        value={value}
+        // Typing replaces the saved secret instead of appending to the mask
+        onFocus={(e) => isSaved && e.target.select()}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoComplete="off"
+      />
+      {isSaved && (
+        <div className="form-help">
+          <p>已加密保存。输入新值可替换，清空后保存将删除。</p>
+        </div>
+      )}
+    </>
+  );
+};
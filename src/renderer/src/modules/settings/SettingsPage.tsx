@@ -1,9 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import './SettingsPage.css';
-import type { EnvConfig as SharedEnvConfig } from '../../../../shared/types/settings';
-
-// Environment configuration - all fields are required in the UI
-type EnvConfig = Required<SharedEnvConfig>;
+import { VocabularySettings } from './VocabularySettings';
+import { VoiceCommandSettings } from './VoiceCommandSettings';
+import { ProfileSettings } from './ProfileSettings';
+import { PromptTemplateSettings } from './PromptTemplateSettings';
+import { AppRuleSettings } from './AppRuleSettings';
+import { RecordingArchiveList } from './RecordingArchiveList';
+import { HistoryView } from './HistoryView';
+import { HotkeyCapture } from './HotkeyCapture';
+import { SecretInput } from './SecretInput';
+import { listAudioInputDevices, watchAudioInputDevices } from '../asr';
+import { settingsSchema } from '../../../../shared/types/settings';
+import type { EnvConfig } from '../../../../shared/types/settings';
+import type { AudioInputDevice } from '../../../../shared/types/audio';
+import type { ASRConnectionTestResult } from '../../../../shared/types/asr';
 
 // Tab definition
 type Tab = {
@@ -14,61 +24,96 @@ type Tab = {
 const tabs: Tab[] = [
   { id: 'api-settings', label: 'API设置' },
   { id: 'keyboard-settings', label: '键盘快捷键' },
+  { id: 'audio-settings', label: '麦克风与静音检测' },
   { id: 'llm-settings', label: 'LLM设置' },
+  { id: 'profiles-settings', label: '听写配置' },
+  { id: 'app-rules-settings', label: '应用规则' },
+  { id: 'vocabulary-settings', label: '词汇表' },
+  { id: 'voice-commands-settings', label: '语音命令' },
+  { id: 'archive-settings', label: '录音存档' },
+  { id: 'history', label: '历史记录' },
   // More tabs can be added in the future
 ];
 
-// Key options for push-to-talk trigger key
-const keyOptions = [
-  { value: '228', label: '右Ctrl键 (推荐)', description: '大多数程序中很少单独使用' },
-  { value: '229', label: '右Shift键', description: '替代选择，通常用于组合键' },
-  { value: '230', label: '右Alt键', description: '可能触发菜单快捷键（原默认）' },
-  { value: '58', label: 'Caps Lock大写锁定', description: '需要小心避免误触切换' },
-  { value: '70', label: 'Scroll Lock滚动锁定', description: '极少使用的功能键' },
-  { value: '69', label: 'Pause/Break暂停键', description: '极少使用的功能键' },
-  { value: '56', label: '左Alt键', description: '可能触发菜单快捷键' },
+// ASR provider options
+const asrProviderOptions = [
+  { value: 'volcengine', label: '火山引擎豆包', description: '流式语音识别大模型（需要APP ID和Access Token）' },
+  { value: 'whisper', label: 'Whisper兼容服务', description: '松开按键后整段识别，音频不出局域网' },
+  { value: 'mock', label: '离线模拟', description: '回放预设文本，无需网络和凭据，用于测试' },
+];
+
+// Volcengine recognition switches
+const asrOptionToggles: { key: 'VOLCENGINE_ASR_ENABLE_PUNC' | 'VOLCENGINE_ASR_ENABLE_ITN' | 'VOLCENGINE_ASR_ENABLE_DDC'; label: string; description: string }[] = [
+  { key: 'VOLCENGINE_ASR_ENABLE_PUNC', label: '自动添加标点', description: '根据语音停顿和语义添加标点符号' },
+  { key: 'VOLCENGINE_ASR_ENABLE_ITN', label: '数字规整 (ITN)', description: '将“一百二十”等转换为“120”' },
+  { key: 'VOLCENGINE_ASR_ENABLE_DDC', label: '口语顺滑 (DDC)', description: '去除语气词和重复词' },
 ];
 
 // LLM model options for volcano engine
-const llmModelOptions = [
-  { value: 'skylark2-pro-32k', label: 'Skylark2 Pro 32K', description: '通用大模型，32K上下文' },
-  { value: 'skylark2-pro-128k', label: 'Skylark2 Pro 128K', description: '通用大模型，128K上下文' },
-  { value: 'skylark2-lite-32k', label: 'Skylark2 Lite 32K', description: '轻量级模型，32K上下文' },
-  { value: 'skylark-chat', label: 'Skylark Chat', description: '对话优化模型' },
-  { value: 'ep-20250730192125-j4n46', label: '自定义模型', description: '自定义端点模型' },
+const llmProviderOptions = [
+  { value: 'volcengine', label: '火山引擎豆包', description: '火山方舟大模型服务（需要API密钥）' },
+  { value: 'openai', label: 'OpenAI兼容服务', description: 'llama.cpp、Ollama等本地或自建服务' },
 ];
 
+// Settings keys holding each provider's connection
+const llmConnectionKeys = {
+  volcengine: {
+    apiKey: 'VOLCENGINE_LLM_API_KEY',
+    model: 'VOLCENGINE_LLM_MODEL',
+    baseURL: 'VOLCENGINE_LLM_BASE_URL',
+  },
+  openai: {
+    apiKey: 'OPENAI_LLM_API_KEY',
+    model: 'OPENAI_LLM_MODEL',
+    baseURL: 'OPENAI_LLM_BASE_URL',
+  },
+} as const;
+
 export const SettingsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<string>('api-settings');
-  const [config, setConfig] = useState<EnvConfig>({
-    VOLCENGINE_APP_ID: '',
-    VOLCENGINE_ACCESS_TOKEN: '',
-    VOLCENGINE_RESOURCE_ID: '',
-    PUSH_TO_TALK_KEY: '228', // Default Right Ctrl
-    VOLCENGINE_LLM_ENABLED: 'false',
-    VOLCENGINE_LLM_API_KEY: '',
-    VOLCENGINE_LLM_MODEL: 'skylark2-pro-32k',
-    VOLCENGINE_LLM_PROMPT: '请将以下口语化的文本优化为书面语，保持原意不变，修正语法错误，使表达更加流畅自然：',
-    VOLCENGINE_LLM_BASE_URL: 'https://ark.cn-beijing.volces.com/api/v3',
-  });
+  const [config, setConfig] = useState<EnvConfig>(() => settingsSchema.parse({}));
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [saveError, setSaveError] = useState<string>('');
   const [defaultStatus, setDefaultStatus] = useState<'idle' | 'applying' | 'success' | 'error'>('idle');
   const [testLLMStatus, setTestLLMStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [testLLMMessage, setTestLLMMessage] = useState<string>('');
+  const [testASRStatus, setTestASRStatus] = useState<'idle' | 'testing' | 'done'>('idle');
+  const [testASRResult, setTestASRResult] = useState<ASRConnectionTestResult | null>(null);
+  const [llmModels, setLLMModels] = useState<string[]>([]);
+  const [llmModelsStatus, setLLMModelsStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [llmModelsMessage, setLLMModelsMessage] = useState<string>('');
+  const [audioDevices, setAudioDevices] = useState<AudioInputDevice[]>([]);
 
   // Load current configuration on mount
   useEffect(() => {
     loadConfig();
   }, []);
 
+  // Keep the microphone list and selection current (devices come and go, the tray can change the selection)
+  useEffect(() => {
+    listAudioInputDevices()
+      .then(setAudioDevices)
+      .catch(error => console.error('Failed to list microphones:', error));
+
+    const unwatch = watchAudioInputDevices(setAudioDevices);
+    const unsubscribe = window.api.audio.onDevicesChanged(state => {
+      setConfig(prev => ({ ...prev, AUDIO_INPUT_DEVICE_ID: state.selectedDeviceId }));
+    });
+
+    return () => {
+      unwatch();
+      unsubscribe();
+    };
+  }, []);
+
   const loadConfig = async () => {
     try {
       setIsLoading(true);
-      const currentConfig = await window.api.settings.getEnvConfig() as EnvConfig;
+      const currentConfig = await window.api.settings.getEnvConfig();
       console.log('Loaded config:', {
         LLM_ENABLED: currentConfig.VOLCENGINE_LLM_ENABLED,
-        LLM_API_KEY: currentConfig.VOLCENGINE_LLM_API_KEY ? '***' : 'empty',
+        LLM_API_KEY: currentConfig.VOLCENGINE_LLM_API_KEY ? 'saved' : 'empty',
       });
       setConfig(currentConfig);
     } catch (error) {
@@ -86,6 +131,16 @@ export const SettingsPage: React.FC = () => {
     }));
   };
 
+  const handleInputDeviceChange = async (deviceId: string) => {
+    handleInputChange('AUDIO_INPUT_DEVICE_ID', deviceId);
+    try {
+      // Applied immediately, no restart or save needed
+      await window.api.audio.setInputDevice(deviceId);
+    } catch (error) {
+      console.error('Failed to set microphone:', error);
+    }
+  };
+
   const handleSave = async () => {
     try {
       setSaveStatus('saving');
@@ -101,6 +156,9 @@ export const SettingsPage: React.FC = () => {
       await loadConfig();
     } catch (error) {
       console.error('Failed to save configuration:', error);
+      // Validation errors arrive wrapped by ipcRenderer.invoke
+      const message = error instanceof Error ? error.message : '';
+      setSaveError(message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
       setSaveStatus('error');
 
       // Clear error message after 3 seconds
@@ -134,6 +192,45 @@ export const SettingsPage: React.FC = () => {
     }
   };
 
+  const llmProvider = config.LLM_PROVIDER === 'openai' ? 'openai' : 'volcengine';
+  const llmKeys = llmConnectionKeys[llmProvider];
+
+  const handleDiscoverModels = async () => {
+    try {
+      setLLMModelsStatus('loading');
+      setLLMModelsMessage('');
+
+      // Use the values on the page, which may not be saved yet
+      const result = await window.api.llm.listModels({
+        provider: llmProvider,
+        apiKey: config[llmKeys.apiKey],
+        baseURL: config[llmKeys.baseURL],
+        headers: llmProvider === 'openai' ? config.OPENAI_LLM_HEADERS : '',
+      });
+
+      if (result.success && result.models) {
+        setLLMModels(result.models);
+        setLLMModelsStatus('success');
+        setLLMModelsMessage(`找到 ${result.models.length} 个模型`);
+      } else {
+        setLLMModels([]);
+        setLLMModelsStatus('error');
+        setLLMModelsMessage(result.error || '获取模型列表失败');
+      }
+    } catch (error) {
+      console.error('Failed to list LLM models:', error);
+      setLLMModelsStatus('error');
+      setLLMModelsMessage('获取模型列表失败');
+    }
+  };
+
+  // Discover models when the LLM tab opens or the provider changes
+  useEffect(() => {
+    if (activeTab === 'llm-settings' && !isLoading && config.VOLCENGINE_LLM_ENABLED === 'true') {
+      handleDiscoverModels();
+    }
+  }, [activeTab, isLoading, config.LLM_PROVIDER]);
+
   const handleTestLLMConnection = async () => {
     if (config.VOLCENGINE_LLM_ENABLED !== 'true') {
       setTestLLMStatus('error');
@@ -146,7 +243,7 @@ export const SettingsPage: React.FC = () => {
       return;
     }
 
-    if (!config.VOLCENGINE_LLM_API_KEY) {
+    if (llmProvider === 'volcengine' && !config.VOLCENGINE_LLM_API_KEY) {
       setTestLLMStatus('error');
       setTestLLMMessage('请先填写LLM API密钥');
 
@@ -188,6 +285,49 @@ export const SettingsPage: React.FC = () => {
     }
   };
 
+  const handleTestASRConnection = async () => {
+    try {
+      setTestASRStatus('testing');
+      setTestASRResult(null);
+      const result = await window.api.asr.testConnection({
+        appId: config.VOLCENGINE_APP_ID.trim(),
+        accessToken: config.VOLCENGINE_ACCESS_TOKEN.trim(),
+        resourceId: config.VOLCENGINE_RESOURCE_ID.trim(),
+      });
+      setTestASRResult(result);
+    } catch (error) {
+      console.error('Failed to test ASR connection:', error);
+      setTestASRResult({ success: false, error: '连接测试失败', hints: [] });
+    } finally {
+      setTestASRStatus('done');
+    }
+  };
+
+  const renderASRTestResult = (result: ASRConnectionTestResult) => {
+    const details = [
+      result.handshakeMs !== undefined && `握手 ${result.handshakeMs} ms`,
+      result.responseMs !== undefined && `识别响应 ${result.responseMs} ms`,
+      result.statusCode !== undefined && `HTTP ${result.statusCode}`,
+      result.errorCode !== undefined && `错误码 ${result.errorCode}`,
+    ].filter(Boolean);
+
+    return (
+      <div className={`status-message ${result.success ? 'success' : 'error'}`}>
+        <div>{result.success ? '语音识别连接正常' : `连接失败：${result.error ?? '未知错误'}`}</div>
+        {details.length > 0 && (
+          <div className="connection-test__details">{details.join(' · ')}</div>
+        )}
+        {result.hints.length > 0 && (
+          <ul className="connection-test__hints">
+            {result.hints.map(hint => (
+              <li key={hint}>{hint}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
   const renderApiSettings = () => (
     <div className="settings-form">
       <h2 className="form-title">火山引擎豆包语音识别配置</h2>
@@ -196,6 +336,107 @@ export const SettingsPage: React.FC = () => {
         配置信息保存在项目的 .env 文件中。
       </p>
 
+      <div className="form-group">
+        <label htmlFor="asr-provider" className="form-label">
+          识别引擎
+          <span className="form-hint">（选择语音识别后端）</span>
+        </label>
+        <select
+          id="asr-provider"
+          className="form-input"
+          value={config.ASR_PROVIDER}
+          onChange={(e) => handleInputChange('ASR_PROVIDER', e.target.value)}
+        >
+          {asrProviderOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label} - {option.description}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {config.ASR_PROVIDER === 'whisper' && (
+        <>
+          <div className="form-group">
+            <label htmlFor="whisper-base-url" className="form-label">
+              Whisper服务地址
+              <span className="form-hint">（OpenAI Whisper兼容的 /v1/audio/transcriptions 接口）</span>
+            </label>
+            <input
+              id="whisper-base-url"
+              type="text"
+              className="form-input"
+              value={config.WHISPER_BASE_URL}
+              onChange={(e) => handleInputChange('WHISPER_BASE_URL', e.target.value)}
+              placeholder="例如：http://192.168.1.10:8080"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="whisper-model" className="form-label">
+              模型名称
+              <span className="form-hint">（whisper.cpp server 会忽略此参数）</span>
+            </label>
+            <input
+              id="whisper-model"
+              type="text"
+              className="form-input"
+              value={config.WHISPER_MODEL}
+              onChange={(e) => handleInputChange('WHISPER_MODEL', e.target.value)}
+              placeholder="例如：whisper-1"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="whisper-language" className="form-label">
+              识别语言
+              <span className="form-hint">（ISO-639-1代码，留空为自动检测）</span>
+            </label>
+            <input
+              id="whisper-language"
+              type="text"
+              className="form-input"
+              value={config.WHISPER_LANGUAGE}
+              onChange={(e) => handleInputChange('WHISPER_LANGUAGE', e.target.value)}
+              placeholder="例如：zh"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="whisper-api-key" className="form-label">
+              API密钥
+              <span className="form-hint">（可选，服务需要鉴权时填写）</span>
+            </label>
+            <SecretInput
+              id="whisper-api-key"
+              value={config.WHISPER_API_KEY}
+              onChange={(value) => handleInputChange('WHISPER_API_KEY', value)}
+              placeholder="可留空"
+            />
+          </div>
+        </>
+      )}
+
+      {config.ASR_PROVIDER === 'mock' && (
+        <div className="form-group">
+          <label htmlFor="asr-mock-transcripts" className="form-label">
+            模拟识别文本
+            <span className="form-hint">（每次录音依次回放一条，多条用 | 分隔）</span>
+          </label>
+          <textarea
+            id="asr-mock-transcripts"
+            className="form-input form-textarea"
+            value={config.ASR_MOCK_TRANSCRIPTS}
+            onChange={(e) => handleInputChange('ASR_MOCK_TRANSCRIPTS', e.target.value)}
+            placeholder="例如：你好世界|这是第二段测试文本"
+            rows={3}
+          />
+          <div className="form-help">
+            <p>留空时使用内置的示例文本。</p>
+          </div>
+        </div>
+      )}
+
       <div className="form-group">
         <label htmlFor="app-id" className="form-label">
           APP ID
@@ -216,12 +457,10 @@ export const SettingsPage: React.FC = () => {
           Access Token
           <span className="form-hint">（从流式语音识别大模型页面获取，点击眼睛图标查看）</span>
         </label>
-        <input
+        <SecretInput
           id="access-token"
-          type="password"
-          className="form-input"
           value={config.VOLCENGINE_ACCESS_TOKEN}
-          onChange={(e) => handleInputChange('VOLCENGINE_ACCESS_TOKEN', e.target.value)}
+          onChange={(value) => handleInputChange('VOLCENGINE_ACCESS_TOKEN', value)}
           placeholder="请输入您的Access Token"
         />
       </div>
@@ -240,6 +479,112 @@ export const SettingsPage: React.FC = () => {
           placeholder="例如：volc.bigasr.sauc.duration"
         />
       </div>
+
+      {config.ASR_PROVIDER === 'volcengine' && (
+        <>
+          <div className="form-group">
+            <div className="button-group">
+              <button
+                className="btn btn-secondary"
+                onClick={handleTestASRConnection}
+                disabled={testASRStatus === 'testing'}
+              >
+                {testASRStatus === 'testing' ? '测试中...' : '测试语音识别连接'}
+              </button>
+            </div>
+            {testASRResult && renderASRTestResult(testASRResult)}
+            <div className="form-help">
+              <p>使用上面填写的 App ID、Access Token 和 Resource ID 发送约1秒的测试音频（无需保存），识别参数使用已保存的设置。</p>
+            </div>
+          </div>
+
+          <h3 className="form-subtitle">识别参数</h3>
+
+          <div className="form-group">
+            <label htmlFor="asr-language" className="form-label">
+              识别语言
+              <span className="form-hint">（留空由模型自动判断）</span>
+            </label>
+            <input
+              id="asr-language"
+              type="text"
+              className="form-input"
+              value={config.VOLCENGINE_ASR_LANGUAGE}
+              onChange={(e) => handleInputChange('VOLCENGINE_ASR_LANGUAGE', e.target.value)}
+              placeholder="例如：zh-CN、en-US"
+            />
+          </div>
+
+          {asrOptionToggles.map(option => (
+            <div className="form-group" key={option.key}>
+              <div className="form-row">
+                <span className="form-label">
+                  {option.label}
+                  <span className="form-hint">（{option.description}）</span>
+                </span>
+                <label htmlFor={option.key} className="form-toggle">
+                  <input
+                    id={option.key}
+                    type="checkbox"
+                    className="toggle-input"
+                    checked={config[option.key] !== 'false'}
+                    onChange={(e) => handleInputChange(option.key, e.target.checked ? 'true' : 'false')}
+                  />
+                  <span className="toggle-slider"></span>
+                </label>
+              </div>
+            </div>
+          ))}
+
+          <div className="form-group">
+            <label htmlFor="asr-hotwords" className="form-label">
+              热词
+              <span className="form-hint">（提高专有名词的识别准确率，多个用逗号分隔）</span>
+            </label>
+            <textarea
+              id="asr-hotwords"
+              className="form-input form-textarea"
+              value={config.VOLCENGINE_ASR_HOTWORDS}
+              onChange={(e) => handleInputChange('VOLCENGINE_ASR_HOTWORDS', e.target.value)}
+              placeholder="例如：豆包,火山引擎,Electron"
+              rows={3}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="asr-boosting-table-id" className="form-label">
+              热词表ID
+              <span className="form-hint">（可选，在火山引擎控制台创建）</span>
+            </label>
+            <input
+              id="asr-boosting-table-id"
+              type="text"
+              className="form-input"
+              value={config.VOLCENGINE_ASR_BOOSTING_TABLE_ID}
+              onChange={(e) => handleInputChange('VOLCENGINE_ASR_BOOSTING_TABLE_ID', e.target.value)}
+              placeholder="可留空"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="asr-boosting-table-name" className="form-label">
+              热词表名称
+              <span className="form-hint">（可选，与热词表ID二选一）</span>
+            </label>
+            <input
+              id="asr-boosting-table-name"
+              type="text"
+              className="form-input"
+              value={config.VOLCENGINE_ASR_BOOSTING_TABLE_NAME}
+              onChange={(e) => handleInputChange('VOLCENGINE_ASR_BOOSTING_TABLE_NAME', e.target.value)}
+              placeholder="可留空"
+            />
+            <div className="form-help">
+              <p>修改识别参数后从下一次听写开始生效。</p>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 
@@ -247,40 +592,80 @@ export const SettingsPage: React.FC = () => {
     <div className="settings-form">
       <h2 className="form-title">键盘快捷键设置</h2>
       <p className="form-description">
-        配置语音输入的触发键。按下触发键开始录音，松开停止录音。
+        配置语音输入的触发键和触发方式。默认按住触发键开始录音，松开停止录音。
         配置信息保存在项目的 .env 文件中。
       </p>
 
       <div className="form-group">
-        <label htmlFor="push-to-talk-key" className="form-label">
+        <span className="form-label">
           触发键
-          <span className="form-hint">（按住此键开始语音输入）</span>
+          <span className="form-hint">（单个按键或组合键，例如 Ctrl+Shift+Space）</span>
+        </span>
+        <HotkeyCapture onChange={(value) => handleInputChange('PUSH_TO_TALK_KEY', value)} />
+        <div className="form-help">
+          <p>点击“录制快捷键”后按下想要的按键；只按一个修饰键（如右Ctrl）后松开即可将其单独设为触发键。</p>
+          <p><strong>推荐使用右Ctrl键</strong>，因为它很少单独使用，且不会与系统快捷键冲突。</p>
+          <p><strong>避免使用Alt键</strong>，因为Alt键会激活Windows菜单栏，导致光标丢失焦点。</p>
+          <p>与系统快捷键冲突或会在打字时误触发的按键会被拒绝。新触发键立即生效，无需重启。</p>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="push-to-talk-mode" className="form-label">
+          触发方式
         </label>
         <select
-          id="push-to-talk-key"
+          id="push-to-talk-mode"
           className="form-input"
-          value={config.PUSH_TO_TALK_KEY}
-          onChange={(e) => handleInputChange('PUSH_TO_TALK_KEY', e.target.value)}
+          value={config.PUSH_TO_TALK_MODE}
+          onChange={(e) => handleInputChange('PUSH_TO_TALK_MODE', e.target.value)}
         >
-          {keyOptions.map(option => (
-            <option key={option.value} value={option.value}>
-              {option.label} - {option.description}
-            </option>
-          ))}
+          <option value="hold">按住说话 - 按住触发键录音，松开停止</option>
+          <option value="toggle">切换 - 按一下开始录音，再按一下停止</option>
+          <option value="double-tap">双击切换 - 快速按两下开始录音，再按两下停止</option>
         </select>
         <div className="form-help">
-          <p><strong>推荐使用右Ctrl键</strong>，因为它很少单独使用，且不会与系统快捷键冲突。</p>
-          <p><strong>避免使用Alt键</strong>，因为Alt键会激活Windows菜单栏，导致光标丢失焦点。</p>
-          <p>修改设置后需要重启应用才能生效。</p>
+          <p>长时间口述时建议使用“切换”或“双击切换”，无需一直按住触发键。</p>
+          <p>当前触发方式会显示在悬浮窗状态栏右侧。</p>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="max-session-seconds" className="form-label">
+          单次录音最长时长 (秒)
+          <span className="form-hint">（超过后自动停止并识别，0 表示不限制）</span>
+        </label>
+        <input
+          id="max-session-seconds"
+          type="number"
+          min={0}
+          step={30}
+          className="form-input"
+          value={config.MAX_SESSION_SECONDS}
+          onChange={(e) => handleInputChange('MAX_SESSION_SECONDS', e.target.value)}
+        />
+        <div className="form-help">
+          <p>防止忘记停止录音导致长时间占用麦克风。</p>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <span className="form-label">
+          撤销上一次听写
+          <span className="form-hint">（可选，例如 Ctrl+Alt+Z）</span>
+        </span>
+        <HotkeyCapture kind="undo" onChange={(value) => handleInputChange('UNDO_HOTKEY', value)} />
+        <div className="form-help">
+          <p>识别错误时按下撤销键，删除上一次听写插入的文本；托盘菜单中的“Undo Last Dictation”效果相同。</p>
+          <p>逐字输入的文本用退格键删除，粘贴的文本用目标应用的撤销（Ctrl+Z / Command+Z）。</p>
+          <p>插入后切换了窗口时不会执行，以免删除其他窗口的内容。插入后又手动输入过文字时请勿使用。</p>
         </div>
       </div>
 
       <div className="form-group">
         <h3 className="form-subtitle">当前键位说明</h3>
         <div className="key-info">
-          <p>当前选择的键位码: <code>{config.PUSH_TO_TALK_KEY}</code></p>
-          <p>对应键位: {keyOptions.find(opt => opt.value === config.PUSH_TO_TALK_KEY)?.label || '未知键位'}</p>
-          <p>描述: {keyOptions.find(opt => opt.value === config.PUSH_TO_TALK_KEY)?.description || '无描述'}</p>
+          <p>保存的键位值: <code>{config.PUSH_TO_TALK_KEY}</code></p>
         </div>
       </div>
 
@@ -290,7 +675,7 @@ export const SettingsPage: React.FC = () => {
           <li>全局键盘钩子需要相应权限，Windows可能需要以管理员权限运行</li>
           <li>如果触发键无效，请检查是否有其他程序占用了该键位</li>
           <li>修改键位后，请确保新键位不会与常用快捷键冲突</li>
-          <li>应用重启后新设置才会生效</li>
+          <li>触发键、触发方式、最长时长和撤销键保存后立即生效，无需重启</li>
         </ul>
       </div>
     </div>
@@ -298,9 +683,10 @@ export const SettingsPage: React.FC = () => {
 
   const renderLLMSettings = () => (
     <div className="settings-form">
-      <h2 className="form-title">火山引擎豆包大语言模型配置</h2>
+      <h2 className="form-title">大语言模型配置</h2>
       <p className="form-description">
         启用LLM优化功能，将语音识别结果通过大语言模型优化为更流畅的书面语。
+        可以使用火山引擎豆包，也可以使用本地运行的 OpenAI 兼容服务（如 llama.cpp、Ollama），文本不出本机。
         配置信息保存在项目的 .env 文件中。
       </p>
 
@@ -325,50 +711,128 @@ export const SettingsPage: React.FC = () => {
           </label>
         </div>
         <div className="form-help">
-          <p>启用后，语音识别结果将通过火山引擎大语言模型进行优化，使表达更加流畅自然。</p>
+          <p>启用后，语音识别结果将通过大语言模型进行优化，使表达更加流畅自然。</p>
         </div>
       </div>
 
       <div className="form-group">
-        <label htmlFor="llm-api-key" className="form-label">
-          LLM API密钥
-          <span className="form-hint">（从火山引擎控制台获取）</span>
+        <label htmlFor="llm-provider" className="form-label">
+          LLM服务提供方
+        </label>
+        <select
+          id="llm-provider"
+          className="form-input"
+          value={llmProvider}
+          onChange={(e) => handleInputChange('LLM_PROVIDER', e.target.value)}
+          disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
+        >
+          {llmProviderOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label} - {option.description}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="llm-base-url" className="form-label">
+          LLM API基础URL
+          <span className="form-hint">
+            {llmProvider === 'openai' ? '（需包含 /v1，例如 Ollama 为 http://127.0.0.1:11434/v1）' : '（火山引擎API地址）'}
+          </span>
         </label>
         <input
-          id="llm-api-key"
-          type="password"
+          id="llm-base-url"
+          type="text"
           className="form-input"
-          value={config.VOLCENGINE_LLM_API_KEY}
-          onChange={(e) => handleInputChange('VOLCENGINE_LLM_API_KEY', e.target.value)}
-          placeholder="请输入您的LLM API密钥"
+          value={config[llmKeys.baseURL]}
+          onChange={(e) => handleInputChange(llmKeys.baseURL, e.target.value)}
+          placeholder={llmProvider === 'openai' ? '例如：http://127.0.0.1:8080/v1' : '例如：https://ark.cn-beijing.volces.com/api/v3'}
           disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
         />
         <div className="form-help">
-          <p>需要在火山引擎控制台创建应用并获取API密钥。</p>
+          <p>
+            {llmProvider === 'openai'
+              ? '模型列表通过该地址下的 /models 接口获取。'
+              : '默认使用火山引擎官方API地址，通常不需要修改。'}
+          </p>
         </div>
       </div>
 
+      <div className="form-group">
+        <label htmlFor="llm-api-key" className="form-label">
+          LLM API密钥
+          <span className="form-hint">
+            {llmProvider === 'openai' ? '（本地服务通常不需要，可留空）' : '（从火山引擎控制台获取）'}
+          </span>
+        </label>
+        <SecretInput
+          id="llm-api-key"
+          value={config[llmKeys.apiKey]}
+          onChange={(value) => handleInputChange(llmKeys.apiKey, value)}
+          placeholder="请输入您的LLM API密钥"
+          disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
+        />
+        {llmProvider === 'volcengine' && (
+          <div className="form-help">
+            <p>需要在火山引擎控制台创建应用并获取API密钥。</p>
+          </div>
+        )}
+      </div>
+
+      {llmProvider === 'openai' && (
+        <div className="form-group">
+          <label htmlFor="llm-headers" className="form-label">
+            额外请求头
+            <span className="form-hint">（格式为 名称: 值，多个用 | 分隔）</span>
+          </label>
+          <input
+            id="llm-headers"
+            type="text"
+            className="form-input"
+            value={config.OPENAI_LLM_HEADERS}
+            onChange={(e) => handleInputChange('OPENAI_LLM_HEADERS', e.target.value)}
+            placeholder="例如：X-Org-Id: demo|X-Trace: on"
+            disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
+          />
+        </div>
+      )}
+
       <div className="form-group">
         <label htmlFor="llm-model" className="form-label">
           LLM模型
-          <span className="form-hint">（选择要使用的模型）</span>
+          <span className="form-hint">（从列表中选择，或直接输入模型ID）</span>
         </label>
-        <select
-          id="llm-model"
-          className="form-input"
-          value={config.VOLCENGINE_LLM_MODEL}
-          onChange={(e) => handleInputChange('VOLCENGINE_LLM_MODEL', e.target.value)}
-          disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
-        >
-          {llmModelOptions.map(option => (
-            <option key={option.value} value={option.value}>
-              {option.label} - {option.description}
-            </option>
-          ))}
-        </select>
-        <div className="form-help">
-          <p>Skylark2 Pro 32K是推荐的通用模型，支持32K上下文长度。</p>
+        <div className="llm-model-row">
+          <input
+            id="llm-model"
+            type="text"
+            className="form-input"
+            list="llm-model-options"
+            value={config[llmKeys.model]}
+            onChange={(e) => handleInputChange(llmKeys.model, e.target.value)}
+            placeholder={llmProvider === 'openai' ? '例如：qwen2.5:7b' : '例如：ep-20250123456789-abcde'}
+            disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
+          />
+          <datalist id="llm-model-options">
+            {llmModels.map(model => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={handleDiscoverModels}
+            disabled={llmModelsStatus === 'loading' || config.VOLCENGINE_LLM_ENABLED !== 'true'}
+          >
+            {llmModelsStatus === 'loading' ? '获取中...' : '刷新模型列表'}
+          </button>
         </div>
+        {llmModelsMessage && (
+          <div className={`status-message ${llmModelsStatus === 'error' ? 'error' : 'success'}`}>
+            {llmModelsMessage}
+          </div>
+        )}
       </div>
 
       <div className="form-group">
@@ -391,21 +855,43 @@ export const SettingsPage: React.FC = () => {
       </div>
 
       <div className="form-group">
-        <label htmlFor="llm-base-url" className="form-label">
-          LLM API基础URL
-          <span className="form-hint">（火山引擎API地址）</span>
-        </label>
-        <input
-          id="llm-base-url"
-          type="text"
-          className="form-input"
-          value={config.VOLCENGINE_LLM_BASE_URL}
-          onChange={(e) => handleInputChange('VOLCENGINE_LLM_BASE_URL', e.target.value)}
-          placeholder="例如：https://ark.cn-beijing.volces.com/api/v3"
-          disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
-        />
+        <div className="form-row">
+          <span className="form-label">
+            流式输出
+            <span className="form-hint">（边生成边在悬浮窗中显示）</span>
+          </span>
+          <label htmlFor="llm-stream" className="form-toggle">
+            <input
+              id="llm-stream"
+              type="checkbox"
+              className="toggle-input"
+              checked={config.VOLCENGINE_LLM_STREAM !== 'false'}
+              onChange={(e) => handleInputChange('VOLCENGINE_LLM_STREAM', e.target.checked ? 'true' : 'false')}
+              disabled={config.VOLCENGINE_LLM_ENABLED !== 'true'}
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
+        <div className="form-row">
+          <span className="form-label">
+            提前插入
+            <span className="form-hint">（每生成一句就插入，不等待LLM完成）</span>
+          </span>
+          <label htmlFor="llm-early-insert" className="form-toggle">
+            <input
+              id="llm-early-insert"
+              type="checkbox"
+              className="toggle-input"
+              checked={config.VOLCENGINE_LLM_EARLY_INSERT === 'true'}
+              onChange={(e) => handleInputChange('VOLCENGINE_LLM_EARLY_INSERT', e.target.checked ? 'true' : 'false')}
+              disabled={config.VOLCENGINE_LLM_ENABLED !== 'true' || config.VOLCENGINE_LLM_STREAM === 'false'}
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
         <div className="form-help">
-          <p>默认使用火山引擎官方API地址，通常不需要修改。</p>
+          <p>流式输出使用 Chat Completions 接口，悬浮窗会实时显示优化中的文本。</p>
+          <p>提前插入可以更快看到结果，但如果LLM中途出错，已插入的部分不会撤回。</p>
         </div>
       </div>
 
@@ -426,13 +912,15 @@ export const SettingsPage: React.FC = () => {
         )}
       </div>
 
+      <PromptTemplateSettings />
+
       <div className="form-group">
         <h3 className="form-subtitle">使用说明</h3>
         <div className="form-help">
           <p><strong>工作流程：</strong>语音识别 → LLM优化 → 文本插入</p>
           <p><strong>优化效果：</strong>将口语化文本转换为流畅的书面语，修正语法错误，保持原意不变。</p>
           <p><strong>响应时间：</strong>LLM优化会增加约1-3秒的处理时间。</p>
-          <p><strong>隐私说明：</strong>文本内容会发送到火山引擎服务器进行优化处理。</p>
+          <p><strong>隐私说明：</strong>使用火山引擎时，文本内容会发送到火山引擎服务器进行优化处理；使用本地 OpenAI 兼容服务时，文本不会离开本机。</p>
           <p><strong>费用说明：</strong>使用火山引擎LLM服务会产生相应费用，请关注火山引擎控制台的用量统计。</p>
           <p><strong>测试连接：</strong>配置完成后，点击"测试LLM连接"按钮验证配置是否正确。</p>
         </div>
@@ -440,14 +928,230 @@ export const SettingsPage: React.FC = () => {
     </div>
   );
 
+  const renderAudioSettings = () => {
+    const selectedMissing = config.AUDIO_INPUT_DEVICE_ID !== '' &&
+      !audioDevices.some(device => device.deviceId === config.AUDIO_INPUT_DEVICE_ID);
+
+    return (
+      <div className="settings-form">
+        <h2 className="form-title">麦克风与静音检测</h2>
+        <p className="form-description">
+          选择用于语音输入的麦克风，并配置静音检测。麦克风也可以在系统托盘菜单中切换。
+        </p>
+
+        <div className="form-group">
+          <label htmlFor="audio-input-device" className="form-label">
+            输入设备
+            <span className="form-hint">（选择后立即生效）</span>
+          </label>
+          <select
+            id="audio-input-device"
+            className="form-input"
+            value={config.AUDIO_INPUT_DEVICE_ID}
+            onChange={(e) => handleInputDeviceChange(e.target.value)}
+          >
+            <option value="">系统默认设备</option>
+            {audioDevices.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `麦克风 ${index + 1}`}
+              </option>
+            ))}
+            {selectedMissing && (
+              <option value={config.AUDIO_INPUT_DEVICE_ID}>已断开的设备</option>
+            )}
+          </select>
+          <div className="form-help">
+            <p>所选设备不可用或在录音中被拔出时，会自动切换到系统默认设备；重新插入后下次录音会再次使用所选设备。</p>
+            <p>首次录音前设备名称可能显示为空，授予麦克风权限后会显示完整名称。</p>
+          </div>
+        </div>
+
+        <h3 className="form-subtitle">静音检测</h3>
+
+        <div className="form-group">
+          <div className="form-row">
+            <span className="form-label">
+              去除首尾静音
+              <span className="form-hint">（只发送说话部分的音频，缩短识别等待时间）</span>
+            </span>
+            <label htmlFor="vad-enabled" className="form-toggle">
+              <input
+                id="vad-enabled"
+                type="checkbox"
+                className="toggle-input"
+                checked={config.VAD_ENABLED === 'true'}
+                onChange={(e) => handleInputChange('VAD_ENABLED', e.target.checked ? 'true' : 'false')}
+              />
+              <span className="toggle-slider"></span>
+            </label>
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="vad-threshold" className="form-label">
+            语音判定阈值 (dBFS)
+            <span className="form-hint">（数值越小越灵敏；环境嘈杂时可调大，例如 -40）</span>
+          </label>
+          <input
+            id="vad-threshold"
+            type="number"
+            max={0}
+            className="form-input"
+            value={config.VAD_THRESHOLD_DB}
+            onChange={(e) => handleInputChange('VAD_THRESHOLD_DB', e.target.value)}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="vad-auto-stop" className="form-label">
+            静音自动停止 (毫秒)
+            <span className="form-hint">（说话后静音超过该时长自动结束录音，0 表示不自动停止）</span>
+          </label>
+          <input
+            id="vad-auto-stop"
+            type="number"
+            min={0}
+            step={100}
+            className="form-input"
+            value={config.VAD_AUTO_STOP_MS}
+            onChange={(e) => handleInputChange('VAD_AUTO_STOP_MS', e.target.value)}
+          />
+          <div className="form-help">
+            <p>使用“切换”或“双击”触发方式时，建议同时设置静音自动停止，例如 1500 毫秒。</p>
+            <p>修改静音检测设置后从下一次录音开始生效。</p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderVoiceCommandSettings = () => (
+    <div className="settings-form">
+      <h2 className="form-title">语音命令</h2>
+      <p className="form-description">
+        整句话是命令时（例如“换行”“全选”“撤销”“句号”），执行对应的按键或插入标点，而不是把这句话输入出来。
+        命令只在整句匹配时生效，句子中间出现的命令词照常输入。
+      </p>
+
+      <div className="form-group">
+        <div className="form-row">
+          <span className="form-label">
+            启用语音命令
+          </span>
+          <label htmlFor="voice-commands-enabled" className="form-toggle">
+            <input
+              id="voice-commands-enabled"
+              type="checkbox"
+              className="toggle-input"
+              checked={config.VOICE_COMMANDS_ENABLED !== 'false'}
+              onChange={(e) => handleInputChange('VOICE_COMMANDS_ENABLED', e.target.checked ? 'true' : 'false')}
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="voice-command-prefix" className="form-label">
+          命令前缀
+          <span className="form-hint">（留空则不需要前缀）</span>
+        </label>
+        <input
+          id="voice-command-prefix"
+          type="text"
+          className="form-input"
+          value={config.VOICE_COMMAND_PREFIX}
+          onChange={(e) => handleInputChange('VOICE_COMMAND_PREFIX', e.target.value)}
+          placeholder="例如：命令"
+          disabled={config.VOICE_COMMANDS_ENABLED === 'false'}
+        />
+        <div className="form-help">
+          <p>设置前缀后，只有“命令，撤销”这样以前缀开头的整句才会执行，避免误触发。前缀须与后面的命令隔开（停顿或标点），“命令行工具”这样的普通句子照常输入；前缀后不是已知命令时也照常输入。</p>
+          <p>修改以上设置后从下一次听写开始生效。</p>
+        </div>
+      </div>
+
+      <h3 className="form-subtitle">命令列表</h3>
+      <VoiceCommandSettings />
+    </div>
+  );
+
+  const renderArchiveSettings = () => (
+    <div className="settings-form">
+      <h2 className="form-title">录音存档</h2>
+      <p className="form-description">
+        保存每次录音的音频（WAV）和识别过程（中间结果、最终文本、LLM优化文本、耗时），
+        用于复现识别错误。存档保存在应用数据目录中，仅保存在本机。
+      </p>
+
+      <div className="form-group">
+        <div className="form-row">
+          <span className="form-label">
+            启用录音存档
+            <span className="form-hint">（默认关闭）</span>
+          </span>
+          <label htmlFor="archive-enabled" className="form-toggle">
+            <input
+              id="archive-enabled"
+              type="checkbox"
+              className="toggle-input"
+              checked={config.RECORDING_ARCHIVE_ENABLED === 'true'}
+              onChange={(e) => handleInputChange('RECORDING_ARCHIVE_ENABLED', e.target.checked ? 'true' : 'false')}
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="archive-max-sessions" className="form-label">
+          最多保留数量
+          <span className="form-hint">（超出后自动删除最早的录音）</span>
+        </label>
+        <input
+          id="archive-max-sessions"
+          type="number"
+          min={1}
+          className="form-input"
+          value={config.RECORDING_ARCHIVE_MAX_SESSIONS}
+          onChange={(e) => handleInputChange('RECORDING_ARCHIVE_MAX_SESSIONS', e.target.value)}
+          disabled={config.RECORDING_ARCHIVE_ENABLED !== 'true'}
+        />
+        <div className="form-help">
+          <p>修改设置后从下一次听写开始生效。</p>
+        </div>
+      </div>
+
+      <h3 className="form-subtitle">已存档的录音</h3>
+      <p className="form-description">
+        “重新识别”会把录音按实际速度重新送入当前配置的识别引擎，用于对比识别结果。
+      </p>
+      <RecordingArchiveList />
+    </div>
+  );
+
   const renderContent = () => {
     switch (activeTab) {
       case 'api-settings':
         return renderApiSettings();
       case 'keyboard-settings':
         return renderKeyboardSettings();
+      case 'audio-settings':
+        return renderAudioSettings();
       case 'llm-settings':
         return renderLLMSettings();
+      case 'profiles-settings':
+        return <ProfileSettings />;
+      case 'app-rules-settings':
+        return <AppRuleSettings />;
+      case 'vocabulary-settings':
+        return <VocabularySettings />;
+      case 'voice-commands-settings':
+        return renderVoiceCommandSettings();
+      case 'archive-settings':
+        return renderArchiveSettings();
+      case 'history':
+        return <HistoryView />;
       default:
         return <div>未知标签</div>;
     }
@@ -520,7 +1224,7 @@ export const SettingsPage: React.FC = () => {
                 <div className="status-message success">设置保存成功！</div>
               )}
               {saveStatus === 'error' && (
-                <div className="status-message error">保存失败，请重试。</div>
+                <div className="status-message error">保存失败{saveError ? `：${saveError}` : '，请重试。'}</div>
               )}
               {defaultStatus === 'success' && (
                 <div className="status-message success">默认设置应用成功！</div>
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import type { VocabularyEntry } from '../../../../shared/types/vocabulary';
+
+// Editable row - aliases are edited as free text and split on save
+type VocabularyRow = {
+  id: string;
+  term: string;
+  aliasesText: string;
+  boost: boolean;
+};
+
+const toRow = (entry: VocabularyEntry): VocabularyRow => ({
+  id: entry.id,
+  term: entry.term,
+  aliasesText: entry.aliases.join(', '),
+  boost: entry.boost,
+});
+
+const toEntry = (row: VocabularyRow): VocabularyEntry => ({
+  id: row.id,
+  term: row.term.trim(),
+  aliases: row.aliasesText
+    .split(/[,，|]/)
+    .map(alias => alias.trim())
+    .filter(alias => alias.length > 0),
+  boost: row.boost,
+});
+
+export const VocabularySettings: React.FC = () => {
+  const [rows, setRows] = useState<VocabularyRow[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [status, setStatus] = useState<'idle' | 'working' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const loadEntries = async () => {
+    try {
+      setIsLoading(true);
+      const entries = await window.api.vocabulary.getEntries();
+      setRows(entries.map(toRow));
+    } catch (error) {
+      console.error('Failed to load vocabulary:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showMessage = (nextStatus: 'success' | 'error', text: string) => {
+    setStatus(nextStatus);
+    setMessage(text);
+
+    // Clear message after 3 seconds
+    setTimeout(() => {
+      setStatus('idle');
+      setMessage('');
+    }, 3000);
+  };
+
+  const handleRowChange = (id: string, changes: Partial<VocabularyRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const handleAddRow = () => {
+    setRows(prev => [...prev, { id: crypto.randomUUID(), term: '', aliasesText: '', boost: true }]);
+  };
+
+  const handleDeleteRow = (id: string) => {
+    setRows(prev => prev.filter(row => row.id !== id));
+  };
+
+  const handleSave = async () => {
+    try {
+      setStatus('working');
+      const entries = rows.filter(row => row.term.trim()).map(toEntry);
+      const saved = await window.api.vocabulary.saveEntries(entries);
+      setRows(saved.map(toRow));
+      showMessage('success', `词汇表已保存（${saved.length} 条）`);
+    } catch (error) {
+      console.error('Failed to save vocabulary:', error);
+      showMessage('error', '保存失败，请检查词条内容（词条不能超过50个字符）');
+    }
+  };
+
+  const handleImport = async () => {
+    setStatus('working');
+    const result = await window.api.vocabulary.importCsv('merge');
+    if (result.canceled) {
+      setStatus('idle');
+      return;
+    }
+    if (result.success && result.entries) {
+      setRows(result.entries.map(toRow));
+      showMessage('success', `已导入 ${result.count ?? 0} 条词汇`);
+    } else {
+      showMessage('error', `导入失败: ${result.error ?? '未知错误'}`);
+    }
+  };
+
+  const handleExport = async () => {
+    setStatus('working');
+    const result = await window.api.vocabulary.exportCsv();
+    if (result.canceled) {
+      setStatus('idle');
+      return;
+    }
+    if (result.success) {
+      showMessage('success', `已导出 ${result.count ?? 0} 条词汇`);
+    } else {
+      showMessage('error', `导出失败: ${result.error ?? '未知错误'}`);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="loading">加载词汇表中...</div>;
+  }
+
+  return (
+    <div className="settings-form">
+      <h2 className="form-title">自定义词汇表</h2>
+      <p className="form-description">
+        添加产品名称、代码标识符等容易识别错误的词汇。
+        启用“热词”的词条会发送给火山引擎提升识别率；识别结果中的“常见误识别”会被自动替换为正确写法。
+        词汇表保存在应用数据目录中，保存后下次录音即生效。
+      </p>
+
+      <div className="form-group">
+        <table className="vocabulary-table">
+          <thead>
+            <tr>
+              <th>正确写法</th>
+              <th>常见误识别（逗号分隔）</th>
+              <th>热词</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id}>
+                <td>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={row.term}
+                    onChange={(e) => handleRowChange(row.id, { term: e.target.value })}
+                    placeholder="例如：TypeScript"
+                    maxLength={50}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={row.aliasesText}
+                    onChange={(e) => handleRowChange(row.id, { aliasesText: e.target.value })}
+                    placeholder="例如：type script, 太普斯克瑞普特"
+                  />
+                </td>
+                <td className="vocabulary-table__center">
+                  <input
+                    type="checkbox"
+                    checked={row.boost}
+                    onChange={(e) => handleRowChange(row.id, { boost: e.target.checked })}
+                  />
+                </td>
+                <td className="vocabulary-table__center">
+                  <button
+                    className="btn-link"
+                    onClick={() => handleDeleteRow(row.id)}
+                  >
+                    删除
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="vocabulary-table__empty">暂无词汇，点击“添加词条”开始</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="form-group">
+        <div className="button-group">
+          <button className="btn btn-secondary" onClick={handleAddRow}>
+            添加词条
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={status === 'working'}
+          >
+            保存词汇表
+          </button>
+        </div>
+        <div className="button-group">
+          <button
+            className="btn btn-secondary"
+            onClick={handleImport}
+            disabled={status === 'working'}
+          >
+            导入CSV
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={handleExport}
+            disabled={status === 'working'}
+          >
+            导出CSV
+          </button>
+        </div>
+        {message && (
+          <div className={`status-message ${status === 'success' ? 'success' : 'error'}`}>
+            {message}
+          </div>
+        )}
+      </div>
+
+      <div className="form-group">
+        <h3 className="form-subtitle">CSV格式</h3>
+        <div className="form-help">
+          <p>三列：<code>term,aliases,boost</code>，第一行可以是表头。</p>
+          <p>多个误识别写法用 <code>|</code> 分隔，例如：<code>GitHub,git hub|吉特哈布,true</code></p>
+          <p>导入时与现有词汇合并，相同写法的词条会被覆盖。</p>
+        </div>
+      </div>
+    </div>
+  );
+};
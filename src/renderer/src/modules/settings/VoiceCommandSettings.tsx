@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import type { VoiceCommand, VoiceCommandAction } from '../../../../shared/types/voice-command';
+
+// Editable row - phrases are edited as free text and split on save
+type VoiceCommandRow = {
+  id: string;
+  phrasesText: string;
+  action: VoiceCommandAction;
+  value: string;
+};
+
+const toRow = (command: VoiceCommand): VoiceCommandRow => ({
+  id: command.id,
+  phrasesText: command.phrases.join(', '),
+  action: command.action,
+  value: command.value,
+});
+
+const toCommand = (row: VoiceCommandRow): VoiceCommand => ({
+  id: row.id,
+  phrases: row.phrasesText
+    .split(/[,，|]/)
+    .map(phrase => phrase.trim())
+    .filter(phrase => phrase.length > 0),
+  action: row.action,
+  value: row.value,
+});
+
+export const VoiceCommandSettings: React.FC = () => {
+  const [rows, setRows] = useState<VoiceCommandRow[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [status, setStatus] = useState<'idle' | 'working' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    loadCommands();
+  }, []);
+
+  const loadCommands = async () => {
+    try {
+      setIsLoading(true);
+      const commands = await window.api.voiceCommands.list();
+      setRows(commands.map(toRow));
+    } catch (error) {
+      console.error('Failed to load voice commands:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showMessage = (nextStatus: 'success' | 'error', text: string) => {
+    setStatus(nextStatus);
+    setMessage(text);
+
+    // Clear message after 3 seconds
+    setTimeout(() => {
+      setStatus('idle');
+      setMessage('');
+    }, 3000);
+  };
+
+  const handleRowChange = (id: string, changes: Partial<VoiceCommandRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const handleAddRow = () => {
+    setRows(prev => [...prev, { id: crypto.randomUUID(), phrasesText: '', action: 'keys', value: '' }]);
+  };
+
+  const handleDeleteRow = (id: string) => {
+    setRows(prev => prev.filter(row => row.id !== id));
+  };
+
+  const handleSave = async () => {
+    try {
+      setStatus('working');
+      const commands = rows.filter(row => row.phrasesText.trim()).map(toCommand);
+      const result = await window.api.voiceCommands.save(commands);
+      if (!result.success || !result.commands) {
+        showMessage('error', `保存失败: ${result.error ?? '未知错误'}`);
+        return;
+      }
+      setRows(result.commands.map(toRow));
+      showMessage('success', `语音命令已保存（${result.commands.length} 条），下次听写生效`);
+    } catch (error) {
+      console.error('Failed to save voice commands:', error);
+      showMessage('error', '保存失败');
+    }
+  };
+
+  if (isLoading) {
+    return <div className="loading">加载语音命令中...</div>;
+  }
+
+  return (
+    <>
+      <div className="form-group">
+        <table className="vocabulary-table">
+          <thead>
+            <tr>
+              <th>命令短语（逗号分隔）</th>
+              <th>动作</th>
+              <th>按键序列或文本</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id}>
+                <td>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={row.phrasesText}
+                    onChange={(e) => handleRowChange(row.id, { phrasesText: e.target.value })}
+                    placeholder="例如：撤销, undo"
+                  />
+                </td>
+                <td>
+                  <select
+                    className="form-input"
+                    value={row.action}
+                    onChange={(e) => handleRowChange(row.id, { action: e.target.value as VoiceCommandAction })}
+                  >
+                    <option value="keys">按键</option>
+                    <option value="text">插入文本</option>
+                    <option value="delete-dictation">删除上一次听写</option>
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={row.value}
+                    onChange={(e) => handleRowChange(row.id, { value: e.target.value })}
+                    placeholder={
+                      row.action === 'keys' ? '例如：mod+z' : row.action === 'text' ? '例如：。' : '无需填写'
+                    }
+                    disabled={row.action === 'delete-dictation'}
+                  />
+                </td>
+                <td className="vocabulary-table__center">
+                  <button
+                    className="btn-link"
+                    onClick={() => handleDeleteRow(row.id)}
+                  >
+                    删除
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="vocabulary-table__empty">暂无语音命令，点击“添加命令”开始</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="form-group">
+        <div className="button-group">
+          <button className="btn btn-secondary" onClick={handleAddRow}>
+            添加命令
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={status === 'working'}
+          >
+            保存语音命令
+          </button>
+        </div>
+        {message && (
+          <div className={`status-message ${status === 'success' ? 'success' : 'error'}`}>
+            {message}
+          </div>
+        )}
+      </div>
+
+      <div className="form-group">
+        <h3 className="form-subtitle">按键序列格式</h3>
+        <div className="form-help">
+          <p>多个按键用空格分隔，组合键用 <code>+</code> 连接，例如 <code>shift+home backspace</code>。</p>
+          <p>修饰键：<code>ctrl</code>、<code>alt</code>、<code>shift</code>、<code>meta</code>，<code>mod</code> 在 macOS 上为 Cmd，其他系统为 Ctrl。</p>
+          <p>按键：字母、数字、<code>f1</code>-<code>f24</code>、<code>enter</code>、<code>tab</code>、<code>space</code>、<code>backspace</code>、<code>delete</code>、<code>escape</code>、<code>left</code>、<code>right</code>、<code>up</code>、<code>down</code>、<code>home</code>、<code>end</code>、<code>pageup</code>、<code>pagedown</code>。</p>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -2,4 +2,7 @@
  * Settings module exports.
  */
 
-export { SettingsPage } from './SettingsPage';
\ No newline at end of file
+export { SettingsPage } from './SettingsPage';
+export { VocabularySettings } from './VocabularySettings';
+export { RecordingArchiveList } from './RecordingArchiveList';
+export { HistoryView } from './HistoryView';
\ No newline at end of file
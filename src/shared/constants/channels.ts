@@ -19,6 +19,12 @@ export const IPC_CHANNELS = {
     ERROR: 'asr:error',
     /** ASR warning (Main -> Renderer) */
     WARNING: 'asr:warning',
+    /** Silence detected after speech, end the session (Renderer -> Main) */
+    AUTO_STOP: 'asr:auto-stop',
+    /** Recording stopped and its last audio chunk was sent (Renderer -> Main) */
+    RECORDING_STOPPED: 'asr:recording-stopped',
+    /** Stream a test clip to check credentials and latency */
+    TEST_CONNECTION: 'asr:test-connection',
   },
   LLM: {
     /** Test LLM connection */
@@ -31,6 +37,8 @@ export const IPC_CHANNELS = {
     OPTIMIZE_TEXT: 'llm:optimize-text',
     /** Reload LLM configuration from environment */
     RELOAD_CONFIG: 'llm:reload-config',
+    /** List models offered by the LLM server */
+    LIST_MODELS: 'llm:list-models',
   },
   FLOATING_WINDOW: {
     /** Show floating window (Renderer -> Main) */
@@ -39,13 +47,107 @@ export const IPC_CHANNELS = {
     HIDE: 'floating-window:hide',
     /** Set content height for adaptive window sizing (Renderer -> Main) */
     SET_CONTENT_HEIGHT: 'floating-window:set-content-height',
+    /** Activation mode of the session being started (Main -> Renderer) */
+    ACTIVATION_MODE: 'floating-window:activation-mode',
   },
   SETTINGS: {
-    /** Get current environment configuration */
+    /** Get current settings */
     GET_ENV_CONFIG: 'settings:get-env-config',
-    /** Update environment configuration */
+    /** Validate and save settings */
     UPDATE_ENV_CONFIG: 'settings:update-env-config',
-    /** Apply default configuration from .env.example */
+    /** Restore the default settings */
     APPLY_DEFAULT_CONFIG: 'settings:apply-default-config',
+    /** Settings were saved (Main -> Renderer) */
+    CHANGED: 'settings:changed',
+  },
+  KEYBOARD: {
+    /** Get the current trigger hotkey */
+    GET_HOTKEY: 'keyboard:get-hotkey',
+    /** Wait for the user to press a new trigger hotkey */
+    CAPTURE_HOTKEY: 'keyboard:capture-hotkey',
+    /** Cancel a pending hotkey capture */
+    CANCEL_CAPTURE: 'keyboard:cancel-capture',
+    /** Validate, save and apply a trigger hotkey */
+    SET_HOTKEY: 'keyboard:set-hotkey',
+    /** Get the hotkey that undoes the last dictation */
+    GET_UNDO_HOTKEY: 'keyboard:get-undo-hotkey',
+    /** Validate, save and apply (or remove) the undo hotkey */
+    SET_UNDO_HOTKEY: 'keyboard:set-undo-hotkey',
+  },
+  AUDIO: {
+    /** Report available microphones (Renderer -> Main) */
+    REPORT_DEVICES: 'audio:report-devices',
+    /** Get available microphones and the preferred one */
+    GET_DEVICES: 'audio:get-devices',
+    /** Set the preferred microphone */
+    SET_INPUT_DEVICE: 'audio:set-input-device',
+    /** Microphone list or preference changed (Main -> Renderer) */
+    DEVICES_CHANGED: 'audio:devices-changed',
+  },
+  PROFILES: {
+    /** Get dictation profiles */
+    LIST: 'profiles:list',
+    /** Validate and replace dictation profiles */
+    SAVE: 'profiles:save',
+  },
+  APP_RULES: {
+    /** Get application rules */
+    LIST: 'app-rules:list',
+    /** Validate and replace application rules */
+    SAVE: 'app-rules:save',
+    /** Get names and bundle IDs of recently dictated-into apps */
+    RECENT_APPS: 'app-rules:recent-apps',
+  },
+  PROMPT_TEMPLATES: {
+    /** Get prompt templates */
+    LIST: 'prompt-templates:list',
+    /** Validate and replace prompt templates */
+    SAVE: 'prompt-templates:save',
+    /** Render a template against sample text */
+    PREVIEW: 'prompt-templates:preview',
+    /** Import templates from a JSON file (opens a file dialog) */
+    IMPORT_JSON: 'prompt-templates:import-json',
+    /** Export templates to a JSON file (opens a save dialog) */
+    EXPORT_JSON: 'prompt-templates:export-json',
+  },
+  VOICE_COMMANDS: {
+    /** Get the voice command grammar */
+    LIST: 'voice-commands:list',
+    /** Validate and replace the voice command grammar */
+    SAVE: 'voice-commands:save',
+  },
+  VOCABULARY: {
+    /** Get vocabulary entries */
+    GET_ENTRIES: 'vocabulary:get-entries',
+    /** Replace vocabulary entries */
+    SAVE_ENTRIES: 'vocabulary:save-entries',
+    /** Import entries from a CSV file (opens a file dialog) */
+    IMPORT_CSV: 'vocabulary:import-csv',
+    /** Export entries to a CSV file (opens a save dialog) */
+    EXPORT_CSV: 'vocabulary:export-csv',
+  },
+  RECORDING_ARCHIVE: {
+    /** List archived recordings */
+    LIST: 'recording-archive:list',
+    /** Delete an archived recording */
+    DELETE: 'recording-archive:delete',
+    /** Feed an archived recording back through ASR */
+    RERUN: 'recording-archive:rerun',
+    /** Open the recordings folder in the file manager */
+    OPEN_FOLDER: 'recording-archive:open-folder',
+  },
+  HISTORY: {
+    /** List dictation history, optionally filtered by a search query */
+    LIST: 'history:list',
+    /** Delete a history entry */
+    DELETE: 'history:delete',
+    /** Delete all history entries */
+    CLEAR: 'history:clear',
+    /** Copy an entry's text to the clipboard */
+    COPY: 'history:copy',
+    /** Insert an entry's text at the cursor of the previous app */
+    REINSERT: 'history:reinsert',
+    /** History changed (Main -> Renderer) */
+    UPDATED: 'history:updated',
   },
 } as const;
@@ -6,8 +6,11 @@
 // Types
 export type {
   ASRConfig,
+  ASRProviderType,
   ASRResult,
+  ASRSegment,
   ASRStatus,
+  ASRWord,
   AudioChunk,
 } from './types';
 
@@ -0,0 +1,47 @@
+/**
+ * Application rule type definitions.
+ * Shared between main and renderer processes.
+ */
+
+import type { InsertMethod } from './profile';
+
+/**
+ * Casing applied to the final text, e.g. for identifiers in a terminal.
+ * - none: keep the text as it is
+ * - lower: lowercase everything
+ * - camel / snake / kebab: join the words as an identifier
+ */
+export type TextCasing = 'none' | 'lower' | 'camel' | 'snake' | 'kebab';
+
+/**
+ * Dictation overrides for the applications a rule matches.
+ * Empty or null fields keep the value of the dictation profile.
+ */
+export interface AppRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** App names or macOS bundle IDs, matched case-insensitively */
+  apps: string[];
+  /** Whether the text goes through the LLM (null = keep, or on if the rule sets a prompt) */
+  llmEnabled: boolean | null;
+  /** Prompt template ID (empty = keep) */
+  promptTemplateId: string;
+  /** LLM prompt, used when no template is set (empty = keep) */
+  llmPrompt: string;
+  /** Insert method (null = keep) */
+  insertMethod: InsertMethod | null;
+  /** Remove a trailing period from the final text */
+  stripTrailingPeriod: boolean;
+  casing: TextCasing;
+}
+
+/**
+ * Result of saving the rule list.
+ */
+export interface AppRuleSaveResult {
+  success: boolean;
+  /** Saved rules with assigned IDs */
+  rules?: AppRule[];
+  error?: string;
+}
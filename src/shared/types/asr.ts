@@ -4,12 +4,50 @@
  */
 
 /**
- * ASR configuration for Volcengine service.
+ * Available ASR provider backends.
+ * - volcengine: Volcengine BigModel streaming ASR over WebSocket
+ * - whisper: OpenAI-Whisper-compatible HTTP endpoint (non-streaming)
+ * - mock: Bundled stand-in that replays scripted transcripts (offline)
+ */
+export type ASRProviderType = 'volcengine' | 'whisper' | 'mock';
+
+/**
+ * ASR configuration.
+ * Credentials are only required by the Volcengine provider.
  */
 export interface ASRConfig {
+  provider: ASRProviderType;
   appId: string;
   accessToken: string;
   resourceId: string; // "volc.bigasr.sauc.duration"
+  /** Recognition language for this session, e.g. "en-US" (default: from settings) */
+  language?: string;
+}
+
+/**
+ * A recognized word with its position in the session audio.
+ * Times are milliseconds from the start of the recording.
+ */
+export interface ASRWord {
+  text: string;
+  startTime: number;
+  endTime: number;
+  /** Recognition confidence in [0, 1], when the provider reports it */
+  confidence?: number;
+}
+
+/**
+ * A recognized utterance (sentence) with word-level detail.
+ */
+export interface ASRSegment {
+  text: string;
+  startTime: number;
+  endTime: number;
+  /** Recognition confidence in [0, 1], when the provider reports it */
+  confidence?: number;
+  /** Whether the provider will no longer revise this utterance */
+  definite: boolean;
+  words: ASRWord[];
 }
 
 /**
@@ -21,6 +59,8 @@ export interface ASRResult {
   isFinal: boolean;
   /** Whether the text has been optimized by LLM */
   isOptimized?: boolean;
+  /** Utterance and word timing, for providers that report it */
+  segments?: ASRSegment[];
 }
 
 /**
@@ -42,6 +82,35 @@ export type ASRStatus =
   | 'done'
   | 'error';
 
+/**
+ * ASR failure categories, used to pick the guidance shown with an error.
+ */
+export enum ASRErrorCategory {
+  /** Credentials missing, wrong or not granted the resource */
+  AUTH = 'auth',
+  /** Usage quota, balance or concurrency limit reached */
+  QUOTA = 'quota',
+  /** Server unreachable or connection lost */
+  NETWORK = 'network',
+  /** Request rejected or response not understood */
+  PROTOCOL = 'protocol',
+  /** Connection or recognition took too long */
+  TIMEOUT = 'timeout',
+  /** No audio with speech reached the server */
+  NO_SPEECH = 'no-speech',
+}
+
+/**
+ * Error sent to the renderer over `asr:error`.
+ */
+export interface ASRErrorInfo {
+  message: string;
+  /** Failure category, absent for errors outside recognition */
+  category?: ASRErrorCategory;
+  /** Error code reported by the server */
+  code?: number;
+}
+
 /**
  * Audio chunk data (PCM format).
  */
@@ -50,3 +119,33 @@ export interface AudioChunk {
   sampleRate: 16000;
   channels: 1;
 }
+
+/**
+ * Volcengine credentials to test, e.g. unsaved values from the settings page.
+ */
+export interface ASRConnectionTestRequest {
+  appId: string;
+  accessToken: string;
+  resourceId: string;
+}
+
+/**
+ * Result of an ASR connection test.
+ */
+export interface ASRConnectionTestResult {
+  success: boolean;
+  /** Time until the WebSocket handshake completed (ms) */
+  handshakeMs?: number;
+  /** Time from the end of the test clip until the final result (ms) */
+  responseMs?: number;
+  /** Failure category */
+  category?: ASRErrorCategory;
+  /** Error code from the server's error frame */
+  errorCode?: number;
+  /** HTTP status of a rejected handshake */
+  statusCode?: number;
+  /** Error message, when the test failed */
+  error?: string;
+  /** What to check next */
+  hints: string[];
+}
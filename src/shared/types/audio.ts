@@ -0,0 +1,22 @@
+/**
+ * Audio input device type definitions.
+ * Used by both main process and renderer process.
+ */
+
+/**
+ * A microphone reported by `navigator.mediaDevices.enumerateDevices()`.
+ */
+export interface AudioInputDevice {
+  deviceId: string;
+  /** Human-readable name (empty until microphone permission is granted) */
+  label: string;
+}
+
+/**
+ * Known microphones and the preferred one.
+ */
+export interface AudioInputDeviceState {
+  devices: AudioInputDevice[];
+  /** Preferred deviceId, empty for the system default */
+  selectedDeviceId: string;
+}
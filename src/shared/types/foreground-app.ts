@@ -0,0 +1,18 @@
+/**
+ * Foreground application type definitions.
+ * Used by both main process and renderer process.
+ */
+
+/**
+ * The application that had keyboard focus.
+ */
+export interface ForegroundApp {
+  /** Display or process name, e.g. "Visual Studio Code" or "Code" */
+  name: string;
+  /** macOS bundle identifier, e.g. "com.microsoft.VSCode" */
+  bundleId?: string;
+  /** Process ID */
+  pid?: number;
+  /** Native handle of the focused window (Windows HWND, X11 window ID) */
+  windowId?: string;
+}
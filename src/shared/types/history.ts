@@ -0,0 +1,31 @@
+/**
+ * Dictation history type definitions.
+ * Used by both main process and renderer process.
+ */
+
+import type { ForegroundApp } from './foreground-app';
+
+/**
+ * A completed dictation session.
+ */
+export interface HistoryEntry {
+  id: string;
+  /** ISO timestamp of the session start */
+  createdAt: string;
+  /** Recognized text after vocabulary replacements */
+  rawText: string;
+  /** LLM-optimized text, null when optimization did not run or failed */
+  optimizedText: string | null;
+  /** Application focused when the session started, null if unknown */
+  targetApp: ForegroundApp | null;
+  /** Key down to end of processing */
+  durationMs: number;
+}
+
+/**
+ * Result of a history action that touches the system (clipboard, insertion).
+ */
+export interface HistoryActionResult {
+  success: boolean;
+  error?: string;
+}
@@ -5,11 +5,74 @@
 
 export type {
   ASRConfig,
+  ASRProviderType,
   ASRResult,
+  ASRSegment,
   ASRStatus,
+  ASRWord,
   AudioChunk,
 } from './asr';
 
 export type {
   EnvConfig,
+  SecretSettingKey,
+  SettingKey,
 } from './settings';
+
+export type {
+  ActivationMode,
+  HotkeyInfo,
+  HotkeyResult,
+} from './keyboard';
+
+export type {
+  DictationProfile,
+  InsertMethod,
+  ProfileSaveResult,
+} from './profile';
+
+export type {
+  AppRule,
+  AppRuleSaveResult,
+  TextCasing,
+} from './app-rule';
+
+export type {
+  PromptTemplate,
+  PromptTemplatePreview,
+  PromptTemplateSaveResult,
+  PromptTemplateTransferResult,
+} from './prompt-template';
+
+export type {
+  VoiceCommand,
+  VoiceCommandAction,
+  VoiceCommandSaveResult,
+} from './voice-command';
+
+export type {
+  AudioInputDevice,
+  AudioInputDeviceState,
+} from './audio';
+
+export type {
+  VocabularyEntry,
+  VocabularyImportMode,
+  VocabularyTransferResult,
+} from './vocabulary';
+
+export type {
+  RecordingInterimResult,
+  RecordingMetadata,
+  RecordingRerunResult,
+  RecordingTimings,
+} from './recording-archive';
+
+export type {
+  ForegroundApp,
+} from './foreground-app';
+
+export type {
+  HistoryActionResult,
+  HistoryEntry,
+} from './history';
@@ -0,0 +1,32 @@
+/**
+ * Keyboard trigger type definitions.
+ * Shared between main and renderer processes.
+ */
+
+/**
+ * How the trigger key starts and stops a dictation session.
+ * - hold: recording lasts while the key is held down
+ * - toggle: one press starts recording, the next press stops it
+ * - double-tap: a quick double press starts recording, another one stops it
+ */
+export type ActivationMode = 'hold' | 'toggle' | 'double-tap';
+
+/**
+ * A trigger hotkey as stored in settings and shown to the user.
+ */
+export interface HotkeyInfo {
+  /** Stored binding, e.g. "ctrl+shift+57" */
+  value: string;
+  /** Display name, e.g. "Ctrl+Shift+Space" */
+  label: string;
+}
+
+/**
+ * Result of capturing or changing the trigger hotkey.
+ */
+export interface HotkeyResult {
+  success: boolean;
+  /** The captured or applied hotkey */
+  hotkey?: HotkeyInfo;
+  error?: string;
+}
@@ -0,0 +1,44 @@
+/**
+ * Dictation profile type definitions.
+ * Shared between main and renderer processes.
+ */
+
+import type { HotkeyInfo } from './keyboard';
+
+/**
+ * How recognized text reaches the focused application.
+ * - auto: platform default (typing on macOS, paste elsewhere)
+ * - type: simulate typing the text
+ * - paste: put the text on the clipboard and paste it
+ * - clipboard: only copy the text; the user pastes it
+ */
+export type InsertMethod = 'auto' | 'type' | 'paste' | 'clipboard';
+
+/**
+ * A dictation pipeline bound to its own trigger hotkey.
+ */
+export interface DictationProfile {
+  id: string;
+  name: string;
+  /** Trigger hotkey, or null if the profile has none yet */
+  hotkey: HotkeyInfo | null;
+  /** Recognition language, e.g. "en-US" (empty = ASR setting) */
+  asrLanguage: string;
+  /** Whether the recognized text goes through the LLM */
+  llmEnabled: boolean;
+  /** LLM prompt (empty = prompt from the LLM settings) */
+  llmPrompt: string;
+  /** Prompt template ID; takes precedence over llmPrompt (empty = none) */
+  promptTemplateId: string;
+  insertMethod: InsertMethod;
+}
+
+/**
+ * Result of saving the profile list.
+ */
+export interface ProfileSaveResult {
+  success: boolean;
+  /** Saved profiles with normalized hotkeys */
+  profiles?: DictationProfile[];
+  error?: string;
+}
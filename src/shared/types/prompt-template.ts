@@ -0,0 +1,52 @@
+/**
+ * Prompt template type definitions.
+ * Shared between main and renderer processes.
+ */
+
+/**
+ * A named LLM prompt split into a system and a user message.
+ *
+ * Both messages may contain variables, filled in for each dictation:
+ * {{text}}, {{app_name}}, {{language}}, {{date}} and {{clipboard}}.
+ * The user message must contain {{text}}.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** System message (empty = no system message) */
+  system: string;
+  /** User message */
+  user: string;
+}
+
+/**
+ * Messages rendered from a template.
+ */
+export interface PromptTemplatePreview {
+  system: string;
+  user: string;
+}
+
+/**
+ * Result of saving the template list.
+ */
+export interface PromptTemplateSaveResult {
+  success: boolean;
+  /** Saved templates with assigned IDs */
+  templates?: PromptTemplate[];
+  error?: string;
+}
+
+/**
+ * Result of a JSON import or export.
+ */
+export interface PromptTemplateTransferResult {
+  success: boolean;
+  /** The user dismissed the file dialog */
+  canceled?: boolean;
+  /** Number of templates imported or exported */
+  count?: number;
+  /** Templates after an import */
+  templates?: PromptTemplate[];
+  error?: string;
+}
@@ -0,0 +1,54 @@
+/**
+ * Recording archive type definitions.
+ * Used by both main process and renderer process.
+ */
+
+import type { ASRProviderType } from './asr';
+
+/**
+ * An interim result observed while recording.
+ */
+export interface RecordingInterimResult {
+  /** Milliseconds since the session started */
+  offsetMs: number;
+  text: string;
+}
+
+/**
+ * Timings of an archived session, in milliseconds.
+ */
+export interface RecordingTimings {
+  /** Key down to key up */
+  recordingMs: number;
+  /** Key up until the final ASR result */
+  recognitionMs: number;
+  /** LLM optimization, null when it did not run */
+  llmMs: number | null;
+}
+
+/**
+ * JSON sidecar stored next to each archived WAV file.
+ */
+export interface RecordingMetadata {
+  version: 1;
+  id: string;
+  /** ISO timestamp of the session start */
+  createdAt: string;
+  /** Length of the recorded audio */
+  audioDurationMs: number;
+  provider: ASRProviderType;
+  interimResults: RecordingInterimResult[];
+  finalText: string;
+  /** LLM-optimized text, null when optimization did not run or failed */
+  optimizedText: string | null;
+  timings: RecordingTimings;
+}
+
+/**
+ * Result of feeding an archived recording back through ASR.
+ */
+export interface RecordingRerunResult {
+  success: boolean;
+  text?: string;
+  error?: string;
+}
@@ -1,21 +1,131 @@
 /**
  * Settings type definitions.
+ *
+ * Settings keep the names and string values of the environment variables
+ * they replace, so the main process can apply them to `process.env`.
  */
 
-export type EnvConfig = {
-  VOLCENGINE_APP_ID: string;
-  VOLCENGINE_ACCESS_TOKEN: string;
-  VOLCENGINE_RESOURCE_ID: string;
-  /** Push-to-talk trigger key code (default: 574 = Right Ctrl) */
-  PUSH_TO_TALK_KEY?: string;
+import { z } from 'zod';
+
+/**
+ * A "true"/"false" switch.
+ */
+const flag = (value: 'true' | 'false') => z.enum(['true', 'false']).default(value);
+
+/**
+ * A decimal number, e.g. "300" or "-50".
+ */
+const numeric = (value: string) =>
+  z.string().trim().regex(/^-?\d+(\.\d+)?$/, '必须是数字').default(value);
+
+/**
+ * Application settings, validated when they are saved and when they are
+ * loaded from disk.
+ */
+export const settingsSchema = z.object({
+  /** ASR provider: "volcengine" (default), "whisper" or "mock" */
+  ASR_PROVIDER: z.enum(['volcengine', 'whisper', 'mock']).default('volcengine'),
+  /** Whisper-compatible server base URL */
+  WHISPER_BASE_URL: z.string().trim().default('http://127.0.0.1:8080'),
+  /** Whisper model name */
+  WHISPER_MODEL: z.string().trim().default('whisper-1'),
+  /** Whisper server API key (optional) */
+  WHISPER_API_KEY: z.string().trim().default(''),
+  /** Whisper language hint, e.g. "zh" (optional) */
+  WHISPER_LANGUAGE: z.string().trim().default(''),
+  /** Transcripts replayed by the mock ASR provider, separated by "|" */
+  ASR_MOCK_TRANSCRIPTS: z.string().default(''),
+  VOLCENGINE_APP_ID: z.string().trim().default(''),
+  VOLCENGINE_ACCESS_TOKEN: z.string().trim().default(''),
+  VOLCENGINE_RESOURCE_ID: z.string().trim().default('volc.bigasr.sauc.duration'),
+  /** Volcengine recognition language, e.g. "zh-CN" (empty = model decides) */
+  VOLCENGINE_ASR_LANGUAGE: z.string().trim().default(''),
+  /** Add punctuation */
+  VOLCENGINE_ASR_ENABLE_PUNC: flag('true'),
+  /** Inverse text normalization */
+  VOLCENGINE_ASR_ENABLE_ITN: flag('true'),
+  /** Disfluency removal */
+  VOLCENGINE_ASR_ENABLE_DDC: flag('true'),
+  /** Hotwords separated by commas */
+  VOLCENGINE_ASR_HOTWORDS: z.string().default(''),
+  /** Hotword boosting table ID from the Volcengine console */
+  VOLCENGINE_ASR_BOOSTING_TABLE_ID: z.string().trim().default(''),
+  /** Hotword boosting table name from the Volcengine console */
+  VOLCENGINE_ASR_BOOSTING_TABLE_NAME: z.string().trim().default(''),
+  /** Push-to-talk trigger hotkey, e.g. "3613" (Right Ctrl) or "ctrl+shift+57" */
+  PUSH_TO_TALK_KEY: z.string().trim().min(1, '触发键不能为空').default('3613'),
+  /** Trigger key activation mode */
+  PUSH_TO_TALK_MODE: z.enum(['hold', 'toggle', 'double-tap']).default('hold'),
+  /** Stop a session automatically after this many seconds ("0" = no limit) */
+  MAX_SESSION_SECONDS: numeric('300'),
+  /** Hotkey that undoes the last dictation, e.g. "ctrl+alt+90" (empty = none) */
+  UNDO_HOTKEY: z.string().trim().default(''),
+  /** Microphone deviceId from enumerateDevices (empty = system default) */
+  AUDIO_INPUT_DEVICE_ID: z.string().default(''),
+  /** Drop leading and trailing silence before sending audio */
+  VAD_ENABLED: flag('true'),
+  /** Speech detection level in dBFS, e.g. "-50" */
+  VAD_THRESHOLD_DB: numeric('-50'),
+  /** Stop recording after this much silence following speech (ms, "0" = off) */
+  VAD_AUTO_STOP_MS: numeric('0'),
   /** Whether LLM optimization is enabled */
-  VOLCENGINE_LLM_ENABLED?: string;
+  VOLCENGINE_LLM_ENABLED: flag('false'),
+  /** LLM provider: "volcengine" or "openai" (any OpenAI-compatible server) */
+  LLM_PROVIDER: z.enum(['volcengine', 'openai']).default('volcengine'),
   /** LLM API key */
-  VOLCENGINE_LLM_API_KEY?: string;
+  VOLCENGINE_LLM_API_KEY: z.string().trim().default(''),
   /** LLM model name */
-  VOLCENGINE_LLM_MODEL?: string;
+  VOLCENGINE_LLM_MODEL: z.string().trim().default('skylark2-pro-32k'),
   /** LLM optimization prompt */
-  VOLCENGINE_LLM_PROMPT?: string;
+  VOLCENGINE_LLM_PROMPT: z
+    .string()
+    .default('请将以下口语化的文本优化为书面语，保持原意不变，修正语法错误，使表达更加流畅自然：'),
   /** LLM API base URL */
-  VOLCENGINE_LLM_BASE_URL?: string;
-};
\ No newline at end of file
+  VOLCENGINE_LLM_BASE_URL: z.string().trim().default('https://ark.cn-beijing.volces.com/api/v3'),
+  /** Stream the LLM response and preview it while it is generated */
+  VOLCENGINE_LLM_STREAM: flag('true'),
+  /** Insert streamed text sentence by sentence before the response completes */
+  VOLCENGINE_LLM_EARLY_INSERT: flag('false'),
+  /** OpenAI-compatible server base URL, including the /v1 prefix */
+  OPENAI_LLM_BASE_URL: z.string().trim().default('http://127.0.0.1:8080/v1'),
+  /** OpenAI-compatible API key (optional for local servers) */
+  OPENAI_LLM_API_KEY: z.string().trim().default(''),
+  /** OpenAI-compatible model ID */
+  OPENAI_LLM_MODEL: z.string().trim().default(''),
+  /** Extra request headers as "Name: value" pairs separated by | */
+  OPENAI_LLM_HEADERS: z.string().default(''),
+  /** Whether utterances that are voice commands are executed */
+  VOICE_COMMANDS_ENABLED: flag('true'),
+  /** Phrase that must precede every voice command (empty = none) */
+  VOICE_COMMAND_PREFIX: z.string().trim().default(''),
+  /** Whether dictation sessions are archived as WAV + JSON */
+  RECORDING_ARCHIVE_ENABLED: flag('false'),
+  /** Number of most recent archived sessions to keep */
+  RECORDING_ARCHIVE_MAX_SESSIONS: numeric('50'),
+});
+
+export type EnvConfig = z.infer<typeof settingsSchema>;
+
+/**
+ * Name of a setting.
+ */
+export type SettingKey = keyof EnvConfig;
+
+/**
+ * Settings stored encrypted and never sent to the renderer in plain text.
+ */
+export const SECRET_SETTINGS = [
+  'VOLCENGINE_ACCESS_TOKEN',
+  'VOLCENGINE_LLM_API_KEY',
+  'WHISPER_API_KEY',
+  'OPENAI_LLM_API_KEY',
+] as const satisfies readonly SettingKey[];
+
+export type SecretSettingKey = (typeof SECRET_SETTINGS)[number];
+
+/**
+ * Placeholder the renderer receives for a stored secret. Saving it back
+ * keeps the stored value; any other value replaces it, and an empty value
+ * removes it.
+ */
+export const SECRET_MASK = '••••••••';
@@ -0,0 +1,38 @@
+/**
+ * Vocabulary type definitions.
+ * Used by both main process and renderer process.
+ */
+
+/**
+ * A custom vocabulary term.
+ */
+export interface VocabularyEntry {
+  id: string;
+  /** Correct spelling, e.g. a product name or code identifier */
+  term: string;
+  /** Misrecognized forms that are replaced with the term after recognition */
+  aliases: string[];
+  /** Whether the term is sent to the ASR provider as a boosting hotword */
+  boost: boolean;
+}
+
+/**
+ * How imported entries are combined with the existing list.
+ * - merge: Entries with the same term are updated, others are appended
+ * - replace: The existing list is discarded
+ */
+export type VocabularyImportMode = 'merge' | 'replace';
+
+/**
+ * Result of a CSV import or export.
+ */
+export interface VocabularyTransferResult {
+  success: boolean;
+  /** The user dismissed the file dialog */
+  canceled?: boolean;
+  /** Number of entries imported or exported */
+  count?: number;
+  /** Vocabulary after an import */
+  entries?: VocabularyEntry[];
+  error?: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * Voice command type definitions.
+ * Shared between main and renderer processes.
+ */
+
+/**
+ * What a voice command does.
+ * - keys: press a key sequence, e.g. "mod+z" or "shift+home backspace"
+ * - text: insert fixed text, e.g. a punctuation mark
+ * - delete-dictation: remove the text the previous dictation inserted
+ */
+export type VoiceCommandAction = 'keys' | 'text' | 'delete-dictation';
+
+/**
+ * An utterance that is executed instead of inserted.
+ */
+export interface VoiceCommand {
+  id: string;
+  /** Spoken forms, e.g. ["撤销", "undo"] */
+  phrases: string[];
+  action: VoiceCommandAction;
+  /** Key sequence or text, depending on the action (unused for delete-dictation) */
+  value: string;
+}
+
+/**
+ * Result of saving the command list.
+ */
+export interface VoiceCommandSaveResult {
+  success: boolean;
+  /** Saved commands with assigned IDs */
+  commands?: VoiceCommand[];
+  error?: string;
+}
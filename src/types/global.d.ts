@@ -3,9 +3,39 @@
  * Extends the Window interface with the exposed API.
  */
 
-import type { ASRConfig, ASRResult, ASRStatus } from '../shared/types/asr';
+import type {
+  ASRConfig,
+  ASRConnectionTestRequest,
+  ASRConnectionTestResult,
+  ASRErrorInfo,
+  ASRResult,
+  ASRStatus,
+} from '../shared/types/asr';
 import type { EnvConfig } from '../shared/types/settings';
-import type { LLMConfig, LLMRequestOptions } from '../main/services/llm/types';
+import type { ActivationMode, HotkeyInfo, HotkeyResult } from '../shared/types/keyboard';
+import type { AudioInputDevice, AudioInputDeviceState } from '../shared/types/audio';
+import type { DictationProfile, ProfileSaveResult } from '../shared/types/profile';
+import type { AppRule, AppRuleSaveResult } from '../shared/types/app-rule';
+import type {
+  PromptTemplate,
+  PromptTemplatePreview,
+  PromptTemplateSaveResult,
+  PromptTemplateTransferResult,
+} from '../shared/types/prompt-template';
+import type { VoiceCommand, VoiceCommandSaveResult } from '../shared/types/voice-command';
+import type {
+  VocabularyEntry,
+  VocabularyImportMode,
+  VocabularyTransferResult,
+} from '../shared/types/vocabulary';
+import type { RecordingMetadata, RecordingRerunResult } from '../shared/types/recording-archive';
+import type { HistoryActionResult, HistoryEntry } from '../shared/types/history';
+import type {
+  LLMConfig,
+  LLMModelListResult,
+  LLMModelQuery,
+  LLMRequestOptions,
+} from '../main/services/llm/types';
 
 /**
  * ASR API interface exposed via contextBridge.
@@ -28,6 +58,22 @@ interface ASRApi {
    */
   sendAudio: (chunk: ArrayBuffer) => void;
 
+  /**
+   * Request the session to end because the speaker has gone silent.
+   */
+  autoStop: () => void;
+
+  /**
+   * Report that recording stopped and the last audio chunk was sent.
+   */
+  recordingStopped: () => void;
+
+  /**
+   * Stream a test clip to Volcengine with the given credentials.
+   * @param request - Credentials; a masked Access Token means the saved one
+   */
+  testConnection: (request: ASRConnectionTestRequest) => Promise<ASRConnectionTestResult>;
+
   /**
    * Subscribe to ASR results.
    * @param callback - Called when ASR result is received
@@ -47,7 +93,7 @@ interface ASRApi {
    * @param callback - Called when ASR error occurs
    * @returns Unsubscribe function
    */
-  onError: (callback: (error: string) => void) => () => void;
+  onError: (callback: (error: ASRErrorInfo) => void) => () => void;
 }
 
 /**
@@ -69,6 +115,13 @@ interface FloatingWindowApi {
    * @param height - Content height in pixels (from scrollHeight)
    */
   setContentHeight: (height: number) => void;
+
+  /**
+   * Subscribe to the activation mode of each new session.
+   * @param callback - Called when a session starts
+   * @returns Unsubscribe function
+   */
+  onActivationMode: (callback: (mode: ActivationMode) => void) => () => void;
 }
 
 /**
@@ -76,20 +129,93 @@ interface FloatingWindowApi {
  */
 interface SettingsApi {
   /**
-   * Get current environment configuration.
+   * Get current settings.
    */
   getEnvConfig: () => Promise<EnvConfig>;
 
   /**
-   * Update environment configuration.
-   * @param config - New environment configuration
+   * Validate and save settings. Changed values apply without a restart.
+   * @param config - Complete settings
    */
   updateEnvConfig: (config: EnvConfig) => Promise<void>;
 
   /**
-   * Apply default configuration from .env.example.
+   * Restore the default settings.
    */
   applyDefaultConfig: () => Promise<void>;
+
+  /**
+   * Subscribe to saved settings.
+   * @param callback - Called with the complete settings
+   * @returns Unsubscribe function
+   */
+  onChanged: (callback: (config: EnvConfig) => void) => () => void;
+}
+
+/**
+ * Keyboard API interface exposed via contextBridge.
+ */
+interface KeyboardApi {
+  /**
+   * Get the current trigger hotkey.
+   */
+  getHotkey: () => Promise<HotkeyInfo>;
+
+  /**
+   * Wait for the user to press a new trigger hotkey (not applied yet).
+   */
+  captureHotkey: () => Promise<HotkeyResult>;
+
+  /**
+   * Cancel a pending hotkey capture.
+   */
+  cancelCapture: () => Promise<void>;
+
+  /**
+   * Validate, save and apply a trigger hotkey without restarting.
+   * @param value - Binding in stored form, e.g. "ctrl+shift+57"
+   */
+  setHotkey: (value: string) => Promise<HotkeyResult>;
+
+  /**
+   * Get the hotkey that undoes the last dictation (null if none is set).
+   */
+  getUndoHotkey: () => Promise<HotkeyInfo | null>;
+
+  /**
+   * Validate, save and apply the undo hotkey without restarting.
+   * @param value - Binding in stored form, or null to remove the hotkey
+   */
+  setUndoHotkey: (value: string | null) => Promise<HotkeyResult>;
+}
+
+/**
+ * Audio API interface exposed via contextBridge.
+ */
+interface AudioApi {
+  /**
+   * Report the available microphones to the main process.
+   * @param devices - Audio input devices from enumerateDevices()
+   */
+  reportDevices: (devices: AudioInputDevice[]) => void;
+
+  /**
+   * Get the available microphones and the preferred one.
+   */
+  getDevices: () => Promise<AudioInputDeviceState>;
+
+  /**
+   * Set and persist the preferred microphone.
+   * @param deviceId - Device ID, or empty for the system default
+   */
+  setInputDevice: (deviceId: string) => Promise<void>;
+
+  /**
+   * Subscribe to microphone list or preference changes.
+   * @param callback - Called with the new device state
+   * @returns Unsubscribe function
+   */
+  onDevicesChanged: (callback: (state: AudioInputDeviceState) => void) => () => void;
 }
 
 /**
@@ -132,6 +258,195 @@ interface LLMApi {
    * Reload LLM configuration from environment.
    */
   reloadConfig: () => Promise<void>;
+
+  /**
+   * List models offered by the LLM server.
+   * @param query - Unsaved connection settings to use instead of the current ones
+   */
+  listModels: (query?: LLMModelQuery) => Promise<LLMModelListResult>;
+}
+
+/**
+ * Dictation profiles API interface exposed via contextBridge.
+ */
+interface ProfilesApi {
+  /**
+   * Get dictation profiles.
+   */
+  list: () => Promise<DictationProfile[]>;
+
+  /**
+   * Replace dictation profiles. Their hotkeys take effect immediately.
+   * @param profiles - Full profile list
+   */
+  save: (profiles: DictationProfile[]) => Promise<ProfileSaveResult>;
+}
+
+/**
+ * Application rules API interface exposed via contextBridge.
+ */
+interface AppRulesApi {
+  /**
+   * Get application rules in priority order.
+   */
+  list: () => Promise<AppRule[]>;
+
+  /**
+   * Replace application rules. Takes effect on the next dictation.
+   * @param rules - Full rule list in priority order
+   */
+  save: (rules: AppRule[]) => Promise<AppRuleSaveResult>;
+
+  /**
+   * Get names and bundle IDs of apps recently dictated into.
+   */
+  getRecentApps: () => Promise<string[]>;
+}
+
+/**
+ * Prompt templates API interface exposed via contextBridge.
+ */
+interface PromptTemplatesApi {
+  /**
+   * Get prompt templates.
+   */
+  list: () => Promise<PromptTemplate[]>;
+
+  /**
+   * Replace prompt templates.
+   * @param templates - Full template list
+   */
+  save: (templates: PromptTemplate[]) => Promise<PromptTemplateSaveResult>;
+
+  /**
+   * Render a template's messages against sample text.
+   * @param template - System and user messages to render
+   * @param text - Sample text for {{text}}
+   */
+  preview: (template: PromptTemplatePreview, text: string) => Promise<PromptTemplatePreview>;
+
+  /**
+   * Import templates from a JSON file chosen by the user.
+   * Templates with the same name are replaced.
+   */
+  importJson: () => Promise<PromptTemplateTransferResult>;
+
+  /**
+   * Export templates to a JSON file chosen by the user.
+   */
+  exportJson: () => Promise<PromptTemplateTransferResult>;
+}
+
+/**
+ * Voice commands API interface exposed via contextBridge.
+ */
+interface VoiceCommandsApi {
+  /**
+   * Get the voice command grammar.
+   */
+  list: () => Promise<VoiceCommand[]>;
+
+  /**
+   * Replace the voice command grammar. Takes effect on the next dictation.
+   * @param commands - Full command list
+   */
+  save: (commands: VoiceCommand[]) => Promise<VoiceCommandSaveResult>;
+}
+
+/**
+ * Vocabulary API interface exposed via contextBridge.
+ */
+interface VocabularyApi {
+  /**
+   * Get vocabulary entries.
+   */
+  getEntries: () => Promise<VocabularyEntry[]>;
+
+  /**
+   * Replace vocabulary entries.
+   * @param entries - Full vocabulary list
+   * @returns The saved entries
+   */
+  saveEntries: (entries: VocabularyEntry[]) => Promise<VocabularyEntry[]>;
+
+  /**
+   * Import entries from a CSV file chosen in a file dialog.
+   * @param mode - Merge with or replace the existing list
+   */
+  importCsv: (mode?: VocabularyImportMode) => Promise<VocabularyTransferResult>;
+
+  /**
+   * Export entries to a CSV file chosen in a save dialog.
+   */
+  exportCsv: () => Promise<VocabularyTransferResult>;
+}
+
+/**
+ * Recording Archive API interface exposed via contextBridge.
+ */
+interface RecordingArchiveApi {
+  /**
+   * List archived recordings, newest first.
+   */
+  list: () => Promise<RecordingMetadata[]>;
+
+  /**
+   * Delete an archived recording.
+   * @param id - Recording ID
+   */
+  delete: (id: string) => Promise<void>;
+
+  /**
+   * Feed an archived recording back through ASR.
+   * @param id - Recording ID
+   */
+  rerun: (id: string) => Promise<RecordingRerunResult>;
+
+  /**
+   * Open the recordings folder in the file manager.
+   */
+  openFolder: () => Promise<void>;
+}
+
+/**
+ * History API interface exposed via contextBridge.
+ */
+interface HistoryApi {
+  /**
+   * List dictation history, newest first.
+   * @param query - Optional case-insensitive search text
+   */
+  list: (query?: string) => Promise<HistoryEntry[]>;
+
+  /**
+   * Delete a history entry.
+   * @param id - History entry ID
+   */
+  delete: (id: string) => Promise<void>;
+
+  /**
+   * Delete all history entries.
+   */
+  clear: () => Promise<void>;
+
+  /**
+   * Copy an entry's text to the clipboard.
+   * @param id - History entry ID
+   */
+  copy: (id: string) => Promise<HistoryActionResult>;
+
+  /**
+   * Insert an entry's text at the cursor of the previously focused app.
+   * @param id - History entry ID
+   */
+  reinsert: (id: string) => Promise<HistoryActionResult>;
+
+  /**
+   * Subscribe to history changes.
+   * @param callback - Called when entries are added or removed
+   * @returns Unsubscribe function
+   */
+  onUpdated: (callback: () => void) => () => void;
 }
 
 /**
@@ -141,7 +456,16 @@ interface AppApi {
   asr: ASRApi;
   floatingWindow: FloatingWindowApi;
   settings: SettingsApi;
+  keyboard: KeyboardApi;
+  audio: AudioApi;
   llm: LLMApi;
+  profiles: ProfilesApi;
+  promptTemplates: PromptTemplatesApi;
+  appRules: AppRulesApi;
+  voiceCommands: VoiceCommandsApi;
+  vocabulary: VocabularyApi;
+  recordingArchive: RecordingArchiveApi;
+  history: HistoryApi;
 }
 
 declare global {
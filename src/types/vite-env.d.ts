@@ -8,3 +8,12 @@ declare const MAIN_WINDOW_VITE_NAME: string;
 
 declare const FLOATING_WINDOW_VITE_DEV_SERVER_URL: string | undefined;
 declare const FLOATING_WINDOW_VITE_NAME: string;
+
+/**
+ * Vite `?worker&url` imports bundle the module separately and resolve to its URL.
+ * Used to load AudioWorklet modules.
+ */
+declare module '*?worker&url' {
+  const url: string;
+  export default url;
+}